@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { filterData, prepareGroupedBarData, prepareLineChartData } from '@/lib/data-processor'
+import { getDataset } from '@/lib/server-data'
+import { getAmountUnit } from '@/lib/number-format'
+import { preparePricePoints } from '@/lib/price'
+import { loadRequestData, readApiRequest, paginate, errorResponse, ApiError } from '@/lib/api-utils'
+
+const CHART_TYPES = ['bar', 'line'] as const
+type ChartType = typeof CHART_TYPES[number]
+
+/**
+ * Aggregated chart series
+ * ?chart=bar returns the grouped bar chart points, ?chart=line the line chart points
+ */
+async function handle(request: Request) {
+  try {
+    const data = await loadRequestData(request)
+    const { filters, pagination, params } = await readApiRequest(request, data)
+
+    const chart = (params.get('chart') || 'bar') as ChartType
+    if (!CHART_TYPES.includes(chart)) {
+      throw new ApiError(400, 'Invalid request', [`chart must be one of ${CHART_TYPES.join(', ')}, got '${chart}'`])
+    }
+
+    const records = filterData(getDataset(data, filters), filters, data.dimensions.geographies)
+    const prepare = (chartRecords: typeof records) => chart === 'bar'
+      ? prepareGroupedBarData(chartRecords, filters)
+      : prepareLineChartData(chartRecords, filters)
+    // Prices are volume-weighted averages, not sums
+    const points = filters.dataType === 'price' ? preparePricePoints(records, prepare) : prepare(records)
+
+    return NextResponse.json({
+      chart,
+      filters,
+      unit: getAmountUnit(data.metadata, filters.dataType),
+      ...paginate(points, pagination)
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export const GET = handle
+export const POST = handle
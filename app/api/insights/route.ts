@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { filterData, getGrowthPeriod } from '@/lib/data-processor'
+import { generateInsights } from '@/lib/insights-generator'
+import { getDataset } from '@/lib/server-data'
+import { getUnitLabel } from '@/lib/number-format'
+import { loadRequestData, readApiRequest, paginate, errorResponse, ApiError } from '@/lib/api-utils'
+
+/**
+ * Insights for the filtered selection
+ */
+async function handle(request: Request) {
+  try {
+    const data = await loadRequestData(request)
+    const { filters, pagination } = await readApiRequest(request, data)
+    if (filters.dataType === 'price') {
+      throw new ApiError(400, 'Invalid request', ['Insights total their records and are not available for dataType price'])
+    }
+    const records = filterData(getDataset(data, filters), filters, data.dimensions.geographies)
+    const unit = getUnitLabel(data.metadata, filters.dataType)
+
+    return NextResponse.json({
+      filters,
+      ...paginate(generateInsights(records, filters, unit, getGrowthPeriod(filters, data.metadata), data), pagination)
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { filterData } from '@/lib/data-processor'
+import { getDataset } from '@/lib/server-data'
+import { loadRequestData, readApiRequest, paginate, errorResponse } from '@/lib/api-utils'
+
+/**
+ * Filtered data records
+ * Same selection the dashboard charts start from
+ */
+async function handle(request: Request) {
+  try {
+    const data = await loadRequestData(request)
+    const { filters, pagination } = await readApiRequest(request, data)
+    const records = filterData(getDataset(data, filters), filters, data.dimensions.geographies)
+
+    return NextResponse.json({
+      filters,
+      ...paginate(records, pagination)
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export const GET = handle
+export const POST = handle
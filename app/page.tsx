@@ -10,25 +10,51 @@ import { MultiLineChart } from '@/components/charts/MultiLineChart'
 import { MatrixHeatmap } from '@/components/charts/MatrixHeatmap'
 import { ComparisonTable } from '@/components/charts/ComparisonTable'
 import { WaterfallChart } from '@/components/charts/WaterfallChart'
+import { TornadoChart } from '@/components/charts/TornadoChart'
 import { D3BubbleChartIndependent } from '@/components/charts/D3BubbleChartIndependent'
 import { CompetitiveIntelligence } from '@/components/charts/CompetitiveIntelligence'
 import DistributorsIntelligence from '@/components/charts/DistributorsIntelligenceTable'
 import { InsightsPanel } from '@/components/InsightsPanel'
 import { FilterPresets } from '@/components/filters/FilterPresets'
 import { ChartGroupSelector } from '@/components/filters/ChartGroupSelector'
+import { FilterHistoryControls } from '@/components/filters/FilterHistoryControls'
 import { CustomScrollbar } from '@/components/ui/CustomScrollbar'
 import { GlobalKPICards } from '@/components/GlobalKPICards'
-import { getChartsForGroup } from '@/lib/chart-groups'
-import { Lightbulb, X, Layers, LayoutGrid } from 'lucide-react'
+import { CsvUploadWizard } from '@/components/data/CsvUploadWizard'
+import { DatasetDiffView } from '@/components/data/DatasetDiffView'
+import { DataQualityPanel } from '@/components/data/DataQualityPanel'
+import { CurrencyPanel } from '@/components/data/CurrencyPanel'
+import { NumberFormatPanel } from '@/components/data/NumberFormatPanel'
+import { ScenarioPanel } from '@/components/data/ScenarioPanel'
+import { SimulationPanel } from '@/components/data/SimulationPanel'
+import { ValidationReport } from '@/components/ui/ValidationReport'
+import { validateComparisonData, assertValidData } from '@/lib/data-validator'
+import { MarketSwitcher } from '@/components/filters/MarketSwitcher'
+import { getChartsForGroup, CHART_TABS, type DashboardTab } from '@/lib/chart-groups'
+import { loadDatasetRegistry, findDataset, getUnavailableChartGroups, type MarketDataset } from '@/lib/dataset-registry'
+import { dashboardViewToSearchParams, getLinkedDatasetId, hasDashboardView, parseDashboardView } from '@/lib/dashboard-url'
+import { Lightbulb, X, Layers, LayoutGrid, Upload, GitCompare, ShieldCheck, Coins, Hash, FlaskConical, Dices, Link2, Check } from 'lucide-react'
 
 export default function DashboardPage() {
-  const { setData, setLoading, setError, data, isLoading, error, filters, selectedChartGroup } = useDashboardStore()
+  const { setData, setLoading, setError, setValidationIssues, setDatasets, setActiveDataset, applyView, data, isLoading, error, filters, selectedChartGroup, validationIssues, datasets, activeDatasetId, activeScenario, simulation } = useDashboardStore()
   const [mounted, setMounted] = useState(false)
-  const [activeTab, setActiveTab] = useState<'bar' | 'line' | 'heatmap' | 'table' | 'waterfall' | 'bubble' | 'competitive-intelligence' | 'distributor-intelligence'>('bar')
+  const [activeTab, setActiveTab] = useState<DashboardTab>('bar')
   const [showInsights, setShowInsights] = useState(false)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [viewMode, setViewMode] = useState<'tabs' | 'vertical'>('tabs')
+  const [showCsvWizard, setShowCsvWizard] = useState(false)
+  const [showDatasetDiff, setShowDatasetDiff] = useState(false)
+  const [showDataQuality, setShowDataQuality] = useState(false)
+  const [showCurrency, setShowCurrency] = useState(false)
+  const [showNumberFormat, setShowNumberFormat] = useState(false)
+  const [showScenario, setShowScenario] = useState(false)
+  const [showSimulation, setShowSimulation] = useState(false)
+  const [linkWarnings, setLinkWarnings] = useState<string[]>([])
+  const [linkCopied, setLinkCopied] = useState(false)
   const sidebarScrollRef = useRef<HTMLDivElement>(null)
+  // View from the page URL, restored once its market has loaded
+  const linkedView = useRef<URLSearchParams | null>(null)
+  const linkedTab = useRef<DashboardTab | null>(null)
 
   // Get visible charts based on selected chart group
   const visibleCharts = getChartsForGroup(selectedChartGroup)
@@ -38,23 +64,11 @@ export default function DashboardPage() {
     return visibleCharts.includes(chartId)
   }
 
-  // Map chart IDs to tab values
-  const chartIdToTab: Record<string, typeof activeTab> = {
-    'grouped-bar': 'bar',
-    'multi-line': 'line',
-    'heatmap': 'heatmap',
-    'comparison-table': 'table',
-    'waterfall': 'waterfall',
-    'bubble': 'bubble',
-    'competitive-intelligence': 'competitive-intelligence',
-    'distributor-intelligence': 'distributor-intelligence'
-  }
-
   // Auto-switch to first available tab when chart group changes
   useEffect(() => {
     const firstVisibleChart = visibleCharts[0]
-    if (firstVisibleChart && chartIdToTab[firstVisibleChart]) {
-      setActiveTab(chartIdToTab[firstVisibleChart])
+    if (firstVisibleChart && CHART_TABS[firstVisibleChart]) {
+      setActiveTab(CHART_TABS[firstVisibleChart])
     }
   }, [selectedChartGroup])
 
@@ -65,18 +79,81 @@ export default function DashboardPage() {
     }
   }, [filters.viewMode])
 
+  // Restore the linked tab after the automatic switches above, which the restored filters and group trigger
+  useEffect(() => {
+    if (linkedTab.current) {
+      setActiveTab(linkedTab.current)
+      linkedTab.current = null
+    }
+  }, [filters, selectedChartGroup])
+
   useEffect(() => {
     setMounted(true)
+    setLoading(true)
+    const params = new URLSearchParams(window.location.search)
+    linkedView.current = hasDashboardView(params) ? params : null
+    loadDatasetRegistry().then(loaded => {
+      setDatasets(loaded)
+      // Open the linked market first, so the view is restored against its data
+      const linkedDatasetId = getLinkedDatasetId(params)
+      if (linkedDatasetId && loaded.some(dataset => dataset.id === linkedDatasetId)) {
+        setActiveDataset(linkedDatasetId)
+      } else if (linkedDatasetId) {
+        setLinkWarnings([`Market '${linkedDatasetId}' is not available, showing ${loaded[0]?.name ?? 'the default market'}`])
+      }
+    })
+  }, [setDatasets, setLoading, setActiveDataset])
+
+  // Apply the linked view once data has loaded
+  useEffect(() => {
+    const params = linkedView.current
+    if (!data || !params) return
+    linkedView.current = null
+    const { view, warnings } = parseDashboardView(
+      params,
+      data,
+      { filters, chartGroup: selectedChartGroup, tab: activeTab },
+      getUnavailableChartGroups(findDataset(datasets, activeDatasetId))
+    )
+    linkedTab.current = view.tab
+    applyView(view, 'Opened link')
+    setLinkWarnings(current => [...current, ...warnings])
+    console.log('🔗 Restored linked view:', { chartGroup: view.chartGroup, tab: view.tab })
+  }, [data])
+
+  // Keep the page URL in step with the view, so it can be shared at any time
+  useEffect(() => {
+    if (!data || linkedView.current) return
+    const params = dashboardViewToSearchParams({ filters, chartGroup: selectedChartGroup, tab: activeTab }, activeDatasetId)
+    window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}`)
+  }, [data, filters, selectedChartGroup, activeTab, activeDatasetId])
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (err) {
+      console.error('Could not copy the link:', err)
+    }
+  }
+
+  // Load the selected market whenever it changes
+  useEffect(() => {
+    const dataset = findDataset(datasets, activeDatasetId)
+    if (!dataset) return
+    let cancelled = false
     
     // Load mock data instead of fetching from API
-    async function loadData() {
+    async function loadData(dataset: MarketDataset) {
       try {
         console.log('🔍 Starting data loading...')
         setLoading(true)
         
         // Create realistic mock data structure
         console.log('🔄 Generating mock data...')
-        const mockData = await createMockData()
+        const mockData = await createMockData(dataset)
+        if (cancelled) return
 
         console.log('✅ Data generation complete. Sample data:', {
           hasData: !!mockData,
@@ -94,24 +171,37 @@ export default function DashboardPage() {
           console.warn('⚠️ No volume data records found in mock data')
         }
 
+        // Reject malformed data before it reaches the charts
+        const issues = validateComparisonData(mockData)
+        setValidationIssues('comparison', issues)
+        if (issues.length > 0) {
+          console.warn('⚠️ Data validation issues:', issues)
+        }
+        assertValidData('comparison', issues)
+
         // Simulate a small delay for better UX
         await new Promise(resolve => setTimeout(resolve, 500))
+        if (cancelled) return
 
         console.log('🔄 Setting data in store...')
         setData(mockData)
         console.log('✅ Data set in store successfully')
       } catch (err) {
+        if (cancelled) return
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred'
         console.error('❌ Error loading data:', errorMessage, err)
         setError(`Failed to load data: ${errorMessage}`)
       } finally {
         console.log('🏁 Finished data loading attempt')
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
     
-    loadData()
-  }, [setData, setLoading, setError])
+    loadData(dataset)
+    return () => {
+      cancelled = true
+    }
+  }, [datasets, activeDatasetId, setData, setLoading, setError, setValidationIssues])
 
   if (!mounted) {
     return null
@@ -129,11 +219,17 @@ export default function DashboardPage() {
   }
 
   if (error) {
+    const comparisonErrors = validationIssues.comparison?.some(issue => issue.severity === 'error')
     return (
       <div className="flex items-center justify-center min-h-screen bg-gray-50">
-        <div className="text-center max-w-md">
+        <div className={`text-center ${comparisonErrors ? 'max-w-3xl w-full px-4' : 'max-w-md'}`}>
           <div className="text-red-600 text-2xl font-semibold mb-3">⚠️ Error</div>
           <p className="text-black mb-4">{error}</p>
+          {comparisonErrors && (
+            <div className="mb-4">
+              <ValidationReport title="Data validation report" issues={validationIssues.comparison!} />
+            </div>
+          )}
           <button
             onClick={() => window.location.reload()}
             className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
@@ -205,21 +301,114 @@ export default function DashboardPage() {
                 Coherent Dashboard
               </h1>
               <h2 className="text-xl text-black">
-                India Spices Market Analysis & Forecast: 2020-2032
+                {data.metadata.market_name} Analysis & Forecast: {data.metadata.start_year}-{data.metadata.forecast_year}
               </h2>
             </div>
             
-            {/* Empty space on the right for balance */}
-            <div className="flex-shrink-0 w-12"></div>
+            {/* Market switcher and data upload on the right */}
+            <div className="flex-shrink-0 flex items-center gap-2">
+              <MarketSwitcher />
+              <button
+                onClick={() => setShowCsvWizard(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+                title="Upload market data from a CSV file"
+              >
+                <Upload className="h-4 w-4" />
+                Upload CSV
+              </button>
+              <button
+                onClick={() => setShowDatasetDiff(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+                title="Compare two data releases"
+              >
+                <GitCompare className="h-4 w-4" />
+                Compare Releases
+              </button>
+              <button
+                onClick={() => setShowDataQuality(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+                title="Check that parents equal the sum of their children"
+              >
+                <ShieldCheck className="h-4 w-4" />
+                Data Quality
+              </button>
+              <button
+                onClick={() => setShowCurrency(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+                title="Convert values to another currency or unit"
+              >
+                <Coins className="h-4 w-4" />
+                {data.metadata.currency} {data.metadata.value_unit}
+              </button>
+              <button
+                onClick={() => setShowNumberFormat(true)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+                title="Digit grouping, compact notation, decimals and volume unit"
+              >
+                <Hash className="h-4 w-4" />
+                Number Format
+              </button>
+              <button
+                onClick={() => setShowScenario(true)}
+                className={`flex items-center gap-1 px-3 py-1.5 text-sm border rounded ${
+                  activeScenario ? 'text-blue-700 border-blue-300 bg-blue-50 hover:bg-blue-100' : 'text-black border-gray-300 hover:bg-gray-50'
+                }`}
+                title="Override growth assumptions and compare against the base forecast"
+              >
+                <FlaskConical className="h-4 w-4" />
+                {activeScenario ? `Scenario: ${activeScenario.name}` : 'Scenarios'}
+              </button>
+              <button
+                onClick={() => setShowSimulation(true)}
+                className={`flex items-center gap-1 px-3 py-1.5 text-sm border rounded ${
+                  simulation.enabled ? 'text-blue-700 border-blue-300 bg-blue-50 hover:bg-blue-100' : 'text-black border-gray-300 hover:bg-gray-50'
+                }`}
+                title="Monte Carlo uncertainty bands for the forecast"
+              >
+                <Dices className="h-4 w-4" />
+                Uncertainty
+              </button>
+              <button
+                onClick={copyLink}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+                title="Copy a link that opens this view"
+              >
+                {linkCopied ? <Check className="h-4 w-4 text-green-600" /> : <Link2 className="h-4 w-4" />}
+                {linkCopied ? 'Copied' : 'Copy Link'}
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
+      {showCsvWizard && <CsvUploadWizard onClose={() => setShowCsvWizard(false)} />}
+      {showDatasetDiff && <DatasetDiffView onClose={() => setShowDatasetDiff(false)} />}
+      {showDataQuality && <DataQualityPanel onClose={() => setShowDataQuality(false)} />}
+      {showCurrency && <CurrencyPanel onClose={() => setShowCurrency(false)} />}
+      {showNumberFormat && <NumberFormatPanel onClose={() => setShowNumberFormat(false)} />}
+      {showScenario && <ScenarioPanel onClose={() => setShowScenario(false)} />}
+      {showSimulation && <SimulationPanel onClose={() => setShowSimulation(false)} />}
+
       {/* Global KPI Cards */}
       <GlobalKPICards />
 
       {/* Main Content */}
       <div className="container mx-auto px-6 py-6">
+        {linkWarnings.length > 0 && (
+          <div className="mb-4 flex items-start justify-between gap-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="text-sm text-amber-800">
+              <p className="font-medium">Some settings in this link don&apos;t match the current data and were adjusted:</p>
+              <ul className="list-disc ml-5 mt-1 space-y-0.5">
+                {linkWarnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+            <button onClick={() => setLinkWarnings([])} className="text-amber-800 hover:text-amber-900" title="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
         <div className="grid grid-cols-12 gap-6">
           {/* Sidebar - Enhanced Filter Panel */}
           <aside className={`transition-all duration-300 ${
@@ -365,6 +554,18 @@ export default function DashboardPage() {
                             💧 Waterfall
                           </button>
                         )}
+                        {isChartVisible('tornado') && (
+                          <button
+                            onClick={() => setActiveTab('tornado')}
+                            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                              activeTab === 'tornado'
+                                ? 'border-blue-500 text-blue-600'
+                                : 'border-transparent text-black hover:text-black hover:border-gray-300'
+                            }`}
+                          >
+                            🌪️ Sensitivity
+                          </button>
+                        )}
                         {isChartVisible('bubble') && (
                           <button
                             onClick={() => setActiveTab('bubble')}
@@ -405,8 +606,9 @@ export default function DashboardPage() {
                     )}
                   </nav>
                 
-                  {/* Insights Button */}
-                  <div className="flex gap-2 px-4">
+                  {/* Filter History and Insights Buttons */}
+                  <div className="flex items-center gap-2 px-4">
+                    <FilterHistoryControls />
                     <button
                       onClick={() => {
                         setShowInsights(!showInsights)
@@ -474,6 +676,15 @@ export default function DashboardPage() {
                       </div>
                     )}
                     
+                    {activeTab === 'tornado' && (
+                      <div id="tornado-chart">
+                        <TornadoChart 
+                          title="Forecast Sensitivity - Tornado Chart" 
+                          height={450}
+                        />
+                      </div>
+                    )}
+                    
                     {activeTab === 'bubble' && (
                       <div id="bubble-chart">
                         <D3BubbleChartIndependent 
@@ -552,6 +763,16 @@ export default function DashboardPage() {
                       </div>
                     )}
                     
+                    {isChartVisible('tornado') && (
+                      <div id="tornado-chart" className="border-b pb-8">
+                        <h3 className="text-lg font-semibold text-gray-900 mb-4">🌪️ Sensitivity Chart</h3>
+                        <TornadoChart 
+                          title="Forecast Sensitivity - Tornado Chart" 
+                          height={400}
+                        />
+                      </div>
+                    )}
+                    
                     {isChartVisible('bubble') && (
                       <div className="border-b pb-8">
                         <h3 className="text-lg font-semibold text-gray-900 mb-4">🫧 Bubble Chart</h3>
@@ -2,46 +2,56 @@
 
 import { useMemo } from 'react'
 import { useDashboardStore } from '@/lib/store'
+import { getDefaultFilters } from '@/lib/filter-params'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { MARKET_SIZE_SERIES } from '@/lib/chart-pipeline-tasks'
+import { getMarketSizeRecords } from '@/lib/data-processor'
+import { formatCurrency, formatNumber, formatPercentage } from '@/lib/number-format'
 import { TrendingUp, DollarSign, Calendar, Activity } from 'lucide-react'
 
 export function GlobalKPICards() {
-  const { data } = useDashboardStore()
+  const { data, numberFormat, simulation } = useDashboardStore()
+
+  // The market size ignores the filters, so the simulation only reruns when the data or settings change
+  const simulationFilters = useMemo(() => ({ ...getDefaultFilters(data), simulation }), [data, simulation])
+  const simulationPipeline = useChartPipeline('kpi-simulation', 'market-simulation', simulationFilters)
 
   const kpiData = useMemo(() => {
     if (!data) return null
 
     // Get all Global/India records from value data
-    const globalGeo = data.dimensions.geographies.global?.[0] || 'Global'
-    const globalRecords = data.data.value.geography_segment_matrix.filter(
-      record => record.geography === globalGeo
-    )
+    const globalRecords = getMarketSizeRecords(data)
 
     if (globalRecords.length === 0) return null
 
-    // Calculate total market size for 2024 and 2032
-    let marketSize2024 = 0
-    let marketSize2032 = 0
+    // Calculate total market size for the base and forecast years of this market
+    const baseYear = data.metadata.base_year
+    const forecastYear = data.metadata.forecast_year
+    let marketSizeBase = 0
+    let marketSizeForecast = 0
 
     globalRecords.forEach(record => {
-      marketSize2024 += record.time_series['2024'] || 0
-      marketSize2032 += record.time_series['2032'] || 0
+      marketSizeBase += record.time_series[baseYear] || 0
+      marketSizeForecast += record.time_series[forecastYear] || 0
     })
 
-    // Calculate CAGR from 2024 to 2032
-    const years = 2032 - 2024
-    const cagr = marketSize2024 > 0 
-      ? (Math.pow(marketSize2032 / marketSize2024, 1 / years) - 1) * 100
+    // Calculate CAGR from base year to forecast year
+    const years = forecastYear - baseYear
+    const cagr = marketSizeBase > 0 && years > 0
+      ? (Math.pow(marketSizeForecast / marketSizeBase, 1 / years) - 1) * 100
       : 0
 
     // Calculate absolute growth
-    const absoluteGrowth = marketSize2032 - marketSize2024
-    const growthPercentage = marketSize2024 > 0 
-      ? ((marketSize2032 - marketSize2024) / marketSize2024) * 100
+    const absoluteGrowth = marketSizeForecast - marketSizeBase
+    const growthPercentage = marketSizeBase > 0 
+      ? ((marketSizeForecast - marketSizeBase) / marketSizeBase) * 100
       : 0
 
     return {
-      marketSize2024,
-      marketSize2032,
+      baseYear,
+      forecastYear,
+      marketSizeBase,
+      marketSizeForecast,
       cagr,
       absoluteGrowth,
       growthPercentage,
@@ -50,39 +60,52 @@ export function GlobalKPICards() {
     }
   }, [data])
 
+  // P10-P90 range of the forecast-year market size and the CAGR it implies
+  const simulated = simulation.enabled ? simulationPipeline.result?.prepared : null
+  const band = kpiData && simulated?.series[MARKET_SIZE_SERIES]?.[kpiData.forecastYear]
+  const years = kpiData ? kpiData.forecastYear - kpiData.baseYear : 0
+  const impliedCagr = (value: number) => kpiData && kpiData.marketSizeBase > 0 && years > 0
+    ? (Math.pow(value / kpiData.marketSizeBase, 1 / years) - 1) * 100
+    : 0
+
   if (!kpiData) return null
 
   return (
     <div className="bg-gradient-to-r from-gray-50 to-gray-100 border-y border-gray-200">
       <div className="container mx-auto px-6 py-3">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-6">
-          {/* Market Size 2024 */}
+          {/* Market Size (base year) */}
           <div className="flex items-center gap-2">
             <div className="p-1.5 bg-blue-100 rounded">
               <DollarSign className="h-4 w-4 text-blue-600" />
             </div>
             <div>
               <p className="text-[10px] text-gray-500 uppercase tracking-wider font-semibold">
-                Market Size 2024
+                Market Size {kpiData.baseYear}
               </p>
               <p className="text-base font-bold text-gray-900 leading-tight">
-                {kpiData.currency} {kpiData.marketSize2024.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} {kpiData.unit}
+                {formatCurrency(kpiData.marketSizeBase, kpiData.currency, kpiData.unit, numberFormat)}
               </p>
             </div>
           </div>
 
-          {/* Market Size 2032 */}
+          {/* Market Size (forecast year) */}
           <div className="flex items-center gap-2">
             <div className="p-1.5 bg-green-100 rounded">
               <Calendar className="h-4 w-4 text-green-600" />
             </div>
             <div>
               <p className="text-[10px] text-gray-500 uppercase tracking-wider font-semibold">
-                Market Size 2032
+                Market Size {kpiData.forecastYear}
               </p>
               <p className="text-base font-bold text-gray-900 leading-tight">
-                {kpiData.currency} {kpiData.marketSize2032.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} {kpiData.unit}
+                {formatCurrency(kpiData.marketSizeForecast, kpiData.currency, kpiData.unit, numberFormat)}
               </p>
+              {band && (
+                <p className="text-[10px] text-gray-500" title={`Monte Carlo P10-P90 from ${simulated?.paths.toLocaleString()} paths`}>
+                  P10–P90: {formatNumber(band.p10, numberFormat, { unit: kpiData.unit })} – {formatNumber(band.p90, numberFormat, { unit: kpiData.unit })}
+                </p>
+              )}
             </div>
           </div>
 
@@ -93,11 +116,16 @@ export function GlobalKPICards() {
             </div>
             <div>
               <p className="text-[10px] text-gray-500 uppercase tracking-wider font-semibold">
-                CAGR (2024-2032)
+                CAGR ({kpiData.baseYear}-{kpiData.forecastYear})
               </p>
               <p className="text-base font-bold text-gray-900 leading-tight">
-                {kpiData.cagr.toFixed(2)}%
+                {formatPercentage(kpiData.cagr, numberFormat, { decimals: 2 })}
               </p>
+              {band && (
+                <p className="text-[10px] text-gray-500">
+                  P10–P90: {formatPercentage(impliedCagr(band.p10), numberFormat, { decimals: 2 })} – {formatPercentage(impliedCagr(band.p90), numberFormat, { decimals: 2 })}
+                </p>
+              )}
             </div>
           </div>
 
@@ -111,7 +139,7 @@ export function GlobalKPICards() {
                 Absolute Growth
               </p>
               <p className="text-base font-bold text-gray-900 leading-tight">
-                +{kpiData.growthPercentage.toFixed(1)}% ({kpiData.currency} {kpiData.absoluteGrowth.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} {kpiData.unit})
+                {formatPercentage(kpiData.growthPercentage, numberFormat, { signed: true })} ({formatCurrency(kpiData.absoluteGrowth, kpiData.currency, kpiData.unit, numberFormat)})
               </p>
             </div>
           </div>
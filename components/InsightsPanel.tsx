@@ -3,36 +3,28 @@
 import { useMemo } from 'react'
 import { TrendingUp, TrendingDown, Minus, AlertCircle, Lightbulb, Target } from 'lucide-react'
 import { useDashboardStore } from '@/lib/store'
-import { filterData } from '@/lib/data-processor'
-import { generateInsights, findCrossovers, type Insight } from '@/lib/insights-generator'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import type { Insight } from '@/lib/insights-generator'
+import { formatNumber, getAmountUnit } from '@/lib/number-format'
 
 export function InsightsPanel() {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
 
-  const insights = useMemo(() => {
-    if (!data) return []
+  // Insights and crossover points are generated in the chart pipeline worker
+  const pipeline = useChartPipeline('insights', 'insights', filters)
 
-    const dataset = filters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  const insights = useMemo(() => {
+    if (!data || !pipeline.result) return []
 
-    const filtered = filterData(dataset, filters)
-    
-    // Generate main insights
-    const mainInsights = generateInsights(filtered, filters)
-    
-    // Find crossover points
-    const crossovers = findCrossovers(filtered, filters)
-    
-    // Combine and sort by priority
-    const allInsights = [...mainInsights, ...crossovers].sort((a, b) => {
+    // Sort by priority
+    const allInsights = [...pipeline.result.prepared].sort((a, b) => {
       const priorityOrder = { high: 0, medium: 1, low: 2 }
       return priorityOrder[a.priority] - priorityOrder[b.priority]
     })
     
     // Limit to top 6 insights
     return allInsights.slice(0, 6)
-  }, [data, filters])
+  }, [data, pipeline.result])
 
   if (!data || insights.length === 0) {
     return (
@@ -42,7 +34,9 @@ export function InsightsPanel() {
           No insights available yet
         </p>
         <p className="text-gray-400 text-sm text-center mt-2">
-          Select filters to generate automatic insights
+          {filters.dataType === 'price'
+            ? 'Switch to value or volume to generate automatic insights'
+            : 'Select filters to generate automatic insights'}
         </p>
       </div>
     )
@@ -127,7 +121,7 @@ export function InsightsPanel() {
                     <Target className="h-3 w-3 text-gray-400" />
                     <span className="text-sm font-semibold text-gray-900">
                       {typeof insight.value === 'number' 
-                        ? insight.value.toLocaleString() 
+                        ? formatNumber(insight.value, numberFormat, { unit: getAmountUnit(data.metadata, filters.dataType) }) 
                         : insight.value}
                     </span>
                   </div>
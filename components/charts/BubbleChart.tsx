@@ -13,8 +13,14 @@ import {
   Cell
 } from 'recharts'
 import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
-import { filterData } from '@/lib/data-processor'
+import { getGrowthPeriod, calculateGrowthMetrics, describeGrowthPeriod } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, formatAxisTick, getAmountUnit, getUnitLabel, getMeasureLabel } from '@/lib/number-format'
+import { aggregateAmount } from '@/lib/price'
+import { calculateMarketShare, SHARE_REFERENCE_LABELS } from '@/lib/market-share'
 import type { DataRecord } from '@/lib/types'
 
 interface BubbleChartProps {
@@ -34,27 +40,29 @@ interface BubbleDataPoint {
   currentValue: number
   cagr: number
   marketShare: number
+  shareOf: string // Denominator of the market share, e.g. "India total"
   absoluteGrowth: number // Absolute change (end - start)
 }
 
 function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   
   // Create modified filters for this specific segment
   const modifiedFilters = segmentFilter 
     ? { ...filters, segments: [segmentFilter] }
     : filters
 
-  const chartData = useMemo(() => {
-    if (!data) return { bubbles: [], xLabel: '', yLabel: '' }
+  // Filtering runs in the chart pipeline worker, one request per segment chart
+  const pipeline = useChartPipeline(segmentFilter ? `bubble:${segmentFilter}` : 'bubble', 'records', modifiedFilters)
 
-    const dataset = modifiedFilters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  const chartData = useMemo(() => {
+    if (!data || !pipeline.result) return { bubbles: [], xLabel: '', yLabel: '', periodLabel: '' }
 
-    const filtered = filterData(dataset, modifiedFilters)
+    const { records: filtered, filters: modifiedFilters } = pipeline.result
 
-    if (filtered.length === 0) return { bubbles: [], xLabel: '', yLabel: '' }
+    if (filtered.length === 0) return { bubbles: [], xLabel: '', yLabel: '', periodLabel: '' }
 
     // Get the current year (end of range)
     const currentYear = modifiedFilters.yearRange[1]
@@ -74,54 +82,36 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
     // Build bubble data points
     const bubbles: BubbleDataPoint[] = []
     
-    // Calculate total market for share calculation
-    let totalMarketValue = 0
-    filtered.forEach(record => {
-      totalMarketValue += record.time_series[currentYear] || 0
-    })
-    
-    // Calculate start year value for growth calculation
-    const startYear = modifiedFilters.yearRange[0]
+    // Years growth is measured over: the selected range, or its historical or forecast part
+    const period = getGrowthPeriod(modifiedFilters, data.metadata)
     
     grouped.forEach((records, key) => {
-      // Aggregate values for this group
-      let totalValue = 0
-      let totalStartValue = 0
-      let totalCAGR = 0
-      let count = 0
+      // Aggregate values for this group; prices are volume-weighted averages
+      const totalValue = aggregateAmount(records, currentYear)
       let geography = ''
       let segment = ''
       let segmentType = ''
 
       records.forEach(record => {
-        const startVal = record.time_series[startYear] || 0
-        const endVal = record.time_series[currentYear] || 0
-        totalValue += endVal
-        totalStartValue += startVal
-        totalCAGR += record.cagr || 0
-        count++
         geography = record.geography
         segment = record.segment
         segmentType = record.segment_type
       })
 
-      // Calculate market share as percentage of total market
-      const marketShare = totalMarketValue > 0 ? (totalValue / totalMarketValue) * 100 : 0
-      
-      // Calculate absolute growth (end - start)
-      const absoluteGrowth = totalValue - totalStartValue
+      // Market share against the chosen reference (geography, parent segment, business type or whole market)
+      const share = calculateMarketShare(records, data, modifiedFilters, currentYear)
+      const marketShare = share.share
       
-      // Calculate CAGR from aggregated values (more accurate than averaging)
-      let calculatedCAGR = 0
-      if (totalStartValue > 0 && totalValue > 0) {
-        const years = currentYear - startYear
-        if (years > 0) {
-          calculatedCAGR = (Math.pow(totalValue / totalStartValue, 1 / years) - 1) * 100
-        }
-      } else {
-        // Fallback to average if we can't calculate
-        calculatedCAGR = count > 0 ? totalCAGR / count : 0
-      }
+      // Calculate CAGR and absolute growth from aggregated values (more accurate than averaging)
+      const growth = period
+        ? calculateGrowthMetrics(
+            aggregateAmount(records, period.startYear),
+            aggregateAmount(records, period.endYear),
+            period.endYear - period.startYear
+          )
+        : null
+      const absoluteGrowth = growth?.absoluteGrowth ?? 0
+      const calculatedCAGR = growth?.cagr ?? 0
 
       // Only include points with valid data
       if (totalValue > 0 && !isNaN(marketShare) && !isNaN(calculatedCAGR)) {
@@ -136,6 +126,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
           currentValue: totalValue,
           cagr: calculatedCAGR,
           marketShare: marketShare,
+          shareOf: share.label,
           absoluteGrowth: absoluteGrowth
         })
       }
@@ -144,14 +135,18 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
     // Sort by market size for better visualization
     bubbles.sort((a, b) => b.x - a.x)
 
-    const xLabel = modifiedFilters.dataType === 'value'
-      ? `Market Size (${data.metadata.currency} ${data.metadata.value_unit})`
-      : `Market Size (${data.metadata.volume_unit})`
+    const xLabel = modifiedFilters.dataType === 'price'
+      ? getMeasureLabel(data.metadata, 'price')
+      : `Market Size (${getUnitLabel(data.metadata, modifiedFilters.dataType)})`
     
-    const yLabel = 'Market Share (%)'
+    const yLabel = `Share of ${SHARE_REFERENCE_LABELS[modifiedFilters.shareReference]} (%)`
 
-    return { bubbles, xLabel, yLabel }
-  }, [data, filters])
+    return { bubbles, xLabel, yLabel, periodLabel: describeGrowthPeriod(period, modifiedFilters) }
+  }, [data, pipeline.result])
+
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
 
   if (!data || chartData.bubbles.length === 0) {
     return (
@@ -176,9 +171,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
         return null
       }
       
-      const unit = modifiedFilters.dataType === 'value'
-        ? `${data.metadata.currency} ${data.metadata.value_unit}`
-        : data.metadata.volume_unit
+      const unit = getUnitLabel(data.metadata, modifiedFilters.dataType)
 
       return (
         <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg min-w-[280px]">
@@ -211,10 +204,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
                 <span className="text-sm text-gray-600">Market Size (X):</span>
                 <div className="text-right">
                   <span className="text-sm font-semibold text-gray-900">
-                    {(point.x || 0).toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })}
+                    {formatAmount(point.x || 0)}
                   </span>
                   <span className="text-xs text-gray-500 ml-1">{unit}</span>
                 </div>
@@ -226,7 +216,11 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">CAGR (Size):</span>
+                <span className="text-sm text-gray-600">Share of:</span>
+                <span className="text-sm font-medium text-gray-900">{point.shareOf}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">CAGR {chartData.periodLabel} (Size):</span>
                 <span className={`text-sm font-semibold ${
                   (point.cagr || 0) > 0 ? 'text-green-600' : (point.cagr || 0) < 0 ? 'text-red-600' : 'text-gray-600'
                 }`}>
@@ -234,15 +228,12 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Absolute Growth:</span>
+                <span className="text-sm text-gray-600">Absolute Growth {chartData.periodLabel}:</span>
                 <span className={`text-sm font-semibold ${
                   (point.absoluteGrowth || 0) > 0 ? 'text-green-600' : (point.absoluteGrowth || 0) < 0 ? 'text-red-600' : 'text-gray-600'
                 }`}>
                   {(point.absoluteGrowth || 0) > 0 ? '+' : ''}
-                  {((point.absoluteGrowth || 0)).toLocaleString(undefined, { 
-                    minimumFractionDigits: 2, 
-                    maximumFractionDigits: 2 
-                  })} {unit}
+                  {formatAmount(point.absoluteGrowth || 0)} {unit}
                 </span>
               </div>
             </div>
@@ -288,9 +279,13 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
     : title
 
   return (
-    <div className="w-full min-w-0 overflow-hidden">
+    <div className="w-full min-w-0 overflow-hidden relative">
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       {displayTitle && (
-        <h3 className="text-lg font-semibold mb-4 text-gray-900">{displayTitle}</h3>
+        <>
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">{displayTitle}</h3>
+          <ConversionNote className="-mt-3 mb-4" />
+        </>
       )}
       
       <div className="w-full" style={{ minWidth: 0, maxWidth: '100%' }}>
@@ -310,10 +305,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
             label={{ value: chartData.xLabel, position: 'insideBottom', offset: -5 }}
             domain={[Math.max(0, xMin - xPadding), xMax + xPadding]}
             tick={{ fontSize: 12 }}
-            tickFormatter={(value) => {
-              if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
-              return value.toFixed(0)
-            }}
+            tickFormatter={(value) => formatAxisTick(value, numberFormat)}
           />
           <YAxis 
             type="number"
@@ -383,6 +375,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
                 currentValue: entry.currentValue,
                 cagr: entry.cagr,
                 marketShare: entry.marketShare,
+                shareOf: entry.shareOf,
                 absoluteGrowth: entry.absoluteGrowth
               }
               
@@ -419,7 +412,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
                 <span className="text-green-600 font-bold text-xs">Y</span>
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">Market Share (%)</p>
+                <p className="text-sm font-medium text-gray-900">{chartData.yLabel}</p>
                 <p className="text-xs text-gray-500">Vertical position</p>
               </div>
             </div>
@@ -428,7 +421,7 @@ function BubbleChartSingle({ title, height = 500, segmentFilter }: BubbleChartPr
                 <span className="text-purple-600 font-bold text-xs">S</span>
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">CAGR (%)</p>
+                <p className="text-sm font-medium text-gray-900">CAGR (%, {chartData.periodLabel})</p>
                 <p className="text-xs text-gray-500">Bubble size</p>
               </div>
             </div>
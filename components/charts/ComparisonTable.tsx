@@ -2,54 +2,70 @@
 
 import { useMemo, useState } from 'react'
 import { useDashboardStore } from '@/lib/store'
-import { filterData } from '@/lib/data-processor'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, formatPercentage, getAmountUnit, getUnitLabel } from '@/lib/number-format'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { describeConversion } from '@/lib/currency'
+import { getConversionNoteRows } from '@/lib/export-utils'
+import { describeGrowthPeriod, getGrowthPeriod, getRecordGrowth } from '@/lib/data-processor'
+import { calculateMarketShare, SHARE_REFERENCE_LABELS } from '@/lib/market-share'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { PERIOD_STYLE, getForecastHatchBackground, isForecastYear } from '@/lib/chart-theme'
+import { PeriodLegend } from './ForecastPeriod'
 import { ArrowUp, ArrowDown, Download } from 'lucide-react'
 
+// Sparkline bars (tailwind blue-400), lighter and hatched for forecast years
+const SPARKLINE_COLOR = '#60a5fa'
+const SPARKLINE_FORECAST_FILL = '#dbeafe'
+
 interface ComparisonTableProps {
   title?: string
   height?: number
 }
 
 export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
   const [sortField, setSortField] = useState<string>('geography')
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc')
 
-  const tableData = useMemo(() => {
-    if (!data) return []
+  // Filtering runs in the chart pipeline worker
+  const pipeline = useChartPipeline('comparison-table', 'records', filters)
 
-    // Get the appropriate dataset
-    const dataset = filters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  const tableData = useMemo(() => {
+    if (!data || !pipeline.result) return []
 
-    // Filter data
-    const filtered = filterData(dataset, filters)
+    const { records: filtered, filters } = pipeline.result
 
     // Get the selected year (use base year or middle of range)
     const year = filters.yearRange[0] + Math.floor((filters.yearRange[1] - filters.yearRange[0]) / 2)
     const startYear = filters.yearRange[0]
     const endYear = filters.yearRange[1]
+    // Growth and CAGR over the selected range (or its historical/forecast part); NaN when there is no such period
+    const period = getGrowthPeriod(filters, data.metadata)
 
     // Transform to table format
-    return filtered.map(record => ({
-      geography: record.geography,
-      segment: record.segment,
-      segmentType: record.segment_type,
-      currentValue: record.time_series[year] || 0,
-      startValue: record.time_series[startYear] || 0,
-      endValue: record.time_series[endYear] || 0,
-      growth: record.time_series[startYear] > 0 
-        ? (((record.time_series[endYear] || 0) - (record.time_series[startYear] || 0)) / record.time_series[startYear] * 100)
-        : 0,
-      cagr: record.cagr,
-      marketShare: record.market_share,
-      sparkline: Object.entries(record.time_series)
-        .filter(([y]) => parseInt(y) >= startYear && parseInt(y) <= endYear)
-        .sort(([a], [b]) => parseInt(a) - parseInt(b))
-        .map(([, value]) => value)
-    }))
-  }, [data, filters])
+    return filtered.map(record => {
+      const growth = period ? getRecordGrowth(record, period) : null
+      // Share in the displayed year against the chosen reference
+      const share = calculateMarketShare([record], data, filters, year)
+      return {
+        geography: record.geography,
+        segment: record.segment,
+        segmentType: record.segment_type,
+        currentValue: record.time_series[year] || 0,
+        startValue: record.time_series[startYear] || 0,
+        endValue: record.time_series[endYear] || 0,
+        growth: growth?.growthPercent ?? NaN,
+        cagr: growth?.cagr ?? NaN,
+        marketShare: share.share,
+        shareOf: share.label,
+        sparkline: Object.entries(record.time_series)
+          .filter(([y]) => parseInt(y) >= startYear && parseInt(y) <= endYear)
+          .sort(([a], [b]) => parseInt(a) - parseInt(b))
+          .map(([y, value]) => ({ year: parseInt(y), value }))
+      }
+    })
+  }, [data, pipeline.result])
 
   const sortedData = useMemo(() => {
     const sorted = [...tableData].sort((a, b) => {
@@ -81,18 +97,22 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
   }
 
   const exportToCSV = () => {
-    const headers = ['Geography', 'Segment', 'Type', 'Current Value', 'Growth %', 'CAGR %', 'Market Share %']
+    const headers = ['Geography', 'Segment', 'Type', `Current Value (${valueUnit})`, `Growth % (${periodLabel})`, `CAGR % (${periodLabel})`, `Market Share % (${year})`, 'Share Of']
+    // Plain digits so the columns stay numeric in spreadsheets
+    const plain = (value: number, unit: string) => formatNumber(value, numberFormat, { unit, grouping: false, compact: false })
     const rows = sortedData.map(row => [
       row.geography,
       row.segment,
       row.segmentType,
-      row.currentValue.toFixed(2),
-      row.growth.toFixed(2),
-      row.cagr.toFixed(2),
-      row.marketShare.toFixed(2)
+      plain(row.currentValue, amountUnit),
+      Number.isFinite(row.growth) ? plain(row.growth, '%') : '',
+      Number.isFinite(row.cagr) ? plain(row.cagr, '%') : '',
+      plain(row.marketShare, '%'),
+      row.shareOf
     ])
     
-    const csv = [headers, ...rows].map(row => row.join(',')).join('\n')
+    const note = data && filters.dataType === 'value' ? describeConversion(data.metadata) : null
+    const csv = [...getConversionNoteRows(note), headers, ...rows].map(row => row.join(',')).join('\n')
     const blob = new Blob([csv], { type: 'text/csv' })
     const url = window.URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -101,28 +121,47 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
     a.click()
   }
 
-  const renderSparkline = (values: number[]) => {
-    if (values.length === 0) return null
+  // Forecast years are lighter and hatched, with a marker after the base year
+  const renderSparkline = (points: Array<{ year: number; value: number }>) => {
+    if (points.length === 0 || !data) return null
+    const values = points.map(point => point.value)
     const max = Math.max(...values)
     const min = Math.min(...values)
     const range = max - min || 1
+    const baseYear = data.metadata.base_year
     
     return (
       <div className="flex items-end h-8 gap-0.5">
-        {values.map((value, i) => (
-          <div
-            key={i}
-            className="flex-1 bg-blue-400 min-w-[3px] rounded-t"
-            style={{
-              height: `${((value - min) / range) * 100}%`,
-              minHeight: '2px'
-            }}
-          />
-        ))}
+        {points.map(({ year, value }, i) => {
+          const forecast = isForecastYear(year, baseYear)
+          return [
+            <div
+              key={year}
+              className={`flex-1 min-w-[3px] rounded-t ${forecast ? '' : 'bg-blue-400'}`}
+              title={`${year}${forecast ? ' (forecast)' : ''}`}
+              style={{
+                height: `${((value - min) / range) * 100}%`,
+                minHeight: '2px',
+                ...(forecast && { backgroundImage: getForecastHatchBackground(SPARKLINE_COLOR), backgroundColor: SPARKLINE_FORECAST_FILL })
+              }}
+            />,
+            year === baseYear && i < points.length - 1 && (
+              <div
+                key={`${year}-marker`}
+                className="self-stretch border-l border-dashed"
+                style={{ borderColor: PERIOD_STYLE.baseYearStroke }}
+              />
+            )
+          ]
+        })}
       </div>
     )
   }
 
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
+
   if (!data || tableData.length === 0) {
     return (
       <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
@@ -137,20 +176,26 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
   }
 
   const year = filters.yearRange[0] + Math.floor((filters.yearRange[1] - filters.yearRange[0]) / 2)
-  const valueUnit = filters.dataType === 'value' 
-    ? `${data.metadata.currency} ${data.metadata.value_unit}`
-    : data.metadata.volume_unit
+  const valueUnit = getUnitLabel(data.metadata, filters.dataType)
+  const amountUnit = getAmountUnit(data.metadata, filters.dataType)
+  const period = getGrowthPeriod(filters, data.metadata)
+  const periodLabel = describeGrowthPeriod(period, filters)
+  const shareReferenceLabel = SHARE_REFERENCE_LABELS[filters.shareReference].toLowerCase()
+  const formatGrowth = (value: number, signed = false) =>
+    Number.isFinite(value) ? formatPercentage(value, numberFormat, { signed }) : '—'
 
   return (
-    <div className="w-full min-w-0 overflow-hidden">
+    <div className="w-full min-w-0 overflow-hidden relative">
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       <div className="mb-4 flex justify-between items-center">
         <div>
           <h3 className="text-lg font-semibold text-gray-900">
             {title || 'Comparison Table'}
           </h3>
           <p className="text-sm text-gray-500 mt-1">
-            Year: {year} | Values in {valueUnit}
+            Year: {year} | Values in {valueUnit} | Growth and CAGR: {periodLabel} | Share of: {shareReferenceLabel}
           </p>
+          <ConversionNote className="mt-0.5" />
         </div>
         <button
           onClick={exportToCSV}
@@ -209,7 +254,7 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
                 onClick={() => handleSort('growth')}
               >
                 <div className="flex items-center justify-end gap-1">
-                  Growth %
+                  Growth % ({periodLabel})
                   {sortField === 'growth' && (
                     sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                   )}
@@ -220,7 +265,7 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
                 onClick={() => handleSort('cagr')}
               >
                 <div className="flex items-center justify-end gap-1">
-                  CAGR %
+                  CAGR % ({periodLabel})
                   {sortField === 'cagr' && (
                     sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
                   )}
@@ -230,7 +275,7 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
                 className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
                 onClick={() => handleSort('marketShare')}
               >
-                <div className="flex items-center justify-end gap-1">
+                <div className="flex items-center justify-end gap-1" title={`Share of the ${shareReferenceLabel} in ${year}`}>
                   Share %
                   {sortField === 'marketShare' && (
                     sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
@@ -252,7 +297,7 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
                   {row.segmentType}
                 </td>
                 <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
-                  {row.currentValue.toFixed(2)}
+                  {formatNumber(row.currentValue, numberFormat, { unit: amountUnit })}
                 </td>
                 <td className="px-4 py-3 w-24">
                   {renderSparkline(row.sparkline)}
@@ -260,13 +305,13 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
                 <td className={`px-4 py-3 text-sm text-right font-medium ${
                   row.growth > 0 ? 'text-green-600' : row.growth < 0 ? 'text-red-600' : 'text-gray-500'
                 }`}>
-                  {row.growth > 0 && '+'}{row.growth.toFixed(1)}%
+                  {formatGrowth(row.growth, true)}
                 </td>
                 <td className="px-4 py-3 text-sm text-right text-gray-700">
-                  {row.cagr.toFixed(1)}%
+                  {formatGrowth(row.cagr)}
                 </td>
-                <td className="px-4 py-3 text-sm text-right text-gray-700">
-                  {row.marketShare.toFixed(1)}%
+                <td className="px-4 py-3 text-sm text-right text-gray-700" title={`Share of ${row.shareOf} in ${year}`}>
+                  {formatPercentage(row.marketShare, numberFormat)}
                 </td>
               </tr>
             ))}
@@ -274,7 +319,9 @@ export function ComparisonTable({ title, height = 600 }: ComparisonTableProps) {
         </table>
       </div>
 
-      <div className="mt-4 text-center text-sm text-gray-500">
+      <PeriodLegend baseYear={data.metadata.base_year} variant="bar" className="mt-3" />
+
+      <div className="mt-2 text-center text-sm text-gray-500">
         Showing {sortedData.length} records | {filters.yearRange[0]} - {filters.yearRange[1]}
       </div>
     </div>
@@ -2,18 +2,23 @@
 
 import { useEffect, useState } from 'react'
 import { getCompanyComparison } from '@/lib/competitive-intelligence-data'
+import { useDashboardStore, selectActiveDataset } from '@/lib/store'
 
 export function CompetitiveDashboard() {
   const [comparisonData, setComparisonData] = useState<{
     headers: string[];
     rows: { label: string; values: (string | number)[] }[];
   } | null>(null)
+  const marketName = useDashboardStore(state => state.data?.metadata.market_name)
+  const activeDataset = useDashboardStore(selectActiveDataset)
+  const currency = useDashboardStore(state => state.currency)
+  const numberFormat = useDashboardStore(state => state.numberFormat)
 
   useEffect(() => {
     async function loadData() {
       console.log('🔍 CompetitiveDashboard: Starting to load data...')
       try {
-        const data = await getCompanyComparison()
+        const data = await getCompanyComparison(activeDataset, currency, numberFormat)
         console.log('🔍 CompetitiveDashboard: Data loaded:', data)
         setComparisonData(data)
         console.log('✅ CompetitiveDashboard: Data set successfully')
@@ -22,7 +27,7 @@ export function CompetitiveDashboard() {
       }
     }
     loadData()
-  }, [])
+  }, [activeDataset, currency, numberFormat])
 
   if (!comparisonData) {
     return (
@@ -38,7 +43,7 @@ export function CompetitiveDashboard() {
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm text-white/90">
-              Key Players Comparison - India Spices Market
+              Key Players Comparison - {marketName || 'Market'}
             </p>
           </div>
           <div className="text-right">
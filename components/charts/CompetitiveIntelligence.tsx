@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react'
 import { CompetitiveDashboard } from './CompetitiveDashboard'
 import { MarketShareAnalysis } from './MarketShareAnalysis'
 import { loadCompetitiveIntelligenceData, calculateMarketConcentration } from '@/lib/competitive-intelligence-data'
+import { useDashboardStore, selectActiveDataset } from '@/lib/store'
+import { ValidationReport } from '@/components/ui/ValidationReport'
 
 interface CompetitiveIntelligenceProps {
   height?: number
@@ -16,12 +18,17 @@ export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenc
     concentration: string
     totalCompanies: number
   } | null>(null)
+  const validationIssues = useDashboardStore(state => state.validationIssues['competitive-intelligence'])
+  const setValidationIssues = useDashboardStore(state => state.setValidationIssues)
+  const activeDataset = useDashboardStore(selectActiveDataset)
+  const marketName = useDashboardStore(state => state.data?.metadata.market_name)
+  const hasValidationErrors = validationIssues?.some(issue => issue.severity === 'error')
 
   useEffect(() => {
     async function loadInsights() {
       console.log('🔍 CompetitiveIntelligence: Starting to load data...')
       try {
-        const data = await loadCompetitiveIntelligenceData()
+        const data = await loadCompetitiveIntelligenceData(activeDataset, issues => setValidationIssues('competitive-intelligence', issues))
         console.log('🔍 CompetitiveIntelligence: Data loaded:', data)
 
         if (data && data.companies && data.companies.length > 0) {
@@ -49,7 +56,7 @@ export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenc
       }
     }
     loadInsights()
-  }, [])
+  }, [activeDataset, setValidationIssues])
 
   return (
     <div className="w-full space-y-6">
@@ -70,6 +77,15 @@ export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenc
         </div>
       </div>
 
+      {hasValidationErrors && (
+        <div className="space-y-2">
+          <p className="text-sm text-red-600">
+            competitive-intelligence.json failed validation, so sample data is shown instead.
+          </p>
+          <ValidationReport title="Competitive data validation report" issues={validationIssues!} />
+        </div>
+      )}
+
       {/* Market Share Analysis Section */}
       <div>
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -110,7 +126,7 @@ export function CompetitiveIntelligence({ height = 600 }: CompetitiveIntelligenc
               {insights?.totalCompanies || 'Loading...'}
             </div>
             <div className="text-xs text-gray-500 mt-1">
-              Key players in India Spices Market
+              Key players in {marketName || 'the market'}
             </div>
           </div>
         </div>
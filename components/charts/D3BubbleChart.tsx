@@ -2,8 +2,14 @@
 
 import { useEffect, useRef, useMemo, useState } from 'react'
 import * as d3 from 'd3'
-import { filterData } from '@/lib/data-processor'
+import { getGrowthPeriod, calculateGrowthMetrics, describeGrowthPeriod } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, formatAxisTick, getAmountUnit, getUnitLabel, getMeasureLabel } from '@/lib/number-format'
+import { aggregateAmount } from '@/lib/price'
+import { calculateMarketShare, SHARE_REFERENCE_LABELS } from '@/lib/market-share'
 import { getChartColor } from '@/lib/chart-theme'
 import type { DataRecord } from '@/lib/types'
 
@@ -24,29 +30,31 @@ interface BubbleDataPoint {
   currentValue: number
   cagr: number
   marketShare: number
+  shareOf: string // Denominator of the market share, e.g. "India total"
   absoluteGrowth: number
   color: string
 }
 
 export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   const svgRef = useRef<SVGSVGElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const [dimensions, setDimensions] = useState({ width: 800, height })
   const [tooltipData, setTooltipData] = useState<BubbleDataPoint | null>(null)
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 })
 
+  // Filtering runs in the chart pipeline worker
+  const pipeline = useChartPipeline('d3-bubble', 'records', filters)
+
   // Calculate chart data
   const chartData = useMemo(() => {
-    if (!data) return { bubbles: [], xLabel: '', yLabel: '' }
-
-    const dataset = filters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+    if (!data || !pipeline.result) return { bubbles: [], xLabel: '', yLabel: '', periodLabel: '' }
 
-    const filtered = filterData(dataset, filters)
+    const { records: filtered, filters } = pipeline.result
 
-    if (filtered.length === 0) return { bubbles: [], xLabel: '', yLabel: '' }
+    if (filtered.length === 0) return { bubbles: [], xLabel: '', yLabel: '', periodLabel: '' }
 
     // Get the current year (end of range)
     const currentYear = filters.yearRange[1]
@@ -66,48 +74,36 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
     // Build bubble data points
     const bubbles: BubbleDataPoint[] = []
     
-    // Calculate total market for share calculation
-    let totalMarketValue = 0
-    filtered.forEach(record => {
-      const value = record.time_series[currentYear] || 0
-      totalMarketValue += value
-    })
-    
-    // Calculate start year value for growth calculation
-    const startYear = filters.yearRange[0]
+    // Years growth is measured over: the selected range, or its historical or forecast part
+    const period = getGrowthPeriod(filters, data.metadata)
     
     grouped.forEach((records, key) => {
-      // Aggregate values for this group
-      let totalValue = 0
-      let totalStartValue = 0
+      // Aggregate values for this group; prices are volume-weighted averages
+      const totalValue = aggregateAmount(records, currentYear)
       let geography = ''
       let segment = ''
       let segmentType = ''
 
       records.forEach(record => {
-        const startVal = record.time_series[startYear] || 0
-        const endVal = record.time_series[currentYear] || 0
-        totalValue += endVal
-        totalStartValue += startVal
         geography = record.geography
         segment = record.segment
         segmentType = record.segment_type
       })
 
-      // Calculate market share as percentage of total market
-      const marketShare = totalMarketValue > 0 ? (totalValue / totalMarketValue) * 100 : 0
-      
-      // Calculate absolute growth (end - start)
-      const absoluteGrowth = totalValue - totalStartValue
+      // Market share against the chosen reference (geography, parent segment, business type or whole market)
+      const share = calculateMarketShare(records, data, filters, currentYear)
+      const marketShare = share.share
       
-      // Calculate CAGR from aggregated values
-      let calculatedCAGR = 0
-      if (totalStartValue > 0 && totalValue > 0) {
-        const years = currentYear - startYear
-        if (years > 0) {
-          calculatedCAGR = (Math.pow(totalValue / totalStartValue, 1 / years) - 1) * 100
-        }
-      }
+      // Calculate CAGR and absolute growth from aggregated values
+      const growth = period
+        ? calculateGrowthMetrics(
+            aggregateAmount(records, period.startYear),
+            aggregateAmount(records, period.endYear),
+            period.endYear - period.startYear
+          )
+        : null
+      const absoluteGrowth = growth?.absoluteGrowth ?? 0
+      const calculatedCAGR = growth?.cagr ?? 0
 
       // Only include points with valid data
       if (totalValue > 0 && !isNaN(marketShare) && !isNaN(calculatedCAGR)) {
@@ -124,6 +120,7 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
           currentValue: totalValue,
           cagr: calculatedCAGR,
           marketShare: marketShare,
+          shareOf: share.label,
           absoluteGrowth: absoluteGrowth,
           color: getChartColor(index % 10)
         })
@@ -133,16 +130,17 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
     // Sort by market size for better visualization
     bubbles.sort((a, b) => b.x - a.x)
 
-    const xLabel = filters.dataType === 'value'
-      ? `Market Size (${data.metadata.currency} ${data.metadata.value_unit})`
-      : `Market Size (${data.metadata.volume_unit})`
+    const xLabel = filters.dataType === 'price'
+      ? getMeasureLabel(data.metadata, 'price')
+      : `Market Size (${getUnitLabel(data.metadata, filters.dataType)})`
     
-    const yLabel = 'Market Share (%)'
+    const yLabel = `Share of ${SHARE_REFERENCE_LABELS[filters.shareReference]} (%)`
 
-    return { bubbles, xLabel, yLabel }
-  }, [data, filters])
+    return { bubbles, xLabel, yLabel, periodLabel: describeGrowthPeriod(period, filters) }
+  }, [data, pipeline.result])
 
-  // Update dimensions on container resize
+  // Update dimensions on container resize; the container only renders once there are bubbles
+  const hasBubbles = chartData.bubbles.length > 0
   useEffect(() => {
     if (!containerRef.current) return
 
@@ -158,7 +156,7 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
     resizeObserver.observe(containerRef.current)
 
     return () => resizeObserver.disconnect()
-  }, [height])
+  }, [height, hasBubbles])
 
   // D3 chart rendering
   useEffect(() => {
@@ -239,11 +237,7 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
 
     // Add X axis
     const xAxis = d3.axisBottom(xScale)
-      .tickFormat(d => {
-        const value = d as number
-        if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
-        return value.toFixed(0)
-      })
+      .tickFormat(d => formatAxisTick(d as number, numberFormat))
 
     g.append('g')
       .attr('transform', `translate(0,${height - yPadding})`)
@@ -360,9 +354,13 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
       .style('font-size', '11px')
       .style('fill', '#64748b')
       .style('font-style', 'italic')
-      .text(`Bubble size represents growth rate (CAGR): ${zExtent[0].toFixed(1)}% to ${zExtent[1].toFixed(1)}%`)
+      .text(`Bubble size represents growth rate (CAGR ${chartData.periodLabel}): ${zExtent[0].toFixed(1)}% to ${zExtent[1].toFixed(1)}%`)
+
+  }, [chartData, dimensions, numberFormat])
 
-  }, [chartData, dimensions])
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
 
   if (!data || chartData.bubbles.length === 0) {
     return (
@@ -377,14 +375,16 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
     )
   }
 
-  const unit = filters.dataType === 'value'
-    ? `${data.metadata.currency} ${data.metadata.value_unit}`
-    : data.metadata.volume_unit
+  const unit = getUnitLabel(data.metadata, filters.dataType)
 
   return (
-    <div className="w-full min-w-0 overflow-hidden" ref={containerRef}>
+    <div className="w-full min-w-0 overflow-hidden relative" ref={containerRef}>
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       {title && (
-        <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
+        <>
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
+          <ConversionNote className="-mt-3 mb-4" />
+        </>
       )}
       
       <div className="relative">
@@ -414,10 +414,7 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
                 <span className="text-sm text-gray-600">Market Size (X):</span>
                 <div className="text-right">
                   <span className="text-sm font-semibold text-gray-900">
-                    {tooltipData.x.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })}
+                    {formatAmount(tooltipData.x)}
                   </span>
                   <span className="text-xs text-gray-500 ml-1">{unit}</span>
                 </div>
@@ -429,7 +426,11 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">CAGR (Size):</span>
+                <span className="text-sm text-gray-600">Share of:</span>
+                <span className="text-sm font-medium text-gray-900">{tooltipData.shareOf}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">CAGR {chartData.periodLabel} (Size):</span>
                 <span className={`text-sm font-semibold ${
                   tooltipData.cagr > 0 ? 'text-green-600' : tooltipData.cagr < 0 ? 'text-red-600' : 'text-gray-600'
                 }`}>
@@ -437,15 +438,12 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Absolute Growth:</span>
+                <span className="text-sm text-gray-600">Absolute Growth {chartData.periodLabel}:</span>
                 <span className={`text-sm font-semibold ${
                   tooltipData.absoluteGrowth > 0 ? 'text-green-600' : tooltipData.absoluteGrowth < 0 ? 'text-red-600' : 'text-gray-600'
                 }`}>
                   {tooltipData.absoluteGrowth > 0 ? '+' : ''}
-                  {tooltipData.absoluteGrowth.toLocaleString(undefined, { 
-                    minimumFractionDigits: 2, 
-                    maximumFractionDigits: 2 
-                  })} {unit}
+                  {formatAmount(tooltipData.absoluteGrowth)} {unit}
                 </span>
               </div>
             </div>
@@ -474,7 +472,7 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
                 <span className="text-green-600 font-bold text-xs">Y</span>
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">Market Share (%)</p>
+                <p className="text-sm font-medium text-gray-900">{chartData.yLabel}</p>
                 <p className="text-xs text-gray-500">Vertical position</p>
               </div>
             </div>
@@ -483,7 +481,7 @@ export function D3BubbleChart({ title, height = 500 }: BubbleChartProps) {
                 <span className="text-purple-600 font-bold text-xs">S</span>
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">CAGR (%)</p>
+                <p className="text-sm font-medium text-gray-900">CAGR (%, {chartData.periodLabel})</p>
                 <p className="text-xs text-gray-500">Bubble size</p>
               </div>
             </div>
@@ -3,7 +3,13 @@
 import { useEffect, useRef, useMemo, useState } from 'react'
 import * as d3 from 'd3'
 import { useDashboardStore } from '@/lib/store'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, getAmountUnit, getUnitLabel } from '@/lib/number-format'
+import { getGrowthPeriod } from '@/lib/data-processor'
+import { aggregateAmount } from '@/lib/price'
+import { calculateMarketShare } from '@/lib/market-share'
 import { getChartColor } from '@/lib/chart-theme'
+import { withoutSegmentRollups } from '@/lib/rollup'
 import type { DataRecord } from '@/lib/types'
 import { EnhancedGeographyFilter } from '@/components/filters/EnhancedGeographyFilter'
 import { CascadingSegmentFilter } from '@/components/filters/CascadingSegmentFilter'
@@ -25,6 +31,7 @@ interface BubbleDataPoint {
   currentValue: number
   cagr: number
   marketShare: number
+  shareOf: string // Denominator of the market share, e.g. "India total"
   absoluteGrowth: number
   color: string
   // Store original index values separately since D3 will overwrite x,y with pixel positions
@@ -34,7 +41,9 @@ interface BubbleDataPoint {
 }
 
 export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   const svgRef = useRef<SVGSVGElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const [dimensions, setDimensions] = useState({ width: 800, height })
@@ -72,15 +81,13 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
   // Calculate chart data based on selected filters
   const chartData = useMemo(() => {
     if (!data || !selectedGeography || !selectedSegmentType) {
-      return { bubbles: [], xLabel: '', yLabel: '' }
+      return { bubbles: [], xLabel: '', yLabel: '', baseYear: 0, forecastYear: 0 }
     }
 
-    const dataset = filters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+    const dataset = data.data[filters.dataType]?.geography_segment_matrix ?? []
 
     // Filter data for selected geography and business type
-    let geographyFiltered = dataset.filter(record => 
+    let geographyFiltered = withoutSegmentRollups(dataset).filter(record => 
       record.geography === selectedGeography
     )
     
@@ -120,7 +127,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     }
 
     if (geographyFiltered.length === 0) {
-      return { bubbles: [], xLabel: '', yLabel: '' }
+      return { bubbles: [], xLabel: '', yLabel: '', baseYear: 0, forecastYear: 0 }
     }
 
     // Get immediate children of selected segment type
@@ -148,11 +155,11 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       }
     })
 
-    // Calculate metrics for each segment
-    // Always use 2032 as the forecast year for final values
-    const forecastYear = 2032
-    // Use 2024 as base year for CAGR calculation
-    const baseYear = 2024
+    // Calculate metrics for each segment over the growth period (the selected range, or its historical or
+    // forecast part), falling back to the dataset's base and forecast year
+    const period = getGrowthPeriod(filters, data.metadata)
+    const forecastYear = period?.endYear ?? data.metadata.forecast_year
+    const baseYear = period?.startYear ?? data.metadata.base_year
     
     // Helper function to get all descendants of a segment
     const getAllDescendants = (parentSegment: string): string[] => {
@@ -197,21 +204,15 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     // First pass: Calculate raw values for all segments to find maximums
     const segmentData: Array<{
       segment: string
-      baseValue: number      // 2024 value
-      forecastValue: number  // 2032 value
+      baseValue: number      // Base year value
+      forecastValue: number  // Forecast year value
       cagr: number
-      marketShare2024: number
+      baseMarketShare: number
+      shareOf: string
       absoluteGrowth: number
       index: number
     }> = []
     
-    // Calculate total market value for 2024 (for market share calculation)
-    let totalMarketValue2024 = 0
-    geographyFiltered.forEach(record => {
-      const value = record.time_series[baseYear] || 0
-      totalMarketValue2024 += value
-    })
-    
     immediateChildren.forEach((segment, index) => {
       // Get records for this segment and all its descendants
       const segmentsToInclude = [segment, ...getAllDescendants(segment)]
@@ -221,23 +222,18 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       
       if (segmentRecords.length === 0) return
       
-      let forecastValue = 0  // Value in 2032
-      let baseValue = 0      // Value in 2024
-      
-      segmentRecords.forEach(record => {
-        const base = record.time_series[baseYear] || 0
-        const forecast = record.time_series[forecastYear] || 0
-        forecastValue += forecast
-        baseValue += base
-      })
+      // Totals for the forecast and base year; prices are volume-weighted averages
+      const forecastValue = aggregateAmount(segmentRecords, forecastYear)
+      const baseValue = aggregateAmount(segmentRecords, baseYear)
       
-      // Calculate market share based on 2024 values (as requested)
-      const marketShare2024 = totalMarketValue2024 > 0 ? (baseValue / totalMarketValue2024) * 100 : 0
+      // Calculate market share based on base year values (as requested), against the chosen reference
+      const share = calculateMarketShare(segmentRecords, data, filters, baseYear)
+      const baseMarketShare = share.share
       
-      // Calculate CAGR from 2024 to 2032 (8 years)
+      // Calculate CAGR from the base to the forecast year
       let calculatedCAGR = 0
       if (baseValue > 0 && forecastValue > 0) {
-        const years = forecastYear - baseYear  // 8 years
+        const years = forecastYear - baseYear
         if (years > 0) {
           // Calculate CAGR with safeguards against extreme values
           const growthRatio = forecastValue / baseValue
@@ -265,17 +261,18 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
         }
       }
       
-      // Calculate absolute growth from 2024 to 2032
+      // Calculate absolute growth from the base to the forecast year
       const absoluteGrowth = forecastValue - baseValue
       
       // Store data for index calculation
-      if (forecastValue > 0 && baseValue > 0 && !isNaN(marketShare2024) && !isNaN(calculatedCAGR)) {
+      if (forecastValue > 0 && baseValue > 0 && !isNaN(baseMarketShare) && !isNaN(calculatedCAGR)) {
         segmentData.push({
           segment,
           baseValue,
           forecastValue,
           cagr: Math.max(0, calculatedCAGR), // No negative CAGR
-          marketShare2024,
+          baseMarketShare,
+          shareOf: share.label,
           absoluteGrowth,
           index
         })
@@ -284,7 +281,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     
     // Find maximum values for index calculations
     const maxCAGR = Math.max(...segmentData.map(d => d.cagr))
-    const maxMarketShare2024 = Math.max(...segmentData.map(d => d.marketShare2024))
+    const maxBaseMarketShare = Math.max(...segmentData.map(d => d.baseMarketShare))
     const maxAbsoluteGrowth = Math.max(...segmentData.map(d => d.absoluteGrowth))
     
     // Debug: Log all segment data to understand the values
@@ -292,7 +289,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       segment: d.segment,
       baseValue: d.baseValue.toFixed(2),
       forecastValue: d.forecastValue.toFixed(2),
-      marketShare2024: d.marketShare2024.toFixed(2) + '%',
+      baseMarketShare: d.baseMarketShare.toFixed(2) + '%',
       absoluteGrowth: d.absoluteGrowth.toFixed(2),
       cagr: d.cagr.toFixed(2) + '%',
       growthMultiple: (d.forecastValue / d.baseValue).toFixed(2) + 'x'
@@ -300,16 +297,16 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     
     console.log('Max Values:', {
       maxCAGR: maxCAGR.toFixed(2) + '%',
-      maxMarketShare2024: maxMarketShare2024.toFixed(2) + '%',
+      maxBaseMarketShare: maxBaseMarketShare.toFixed(2) + '%',
       maxAbsoluteGrowth: maxAbsoluteGrowth.toFixed(2)
     })
     
     // Check correlation between market share and absolute growth
     const correlationCheck = segmentData.map(d => ({
       segment: d.segment,
-      shareRatio: (d.marketShare2024 / maxMarketShare2024).toFixed(3),
+      shareRatio: (d.baseMarketShare / maxBaseMarketShare).toFixed(3),
       growthRatio: (d.absoluteGrowth / maxAbsoluteGrowth).toFixed(3),
-      difference: Math.abs((d.marketShare2024 / maxMarketShare2024) - (d.absoluteGrowth / maxAbsoluteGrowth)).toFixed(4)
+      difference: Math.abs((d.baseMarketShare / maxBaseMarketShare) - (d.absoluteGrowth / maxAbsoluteGrowth)).toFixed(4)
     }))
     
     console.log('Correlation Check (Share vs Growth ratios):', correlationCheck)
@@ -321,12 +318,12 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       // Calculate indices (0-100 scale)
       // Cap all indices at 100 to ensure they never exceed the maximum
       const cagrIndex = maxCAGR > 0 ? Math.min(100, (data.cagr / maxCAGR) * 100) : 0
-      const marketShareIndex = maxMarketShare2024 > 0 ? Math.min(100, (data.marketShare2024 / maxMarketShare2024) * 100) : 0
+      const marketShareIndex = maxBaseMarketShare > 0 ? Math.min(100, (data.baseMarketShare / maxBaseMarketShare) * 100) : 0
       const incrementalOpportunityIndex = maxAbsoluteGrowth > 0 ? Math.min(100, (data.absoluteGrowth / maxAbsoluteGrowth) * 100) : 0
       
       // Debug each segment's indices
       console.log(`Indices for ${data.segment}:`, {
-        marketShare: data.marketShare2024.toFixed(2),
+        marketShare: data.baseMarketShare.toFixed(2),
         marketShareIndex: marketShareIndex.toFixed(1),
         absoluteGrowth: data.absoluteGrowth.toFixed(2),
         incrementalOpportunityIndex: incrementalOpportunityIndex.toFixed(1),
@@ -345,7 +342,8 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
         segmentType: selectedSegmentType,
         currentValue: data.forecastValue,
         cagr: data.cagr,                    // Store actual CAGR for tooltip
-        marketShare: data.marketShare2024,   // Store actual market share for tooltip
+        marketShare: data.baseMarketShare,   // Store actual market share for tooltip
+        shareOf: data.shareOf,
         absoluteGrowth: data.absoluteGrowth, // Store actual growth for tooltip
         color: getChartColor(data.index % 10),
         // Store index values separately
@@ -367,9 +365,9 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     }
 
     const xLabel = 'CAGR Index'
-    const yLabel = 'Market Share Index (2024)'
+    const yLabel = `Market Share Index (${baseYear})`
 
-    return { bubbles: filteredBubbles, xLabel, yLabel }
+    return { bubbles: filteredBubbles, xLabel, yLabel, baseYear, forecastYear }
   }, [data, filters, selectedGeography, selectedSegmentType, selectedBusinessType, selectedSegments, maxBubbles, minOpportunityIndex])
 
   // Update dimensions on container resize
@@ -571,7 +569,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
       .style('font-size', '11px')
       .style('fill', '#64748b')
       .style('font-style', 'italic')
-      .text(`Bubble size represents 2032 market size in ${selectedGeography} | All values projected to 2032`)
+      .text(`Bubble size represents ${chartData.forecastYear} market size in ${selectedGeography} | Growth measured ${chartData.baseYear}–${chartData.forecastYear}`)
 
   }, [chartData, dimensions, selectedGeography])
 
@@ -585,14 +583,15 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
     )
   }
 
-  const unit = filters.dataType === 'value'
-    ? `${data.metadata.currency} ${data.metadata.value_unit}`
-    : data.metadata.volume_unit
+  const unit = getUnitLabel(data.metadata, filters.dataType)
 
   return (
     <div className="w-full min-w-0 overflow-hidden" ref={containerRef}>
       {title && (
-        <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
+        <>
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
+          <ConversionNote className="-mt-3 mb-4" />
+        </>
       )}
       
       {/* Enhanced Filter Section - Using Market Analysis Filters */}
@@ -789,7 +788,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Market Share Index (2024):</span>
+                  <span className="text-sm text-black">Market Share Index ({chartData.baseYear}):</span>
                   <span className="text-sm font-bold text-purple-600">
                     {tooltipData.yIndex.toFixed(1)}
                   </span>
@@ -806,25 +805,26 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
               <div className="pt-2 mt-2 border-t border-gray-200">
                 <p className="text-xs font-semibold text-black mb-2">ACTUAL VALUES</p>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Market Size (2032):</span>
+                  <span className="text-sm text-black">Market Size ({chartData.forecastYear}):</span>
                   <div className="text-right">
                     <span className="text-sm font-semibold text-gray-900">
-                      {tooltipData.currentValue.toLocaleString(undefined, { 
-                        minimumFractionDigits: 2, 
-                        maximumFractionDigits: 2 
-                      })}
+                      {formatAmount(tooltipData.currentValue)}
                     </span>
                     <span className="text-xs text-black ml-1">{unit}</span>
                   </div>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Market Share (2024):</span>
+                  <span className="text-sm text-black">Market Share ({chartData.baseYear}):</span>
                   <span className="text-sm font-semibold text-blue-600">
                     {tooltipData.marketShare.toFixed(2)}%
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">CAGR (2024-2032):</span>
+                  <span className="text-sm text-black">Share of:</span>
+                  <span className="text-sm font-medium text-black">{tooltipData.shareOf}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-black">CAGR ({chartData.baseYear}–{chartData.forecastYear}):</span>
                   <span className={`text-sm font-semibold ${
                     tooltipData.cagr > 0 ? 'text-green-600' : tooltipData.cagr < 0 ? 'text-red-600' : 'text-black'
                   }`}>
@@ -832,15 +832,12 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-black">Growth (2024-2032):</span>
+                  <span className="text-sm text-black">Growth ({chartData.baseYear}–{chartData.forecastYear}):</span>
                   <span className={`text-sm font-semibold ${
                     tooltipData.absoluteGrowth > 0 ? 'text-green-600' : tooltipData.absoluteGrowth < 0 ? 'text-red-600' : 'text-black'
                   }`}>
                     {tooltipData.absoluteGrowth > 0 ? '+' : ''}
-                    {tooltipData.absoluteGrowth.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })} {unit}
+                    {formatAmount(tooltipData.absoluteGrowth)} {unit}
                   </span>
                 </div>
               </div>
@@ -867,7 +864,7 @@ export function D3BubbleChartIndependent({ title, height = 500 }: BubbleChartPro
                 <span className="text-green-600 font-bold text-xs">Y</span>
               </div>
               <div>
-                <p className="text-sm font-medium text-gray-900">Market Share Index (2024)</p>
+                <p className="text-sm font-medium text-gray-900">Market Share Index ({chartData.baseYear})</p>
                 <p className="text-xs text-black">Current position relative to leader</p>
               </div>
             </div>
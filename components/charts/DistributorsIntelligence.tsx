@@ -16,6 +16,7 @@ import {
   type TableColumn
 } from '@/lib/distributors-intelligence-data'
 import { CHART_COLORS } from '@/lib/chart-theme'
+import { useDashboardStore, selectActiveDataset } from '@/lib/store'
 
 interface DistributorsIntelligenceProps {
   title?: string
@@ -361,13 +362,15 @@ export function DistributorsIntelligence({ title, height = 600 }: DistributorsIn
   const [selectedDistributor, setSelectedDistributor] = useState<Distributor | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const activeDataset = useDashboardStore(selectActiveDataset)
 
-  // Load data on mount
+  // Load the selected market's data
   useEffect(() => {
     async function loadData() {
       try {
         setIsLoading(true)
-        const data = await loadDistributorsIntelligenceData()
+        setError(null)
+        const data = await loadDistributorsIntelligenceData(activeDataset)
         if (data) {
           setDistributorsData(data)
           // Set default module to first available
@@ -386,7 +389,7 @@ export function DistributorsIntelligence({ title, height = 600 }: DistributorsIn
     }
     
     loadData()
-  }, [])
+  }, [activeDataset])
 
   // Get available modules
   const availableModules = useMemo(() => {
@@ -16,6 +16,8 @@ import {
   type TableColumn
 } from '@/lib/distributors-intelligence-data'
 import { CHART_COLORS } from '@/lib/chart-theme'
+import { useDashboardStore, selectActiveDataset } from '@/lib/store'
+import { ValidationReport } from '@/components/ui/ValidationReport'
 import { DistributorIntelligenceHeatmap } from './DistributorIntelligenceHeatmap'
 
 interface DistributorsIntelligenceProps {
@@ -360,13 +362,18 @@ export function DistributorsIntelligence({ title, height = 600 }: DistributorsIn
   const [selectedDistributor, setSelectedDistributor] = useState<Distributor | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const validationIssues = useDashboardStore(state => state.validationIssues['distributors-intelligence'])
+  const setValidationIssues = useDashboardStore(state => state.setValidationIssues)
+  const activeDataset = useDashboardStore(selectActiveDataset)
+  const hasValidationErrors = validationIssues?.some(issue => issue.severity === 'error')
 
-  // Load data on mount
+  // Load the selected market's data
   useEffect(() => {
     async function loadData() {
       try {
         setIsLoading(true)
-        const data = await loadDistributorsIntelligenceData()
+        setError(null)
+        const data = await loadDistributorsIntelligenceData(activeDataset, issues => setValidationIssues('distributors-intelligence', issues))
         if (data) {
           setDistributorsData(data)
           // Set default module to first available
@@ -385,7 +392,7 @@ export function DistributorsIntelligence({ title, height = 600 }: DistributorsIn
     }
     
     loadData()
-  }, [])
+  }, [activeDataset, setValidationIssues])
 
   // Get available modules
   const availableModules = useMemo(() => {
@@ -436,10 +443,15 @@ export function DistributorsIntelligence({ title, height = 600 }: DistributorsIn
 
   if (error || !distributorsData) {
     return (
-      <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
-        <div className="text-center">
+      <div className={`flex items-center justify-center ${hasValidationErrors ? 'min-h-96 py-6' : 'h-96'} bg-gray-50 rounded-lg`}>
+        <div className={`text-center ${hasValidationErrors ? 'w-full max-w-3xl px-4' : ''}`}>
           <p className="text-red-600 font-semibold">Error Loading Data</p>
           <p className="text-sm text-gray-500 mt-2">{error || 'Distributors data not available'}</p>
+          {hasValidationErrors && (
+            <div className="mt-4">
+              <ValidationReport title="Distributors data validation report" issues={validationIssues!} />
+            </div>
+          )}
         </div>
       </div>
     )
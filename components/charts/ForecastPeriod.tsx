@@ -0,0 +1,84 @@
+'use client'
+
+import { ReferenceLine } from 'recharts'
+import { PERIOD_STYLE, getForecastHatchBackground, getForecastPatternId } from '@/lib/chart-theme'
+
+/**
+ * Hatch patterns for forecast bars, one per color; render inside the chart and fill with `getForecastFill`
+ */
+export function renderForecastPatterns(colors: string[]) {
+  const size = PERIOD_STYLE.hatchSize
+  return (
+    <defs>
+      {Array.from(new Set(colors)).map(color => (
+        <pattern
+          key={color}
+          id={getForecastPatternId(color)}
+          patternUnits="userSpaceOnUse"
+          width={size}
+          height={size}
+          patternTransform="rotate(45)"
+        >
+          <rect width={size} height={size} fill={color} fillOpacity={PERIOD_STYLE.forecastOpacity} />
+          <line x1={0} y1={0} x2={0} y2={size} stroke={color} strokeWidth={3} />
+        </pattern>
+      ))}
+    </defs>
+  )
+}
+
+/**
+ * Bar fill for a year: the color up to the base year, its hatching after it
+ */
+export function getForecastFill(color: string, forecast: boolean): string {
+  return forecast ? `url(#${getForecastPatternId(color)})` : color
+}
+
+/**
+ * Vertical marker at the base year; render as a direct child of the chart
+ */
+export function renderBaseYearMarker(baseYear: number, years: number[]) {
+  if (!years.includes(baseYear)) return null
+  return (
+    <ReferenceLine
+      x={baseYear}
+      stroke={PERIOD_STYLE.baseYearStroke}
+      strokeDasharray="3 3"
+      label={{ value: `Base year ${baseYear}`, position: 'insideTopRight', fill: PERIOD_STYLE.baseYearStroke, fontSize: 11 }}
+    />
+  )
+}
+
+interface PeriodLegendProps {
+  baseYear: number
+  variant: 'line' | 'bar'
+  note?: string // Replaces the forecast label, e.g. for bars covering a period
+  className?: string
+}
+
+/**
+ * Legend explaining the historical and forecast styles and the base-year marker
+ */
+export function PeriodLegend({ baseYear, variant, note, className = '' }: PeriodLegendProps) {
+  const color = '#4b5563'
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-4 text-xs text-gray-600 ${className}`}>
+      <span className="flex items-center gap-1.5">
+        {variant === 'line'
+          ? <span className="inline-block w-6 border-t-2" style={{ borderColor: color }} />
+          : <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />}
+        Historical (to {baseYear})
+      </span>
+      <span className="flex items-center gap-1.5">
+        {variant === 'line'
+          ? <span className="inline-block w-6 border-t-2 border-dashed" style={{ borderColor: color }} />
+          : <span className="inline-block w-3 h-3 rounded-sm border" style={{ borderColor: color, backgroundImage: getForecastHatchBackground(color) }} />}
+        {note ?? `Forecast (after ${baseYear})`}
+      </span>
+      <span className="flex items-center gap-1.5">
+        <span className="inline-block h-3 border-l border-dashed" style={{ borderColor: PERIOD_STYLE.baseYearStroke }} />
+        Base year marker
+      </span>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useMemo, useState } from 'react'
 import {
   BarChart,
   Bar,
+  Cell,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -11,9 +12,14 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts'
-import { CHART_THEME, getChartColor, CHART_COLORS } from '@/lib/chart-theme'
-import { filterData, prepareGroupedBarData, getUniqueGeographies, getUniqueSegments } from '@/lib/data-processor'
+import { CHART_THEME, getChartColor, CHART_COLORS, isForecastYear } from '@/lib/chart-theme'
+import { getUniqueGeographies, getUniqueSegments } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, formatAxisTick, getAmountUnit, getUnitLabel, getMeasureLabel } from '@/lib/number-format'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { PeriodLegend, getForecastFill, renderBaseYearMarker, renderForecastPatterns } from './ForecastPeriod'
 import type { DataRecord } from '@/lib/types'
 
 interface GroupedBarChartProps {
@@ -23,7 +29,9 @@ interface GroupedBarChartProps {
 }
 
 function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBarChartProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   const [hoveredBar, setHoveredBar] = useState<string | null>(null)
   
   // Create modified filters for this specific segment
@@ -31,33 +39,21 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
     ? { ...filters, segments: [segmentFilter] }
     : filters
 
-  const chartData = useMemo(() => {
-    if (!data) return { data: [], series: [], stackedSeries: null }
-
-    // Get the appropriate dataset
-    const dataset = modifiedFilters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  // Filtering and aggregation run in the chart pipeline worker
+  const pipeline = useChartPipeline(
+    segmentFilter ? `grouped-bar:${segmentFilter}` : 'grouped-bar',
+    'grouped-bar',
+    modifiedFilters
+  )
 
-    console.log('📊 Chart Data Debug:', {
-      totalDataset: dataset.length,
-      filters: modifiedFilters,
-      segmentFilter,
-      sampleData: dataset.slice(0, 2)
-    })
+  const chartData = useMemo(() => {
+    if (!data || !pipeline.result) return { data: [], series: [], stackedSeries: null }
 
-    // Filter data
-    const filtered = filterData(dataset, modifiedFilters)
+    // Use the filters the result was computed for, which may lag behind while a newer request runs
+    const { records: filtered, prepared, filters: modifiedFilters } = pipeline.result
 
-    console.log('📊 After filtering:', {
+    console.log('📊 Pipeline result:', {
       filteredCount: filtered.length,
-      sampleFiltered: filtered.slice(0, 2)
-    })
-
-    // Prepare chart data
-    const prepared = prepareGroupedBarData(filtered, modifiedFilters)
-
-    console.log('📊 Prepared chart data:', {
       preparedLength: prepared.length,
       samplePrepared: prepared.slice(0, 2)
     })
@@ -199,7 +195,7 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
     console.log('📊 Stacked Series:', stackedSeries)
 
     return { data: prepared, series, stackedSeries, isStacked }
-  }, [data, modifiedFilters, segmentFilter])
+  }, [data, pipeline.result, segmentFilter])
 
   // Check if too many segments (likely means no filter applied)
   const hasTooManySegments = chartData.series.length > 50
@@ -207,6 +203,10 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
   // Check if we have no geographies selected
   const hasNoGeographies = modifiedFilters.geographies.length === 0
   
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
+  
   if (!data || chartData.data.length === 0) {
     return (
       <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
@@ -269,9 +269,27 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
     )
   }
 
-  const yAxisLabel = modifiedFilters.dataType === 'value'
-    ? `Market Value (${data.metadata.currency} ${data.metadata.value_unit})`
-    : `Market Volume (${data.metadata.volume_unit})`
+  const yAxisLabel = getMeasureLabel(data.metadata, modifiedFilters.dataType)
+  const baseYear = data.metadata.base_year
+
+  // One bar per series, colored by its stack position
+  const bars: Array<{ series: string; color: string; stackId?: string }> = chartData.isStacked && chartData.stackedSeries
+    ? chartData.stackedSeries.primary.flatMap((primary, primaryIdx) =>
+        // Series are "<primary>::<secondary>": geography::segment in segment-mode, segment::geography in geography-mode
+        chartData.series
+          .filter(s => s.startsWith(`${primary}::`))
+          .map((seriesName, secondaryIdx) => {
+            const [, secondary] = seriesName.split('::')
+            // Get the index of this secondary item in the stackedSeries.secondary array for consistent coloring
+            const secondaryIndex = chartData.stackedSeries?.secondary.indexOf(secondary) ?? secondaryIdx
+            return {
+              series: seriesName,
+              color: getChartColor(primaryIdx, secondaryIndex),
+              stackId: modifiedFilters.dataType === 'price' ? undefined : primary // Prices don't add up
+            }
+          })
+      )
+    : chartData.series.map((seriesName, index) => ({ series: seriesName, color: getChartColor(index) }))
 
   // Matrix view should use heatmap instead
   if (modifiedFilters.viewMode === 'matrix') {
@@ -295,9 +313,7 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
     if (!active || !payload || !payload.length) return null
 
     const year = label
-    const unit = modifiedFilters.dataType === 'value'
-      ? `${data.metadata.currency} ${data.metadata.value_unit}`
-      : data.metadata.volume_unit
+    const unit = getUnitLabel(data.metadata, modifiedFilters.dataType)
 
     if (chartData.isStacked && chartData.stackedSeries) {
       // Stacked tooltip - show all segments/geographies for the hovered bar
@@ -348,21 +364,15 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
                       <span className="text-sm text-gray-700">{item.name}</span>
                     </div>
                     <span className="text-sm font-medium text-gray-900">
-                      {item.value.toLocaleString(undefined, { 
-                        minimumFractionDigits: 2, 
-                        maximumFractionDigits: 2 
-                      })} {unit}
+                      {formatAmount(item.value)} {unit}
                     </span>
                   </div>
                 ))}
-                {items.length > 1 && (
+                {items.length > 1 && modifiedFilters.dataType !== 'price' && (
                   <div className="flex items-center justify-between gap-4 mt-2 pt-2 border-t border-gray-100">
                     <span className="text-sm font-semibold text-gray-800 ml-2">Total</span>
                     <span className="text-sm font-bold text-gray-900">
-                      {total.toLocaleString(undefined, { 
-                        minimumFractionDigits: 2, 
-                        maximumFractionDigits: 2 
-                      })} {unit}
+                      {formatAmount(total)} {unit}
                     </span>
                   </div>
                 )}
@@ -440,10 +450,7 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
                 </div>
                 <div className="text-right">
                   <span className="text-sm font-semibold text-gray-900">
-                    {entry.value?.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    }) || '0.00'}
+                    {formatAmount(entry.value ?? 0)}
                   </span>
                   <span className="text-xs text-gray-500 ml-1">
                     {unit}
@@ -505,9 +512,13 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
     : title
 
   return (
-    <div className="w-full">
+    <div className="w-full relative">
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       {displayTitle && (
-        <h3 className="text-lg font-semibold mb-4 text-gray-900">{displayTitle}</h3>
+        <>
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">{displayTitle}</h3>
+          <ConversionNote className="-mt-3 mb-4" />
+        </>
       )}
       
       <ResponsiveContainer width="100%" height={height}>
@@ -520,6 +531,7 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
           />
           <YAxis
             tick={{ fontSize: 12, fill: '#000000' }}
+            tickFormatter={(value) => formatAxisTick(value, numberFormat)}
             label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', fill: '#000000' }}
           />
           <Tooltip 
@@ -587,48 +599,25 @@ function GroupedBarChartSingle({ title, height = 400, segmentFilter }: GroupedBa
             }}
           />
           
-          {chartData.isStacked && chartData.stackedSeries ? (
-            // Render stacked bars
-            chartData.stackedSeries.primary.map((primary, primaryIdx) => {
-              // Get all series for this primary dimension
-              const primarySeries = chartData.series.filter(s => {
-                if (modifiedFilters.viewMode === 'segment-mode') {
-                  // In segment-mode: primary is geography, format is "geo::segment"
-                  return s.startsWith(`${primary}::`)
-                } else {
-                  // In geography-mode: primary is segment, format is "segment::geo"
-                  return s.startsWith(`${primary}::`)
-                }
-              })
-              
-              return primarySeries.map((seriesName, secondaryIdx) => {
-                const [, secondary] = seriesName.split('::')
-                // Get the index of this secondary item in the stackedSeries.secondary array for consistent coloring
-                const secondaryIndex = chartData.stackedSeries?.secondary.indexOf(secondary) ?? secondaryIdx
-                return (
-                  <Bar
-                    key={seriesName}
-                    dataKey={seriesName}
-                    stackId={primary}
-                    fill={getChartColor(primaryIdx, secondaryIndex)}
-                    name={seriesName}
-                  />
-                )
-              })
-            }).flat()
-          ) : (
-            // Render non-stacked bars
-            chartData.series.map((seriesName, index) => (
+          {renderForecastPatterns(bars.map(bar => bar.color))}
+          {renderBaseYearMarker(baseYear, chartData.data.map(point => point.year))}
+          {bars.map(bar => (
             <Bar
-              key={seriesName}
-              dataKey={seriesName}
-              fill={getChartColor(index)}
-              name={seriesName}
-            />
-            ))
-          )}
+              key={bar.series}
+              dataKey={bar.series}
+              stackId={bar.stackId}
+              fill={bar.color}
+              name={bar.series}
+            >
+              {/* Forecast years are hatched */}
+              {chartData.data.map(point => (
+                <Cell key={point.year} fill={getForecastFill(bar.color, isForecastYear(point.year, baseYear))} />
+              ))}
+            </Bar>
+          ))}
         </BarChart>
       </ResponsiveContainer>
+      <PeriodLegend baseYear={baseYear} variant="bar" className="mt-2" />
 
       {chartData.series.length > 0 && (
         <div className="mt-4 text-sm text-black font-medium text-center">
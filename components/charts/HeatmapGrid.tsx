@@ -0,0 +1,85 @@
+'use client'
+
+export interface HeatmapGridCell {
+  className: string // Background colour class
+  label: string
+  labelClassName?: string
+}
+
+export interface HeatmapCellHover {
+  rowIndex: number
+  columnIndex: number
+  x: number
+  y: number
+}
+
+interface HeatmapGridProps {
+  rows: string[]
+  columns: string[]
+  cornerLabel: string
+  getCell: (rowIndex: number, columnIndex: number) => HeatmapGridCell
+  onCellHover: (hover: HeatmapCellHover | null) => void
+  onCellClick?: (rowIndex: number, columnIndex: number) => void
+  height?: number
+}
+
+/**
+ * Row × column grid of fixed-width cells used by the matrix heatmaps
+ */
+export function HeatmapGrid({ rows, columns, cornerLabel, getCell, onCellHover, onCellClick, height }: HeatmapGridProps) {
+  return (
+    <div className="overflow-auto" style={{ maxHeight: height }}>
+      <div className="inline-block min-w-full">
+        {/* Header row with columns */}
+        <div className="flex">
+          <div className="w-32 p-2 bg-gray-100 border border-gray-300 font-medium text-sm text-gray-900">
+            {cornerLabel}
+          </div>
+          {columns.map(column => (
+            <div
+              key={column}
+              className="w-32 p-2 bg-gray-100 border border-gray-300 text-xs font-medium text-center truncate text-gray-900"
+              title={column}
+            >
+              {column}
+            </div>
+          ))}
+        </div>
+
+        {/* Data rows */}
+        {rows.map((row, rowIndex) => (
+          <div key={row} className="flex">
+            <div className="w-32 p-2 bg-gray-100 border border-gray-300 font-medium text-sm truncate text-gray-900" title={row}>
+              {row}
+            </div>
+            {columns.map((column, columnIndex) => {
+              const cell = getCell(rowIndex, columnIndex)
+
+              return (
+                <div
+                  key={`${row}-${column}`}
+                  className={`w-32 p-2 border border-gray-300 text-center cursor-pointer transition-all hover:opacity-80 ${cell.className}`}
+                  onMouseEnter={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect()
+                    onCellHover({
+                      rowIndex,
+                      columnIndex,
+                      x: rect.left + rect.width / 2,
+                      y: rect.top - 10
+                    })
+                  }}
+                  onMouseLeave={() => onCellHover(null)}
+                  onClick={onCellClick ? () => onCellClick(rowIndex, columnIndex) : undefined}
+                >
+                  <span className={`text-xs font-medium ${cell.labelClassName || 'text-gray-800'}`}>
+                    {cell.label}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
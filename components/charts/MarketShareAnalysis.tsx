@@ -2,28 +2,44 @@
 
 import { useEffect, useState } from 'react'
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts'
-import { generateMarketShareData, MarketShareData, loadCompetitiveIntelligenceData } from '@/lib/competitive-intelligence-data'
+import { generateMarketShareData, MarketShareData, loadCompetitiveIntelligenceData, getRevenueSource } from '@/lib/competitive-intelligence-data'
+import { useDashboardStore, selectActiveDataset } from '@/lib/store'
+import { convertAmount, type AmountSource } from '@/lib/currency'
+import { formatNumber, formatPercentage } from '@/lib/number-format'
 
 interface MarketShareAnalysisProps {
   year?: number
 }
 
+const MARKET_SIZE = 5000 // Total market size in the revenue currency and unit
+
 export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
   const [marketShareData, setMarketShareData] = useState<MarketShareData[]>([])
   const [allCompaniesData, setAllCompaniesData] = useState<MarketShareData[]>([])
   const [activeTab, setActiveTab] = useState<'chart' | 'table'>('chart')
+  const [revenueSource, setRevenueSource] = useState<AmountSource>(() => getRevenueSource(null))
+  const activeDataset = useDashboardStore(selectActiveDataset)
+  const currency = useDashboardStore(state => state.currency)
+  const numberFormat = useDashboardStore(state => state.numberFormat)
+
+  // Revenue for a market share, in the reporting currency and unit
+  const revenueFor = (marketShare: number) => convertAmount((marketShare / 100) * MARKET_SIZE, revenueSource, currency)
+  const reportedIn = revenueFor(0)
+  const revenueUnit = `${reportedIn.currency} ${reportedIn.unit}`
+  const formatRevenue = (value: number) => formatNumber(value, numberFormat, { unit: reportedIn.unit })
 
   useEffect(() => {
     async function loadData() {
       console.log('🔍 MarketShareAnalysis: Starting to load data...')
       try {
-        const chartData = await generateMarketShareData(10) // Top 10 for chart
+        const chartData = await generateMarketShareData(activeDataset, 10) // Top 10 for chart
         console.log('🔍 MarketShareAnalysis: Chart data loaded:', chartData)
         setMarketShareData(chartData)
 
         // Load all companies for table view
-        const jsonData = await loadCompetitiveIntelligenceData()
+        const jsonData = await loadCompetitiveIntelligenceData(activeDataset)
         console.log('🔍 MarketShareAnalysis: JSON data loaded:', jsonData)
+        setRevenueSource(getRevenueSource(jsonData))
         if (jsonData && jsonData.market_share_data) {
           const sorted = [...jsonData.market_share_data].sort((a, b) => b.marketShare - a.marketShare)
           setAllCompaniesData(sorted)
@@ -36,7 +52,7 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
       }
     }
     loadData()
-  }, [])
+  }, [activeDataset])
 
   // No labels on chart - percentages only in tooltip
   const renderCustomLabel = () => null
@@ -46,8 +62,7 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
     if (!active || !payload || !payload.length) return null
 
     const data = payload[0]
-    const marketSize = 5000 // Total market size in Cr INR
-    const revenue = (data.value / 100) * marketSize
+    const revenue = revenueFor(data.value).value
     
     return (
       <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
@@ -58,9 +73,9 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
             <span className="text-sm font-semibold text-gray-900">{data.value.toFixed(2)}%</span>
           </div>
           <div className="flex justify-between gap-4">
-            <span className="text-sm text-gray-600">Revenue (Cr INR):</span>
+            <span className="text-sm text-gray-600">Revenue ({revenueUnit}):</span>
             <span className="text-sm font-semibold text-gray-900">
-              {revenue.toFixed(0)}
+              {formatRevenue(revenue)}
             </span>
           </div>
         </div>
@@ -173,7 +188,7 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
               </div>
               <div className="flex justify-between text-sm mt-2">
                 <span className="text-gray-600">Market Size:</span>
-                <span className="font-semibold text-gray-900">~5,000 Cr INR</span>
+                <span className="font-semibold text-gray-900">~{formatRevenue(revenueFor(100).value)} {revenueUnit}</span>
               </div>
               <div className="flex justify-between text-sm mt-1">
                 <span className="text-gray-600">Companies Shown:</span>
@@ -209,7 +224,7 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
                     Market Share
                   </th>
                   <th className="px-4 py-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider border-b border-gray-200">
-                    Revenue (Cr INR)
+                    Revenue ({revenueUnit})
                   </th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider border-b border-gray-200 w-16">
                     Color
@@ -218,8 +233,7 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {allCompaniesData.map((company, index) => {
-                  const marketSize = 5000 // Total market size in Cr INR
-                  const revenue = (company.marketShare / 100) * marketSize
+                  const revenue = revenueFor(company.marketShare).value
                   
                   return (
                     <tr key={company.company} className="hover:bg-gray-50">
@@ -230,10 +244,10 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
                         {company.company}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-900 text-right">
-                        {company.marketShare.toFixed(2)}%
+                        {formatPercentage(company.marketShare, numberFormat, { decimals: 2 })}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-900 text-right">
-                        {revenue.toFixed(0)}
+                        {formatRevenue(revenue)}
                       </td>
                       <td className="px-4 py-3 text-center">
                         <div 
@@ -255,10 +269,7 @@ export function MarketShareAnalysis({ year = 2024 }: MarketShareAnalysisProps) {
                     {allCompaniesData.reduce((sum, c) => sum + c.marketShare, 0).toFixed(2)}%
                   </td>
                   <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">
-                    {allCompaniesData.reduce((sum, c) => {
-                      const marketSize = 5000
-                      return sum + ((c.marketShare / 100) * marketSize)
-                    }, 0).toFixed(0)}
+                    {formatRevenue(allCompaniesData.reduce((sum, c) => sum + revenueFor(c.marketShare).value, 0))}
                   </td>
                   <td></td>
                 </tr>
@@ -2,7 +2,11 @@
 
 import { useMemo, useState } from 'react'
 import { useDashboardStore } from '@/lib/store'
-import { filterData } from '@/lib/data-processor'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, getAmountUnit, getUnitLabel } from '@/lib/number-format'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { HeatmapGrid } from './HeatmapGrid'
 
 interface MatrixHeatmapProps {
   title?: string
@@ -10,19 +14,18 @@ interface MatrixHeatmapProps {
 }
 
 export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat } = useDashboardStore()
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   const [hoveredCell, setHoveredCell] = useState<{ geo: string; segment: string; value: number; x: number; y: number } | null>(null)
 
-  const matrixData = useMemo(() => {
-    if (!data) return { matrix: [], geographies: [], segments: [], maxValue: 0, minValue: 0 }
+  // Filtering runs in the chart pipeline worker
+  const pipeline = useChartPipeline('heatmap', 'records', filters)
 
-    // Get the appropriate dataset
-    const dataset = filters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  const matrixData = useMemo(() => {
+    if (!data || !pipeline.result) return { matrix: [], geographies: [], segments: [], maxValue: 0, minValue: 0 }
 
-    // Filter data
-    const filtered = filterData(dataset, filters)
+    const { records: filtered, filters } = pipeline.result
 
     // Get unique geographies and segments
     const geographies = [...new Set(filtered.map(r => r.geography))].sort()
@@ -50,7 +53,11 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
     if (minValue === Infinity) minValue = 0
 
     return { matrix, geographies, segments, maxValue, minValue }
-  }, [data, filters])
+  }, [data, pipeline.result])
+
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
 
   if (!data || matrixData.matrix.length === 0) {
     return (
@@ -83,17 +90,15 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
 
   const formatValue = (value: number) => {
     if (value === 0) return '-'
-    if (value >= 1000) return `${(value / 1000).toFixed(1)}K`
-    return value.toFixed(1)
+    return formatNumber(value, numberFormat, { unit: getAmountUnit(data.metadata, filters.dataType), compact: true })
   }
 
   const year = filters.yearRange[0] + Math.floor((filters.yearRange[1] - filters.yearRange[0]) / 2)
-  const valueUnit = filters.dataType === 'value' 
-    ? `${data.metadata.currency} ${data.metadata.value_unit}`
-    : data.metadata.volume_unit
+  const valueUnit = getUnitLabel(data.metadata, filters.dataType)
 
   return (
-    <div className="w-full">
+    <div className="w-full relative">
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       <div className="mb-4">
         <h3 className="text-lg font-semibold text-gray-900">
           {title || 'Matrix View - Geography × Segment Comparison'}
@@ -101,61 +106,36 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
         <p className="text-sm text-gray-500 mt-1">
           Year: {year} | Values in {valueUnit}
         </p>
+        <ConversionNote className="mt-0.5" />
       </div>
 
-      <div className="overflow-auto" style={{ maxHeight: height }}>
-        <div className="inline-block min-w-full">
-          {/* Header row with segments */}
-          <div className="flex">
-            <div className="w-32 p-2 bg-gray-100 border border-gray-300 font-medium text-sm text-gray-900">
-              Geo \ Segment
-            </div>
-            {matrixData.segments.map(segment => (
-              <div
-                key={segment}
-                className="w-32 p-2 bg-gray-100 border border-gray-300 text-xs font-medium text-center truncate text-gray-900"
-                title={segment}
-              >
-                {segment}
-              </div>
-            ))}
-          </div>
-
-          {/* Data rows */}
-          {matrixData.geographies.map((geo, geoIndex) => (
-            <div key={geo} className="flex">
-              <div className="w-32 p-2 bg-gray-100 border border-gray-300 font-medium text-sm truncate text-gray-900" title={geo}>
-                {geo}
-              </div>
-              {matrixData.segments.map((segment, segIndex) => {
-                const value = matrixData.matrix[geoIndex][segIndex]
-                
-                return (
-                  <div
-                    key={`${geo}-${segment}`}
-                    className={`w-32 p-2 border border-gray-300 text-center cursor-pointer transition-all hover:opacity-80 ${getColor(value)}`}
-                    onMouseEnter={(e) => {
-                      const rect = e.currentTarget.getBoundingClientRect()
-                      setHoveredCell({
-                        geo,
-                        segment,
-                        value,
-                        x: rect.left + rect.width / 2,
-                        y: rect.top - 10
-                      })
-                    }}
-                    onMouseLeave={() => setHoveredCell(null)}
-                  >
-                    <span className={`text-xs font-medium ${value > matrixData.maxValue * 0.5 ? 'text-white' : 'text-gray-800'}`}>
-                      {formatValue(value)}
-                    </span>
-                  </div>
-                )
-              })}
-            </div>
-          ))}
-        </div>
-      </div>
+      <HeatmapGrid
+        rows={matrixData.geographies}
+        columns={matrixData.segments}
+        cornerLabel="Geo \ Segment"
+        height={height}
+        getCell={(geoIndex, segIndex) => {
+          const value = matrixData.matrix[geoIndex][segIndex]
+          return {
+            className: getColor(value),
+            label: formatValue(value),
+            labelClassName: value > matrixData.maxValue * 0.5 ? 'text-white' : 'text-gray-800'
+          }
+        }}
+        onCellHover={(hover) => {
+          if (!hover) {
+            setHoveredCell(null)
+            return
+          }
+          setHoveredCell({
+            geo: matrixData.geographies[hover.rowIndex],
+            segment: matrixData.segments[hover.columnIndex],
+            value: matrixData.matrix[hover.rowIndex][hover.columnIndex],
+            x: hover.x,
+            y: hover.y
+          })
+        }}
+      />
 
       {/* Custom Tooltip */}
       {hoveredCell && (
@@ -187,10 +167,7 @@ export function MatrixHeatmap({ title, height = 600 }: MatrixHeatmapProps) {
               <span className="text-sm text-gray-600">Value:</span>
               <div className="text-right">
                 <span className="text-sm font-semibold text-gray-900">
-                  {hoveredCell.value.toLocaleString(undefined, { 
-                    minimumFractionDigits: 2, 
-                    maximumFractionDigits: 2 
-                  })}
+                  {formatAmount(hoveredCell.value)}
                 </span>
                 <span className="text-xs text-gray-500 ml-1">{valueUnit}</span>
               </div>
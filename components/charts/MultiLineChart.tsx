@@ -1,9 +1,10 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -11,9 +12,122 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts'
-import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
-import { filterData, prepareLineChartData, getUniqueGeographies, getUniqueSegments } from '@/lib/data-processor'
+import type { Payload as TooltipEntry } from 'recharts/types/component/DefaultTooltipContent'
+import { CHART_THEME, PERIOD_STYLE, getChartColor } from '@/lib/chart-theme'
+import { getUniqueGeographies, getUniqueSegments } from '@/lib/data-processor'
 import { useDashboardStore } from '@/lib/store'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, formatPercentage, formatAxisTick, getAmountUnit, getUnitLabel, getMeasureLabel } from '@/lib/number-format'
+import { useChartPipeline } from '@/lib/chart-pipeline'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { PeriodLegend, renderBaseYearMarker } from './ForecastPeriod'
+import {
+  CONFIDENCE_LEVELS,
+  FORECAST_MODEL_LABELS,
+  compareWithPublished,
+  fitForecastModel,
+  type ConfidenceLevel,
+  type ForecastModelId,
+  type ModelForecast,
+  type PublishedComparison
+} from '@/lib/forecast-models'
+import type { SimulationResult } from '@/lib/monte-carlo'
+import type { ChartDataPoint } from '@/lib/types'
+
+// Suffix of the scenario copy of each series
+const SCENARIO_SUFFIX = ' (Scenario)'
+const SCENARIO_DASH = '8 3 2 3'
+
+// Suffix of each series' solid copy up to the base year, drawn over the dashed full line
+const HISTORICAL_SUFFIX = ' (Historical)'
+
+// Suffixes of each series' model line and its prediction interval
+const MODEL_SUFFIX = ' (Model)'
+const MODEL_BAND_SUFFIX = ' (Model interval)'
+
+// Suffix of each series' Monte Carlo P10-P90 band
+const SIMULATION_BAND_SUFFIX = ' (P10–P90)'
+
+// Chart points can carry [lower, upper] pairs for the model intervals
+type OverlayPoint = { year: number; [key: string]: number | string | [number, number] }
+
+// A tooltip row: a series value, or a confidence band's [low, high]
+type SeriesTooltipEntry = TooltipEntry<number | [number, number], string>
+
+// Copy each series' values up to the base year, so the historical part can be drawn solid
+function addHistoricalSeries(points: ChartDataPoint[], series: string[], baseYear: number): ChartDataPoint[] {
+  return points.map(point => {
+    if (point.year > baseYear) return point
+    const merged = { ...point }
+    series.forEach(name => {
+      const value = point[name]
+      if (typeof value === 'number') merged[`${name}${HISTORICAL_SUFFIX}`] = value
+    })
+    return merged
+  })
+}
+
+// Merge each series' P10-P90 band into the chart points, from the base year on so it joins the line
+function addSimulationBands(points: OverlayPoint[], series: string[], simulation: SimulationResult, baseYear: number): OverlayPoint[] {
+  return points.map(point => {
+    if (point.year < baseYear) return point
+    const merged = { ...point }
+    series.forEach(name => {
+      const band = simulation.series[name]?.[point.year]
+      if (band) merged[`${name}${SIMULATION_BAND_SUFFIX}`] = [band.p10, band.p90]
+    })
+    return merged
+  })
+}
+
+interface SeriesModel {
+  series: string
+  fit: ModelForecast | null // Null with fewer than three historical years in the range
+  comparison: PublishedComparison | null
+}
+
+// Fit the model to each series' historical years and merge its line and interval into the chart points
+function addModelOverlay(
+  points: OverlayPoint[],
+  series: string[],
+  historicalYears: number[],
+  model: ForecastModelId,
+  confidence: ConfidenceLevel
+): { points: OverlayPoint[]; models: SeriesModel[] } {
+  const years = points.map(point => point.year)
+  const merged = points.map(point => ({ ...point }))
+
+  const models = series.map(name => {
+    const history = points
+      .filter(point => historicalYears.includes(point.year) && typeof point[name] === 'number')
+      .map(point => ({ year: point.year, value: point[name] as number }))
+    const fit = fitForecastModel(history, years, model, confidence)
+    if (!fit) return { series: name, fit, comparison: null }
+
+    const published: Record<number, number | undefined> = {}
+    points.forEach(point => {
+      const value = point[name]
+      if (typeof value === 'number') published[point.year] = value
+    })
+
+    const lastFitted = fit.fitted[fit.fitted.length - 1]
+    merged.forEach(point => {
+      const fitted = fit.fitted.find(candidate => candidate.year === point.year)
+      const forecast = fit.forecast.find(candidate => candidate.year === point.year)
+      if (fitted) point[`${name}${MODEL_SUFFIX}`] = fitted.value
+      if (forecast) {
+        point[`${name}${MODEL_SUFFIX}`] = forecast.value
+        point[`${name}${MODEL_BAND_SUFFIX}`] = [forecast.lower, forecast.upper]
+      }
+      // Start the interval at the last historical year so it joins the line
+      if (point.year === lastFitted.year) point[`${name}${MODEL_BAND_SUFFIX}`] = [lastFitted.value, lastFitted.value]
+    })
+
+    return { series: name, fit, comparison: compareWithPublished(fit, published) }
+  })
+
+  return { points: merged, models }
+}
 
 interface MultiLineChartProps {
   title?: string
@@ -22,22 +136,32 @@ interface MultiLineChartProps {
 }
 
 function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineChartProps) {
-  const { data, filters } = useDashboardStore()
+  const { data, filters, numberFormat, activeScenario, simulation } = useDashboardStore()
+  const [model, setModel] = useState<ForecastModelId | null>(null)
+  const [confidence, setConfidence] = useState<ConfidenceLevel>(0.95)
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   
   // Create modified filters for this specific segment
   const modifiedFilters = segmentFilter 
     ? { ...filters, segments: [segmentFilter] }
     : filters
 
-  const chartData = useMemo(() => {
-    if (!data) return { data: [], series: [] }
+  // Filtering and aggregation run in the chart pipeline worker
+  const chartId = segmentFilter ? `multi-line:${segmentFilter}` : 'multi-line'
+  const pipeline = useChartPipeline(chartId, 'line', modifiedFilters)
+  // The same lines for the active scenario, drawn dashed next to the base
+  const scenarioPipeline = useChartPipeline(`${chartId}:scenario`, 'line', modifiedFilters, 'scenario')
+  // Monte Carlo bands, computed in the worker; null while the simulation is off
+  const simulationPipeline = useChartPipeline(`${chartId}:simulation`, 'simulation', { ...modifiedFilters, simulation })
 
-    const dataset = modifiedFilters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  const chartData = useMemo(() => {
+    if (!data || !pipeline.result) {
+      return { data: [] as OverlayPoint[], series: [], scenarioSeries: [], models: [] as SeriesModel[], simulation: null }
+    }
 
-    const filtered = filterData(dataset, modifiedFilters)
-    const prepared = prepareLineChartData(filtered, modifiedFilters)
+    // Use the filters the result was computed for, which may lag behind while a newer request runs
+    const { records: filtered, prepared, filters: modifiedFilters } = pipeline.result
 
     // Determine series based on view mode and selections
     let series: string[] = []
@@ -70,12 +194,52 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
       segmentFilter
     })
 
-    return { data: prepared, series }
-  }, [data, modifiedFilters, segmentFilter])
+    // Add the scenario's values to each year as "<series> (Scenario)"
+    const scenarioPoints = activeScenario ? scenarioPipeline.result?.prepared ?? [] : []
+    const scenarioSeries = scenarioPoints.length > 0 ? series : []
+    const historical = addHistoricalSeries(prepared, series, data.metadata.base_year)
+    const points: ChartDataPoint[] = scenarioSeries.length === 0 ? historical : historical.map(point => {
+      const scenarioPoint = scenarioPoints.find(candidate => candidate.year === point.year)
+      const merged = { ...point }
+      scenarioSeries.forEach(name => {
+        const value = scenarioPoint?.[name]
+        if (typeof value === 'number') merged[`${name}${SCENARIO_SUFFIX}`] = value
+      })
+      return merged
+    })
+
+    // Shade the simulated P10-P90 range once it matches the filters shown
+    const simulationResult = simulation.enabled && simulationPipeline.result?.filters.dataType === modifiedFilters.dataType
+      ? simulationPipeline.result.prepared
+      : null
+    const banded = simulationResult
+      ? addSimulationBands(points as OverlayPoint[], series, simulationResult, data.metadata.base_year)
+      : points as OverlayPoint[]
+
+    // Re-derive the forecast years from the historical years in the range with the chosen model
+    if (!model) return { data: banded, series, scenarioSeries, models: [] as SeriesModel[], simulation: simulationResult }
+    const overlay = addModelOverlay(banded, series, data.metadata.historical_years, model, confidence)
+    return { data: overlay.points, series, scenarioSeries, models: overlay.models, simulation: simulationResult }
+  }, [data, pipeline.result, scenarioPipeline.result, simulationPipeline.result, simulation.enabled, activeScenario, segmentFilter, model, confidence])
+
+  const modelSeries = chartData.models.filter(entry => entry.fit)
+  // Bands are summarised for the last year shown
+  const simulationYear = modifiedFilters.yearRange[1]
+
+  const describeParameters = (fit: ModelForecast) => {
+    const { parameters } = fit.statistics
+    if (fit.model === 'log-linear') return `CAGR ${formatPercentage(parameters.cagr, numberFormat)}`
+    if (fit.model === 'holt') return `α ${parameters.alpha.toFixed(2)}, β ${parameters.beta.toFixed(2)}`
+    return `Slope ${formatAmount(parameters.slope)} a year`
+  }
 
   // Check if too many series (likely means no filter applied)
   const hasTooManySeries = chartData.series.length > 20
   
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
+  
   if (!data || chartData.data.length === 0) {
     return (
       <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
@@ -107,9 +271,7 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
     )
   }
 
-  const yAxisLabel = modifiedFilters.dataType === 'value'
-    ? `Market Value (${data.metadata.currency} ${data.metadata.value_unit})`
-    : `Market Volume (${data.metadata.volume_unit})`
+  const yAxisLabel = getMeasureLabel(data.metadata, modifiedFilters.dataType)
 
   // Matrix view should use heatmap instead
   if (modifiedFilters.viewMode === 'matrix') {
@@ -129,13 +291,48 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
   }
 
   return (
-    <div className="w-full">
+    <div className="w-full relative">
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       {title && (
-        <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
+        <>
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
+          <ConversionNote className="-mt-3 mb-4" />
+        </>
       )}
+      {chartData.scenarioSeries.length > 0 && activeScenario && (
+        <p className="text-sm text-gray-500 -mt-2 mb-4">
+          Base vs scenario &quot;{activeScenario.name}&quot; (dash-dot)
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <span className="text-sm text-gray-600">Model forecast:</span>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {([null, ...Object.keys(FORECAST_MODEL_LABELS)] as Array<ForecastModelId | null>).map(option => (
+            <button
+              key={option ?? 'off'}
+              onClick={() => setModel(option)}
+              className={`px-3 py-1 text-xs ${model === option ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+            >
+              {option ? FORECAST_MODEL_LABELS[option] : 'Off'}
+            </button>
+          ))}
+        </div>
+        {model && (
+          <select
+            value={confidence}
+            onChange={(e) => setConfidence(Number(e.target.value) as ConfidenceLevel)}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md text-black"
+          >
+            {CONFIDENCE_LEVELS.map(level => (
+              <option key={level} value={level}>{level * 100}% interval</option>
+            ))}
+          </select>
+        )}
+      </div>
       
       <ResponsiveContainer width="100%" height={height}>
-        <LineChart data={chartData.data}>
+        <ComposedChart data={chartData.data}>
           <CartesianGrid {...CHART_THEME.grid} />
           <XAxis
             dataKey="year"
@@ -144,15 +341,14 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
           />
           <YAxis
             tick={{ fontSize: 12, fill: '#000000' }}
+            tickFormatter={(value) => formatAxisTick(value, numberFormat)}
             label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', fill: '#000000' }}
           />
           <Tooltip 
             content={({ active, payload, label }) => {
               if (active && payload && payload.length) {
                 const year = label
-                const unit = modifiedFilters.dataType === 'value'
-                  ? `${data.metadata.currency} ${data.metadata.value_unit}`
-                  : data.metadata.volume_unit
+                const unit = getUnitLabel(data.metadata, modifiedFilters.dataType)
                 
                 return (
                   <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg min-w-[250px]">
@@ -160,43 +356,44 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
                       Year: <span className="text-blue-600">{year}</span>
                     </p>
                     <div className="space-y-2">
-                      {payload.map((entry: any, index: number) => {
-                        const value = entry.value as number
-                        // Get the actual name from dataKey or name
-                        const displayName = entry.dataKey || entry.name || 'Unknown'
-                        const color = entry.color
-                        
-                        return (
-                          <div key={index} className="flex items-center justify-between gap-4">
-                            <div className="flex items-center gap-2">
-                              <div 
-                                className="w-3 h-3 rounded-full" 
-                                style={{ backgroundColor: color }}
-                              ></div>
-                              <span className="text-sm font-medium text-gray-700" title={displayName}>
-                                {displayName.length > 40 ? displayName.substring(0, 40) + '...' : displayName}
-                              </span>
-                            </div>
-                            <div className="text-right">
-                              <span className="text-sm font-semibold text-gray-900">
-                                {value?.toLocaleString(undefined, { 
-                                  minimumFractionDigits: 2, 
-                                  maximumFractionDigits: 2 
-                                }) || '0.00'}
-                              </span>
-                              <span className="text-xs text-gray-500 ml-1">
-                                {unit}
-                              </span>
+                      {payload
+                        .filter((entry: SeriesTooltipEntry) => !String(entry.dataKey).endsWith(HISTORICAL_SUFFIX))
+                        .map((entry: SeriesTooltipEntry, index: number) => {
+                          const value = entry.value
+                          // Get the actual name from dataKey or name
+                          const displayName = String(entry.dataKey || entry.name || 'Unknown')
+                          const color = entry.color
+                          
+                          return (
+                            <div key={index} className="flex items-center justify-between gap-4">
+                              <div className="flex items-center gap-2">
+                                <div 
+                                  className="w-3 h-3 rounded-full" 
+                                  style={{ backgroundColor: color }}
+                                ></div>
+                                <span className="text-sm font-medium text-gray-700" title={displayName}>
+                                  {displayName.length > 40 ? displayName.substring(0, 40) + '...' : displayName}
+                                </span>
+                              </div>
+                              <div className="text-right">
+                                <span className="text-sm font-semibold text-gray-900">
+                                  {Array.isArray(value)
+                                    ? `${formatAmount(value[0])} – ${formatAmount(value[1])}`
+                                    : formatAmount(value ?? 0)}
+                                </span>
+                                <span className="text-xs text-gray-500 ml-1">
+                                  {unit}
+                                </span>
+                              </div>
                             </div>
-                          </div>
-                        )
-                      })}
+                          )
+                        })}
                     </div>
                     <div className="mt-3 pt-2 border-t border-gray-200 space-y-1">
                       <div className="text-xs text-gray-500">
                         {modifiedFilters.viewMode === 'segment-mode' 
-                          ? `Trend comparison of ${payload.length} segment${payload.length !== 1 ? 's' : ''}`
-                          : `Trend comparison of ${payload.length} geograph${payload.length !== 1 ? 'ies' : 'y'}`
+                          ? `Trend comparison of ${chartData.series.length} segment${chartData.series.length !== 1 ? 's' : ''}`
+                          : `Trend comparison of ${chartData.series.length} geograph${chartData.series.length !== 1 ? 'ies' : 'y'}`
                         }
                       </div>
                       {modifiedFilters.segments && modifiedFilters.segments.length > 0 && (
@@ -241,7 +438,21 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
             }}
           />
           <Legend {...CHART_THEME.legend} />
+          {renderBaseYearMarker(data.metadata.base_year, chartData.data.map(point => point.year))}
           
+          {chartData.simulation && chartData.series.map((seriesName, index) => (
+            <Area
+              key={`${seriesName}${SIMULATION_BAND_SUFFIX}`}
+              type="monotone"
+              dataKey={`${seriesName}${SIMULATION_BAND_SUFFIX}`}
+              stroke="none"
+              fill={getChartColor(index)}
+              fillOpacity={0.18}
+              legendType="none"
+              name={`${seriesName}${SIMULATION_BAND_SUFFIX}`}
+              connectNulls={true}
+            />
+          ))}
           {chartData.series.map((seriesName, index) => (
             <Line
               key={seriesName}
@@ -249,14 +460,168 @@ function MultiLineChartSingle({ title, height = 400, segmentFilter }: MultiLineC
               dataKey={seriesName}
               stroke={getChartColor(index)}
               strokeWidth={2}
-              dot={{ r: 3 }}
+              strokeDasharray={PERIOD_STYLE.forecastDash}
+              dot={{ r: 3, strokeDasharray: '' }}
               activeDot={{ r: 5 }}
               name={seriesName}
               connectNulls={true}
             />
           ))}
-        </LineChart>
+          {chartData.series.map((seriesName, index) => (
+            <Line
+              key={`${seriesName}${HISTORICAL_SUFFIX}`}
+              type="monotone"
+              dataKey={`${seriesName}${HISTORICAL_SUFFIX}`}
+              stroke={getChartColor(index)}
+              strokeWidth={2}
+              dot={false}
+              activeDot={false}
+              legendType="none"
+              name={`${seriesName}${HISTORICAL_SUFFIX}`}
+              connectNulls={true}
+            />
+          ))}
+          {chartData.scenarioSeries.map((seriesName, index) => (
+            <Line
+              key={`${seriesName}${SCENARIO_SUFFIX}`}
+              type="monotone"
+              dataKey={`${seriesName}${SCENARIO_SUFFIX}`}
+              stroke={getChartColor(index)}
+              strokeWidth={2}
+              strokeDasharray={SCENARIO_DASH}
+              dot={false}
+              activeDot={{ r: 4 }}
+              name={`${seriesName}${SCENARIO_SUFFIX}`}
+              connectNulls={true}
+            />
+          ))}
+          {modelSeries.map(({ series: seriesName }) => {
+            const color = getChartColor(chartData.series.indexOf(seriesName))
+            return [
+              <Area
+                key={`${seriesName}${MODEL_BAND_SUFFIX}`}
+                type="monotone"
+                dataKey={`${seriesName}${MODEL_BAND_SUFFIX}`}
+                stroke="none"
+                fill={color}
+                fillOpacity={0.12}
+                legendType="none"
+                name={`${seriesName}${MODEL_BAND_SUFFIX}`}
+                connectNulls={true}
+              />,
+              <Line
+                key={`${seriesName}${MODEL_SUFFIX}`}
+                type="monotone"
+                dataKey={`${seriesName}${MODEL_SUFFIX}`}
+                stroke={color}
+                strokeWidth={1.5}
+                strokeDasharray="2 3"
+                dot={false}
+                activeDot={{ r: 3 }}
+                name={`${seriesName}${MODEL_SUFFIX}`}
+                connectNulls={true}
+              />
+            ]
+          })}
+        </ComposedChart>
       </ResponsiveContainer>
+      <PeriodLegend baseYear={data.metadata.base_year} variant="line" className="mt-2" />
+
+      {simulation.enabled && modifiedFilters.dataType === 'price' && (
+        <p className="mt-4 text-xs text-gray-500">
+          Uncertainty bands are simulated for values and volumes, not average prices
+        </p>
+      )}
+
+      {chartData.simulation && simulationYear > data.metadata.base_year && (
+        <div className="mt-4 overflow-x-auto">
+          <p className="text-xs text-gray-500 mb-2">
+            Monte Carlo P10–P90 range (shaded) from {chartData.simulation.paths.toLocaleString()} paths,
+            {' '}sampling each segment&apos;s CAGR ({simulation.volatilitySource === 'historical' ? 'historical volatility' : 'user-defined spread'})
+          </p>
+          <table className="min-w-full text-xs text-black">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-1 pr-4 font-medium">{simulationYear}</th>
+                <th className="py-1 pr-4 font-medium text-right">P10</th>
+                <th className="py-1 pr-4 font-medium text-right">P50</th>
+                <th className="py-1 font-medium text-right">P90</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[
+                ...chartData.series.map(name => ({ name, band: chartData.simulation?.series[name]?.[simulationYear] })),
+                { name: 'Total', band: chartData.simulation.total[simulationYear] }
+              ].map(({ name, band }) => band && (
+                <tr key={name} className={`border-b border-gray-100 ${name === 'Total' ? 'font-semibold' : ''}`}>
+                  <td className="py-1 pr-4" title={name}>{name.length > 40 ? name.substring(0, 40) + '...' : name}</td>
+                  <td className="py-1 pr-4 text-right">{formatAmount(band.p10)}</td>
+                  <td className="py-1 pr-4 text-right">{formatAmount(band.p50)}</td>
+                  <td className="py-1 text-right">{formatAmount(band.p90)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {model && (
+        <div className="mt-4 overflow-x-auto">
+          <p className="text-xs text-gray-500 mb-2">
+            {FORECAST_MODEL_LABELS[model]} fitted to the historical years in the range (dotted),
+            {' '}with its {confidence * 100}% prediction interval (shaded)
+          </p>
+          <table className="min-w-full text-xs text-black">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-600">
+                <th className="py-1 pr-4 font-medium">Series</th>
+                <th className="py-1 pr-4 font-medium">Parameters</th>
+                <th className="py-1 pr-4 font-medium text-right">RMSE</th>
+                <th className="py-1 pr-4 font-medium text-right">MAPE</th>
+                <th className="py-1 pr-4 font-medium text-right">R²</th>
+                <th className="py-1 pr-4 font-medium text-right">Published vs model</th>
+                <th className="py-1 font-medium text-right">Outside interval</th>
+              </tr>
+            </thead>
+            <tbody>
+              {chartData.models.map(({ series: seriesName, fit, comparison }) => (
+                <tr
+                  key={seriesName}
+                  className={`border-b border-gray-100 ${comparison && comparison.outside > 0 ? 'bg-amber-50' : ''}`}
+                >
+                  <td className="py-1 pr-4" title={seriesName}>
+                    {seriesName.length > 40 ? seriesName.substring(0, 40) + '...' : seriesName}
+                  </td>
+                  {fit ? (
+                    <>
+                      <td className="py-1 pr-4">{describeParameters(fit)}</td>
+                      <td className="py-1 pr-4 text-right">{formatAmount(fit.statistics.rmse)}</td>
+                      <td className="py-1 pr-4 text-right">
+                        {fit.statistics.mape === null ? '—' : formatPercentage(fit.statistics.mape, numberFormat)}
+                      </td>
+                      <td className="py-1 pr-4 text-right">{formatNumber(fit.statistics.rSquared, numberFormat, { decimals: 3 })}</td>
+                      <td className="py-1 pr-4 text-right">
+                        {comparison
+                          ? `${formatPercentage(comparison.deviation, numberFormat, { signed: true })} in ${comparison.year}`
+                          : '—'}
+                      </td>
+                      <td className="py-1 text-right">
+                        {comparison ? `${comparison.outside} of ${comparison.compared} years` : '—'}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={6} className="py-1 text-gray-500">
+                      {model === 'log-linear'
+                        ? 'Needs at least three positive historical values in the range'
+                        : 'Needs at least three historical years in the range'}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
 
       {chartData.series.length > 0 && (
         <div className="mt-4 text-sm text-gray-600 text-center">
@@ -0,0 +1,252 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts'
+import { Download, Image as ImageIcon } from 'lucide-react'
+import { CHART_COLORS, CHART_THEME } from '@/lib/chart-theme'
+import { useDashboardStore } from '@/lib/store'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatCurrency, formatNumber, formatPercentage, formatAxisTick } from '@/lib/number-format'
+import {
+  SENSITIVITY_DIMENSION_LABELS,
+  getMaxSegmentLevel,
+  runSensitivityAnalysis,
+  type SensitivityDimension
+} from '@/lib/sensitivity'
+import { describeConversion } from '@/lib/currency'
+import { exportChartAsPNG, getConversionNoteRows } from '@/lib/export-utils'
+
+// Percentage points each CAGR can be moved by
+const CHANGE_OPTIONS = [1, 2, 5, 10]
+
+// Nodes shown in the chart, largest swing first; the CSV export has all of them
+const MAX_NODES = 15
+
+const LOW_COLOR = CHART_COLORS.palette.navyBlue
+const HIGH_COLOR = CHART_COLORS.palette.teal
+
+interface TornadoChartProps {
+  title?: string
+  height?: number
+}
+
+export function TornadoChart({ title, height = 450 }: TornadoChartProps) {
+  const { data, numberFormat } = useDashboardStore()
+  const [dimension, setDimension] = useState<SensitivityDimension>('segment')
+  const [change, setChange] = useState(2)
+  const [segmentLevel, setSegmentLevel] = useState(1)
+
+  const maxSegmentLevel = useMemo(() => (data ? getMaxSegmentLevel(data) : 1), [data])
+
+  const analysis = useMemo(() => {
+    if (!data) return null
+    return runSensitivityAnalysis(data, dimension, change, Math.min(segmentLevel, maxSegmentLevel))
+  }, [data, dimension, change, segmentLevel, maxSegmentLevel])
+
+  const chartData = useMemo(() => {
+    if (!analysis) return []
+    return analysis.results.slice(0, MAX_NODES).map(result => ({
+      // Segment paths are long; the last part names the node
+      name: result.node.split(' > ').pop() ?? result.node,
+      result,
+      low: result.lowImpact,
+      high: result.highImpact
+    }))
+  }, [analysis])
+
+  if (!data || !analysis) {
+    return (
+      <div className="flex items-center justify-center h-96 bg-gray-50 rounded-lg">
+        <div className="text-center">
+          <p className="text-gray-500">No market size to analyse</p>
+          <p className="text-sm text-gray-400 mt-1">
+            The sensitivity analysis needs records for the global geography
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const { currency, value_unit: valueUnit } = data.metadata
+  const formatAmount = (value: number, signed = false) => formatNumber(value, numberFormat, { unit: valueUnit, signed })
+
+  const exportToCSV = () => {
+    const headers = [
+      'Node',
+      'Detail',
+      `Base CAGR % (${analysis.baseYear}-${analysis.forecastYear})`,
+      `Node Value ${analysis.forecastYear} (${currency} ${valueUnit})`,
+      `Impact at -${change} pp (${currency} ${valueUnit})`,
+      `Impact at +${change} pp (${currency} ${valueUnit})`,
+      `Swing (${currency} ${valueUnit})`
+    ]
+    // Plain digits so the columns stay numeric in spreadsheets
+    const plain = (value: number, unit: string) => formatNumber(value, numberFormat, { unit, grouping: false, compact: false })
+    const rows = analysis.results.map(result => [
+      `"${result.node.replace(/"/g, '""')}"`,
+      `"${result.detail.replace(/"/g, '""')}"`,
+      plain(result.baseCagr, '%'),
+      plain(result.baseValue, valueUnit),
+      plain(result.lowImpact, valueUnit),
+      plain(result.highImpact, valueUnit),
+      plain(result.swing, valueUnit)
+    ])
+
+    const csv = [...getConversionNoteRows(describeConversion(data.metadata)), headers, ...rows].map(row => row.join(',')).join('\n')
+    const blob = new Blob([csv], { type: 'text/csv' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `sensitivity-${dimension}-${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+  }
+
+  const chartHeight = Math.max(height, chartData.length * 32 + 80)
+
+  return (
+    <div className="w-full">
+      <div className="mb-4 flex justify-between items-start gap-4">
+        <div>
+          {title && <h3 className="text-lg font-semibold text-gray-900">{title}</h3>}
+          <p className="text-sm text-gray-500 mt-1">
+            Change in the {analysis.forecastYear} market size of {analysis.geography}
+            {' '}({formatCurrency(analysis.marketSize, currency, valueUnit, numberFormat)}) when each CAGR
+            {' '}from {analysis.baseYear} moves by ±{change} pp
+          </p>
+          <ConversionNote className="mt-0.5" />
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => exportChartAsPNG('tornado-chart', 'sensitivity-tornado')}
+            className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-black rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <ImageIcon className="h-4 w-4" />
+            PNG
+          </button>
+          <button
+            onClick={exportToCSV}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {(Object.keys(SENSITIVITY_DIMENSION_LABELS) as SensitivityDimension[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setDimension(option)}
+              className={`px-3 py-1 text-xs ${dimension === option ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+            >
+              {SENSITIVITY_DIMENSION_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        {dimension === 'segment' && maxSegmentLevel > 1 && (
+          <select
+            value={Math.min(segmentLevel, maxSegmentLevel)}
+            onChange={(e) => setSegmentLevel(Number(e.target.value))}
+            className="px-2 py-1 text-xs border border-gray-300 rounded-md text-black"
+          >
+            {Array.from({ length: maxSegmentLevel }, (_, i) => i + 1).map(level => (
+              <option key={level} value={level}>
+                {level === 1 ? 'Top-level segments' : `Level ${level} segments`}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={change}
+          onChange={(e) => setChange(Number(e.target.value))}
+          className="px-2 py-1 text-xs border border-gray-300 rounded-md text-black"
+        >
+          {CHANGE_OPTIONS.map(option => (
+            <option key={option} value={option}>CAGR ±{option} pp</option>
+          ))}
+        </select>
+        {analysis.results.length > MAX_NODES && (
+          <span className="text-xs text-gray-500">
+            Showing the {MAX_NODES} largest of {analysis.results.length} nodes
+          </span>
+        )}
+      </div>
+
+      {chartData.length === 0 ? (
+        <div className="flex items-center justify-center h-64 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">No nodes with a positive {analysis.baseYear} value at this level</p>
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={chartHeight}>
+          <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ left: 20, right: 20 }}>
+            <CartesianGrid {...CHART_THEME.grid} />
+            <XAxis
+              type="number"
+              tick={{ fontSize: 12, fill: '#000000' }}
+              tickFormatter={(value) => formatAxisTick(value, numberFormat)}
+              label={{ value: `Change in market size (${currency} ${valueUnit})`, position: 'insideBottom', offset: -5, fill: '#000000' }}
+            />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={180}
+              tick={{ fontSize: 12, fill: '#000000' }}
+            />
+            <ReferenceLine x={0} stroke="#6b7280" />
+            <Tooltip
+              content={({ active, payload }) => {
+                if (!active || !payload || payload.length === 0) return null
+                const { result } = payload[0].payload as (typeof chartData)[number]
+                return (
+                  <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg min-w-[260px]">
+                    <p className="font-semibold text-gray-900 mb-1">{result.node}</p>
+                    <p className="text-xs text-gray-500 mb-3 pb-2 border-b border-gray-200">{result.detail}</p>
+                    <div className="space-y-1 text-sm">
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-600">Base CAGR:</span>
+                        <span className="font-medium text-gray-900">{formatPercentage(result.baseCagr, numberFormat)}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-600">{analysis.forecastYear} value:</span>
+                        <span className="font-medium text-gray-900">{formatAmount(result.baseValue)}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-600">CAGR -{change} pp:</span>
+                        <span className="font-medium text-gray-900">{formatAmount(result.lowImpact, true)}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-600">CAGR +{change} pp:</span>
+                        <span className="font-medium text-gray-900">{formatAmount(result.highImpact, true)}</span>
+                      </div>
+                      <div className="flex justify-between gap-4 pt-1 border-t border-gray-100">
+                        <span className="text-gray-600">Swing:</span>
+                        <span className="font-medium text-gray-900">
+                          {formatAmount(result.swing)} ({formatPercentage(analysis.marketSize > 0 ? (result.swing / analysis.marketSize) * 100 : 0, numberFormat)} of market)
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                )
+              }}
+            />
+            <Legend {...CHART_THEME.legend} />
+            <Bar dataKey="low" stackId="impact" fill={LOW_COLOR} name={`CAGR -${change} pp`} />
+            <Bar dataKey="high" stackId="impact" fill={HIGH_COLOR} name={`CAGR +${change} pp`} />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  )
+}
@@ -10,16 +10,22 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
   Cell
 } from 'recharts'
-import { CHART_THEME, getChartColor } from '@/lib/chart-theme'
-import { filterData, prepareWaterfallData } from '@/lib/data-processor'
+import { CHART_THEME, PERIOD_STYLE, getChartColor, isForecastYear } from '@/lib/chart-theme'
 import { useDashboardStore } from '@/lib/store'
+import { ConversionNote } from '@/components/ui/ConversionNote'
+import { formatNumber, formatAxisTick, getAmountUnit, getUnitLabel, getMeasureLabel } from '@/lib/number-format'
+import { useChartPipeline, type PipelineSource } from '@/lib/chart-pipeline'
+import { ChartSkeleton, ChartUpdatingBadge } from '@/components/ui/LoadingStates'
+import { PeriodLegend, getForecastFill, renderForecastPatterns } from './ForecastPeriod'
 
 interface WaterfallChartProps {
   title?: string
   height?: number
   segmentFilter?: string // Optional: filter to a specific segment
+  source?: PipelineSource // Dashboard data, or the active scenario's
 }
 
 interface WaterfallDataPoint {
@@ -31,23 +37,29 @@ interface WaterfallDataPoint {
   end?: number
 }
 
-function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallChartProps) {
-  const { data, filters } = useDashboardStore()
+function WaterfallChartSingle({ title, height = 400, segmentFilter, source = 'base' }: WaterfallChartProps) {
+  const { data, filters, numberFormat, activeScenario } = useDashboardStore()
+  const formatAmount = (value: number) =>
+    formatNumber(value, numberFormat, { unit: data ? getAmountUnit(data.metadata, filters.dataType) : undefined })
   
   // Create modified filters for this specific segment
   const modifiedFilters = segmentFilter 
     ? { ...filters, segments: [segmentFilter] }
     : filters
 
-  const chartData = useMemo(() => {
-    if (!data) return { data: [], totalChange: 0 }
+  // Filtering and contribution breakdown run in the chart pipeline worker
+  const chartId = segmentFilter ? `waterfall:${segmentFilter}` : 'waterfall'
+  const pipeline = useChartPipeline(
+    source === 'scenario' ? `${chartId}:scenario` : chartId,
+    'waterfall',
+    modifiedFilters,
+    source
+  )
 
-    const dataset = modifiedFilters.dataType === 'value'
-      ? data.data.value.geography_segment_matrix
-      : data.data.volume.geography_segment_matrix
+  const chartData = useMemo(() => {
+    if (!data || !pipeline.result) return { data: [], totalChange: 0 }
 
-    const filtered = filterData(dataset, modifiedFilters)
-    const waterfallData = prepareWaterfallData(filtered, modifiedFilters)
+    const waterfallData = pipeline.result.prepared
 
     // Calculate cumulative values for waterfall effect
     const processedData: WaterfallDataPoint[] = []
@@ -98,7 +110,11 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
                        (processedData[0]?.cumulative || 0)
 
     return { data: processedData, totalChange }
-  }, [data, modifiedFilters, segmentFilter])
+  }, [data, pipeline.result])
+
+  if (data && !pipeline.result && !pipeline.error) {
+    return <ChartSkeleton />
+  }
 
   if (!data || chartData.data.length === 0) {
     return (
@@ -127,17 +143,13 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
     )
   }
 
-  const yAxisLabel = modifiedFilters.dataType === 'value'
-    ? `Market Value (${data.metadata.currency} ${data.metadata.value_unit})`
-    : `Market Volume (${data.metadata.volume_unit})`
+  const yAxisLabel = getMeasureLabel(data.metadata, modifiedFilters.dataType)
 
   // Custom tooltip for waterfall
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length && data) {
       const pointData = payload[0].payload as WaterfallDataPoint
-      const unit = modifiedFilters.dataType === 'value'
-        ? `${data.metadata.currency} ${data.metadata.value_unit}`
-        : data.metadata.volume_unit
+      const unit = getUnitLabel(data.metadata, modifiedFilters.dataType)
       
       return (
         <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg min-w-[280px]">
@@ -154,13 +166,10 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Total Value:</span>
+                <span className="text-sm text-gray-600">{modifiedFilters.dataType === 'price' ? 'Average Price:' : 'Total Value:'}</span>
                 <div className="text-right">
                   <span className="text-sm font-semibold text-gray-900">
-                    {pointData.value.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })}
+                    {formatAmount(pointData.value)}
                   </span>
                   <span className="text-xs text-gray-500 ml-1">{unit}</span>
                 </div>
@@ -173,10 +182,7 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
                       chartData.totalChange > 0 ? 'text-green-600' : 'text-red-600'
                     }`}>
                       {chartData.totalChange > 0 ? '+' : ''}
-                      {chartData.totalChange.toLocaleString(undefined, { 
-                        minimumFractionDigits: 2, 
-                        maximumFractionDigits: 2 
-                      })} {unit}
+                      {formatAmount(chartData.totalChange)} {unit}
                     </span>
                   </div>
                 </div>
@@ -199,10 +205,7 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
                     pointData.type === 'positive' ? 'text-green-600' : 'text-red-600'
                   }`}>
                     {pointData.type === 'positive' ? '+' : '-'}
-                    {pointData.value.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })}
+                    {formatAmount(pointData.value)}
                   </span>
                   <span className="text-xs text-gray-500 ml-1">{unit}</span>
                 </div>
@@ -211,19 +214,13 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-gray-500">From:</span>
                   <span className="text-gray-700 font-medium">
-                    {pointData.start?.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })} {unit}
+                    {formatAmount(pointData.start ?? 0)} {unit}
                   </span>
                 </div>
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-gray-500">To:</span>
                   <span className="text-gray-700 font-medium">
-                    {pointData.end?.toLocaleString(undefined, { 
-                      minimumFractionDigits: 2, 
-                      maximumFractionDigits: 2 
-                    })} {unit}
+                    {formatAmount(pointData.end ?? 0)} {unit}
                   </span>
                 </div>
               </div>
@@ -261,11 +258,31 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
   const displayTitle = segmentFilter 
     ? `${title || 'Contribution Analysis'} - ${segmentFilter.split(' > ').pop() || segmentFilter}`
     : title
+  // Totals past the base year are forecasts, and so are contributions up to a forecast year
+  const { base_year: baseYear } = data.metadata
+  const [startYear, endYear] = modifiedFilters.yearRange
+  const isForecastBar = (entry: WaterfallDataPoint) =>
+    isForecastYear(entry.type === 'start' ? startYear : endYear, baseYear)
+  // Base-year total across the bars, when the range spans it; average prices have no total
+  const baseYearTotal = pipeline.result && startYear < baseYear && baseYear < endYear && modifiedFilters.dataType !== 'price'
+    ? pipeline.result.records.reduce((sum, record) => sum + (record.time_series[baseYear] || 0), 0)
+    : null
+
+  const sourceLabel = activeScenario
+    ? (source === 'scenario' ? `Scenario: ${activeScenario.name}` : 'Base')
+    : null
 
   return (
-    <div className="w-full">
+    <div className="w-full relative">
+      <ChartUpdatingBadge isLoading={pipeline.isLoading} />
       {displayTitle && (
-        <h3 className="text-lg font-semibold mb-4 text-gray-900">{displayTitle}</h3>
+        <>
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">{displayTitle}</h3>
+          <ConversionNote className="-mt-3 mb-4" />
+        </>
+      )}
+      {sourceLabel && (
+        <p className="text-sm font-medium text-gray-700 mb-2">{sourceLabel}</p>
       )}
       
       <ResponsiveContainer width="100%" height={height}>
@@ -283,10 +300,20 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
           />
           <YAxis
             tick={{ fontSize: 12, fill: '#000000' }}
+            tickFormatter={(value) => formatAxisTick(value, numberFormat)}
             label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', fill: '#000000' }}
           />
           <Tooltip content={<CustomTooltip />} />
           <Legend />
+          {renderForecastPatterns(chartData.data.map(entry => getColor(entry.type)))}
+          {baseYearTotal !== null && (
+            <ReferenceLine
+              y={baseYearTotal}
+              stroke={PERIOD_STYLE.baseYearStroke}
+              strokeDasharray="3 3"
+              label={{ value: `Base year ${baseYear} total`, position: 'insideTopRight', fill: PERIOD_STYLE.baseYearStroke, fontSize: 11 }}
+            />
+          )}
           
           {/* Base bar (invisible, positions the visible bar) */}
           <Bar 
@@ -303,7 +330,7 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
             fill="#8884d8"
           >
             {chartData.data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={getColor(entry.type)} />
+              <Cell key={`cell-${index}`} fill={getForecastFill(getColor(entry.type), isForecastBar(entry))} />
             ))}
           </Bar>
         </BarChart>
@@ -324,6 +351,11 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
             <span className="text-gray-600">Negative Contribution</span>
           </div>
         </div>
+        <PeriodLegend
+          baseYear={baseYear}
+          variant="bar"
+          note={`Forecast (totals after ${baseYear}, contributions to a forecast year)`}
+        />
         
         <div className="text-center text-sm text-gray-600">
           {modifiedFilters.viewMode === 'segment-mode' 
@@ -338,7 +370,7 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
               chartData.totalChange > 0 ? 'text-green-600' : 'text-red-600'
             }`}>
               Net Change: {chartData.totalChange > 0 ? '+' : ''}
-              {chartData.totalChange.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              {formatAmount(chartData.totalChange)}
             </span>
           </div>
         )}
@@ -347,6 +379,18 @@ function WaterfallChartSingle({ title, height = 400, segmentFilter }: WaterfallC
   )
 }
 
+// Base and scenario side by side while a scenario is active
+function WaterfallComparison(props: Omit<WaterfallChartProps, 'source'>) {
+  const { activeScenario } = useDashboardStore()
+  if (!activeScenario) return <WaterfallChartSingle {...props} />
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <WaterfallChartSingle {...props} source="base" />
+      <WaterfallChartSingle {...props} source="scenario" />
+    </div>
+  )
+}
+
 // Main export - renders multiple charts if multiple segments are selected
 export function WaterfallChart({ title, height = 400 }: Omit<WaterfallChartProps, 'segmentFilter'>) {
   const { filters } = useDashboardStore()
@@ -356,7 +400,7 @@ export function WaterfallChart({ title, height = 400 }: Omit<WaterfallChartProps
     return (
       <div className="w-full space-y-8">
         {filters.segments.map((segment, index) => (
-          <WaterfallChartSingle
+          <WaterfallComparison
             key={`segment-${index}-${segment}`}
             title={title}
             height={height}
@@ -368,5 +412,5 @@ export function WaterfallChart({ title, height = 400 }: Omit<WaterfallChartProps
   }
   
   // Otherwise, render single chart
-  return <WaterfallChartSingle title={title} height={height} />
+  return <WaterfallComparison title={title} height={height} />
 }
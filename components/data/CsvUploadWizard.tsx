@@ -0,0 +1,392 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Upload, X, ChevronLeft, ChevronRight, Save, Trash2, AlertTriangle, CheckCircle } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import {
+  parseCSV,
+  suggestCsvMapping,
+  isMappingApplicable,
+  getMappingErrors,
+  buildRecordsFromCsv,
+  buildComparisonDataFromCsv,
+  loadSavedCsvMappings,
+  saveCsvMapping,
+  deleteCsvMapping,
+  detectYearColumns,
+  type CsvColumnMapping,
+  type SavedCsvMapping
+} from '@/lib/csv-importer'
+
+type WizardStep = 'upload' | 'map' | 'preview'
+
+interface CsvUploadWizardProps {
+  onClose: () => void
+}
+
+const PREVIEW_ROWS = 10
+
+export function CsvUploadWizard({ onClose }: CsvUploadWizardProps) {
+  const { sourceData: data, setData } = useDashboardStore() // Carry over metadata from before currency conversion
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null)
+  const [savedMappings, setSavedMappings] = useState<SavedCsvMapping[]>(() => loadSavedCsvMappings())
+  const [appliedMappingName, setAppliedMappingName] = useState<string | null>(null)
+  const [mappingName, setMappingName] = useState('')
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const headers = useMemo(() => (rows[0] || []).map(h => h.trim()), [rows])
+  const availableYearColumns = useMemo(() => detectYearColumns(headers), [headers])
+  const defaultSegmentType = data ? Object.keys(data.dimensions.segments)[0] || '' : ''
+
+  const mappingErrors = mapping ? getMappingErrors(mapping) : []
+  const parseResult = useMemo(
+    () => (mapping && step === 'preview' ? buildRecordsFromCsv(rows, mapping) : null),
+    [rows, mapping, step]
+  )
+
+  const handleFile = async (file: File) => {
+    setFileError(null)
+    try {
+      const text = await file.text()
+      const parsed = parseCSV(text)
+      if (parsed.length < 2) {
+        setFileError('The file needs a header row and at least one data row')
+        return
+      }
+
+      const fileHeaders = parsed[0].map(h => h.trim())
+      // Reuse the most recent saved mapping that fits this file's columns
+      const reusable = [...savedMappings].reverse().find(saved => isMappingApplicable(saved.mapping, fileHeaders))
+
+      setFileName(file.name)
+      setRows(parsed)
+      setMapping(reusable ? reusable.mapping : suggestCsvMapping(fileHeaders, defaultSegmentType))
+      setAppliedMappingName(reusable ? reusable.name : null)
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading CSV file:', error)
+      setFileError('Could not read the file')
+    }
+  }
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    if (!mapping) return
+    setMapping({ ...mapping, ...changes })
+    setAppliedMappingName(null)
+  }
+
+  const toggleYearColumn = (column: string, year: number) => {
+    if (!mapping) return
+    const exists = mapping.years.some(y => y.column === column)
+    const years = exists
+      ? mapping.years.filter(y => y.column !== column)
+      : [...mapping.years, { column, year }].sort((a, b) => a.year - b.year)
+    updateMapping({ years })
+  }
+
+  const handleSaveMapping = () => {
+    if (!mapping || !mappingName.trim()) return
+    setSavedMappings(saveCsvMapping(mappingName.trim(), mapping))
+    setAppliedMappingName(mappingName.trim())
+    setMappingName('')
+  }
+
+  const handleLoad = () => {
+    if (!mapping || !parseResult || parseResult.records.length === 0) return
+    const comparisonData = buildComparisonDataFromCsv(parseResult.records, mapping.dataType, data)
+    console.log('📥 Loading uploaded CSV into dashboard:', {
+      file: fileName,
+      records: parseResult.records.length,
+      years: comparisonData.metadata.years
+    })
+    setData(comparisonData)
+    onClose()
+  }
+
+  const columnSelect = (value: string, onChange: (value: string) => void, optional = false) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded"
+    >
+      <option value="">{optional ? '— None —' : '— Select column —'}</option>
+      {headers.map(header => (
+        <option key={header} value={header}>{header}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[48rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Upload Market Data (CSV)</h3>
+            <p className="text-xs text-black">
+              {step === 'upload' && 'Step 1 of 3 · Choose a file'}
+              {step === 'map' && `Step 2 of 3 · Map columns${fileName ? ` in ${fileName}` : ''}`}
+              {step === 'preview' && 'Step 3 of 3 · Preview parsed records'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <label className="flex flex-col items-center justify-center h-48 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+                <Upload className="h-8 w-8 text-blue-500 mb-2" />
+                <span className="text-sm font-medium text-black">Click to choose a CSV file</span>
+                <span className="text-xs text-black mt-1">
+                  Geography, segment path, segment type and one column per year
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleFile(file)
+                  }}
+                />
+              </label>
+              {fileError && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertTriangle className="h-4 w-4" /> {fileError}
+                </p>
+              )}
+              {savedMappings.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-black uppercase mb-2">Saved Mappings</h4>
+                  <ul className="space-y-1">
+                    {savedMappings.map(saved => (
+                      <li key={saved.name} className="flex items-center justify-between text-sm text-black px-2 py-1 bg-gray-50 rounded">
+                        <span>
+                          {saved.name}
+                          <span className="text-xs text-gray-500 ml-2">
+                            {saved.mapping.years.length} years · {saved.mapping.dataType}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => setSavedMappings(deleteCsvMapping(saved.name))}
+                          className="hover:text-red-500"
+                          title="Delete mapping"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-black mt-1">
+                    A saved mapping is applied automatically when its columns match the uploaded file.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'map' && mapping && (
+            <div className="space-y-4">
+              {appliedMappingName && (
+                <div className="text-xs text-green-700 bg-green-50 border border-green-200 rounded px-3 py-2 flex items-center gap-1">
+                  <CheckCircle className="h-3 w-3" /> Applied saved mapping “{appliedMappingName}”
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Geography</label>
+                  {columnSelect(mapping.geography, (geography) => updateMapping({ geography }))}
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Parent Geography (optional)</label>
+                  {columnSelect(mapping.parentGeography, (parentGeography) => updateMapping({ parentGeography }), true)}
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Segment Path</label>
+                  {columnSelect(mapping.segment, (segment) => updateMapping({ segment }))}
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Path Separator</label>
+                  <input
+                    type="text"
+                    value={mapping.segmentSeparator}
+                    onChange={(e) => updateMapping({ segmentSeparator: e.target.value })}
+                    className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Segment Type</label>
+                  {columnSelect(mapping.segmentType, (segmentType) => updateMapping({ segmentType }), true)}
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Segment Type for All Rows</label>
+                  <input
+                    type="text"
+                    value={mapping.defaultSegmentType}
+                    onChange={(e) => updateMapping({ defaultSegmentType: e.target.value })}
+                    disabled={!!mapping.segmentType}
+                    placeholder="e.g. By End-Use*Product Type"
+                    className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded disabled:bg-gray-100"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-black uppercase">Data Type</label>
+                  <div className="flex gap-1 mt-1">
+                    {(['value', 'volume'] as const).map(dataType => (
+                      <button
+                        key={dataType}
+                        onClick={() => updateMapping({ dataType })}
+                        className={`flex-1 px-3 py-1.5 text-sm rounded capitalize ${
+                          mapping.dataType === dataType
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-black hover:bg-gray-200'
+                        }`}
+                      >
+                        {dataType}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-black uppercase">Year Columns (time_series)</label>
+                {availableYearColumns.length === 0 ? (
+                  <p className="text-xs text-red-600 mt-1">No columns with a year header (e.g. 2024) were found.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {availableYearColumns.map(({ column, year }) => {
+                      const selected = mapping.years.some(y => y.column === column)
+                      return (
+                        <button
+                          key={column}
+                          onClick={() => toggleYearColumn(column, year)}
+                          className={`px-2 py-1 text-xs rounded ${
+                            selected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-black hover:bg-gray-200'
+                          }`}
+                        >
+                          {column}
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {mappingErrors.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {mappingErrors.map(error => <li key={error}>• {error}</li>)}
+                </ul>
+              )}
+
+              <div className="border-t pt-3">
+                <label className="text-xs font-medium text-black uppercase">Save Mapping for Next Upload</label>
+                <div className="flex gap-2 mt-1">
+                  <input
+                    type="text"
+                    value={mappingName}
+                    onChange={(e) => setMappingName(e.target.value)}
+                    placeholder="Mapping name..."
+                    className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded text-black placeholder-gray-400"
+                  />
+                  <button
+                    onClick={handleSaveMapping}
+                    disabled={!mappingName.trim() || mappingErrors.length > 0}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-100 text-black rounded hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    <Save className="h-3 w-3" /> Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && parseResult && (
+            <div className="space-y-3">
+              <div className="text-sm text-black">
+                <strong>{parseResult.records.length}</strong> records parsed
+                {parseResult.errors.length > 0 && (
+                  <span className="text-orange-600"> · {parseResult.errors.length} warnings</span>
+                )}
+              </div>
+
+              {parseResult.errors.length > 0 && (
+                <div className="max-h-24 overflow-y-auto text-xs text-orange-700 bg-orange-50 border border-orange-200 rounded px-3 py-2">
+                  {parseResult.errors.slice(0, 50).map((error, i) => <div key={i}>{error}</div>)}
+                  {parseResult.errors.length > 50 && <div>…and {parseResult.errors.length - 50} more</div>}
+                </div>
+              )}
+
+              <div className="overflow-x-auto border rounded">
+                <table className="min-w-full text-xs text-black">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-2 py-1 text-left">geography</th>
+                      <th className="px-2 py-1 text-left">segment_type</th>
+                      <th className="px-2 py-1 text-left">segment</th>
+                      {mapping?.years.map(({ year }) => (
+                        <th key={year} className="px-2 py-1 text-right">{year}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parseResult.records.slice(0, PREVIEW_ROWS).map((record, i) => (
+                      <tr key={i} className="border-t">
+                        <td className="px-2 py-1">{record.geography}</td>
+                        <td className="px-2 py-1">{record.segment_type}</td>
+                        <td className="px-2 py-1">{record.segment}</td>
+                        {mapping?.years.map(({ year }) => (
+                          <td key={year} className="px-2 py-1 text-right">{record.time_series[year]?.toFixed(2)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {parseResult.records.length > PREVIEW_ROWS && (
+                <p className="text-xs text-black">Showing first {PREVIEW_ROWS} of {parseResult.records.length} records</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between px-6 py-3 border-t">
+          <button
+            onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+            disabled={step === 'upload'}
+            className="flex items-center gap-1 px-4 py-2 text-black hover:text-black disabled:opacity-40"
+          >
+            <ChevronLeft className="h-4 w-4" /> Back
+          </button>
+          {step === 'map' && (
+            <button
+              onClick={() => setStep('preview')}
+              disabled={mappingErrors.length > 0}
+              className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Preview <ChevronRight className="h-4 w-4" />
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={handleLoad}
+              disabled={!parseResult || parseResult.records.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Load into Dashboard
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
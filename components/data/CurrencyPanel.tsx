@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Plus, RotateCcw } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import {
+  DEFAULT_FX_RATES,
+  VALUE_UNITS,
+  getAvailableCurrencies,
+  getFxRate,
+  getRatePair,
+  type CurrencySettings,
+  type FxRateMode
+} from '@/lib/currency'
+
+interface CurrencyPanelProps {
+  onClose: () => void
+}
+
+const MODE_LABELS: Record<FxRateMode, string> = {
+  average: 'Yearly average',
+  fixed: 'Fixed base year'
+}
+
+export function CurrencyPanel({ onClose }: CurrencyPanelProps) {
+  const { sourceData, currency, setCurrencySettings } = useDashboardStore()
+  const [draft, setDraft] = useState<CurrencySettings>(currency)
+  const [newCurrency, setNewCurrency] = useState('')
+
+  if (!sourceData) return null
+
+  const { metadata } = sourceData
+  const sourceCurrency = metadata.currency
+  const currencies = getAvailableCurrencies(draft, sourceCurrency)
+  const target = draft.currency ?? sourceCurrency
+  const pair = getRatePair(sourceCurrency, target)
+  const rates = draft.rates[pair] ?? {}
+  const fixedYear = draft.fixedYear ?? metadata.base_year
+
+  const update = (changes: Partial<CurrencySettings>) => setDraft(current => ({ ...current, ...changes }))
+
+  const setRate = (year: number, input: string) => {
+    const table = { ...rates }
+    const rate = Number(input)
+    if (input.trim() === '' || !Number.isFinite(rate) || rate <= 0) delete table[year]
+    else table[year] = rate
+    update({ rates: { ...draft.rates, [pair]: table } })
+  }
+
+  const addCurrency = () => {
+    const code = newCurrency.trim().toUpperCase()
+    if (!code || code === sourceCurrency) return
+    const added = getRatePair(sourceCurrency, code)
+    update({
+      currency: code,
+      rates: draft.rates[added] ? draft.rates : { ...draft.rates, [added]: {} }
+    })
+    setNewCurrency('')
+  }
+
+  const apply = () => {
+    setCurrencySettings(draft)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[40rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Currency</h3>
+            <p className="text-xs text-black">
+              Source values are in {sourceCurrency} {metadata.value_unit}. Charts, KPIs, tables and exports use the
+              reporting currency and unit below.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-xs font-medium text-black uppercase">
+              Reporting currency
+              <select
+                value={target}
+                onChange={(e) => update({ currency: e.target.value === sourceCurrency ? null : e.target.value })}
+                className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+              >
+                {currencies.map(code => (
+                  <option key={code} value={code}>
+                    {code === sourceCurrency ? `${code} (source)` : code}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-black uppercase">
+              Value unit
+              <select
+                value={draft.unit ?? ''}
+                onChange={(e) => update({ unit: e.target.value || null })}
+                className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+              >
+                <option value="">{metadata.value_unit} (source)</option>
+                {VALUE_UNITS.filter(unit => unit !== metadata.value_unit).map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newCurrency}
+              onChange={(e) => setNewCurrency(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCurrency()}
+              placeholder="Currency code, e.g. GBP"
+              maxLength={3}
+              className="w-48 px-2 py-1 text-sm text-black border border-gray-300 rounded"
+            />
+            <button
+              onClick={addCurrency}
+              disabled={!newCurrency.trim()}
+              className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-black rounded hover:bg-gray-200 disabled:opacity-40"
+            >
+              <Plus className="h-3 w-3" /> Add currency
+            </button>
+          </div>
+
+          {target !== sourceCurrency && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                  {(['average', 'fixed'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => update({ mode })}
+                      className={`px-3 py-1 text-xs ${draft.mode === mode ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                    >
+                      {MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                {draft.mode === 'fixed' && (
+                  <label className="flex items-center gap-2 text-xs text-black">
+                    Rate year
+                    <select
+                      value={fixedYear}
+                      onChange={(e) => update({ fixedYear: Number(e.target.value) })}
+                      className="px-2 py-1 text-xs text-black border border-gray-300 rounded"
+                    >
+                      {metadata.years.map(year => (
+                        <option key={year} value={year}>{year}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <button
+                  onClick={() => update({ rates: { ...draft.rates, ...DEFAULT_FX_RATES } })}
+                  className="ml-auto flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                  title="Restore the built-in rates for the default currencies"
+                >
+                  <RotateCcw className="h-3 w-3" /> Reset rates
+                </button>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-black mb-1">{pair} rates</h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  {sourceCurrency} per 1 {target}. Years left blank use the nearest year with a rate.
+                </p>
+                <table className="w-full text-xs text-black">
+                  <thead>
+                    <tr className="bg-gray-50 text-left">
+                      <th className="px-2 py-1">Year</th>
+                      <th className="px-2 py-1">Rate</th>
+                      <th className="px-2 py-1 text-right">Applied</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metadata.years.map(year => {
+                      const applied = getFxRate(rates, draft.mode === 'fixed' ? fixedYear : year)
+                      return (
+                        <tr key={year} className="border-b border-gray-100">
+                          <td className="px-2 py-1">
+                            {year}
+                            {metadata.forecast_years.includes(year) && <span className="text-gray-400"> (forecast)</span>}
+                          </td>
+                          <td className="px-2 py-1">
+                            <input
+                              type="number"
+                              min={0}
+                              step="any"
+                              value={rates[year] ?? ''}
+                              onChange={(e) => setRate(year, e.target.value)}
+                              className="w-28 px-2 py-0.5 text-xs text-black border border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="px-2 py-1 text-right">
+                            {applied === null ? <span className="text-red-600">no rate</span> : applied.toFixed(4)}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 border-t">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { X, CheckCircle, AlertTriangle } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import { formatNumber, type NumberFormatSettings } from '@/lib/number-format'
+import {
+  reconcileData,
+  DEFAULT_RECONCILIATION_TOLERANCE,
+  type ReconciliationKind,
+  type ReconciliationMismatch
+} from '@/lib/reconciliation'
+
+interface DataQualityPanelProps {
+  onClose: () => void
+}
+
+const MAX_LISTED_MISMATCHES = 200
+
+const KIND_LABELS: Record<ReconciliationKind, string> = {
+  geography: 'Geography',
+  segment: 'Segment'
+}
+
+const formatAmount = (value: number, settings: NumberFormatSettings) =>
+  formatNumber(value, settings, { decimals: 1 })
+
+const formatSigned = (value: number, suffix: string = '') =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`
+
+const formatGapPercent = (percent: number | null) =>
+  percent === null ? 'parent is 0' : formatSigned(percent, '%')
+
+interface MismatchDetailProps {
+  mismatch: ReconciliationMismatch
+  years: number[]
+  unit: string
+  onClose: () => void
+}
+
+function MismatchDetail({ mismatch, years, unit, onClose }: MismatchDetailProps) {
+  const numberFormat = useDashboardStore(state => state.numberFormat)
+  const gapYears = new Set(mismatch.gaps.map(gap => gap.year))
+  const childLabel = (child: ReconciliationMismatch['children'][number]) =>
+    mismatch.kind === 'geography' ? child.geography : child.segment.split(' > ').pop()
+
+  const sumFor = (year: number) =>
+    mismatch.children.reduce((sum, child) => sum + (child.time_series[year] ?? 0), 0)
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <h4 className="text-sm font-semibold text-black">{mismatch.geography} · {mismatch.segment}</h4>
+          <p className="text-xs text-gray-500">
+            {KIND_LABELS[mismatch.kind]} check · {mismatch.segment_type} · {mismatch.dataType} · {mismatch.children.length} child records
+            {mismatch.missingChildren.length > 0 && ` · no record for ${mismatch.missingChildren.join(', ')}`}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-black" title="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs text-black">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="text-left pr-3 py-1 font-semibold whitespace-nowrap">Record</th>
+              {years.map(year => (
+                <th key={year} className={`px-2 py-1 text-right ${gapYears.has(year) ? 'text-red-600' : ''}`}>{year}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-gray-200 font-semibold">
+              <td className="pr-3 py-1 whitespace-nowrap">Parent</td>
+              {years.map(year => (
+                <td key={year} className="px-2 py-1 text-right">{formatAmount(mismatch.parent.time_series[year] ?? 0, numberFormat)}</td>
+              ))}
+            </tr>
+            {mismatch.children.map(child => (
+              <tr key={`${child.geography}::${child.segment}`} className="border-b border-gray-100">
+                <td className="pr-3 py-1 whitespace-nowrap max-w-xs truncate" title={`${child.geography} · ${child.segment}`}>
+                  {childLabel(child)}
+                </td>
+                {years.map(year => (
+                  <td key={year} className="px-2 py-1 text-right">{formatAmount(child.time_series[year] ?? 0, numberFormat)}</td>
+                ))}
+              </tr>
+            ))}
+            <tr className="border-b border-gray-200 font-semibold">
+              <td className="pr-3 py-1 whitespace-nowrap">Sum of children</td>
+              {years.map(year => (
+                <td key={year} className="px-2 py-1 text-right">{formatAmount(sumFor(year), numberFormat)}</td>
+              ))}
+            </tr>
+            <tr>
+              <td className="pr-3 py-1 whitespace-nowrap">Difference</td>
+              {years.map(year => {
+                const gap = mismatch.gaps.find(g => g.year === year)
+                return (
+                  <td key={year} className={`px-2 py-1 text-right ${gap ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+                    {gap ? formatGapPercent(gap.differencePercent) : 'ok'}
+                  </td>
+                )
+              })}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-gray-500 mt-1">Values in {unit}</p>
+    </div>
+  )
+}
+
+export function DataQualityPanel({ onClose }: DataQualityPanelProps) {
+  const { data, numberFormat } = useDashboardStore()
+  const [tolerance, setTolerance] = useState(DEFAULT_RECONCILIATION_TOLERANCE)
+  const [dataType, setDataType] = useState<'value' | 'volume'>('value')
+  const [kind, setKind] = useState<ReconciliationKind | 'all'>('all')
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+
+  const report = useMemo(
+    () => (data ? reconcileData(data, { tolerance, dataTypes: [dataType] }) : null),
+    [data, tolerance, dataType]
+  )
+
+  const mismatches = report?.mismatches.filter(m => kind === 'all' || m.kind === kind) ?? []
+  const selected = report?.mismatches.find(m => m.key === selectedKey) ?? null
+  const unit = data
+    ? dataType === 'value'
+      ? `${data.metadata.currency} ${data.metadata.value_unit}`
+      : data.metadata.volume_unit
+    : ''
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[72rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Data Quality</h3>
+            <p className="text-xs text-black">
+              Parents should equal the sum of their children: the country vs its regions, regions vs their
+              states, and segments vs their sub-segments
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {/* Controls and summary */}
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(['value', 'volume'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setDataType(type)}
+                  className={`px-3 py-1 text-xs capitalize ${dataType === type ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(['all', 'geography', 'segment'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setKind(option)}
+                  className={`px-3 py-1 text-xs capitalize ${kind === option ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-black">
+              Tolerance
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={tolerance}
+                onChange={(e) => {
+                  const next = Number(e.target.value)
+                  if (Number.isFinite(next) && next >= 0) setTolerance(next)
+                }}
+                className="w-20 px-2 py-1 text-xs text-black border border-gray-300 rounded"
+              />
+              % of parent
+            </label>
+            {report && (
+              <div className="flex gap-3 text-xs text-black ml-auto">
+                <span><strong>{report.checkedNodes}</strong> parents checked</span>
+                <span><strong className="text-red-700">{report.summary.geography}</strong> geography mismatches</span>
+                <span><strong className="text-red-700">{report.summary.segment}</strong> segment mismatches</span>
+              </div>
+            )}
+          </div>
+
+          {selected && data && (
+            <MismatchDetail
+              mismatch={selected}
+              years={data.metadata.years}
+              unit={unit}
+              onClose={() => setSelectedKey(null)}
+            />
+          )}
+
+          {!report ? (
+            <p className="text-sm text-gray-500">No data loaded.</p>
+          ) : report.checkedNodes === 0 ? (
+            <p className="text-sm text-gray-500">
+              This dataset has no parent records with children to reconcile.
+            </p>
+          ) : mismatches.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              Every parent matches the sum of its children within {tolerance}%.
+            </div>
+          ) : (
+            <div>
+              <h4 className="text-sm font-semibold text-black mb-1 flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4 text-amber-500" /> Mismatches ({mismatches.length})
+              </h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Largest gap first · click a row to see the parent and child records
+                {mismatches.length > MAX_LISTED_MISMATCHES && ` · showing the first ${MAX_LISTED_MISMATCHES}`}
+              </p>
+              <table className="w-full text-xs text-black">
+                <thead>
+                  <tr className="bg-gray-50 text-left">
+                    <th className="px-2 py-1">Check</th>
+                    <th className="px-2 py-1">Geography</th>
+                    <th className="px-2 py-1">Segment</th>
+                    <th className="px-2 py-1 text-right">Children</th>
+                    <th className="px-2 py-1 text-right">Years off</th>
+                    <th className="px-2 py-1 text-right">Worst year</th>
+                    <th className="px-2 py-1 text-right">Parent</th>
+                    <th className="px-2 py-1 text-right">Sum of children</th>
+                    <th className="px-2 py-1 text-right">Gap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mismatches.slice(0, MAX_LISTED_MISMATCHES).map(mismatch => {
+                    const gap = mismatch.worstGap
+                    return (
+                      <tr
+                        key={mismatch.key}
+                        onClick={() => setSelectedKey(mismatch.key)}
+                        className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${selectedKey === mismatch.key ? 'bg-blue-50' : ''}`}
+                      >
+                        <td className="px-2 py-1">{KIND_LABELS[mismatch.kind]}</td>
+                        <td className="px-2 py-1">{mismatch.geography}</td>
+                        <td className="px-2 py-1 max-w-xs truncate" title={mismatch.segment}>{mismatch.segment}</td>
+                        <td className="px-2 py-1 text-right">{mismatch.children.length}</td>
+                        <td className="px-2 py-1 text-right">{mismatch.gaps.length}</td>
+                        <td className="px-2 py-1 text-right">{gap.year}</td>
+                        <td className="px-2 py-1 text-right">{formatAmount(gap.parentValue, numberFormat)}</td>
+                        <td className="px-2 py-1 text-right">{formatAmount(gap.childrenSum, numberFormat)}</td>
+                        <td className="px-2 py-1 text-right font-semibold text-red-600">{formatGapPercent(gap.differencePercent)}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
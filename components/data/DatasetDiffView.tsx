@@ -0,0 +1,430 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { X, Upload, Database, AlertTriangle, Plus, Minus } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import { formatNumber, type NumberFormatSettings } from '@/lib/number-format'
+import type { ComparisonData } from '@/lib/types'
+import { DataValidationError, type ValidationIssue } from '@/lib/data-validator'
+import {
+  diffComparisonData,
+  getLargestRevisions,
+  getYearDeltaPercent,
+  readSnapshotFile,
+  type RecordDiff
+} from '@/lib/dataset-diff'
+import { HeatmapGrid } from '@/components/charts/HeatmapGrid'
+import { ValidationReport } from '@/components/ui/ValidationReport'
+
+interface DatasetDiffViewProps {
+  onClose: () => void
+}
+
+interface Snapshot {
+  label: string
+  data: ComparisonData
+}
+
+const MAX_HEATMAP_COLUMNS = 40
+const MAX_LISTED_RECORDS = 50
+
+interface SnapshotPickerProps {
+  title: string
+  snapshot: Snapshot | null
+  onChange: (snapshot: Snapshot | null) => void
+}
+
+function SnapshotPicker({ title, snapshot, onChange }: SnapshotPickerProps) {
+  // Release files hold source values, so compare against the data before currency conversion
+  const data = useDashboardStore(state => state.sourceData)
+  const [error, setError] = useState<string | null>(null)
+  const [issues, setIssues] = useState<ValidationIssue[]>([])
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    setIssues([])
+    try {
+      onChange({ label: file.name, data: await readSnapshotFile(file) })
+    } catch (err) {
+      onChange(null)
+      if (err instanceof DataValidationError) {
+        setIssues(err.issues)
+      }
+      setError(err instanceof Error ? err.message : 'Could not read the file')
+    }
+  }
+
+  return (
+    <div className="flex-1 border border-gray-200 rounded-lg p-3 space-y-2">
+      <h4 className="text-xs font-semibold text-black uppercase">{title}</h4>
+      {snapshot ? (
+        <div className="text-sm text-black">
+          <div className="font-medium truncate" title={snapshot.label}>{snapshot.label}</div>
+          <div className="text-xs text-gray-500">
+            {snapshot.data.metadata.market_name} · {snapshot.data.data.value.geography_segment_matrix.length} value / {snapshot.data.data.volume.geography_segment_matrix.length} volume records
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No release selected</p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={() => data && onChange({ label: 'Current dashboard data', data })}
+          disabled={!data}
+          className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-black rounded hover:bg-gray-200 disabled:opacity-40"
+        >
+          <Database className="h-3 w-3" /> Current data
+        </button>
+        <label className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-black rounded hover:bg-gray-200 cursor-pointer">
+          <Upload className="h-3 w-3" /> JSON or workbook
+          <input
+            type="file"
+            accept=".json,application/json,.xlsx,.xls"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3 flex-shrink-0" /> {error}
+        </p>
+      )}
+      {issues.length > 0 && <ValidationReport title="Snapshot validation report" issues={issues} maxVisible={50} />}
+    </div>
+  )
+}
+
+const formatAmount = (value: number | null, settings: NumberFormatSettings) =>
+  value === null ? '—' : formatNumber(value, settings, { decimals: 1 })
+
+const formatSigned = (value: number, suffix: string = '') =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}${suffix}`
+
+// Diverging palette: reds for downward revisions, greens for upward revisions
+const getRevisionColor = (percent: number | null, hasRecord: boolean) => {
+  if (!hasRecord) return 'bg-gray-50'
+  if (percent === null || Math.abs(percent) < 0.05) return 'bg-white'
+  const magnitude = Math.abs(percent)
+  if (percent < 0) {
+    if (magnitude < 2) return 'bg-red-100'
+    if (magnitude < 5) return 'bg-red-200'
+    if (magnitude < 10) return 'bg-red-300'
+    return 'bg-red-500'
+  }
+  if (magnitude < 2) return 'bg-green-100'
+  if (magnitude < 5) return 'bg-green-200'
+  if (magnitude < 10) return 'bg-green-300'
+  return 'bg-green-500'
+}
+
+export function DatasetDiffView({ onClose }: DatasetDiffViewProps) {
+  const numberFormat = useDashboardStore(state => state.numberFormat)
+  const [base, setBase] = useState<Snapshot | null>(null)
+  const [revised, setRevised] = useState<Snapshot | null>(null)
+  const [dataType, setDataType] = useState<'value' | 'volume'>('value')
+  const [segmentType, setSegmentType] = useState<string>('')
+  const [year, setYear] = useState<number | null>(null)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [hoveredCell, setHoveredCell] = useState<{ record: RecordDiff | null; x: number; y: number } | null>(null)
+
+  const diff = useMemo(
+    () => (base && revised ? diffComparisonData(base.data, revised.data, dataType) : null),
+    [base, revised, dataType]
+  )
+
+  const segmentTypes = useMemo(
+    () => (diff ? [...new Set(diff.records.map(r => r.segment_type))].sort() : []),
+    [diff]
+  )
+  const activeSegmentType = segmentTypes.includes(segmentType) ? segmentType : segmentTypes[0] || ''
+  const activeYear = diff && year !== null && diff.years.includes(year)
+    ? year
+    : revised?.data.metadata.forecast_year ?? diff?.years[diff.years.length - 1] ?? 0
+
+  const largestRevisions = useMemo(() => (diff ? getLargestRevisions(diff) : []), [diff])
+  const selectedRecord = diff?.records.find(r => r.key === selectedKey) ?? null
+
+  // Heatmap of revisions for the selected segment type and year
+  const heatmap = useMemo(() => {
+    if (!diff) return null
+    const records = diff.records.filter(r => r.segment_type === activeSegmentType && r.status !== 'unchanged')
+    const lookup = new Map(records.map(r => [`${r.geography}::${r.segment}`, r]))
+
+    // Keep the segments with the biggest revisions when there are too many to show
+    const segmentScores = new Map<string, number>()
+    records.forEach(r => {
+      const percent = Math.abs(getYearDeltaPercent(r, activeYear) ?? 0)
+      segmentScores.set(r.segment, Math.max(segmentScores.get(r.segment) ?? 0, percent))
+    })
+    const segments = [...segmentScores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_HEATMAP_COLUMNS)
+      .map(([segment]) => segment)
+      .sort()
+    const geographies = [...new Set(records.filter(r => segments.includes(r.segment)).map(r => r.geography))].sort()
+
+    return {
+      geographies,
+      segments,
+      truncated: segmentScores.size > segments.length,
+      getRecord: (geoIndex: number, segIndex: number) => lookup.get(`${geographies[geoIndex]}::${segments[segIndex]}`) ?? null
+    }
+  }, [diff, activeSegmentType, activeYear])
+
+  const addedRecords = diff?.records.filter(r => r.status === 'added') ?? []
+  const removedRecords = diff?.records.filter(r => r.status === 'removed') ?? []
+  const unit = revised
+    ? dataType === 'value'
+      ? `${revised.data.metadata.currency} ${revised.data.metadata.value_unit}`
+      : revised.data.metadata.volume_unit
+    : ''
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[72rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Compare Data Releases</h3>
+            <p className="text-xs text-black">
+              Records are matched by geography, segment type and segment
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <div className="flex gap-4">
+            <SnapshotPicker title="Previous release" snapshot={base} onChange={setBase} />
+            <SnapshotPicker title="New release" snapshot={revised} onChange={setRevised} />
+          </div>
+
+          {diff && (
+            <>
+              {/* Controls and summary */}
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                  {(['value', 'volume'] as const).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => setDataType(type)}
+                      className={`px-3 py-1 text-xs capitalize ${dataType === type ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={activeSegmentType}
+                  onChange={(e) => setSegmentType(e.target.value)}
+                  className="px-2 py-1 text-xs text-black border border-gray-300 rounded"
+                >
+                  {segmentTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <select
+                  value={activeYear}
+                  onChange={(e) => setYear(Number(e.target.value))}
+                  className="px-2 py-1 text-xs text-black border border-gray-300 rounded"
+                >
+                  {diff.years.map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+                <div className="flex gap-3 text-xs text-black ml-auto">
+                  <span><strong className="text-green-700">{diff.summary.added}</strong> added</span>
+                  <span><strong className="text-red-700">{diff.summary.removed}</strong> removed</span>
+                  <span><strong className="text-blue-700">{diff.summary.changed}</strong> changed</span>
+                  <span><strong>{diff.summary.unchanged}</strong> unchanged</span>
+                </div>
+              </div>
+
+              {/* Revision heatmap */}
+              <div>
+                <h4 className="text-sm font-semibold text-black mb-1">Revisions in {activeYear}</h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  % change from the previous release · click a cell for the full history
+                  {heatmap?.truncated && ` · showing the ${MAX_HEATMAP_COLUMNS} most revised segments`}
+                </p>
+                {heatmap && heatmap.geographies.length > 0 ? (
+                  <HeatmapGrid
+                    rows={heatmap.geographies}
+                    columns={heatmap.segments}
+                    cornerLabel="Geo \ Segment"
+                    height={360}
+                    getCell={(geoIndex, segIndex) => {
+                      const record = heatmap.getRecord(geoIndex, segIndex)
+                      const percent = record ? getYearDeltaPercent(record, activeYear) : null
+                      let label = '-'
+                      if (record?.status === 'added') label = 'new'
+                      else if (record?.status === 'removed') label = 'removed'
+                      else if (percent !== null) label = formatSigned(percent, '%')
+                      return {
+                        className: getRevisionColor(percent, !!record),
+                        label,
+                        labelClassName: percent !== null && Math.abs(percent) >= 10 ? 'text-white' : 'text-gray-800'
+                      }
+                    }}
+                    onCellHover={(hover) => setHoveredCell(hover && {
+                      record: heatmap.getRecord(hover.rowIndex, hover.columnIndex),
+                      x: hover.x,
+                      y: hover.y
+                    })}
+                    onCellClick={(geoIndex, segIndex) => {
+                      const record = heatmap.getRecord(geoIndex, segIndex)
+                      if (record) setSelectedKey(record.key)
+                    }}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">No revisions for this segment type.</p>
+                )}
+              </div>
+
+              {/* Selected record history */}
+              {selectedRecord && (
+                <div className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h4 className="text-sm font-semibold text-black">{selectedRecord.geography} · {selectedRecord.segment}</h4>
+                      <p className="text-xs text-gray-500">
+                        CAGR {formatAmount(selectedRecord.cagr.before, numberFormat)}% → {formatAmount(selectedRecord.cagr.after, numberFormat)}% ({formatSigned(selectedRecord.cagr.delta, ' pp')})
+                        {' · '}Market share {formatAmount(selectedRecord.marketShare.before, numberFormat)}% → {formatAmount(selectedRecord.marketShare.after, numberFormat)}% ({formatSigned(selectedRecord.marketShare.delta, ' pp')})
+                      </p>
+                    </div>
+                    <button onClick={() => setSelectedKey(null)} className="text-black" title="Close">
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="text-xs text-black">
+                      <tbody>
+                        {(['Year', 'Previous', 'New', 'Change', '% Change'] as const).map(rowLabel => (
+                          <tr key={rowLabel} className="border-b border-gray-100">
+                            <th className="text-left pr-3 py-1 font-semibold whitespace-nowrap">{rowLabel}</th>
+                            {selectedRecord.years.map(y => (
+                              <td key={y.year} className="px-2 py-1 text-right whitespace-nowrap">
+                                {rowLabel === 'Year' && y.year}
+                                {rowLabel === 'Previous' && formatAmount(y.before, numberFormat)}
+                                {rowLabel === 'New' && formatAmount(y.after, numberFormat)}
+                                {rowLabel === 'Change' && formatSigned(y.delta)}
+                                {rowLabel === '% Change' && (y.deltaPercent === null ? '—' : formatSigned(y.deltaPercent, '%'))}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-[10px] text-gray-500 mt-1">Values in {unit}</p>
+                </div>
+              )}
+
+              {/* Largest revisions */}
+              <div>
+                <h4 className="text-sm font-semibold text-black mb-2">Largest revisions</h4>
+                {largestRevisions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No values changed between the releases.</p>
+                ) : (
+                  <table className="w-full text-xs text-black">
+                    <thead>
+                      <tr className="bg-gray-50 text-left">
+                        <th className="px-2 py-1">Geography</th>
+                        <th className="px-2 py-1">Segment</th>
+                        <th className="px-2 py-1 text-right">Year</th>
+                        <th className="px-2 py-1 text-right">Previous</th>
+                        <th className="px-2 py-1 text-right">New</th>
+                        <th className="px-2 py-1 text-right">% Change</th>
+                        <th className="px-2 py-1 text-right">CAGR Δ</th>
+                        <th className="px-2 py-1 text-right">Share Δ</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {largestRevisions.map(record => {
+                        const revision = record.largestRevision!
+                        return (
+                          <tr
+                            key={record.key}
+                            onClick={() => setSelectedKey(record.key)}
+                            className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${selectedKey === record.key ? 'bg-blue-50' : ''}`}
+                          >
+                            <td className="px-2 py-1">{record.geography}</td>
+                            <td className="px-2 py-1 max-w-xs truncate" title={record.segment}>{record.segment}</td>
+                            <td className="px-2 py-1 text-right">{revision.year}</td>
+                            <td className="px-2 py-1 text-right">{formatAmount(revision.before, numberFormat)}</td>
+                            <td className="px-2 py-1 text-right">{formatAmount(revision.after, numberFormat)}</td>
+                            <td className={`px-2 py-1 text-right font-semibold ${revision.delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                              {revision.deltaPercent === null ? 'new value' : formatSigned(revision.deltaPercent, '%')}
+                            </td>
+                            <td className="px-2 py-1 text-right">{formatSigned(record.cagr.delta, ' pp')}</td>
+                            <td className="px-2 py-1 text-right">{formatSigned(record.marketShare.delta, ' pp')}</td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* Added and removed records */}
+              <div className="grid md:grid-cols-2 gap-4">
+                {[
+                  { title: 'Added records', records: addedRecords, Icon: Plus, color: 'text-green-600' },
+                  { title: 'Removed records', records: removedRecords, Icon: Minus, color: 'text-red-600' }
+                ].map(({ title, records, Icon, color }) => (
+                  <div key={title}>
+                    <h4 className="text-sm font-semibold text-black mb-2">{title} ({records.length})</h4>
+                    {records.length === 0 ? (
+                      <p className="text-xs text-gray-500">None</p>
+                    ) : (
+                      <ul className="max-h-48 overflow-y-auto space-y-1">
+                        {records.slice(0, MAX_LISTED_RECORDS).map(record => (
+                          <li key={record.key} className="flex items-start gap-1 text-xs text-black">
+                            <Icon className={`h-3 w-3 mt-0.5 flex-shrink-0 ${color}`} />
+                            <span>{record.geography} · <span className="text-gray-500">{record.segment_type}</span> · {record.segment}</span>
+                          </li>
+                        ))}
+                        {records.length > MAX_LISTED_RECORDS && (
+                          <li className="text-xs text-gray-500">…and {records.length - MAX_LISTED_RECORDS} more</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Heatmap cell tooltip */}
+      {hoveredCell?.record && (
+        <div
+          className="fixed bg-white p-3 border border-gray-200 rounded-lg shadow-xl z-50 pointer-events-none min-w-[240px]"
+          style={{
+            left: `${hoveredCell.x}px`,
+            top: `${hoveredCell.y}px`,
+            transform: 'translate(-50%, -100%)'
+          }}
+        >
+          {(() => {
+            const record = hoveredCell.record
+            const yearDelta = record.years.find(y => y.year === activeYear)
+            return (
+              <div className="space-y-1 text-xs text-gray-900">
+                <p className="font-semibold">{record.geography}</p>
+                <p className="text-gray-600">{record.segment}</p>
+                <p>{activeYear}: {formatAmount(yearDelta?.before ?? null, numberFormat)} → {formatAmount(yearDelta?.after ?? null, numberFormat)} {unit}</p>
+                <p>CAGR: {formatSigned(record.cagr.delta, ' pp')} · Share: {formatSigned(record.marketShare.delta, ' pp')}</p>
+              </div>
+            )
+          })()}
+        </div>
+      )}
+    </div>
+  )
+}
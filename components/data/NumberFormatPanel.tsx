@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import {
+  VOLUME_UNITS,
+  formatAxisTick,
+  formatNumber,
+  getDecimals,
+  getVolumeUnitScale,
+  type DigitGrouping,
+  type NumberFormatSettings
+} from '@/lib/number-format'
+
+interface NumberFormatPanelProps {
+  onClose: () => void
+}
+
+const GROUPING_LABELS: Record<DigitGrouping, string> = {
+  international: 'International (12,345,678)',
+  indian: 'Indian (1,23,45,678)'
+}
+
+const PREVIEW_VALUE = 12345678.9
+
+export function NumberFormatPanel({ onClose }: NumberFormatPanelProps) {
+  const { sourceData, data, numberFormat, setNumberFormat } = useDashboardStore()
+  const [draft, setDraft] = useState<NumberFormatSettings>(numberFormat)
+
+  if (!sourceData || !data) return null
+
+  const sourceVolumeUnit = sourceData.metadata.volume_unit
+  const canRescaleVolume = getVolumeUnitScale(sourceVolumeUnit) !== null
+  const volumeUnit = draft.volumeUnit ?? sourceVolumeUnit
+  // Units shown in the dashboard right now, then the percentage rule
+  const decimalUnits = Array.from(new Set([data.metadata.value_unit, volumeUnit, '%']))
+
+  const update = (changes: Partial<NumberFormatSettings>) => setDraft(current => ({ ...current, ...changes }))
+
+  const setDecimals = (unit: string, input: string) => {
+    const decimals = Number(input)
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 6) return
+    update({ decimals: { ...draft.decimals, [unit]: decimals } })
+  }
+
+  const apply = () => {
+    setNumberFormat(draft)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[36rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Number Format</h3>
+            <p className="text-xs text-black">
+              Used by chart axes, tooltips, tables and exports
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div>
+            <label className="text-xs font-medium text-black uppercase">Digit grouping</label>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden mt-1 w-fit">
+              {(['international', 'indian'] as const).map(grouping => (
+                <button
+                  key={grouping}
+                  onClick={() => update({ grouping })}
+                  className={`px-3 py-1 text-xs ${draft.grouping === grouping ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                >
+                  {GROUPING_LABELS[grouping]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-black">
+            <input
+              type="checkbox"
+              checked={draft.compact}
+              onChange={(e) => update({ compact: e.target.checked })}
+            />
+            Compact notation in tooltips and tables ({draft.grouping === 'indian' ? 'K, L, Cr' : 'K, M, Bn'})
+          </label>
+
+          <label className="block text-xs font-medium text-black uppercase">
+            Volume unit
+            <select
+              value={draft.volumeUnit ?? ''}
+              onChange={(e) => update({ volumeUnit: e.target.value || null })}
+              disabled={!canRescaleVolume}
+              className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal disabled:opacity-50"
+            >
+              <option value="">{sourceVolumeUnit} (source)</option>
+              {VOLUME_UNITS.filter(unit => unit !== sourceVolumeUnit).map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <h4 className="text-sm font-semibold text-black mb-1">Decimals</h4>
+            <table className="w-full text-xs text-black">
+              <thead>
+                <tr className="bg-gray-50 text-left">
+                  <th className="px-2 py-1">Unit</th>
+                  <th className="px-2 py-1">Decimals</th>
+                  <th className="px-2 py-1 text-right">Example</th>
+                </tr>
+              </thead>
+              <tbody>
+                {decimalUnits.map(unit => (
+                  <tr key={unit} className="border-b border-gray-100">
+                    <td className="px-2 py-1">{unit === '%' ? 'Percentages' : unit}</td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        min={0}
+                        max={6}
+                        value={getDecimals(draft, unit)}
+                        onChange={(e) => setDecimals(unit, e.target.value)}
+                        className="w-16 px-2 py-0.5 text-xs text-black border border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      {formatNumber(unit === '%' ? 12.3456 : PREVIEW_VALUE, draft, { unit })}{unit === '%' ? '%' : ` ${unit}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              Axis ticks: {formatAxisTick(PREVIEW_VALUE, draft)} · Compact: {formatNumber(PREVIEW_VALUE, draft, { compact: true })}
+            </p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 border-t">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
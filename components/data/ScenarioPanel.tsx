@@ -0,0 +1,339 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { X, Plus, Trash2 } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import { getRecordIndex, recordKey } from '@/lib/record-index'
+import {
+  describeAdjustment,
+  type Scenario,
+  type ScenarioAdjustment,
+  type ScenarioAdjustmentKind
+} from '@/lib/scenario'
+
+interface ScenarioPanelProps {
+  onClose: () => void
+}
+
+const KIND_LABELS: Record<ScenarioAdjustmentKind, string> = {
+  cagr: 'Override CAGR',
+  shock: 'Apply shock'
+}
+
+const EMPTY_SCENARIO: Scenario = { name: '', adjustments: [] }
+
+export function ScenarioPanel({ onClose }: ScenarioPanelProps) {
+  const { sourceData, activeScenario, scenarios, setActiveScenario, saveScenario, deleteScenario } = useDashboardStore()
+  const [draft, setDraft] = useState<Scenario>(activeScenario ?? EMPTY_SCENARIO)
+  const [geography, setGeography] = useState('')
+  const [segmentType, setSegmentType] = useState('')
+  const [segment, setSegment] = useState('')
+  const [kind, setKind] = useState<ScenarioAdjustmentKind>('cagr')
+  const [amount, setAmount] = useState('')
+  const [fromYear, setFromYear] = useState<number | null>(null)
+
+  const records = sourceData?.data.value.geography_segment_matrix
+  const index = useMemo(() => (records ? getRecordIndex(records) : null), [records])
+
+  // Segments with a value record in the chosen geography and segment type
+  const segments = useMemo(() => {
+    if (!index || !geography || !segmentType) return []
+    return (index.byGeography.get(geography) ?? [])
+      .map(position => index.records[position])
+      .filter(record => record.segment_type === segmentType)
+      .map(record => record.segment)
+      .sort((a, b) => a.localeCompare(b))
+  }, [index, geography, segmentType])
+
+  if (!sourceData || !index) return null
+
+  const { metadata } = sourceData
+  const segmentTypes = Object.keys(sourceData.dimensions.segments)
+  const shockYears = metadata.years.filter(year => year > metadata.base_year)
+  const value = Number(amount)
+  const canAdd = !!geography && !!segmentType && !!segment && amount.trim() !== '' && Number.isFinite(value)
+
+  const baseCAGR = (adjustment: Pick<ScenarioAdjustment, 'geography' | 'segmentType' | 'segment'>) => {
+    const position = index.byRecordKey.get(recordKey(adjustment.geography, adjustment.segmentType, adjustment.segment))
+    return position === undefined ? null : index.records[position].cagr
+  }
+  const selectedCAGR = segment ? baseCAGR({ geography, segmentType, segment }) : null
+
+  const addAdjustment = () => {
+    if (!canAdd) return
+    const adjustment: ScenarioAdjustment = {
+      geography,
+      segmentType,
+      segment,
+      kind,
+      value,
+      fromYear: kind === 'shock' ? fromYear : null
+    }
+    setDraft(current => ({ ...current, adjustments: [...current.adjustments, adjustment] }))
+    setAmount('')
+  }
+
+  const removeAdjustment = (position: number) => {
+    setDraft(current => ({ ...current, adjustments: current.adjustments.filter((_, i) => i !== position) }))
+  }
+
+  const apply = () => {
+    setActiveScenario({ ...draft, name: draft.name.trim() || 'Unsaved scenario' })
+    onClose()
+  }
+
+  const save = () => {
+    const scenario = { ...draft, name: draft.name.trim() }
+    saveScenario(scenario)
+    setActiveScenario(scenario)
+    onClose()
+  }
+
+  const clear = () => {
+    setActiveScenario(null)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[48rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Scenario Planner</h3>
+            <p className="text-xs text-black">
+              Override growth or apply a shock after {metadata.base_year}. Parent segments and geographies are
+              re-projected with the change; the line and waterfall charts show Base vs Scenario.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-xs font-medium text-black uppercase">
+              Scenario name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft(current => ({ ...current, name: e.target.value }))}
+                placeholder="e.g. Turmeric extracts at 12%"
+                className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+              />
+            </label>
+            <label className="text-xs font-medium text-black uppercase">
+              Saved scenarios
+              <select
+                value=""
+                onChange={(e) => {
+                  const saved = scenarios.find(scenario => scenario.name === e.target.value)
+                  if (saved) setDraft(saved)
+                }}
+                disabled={scenarios.length === 0}
+                className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal disabled:opacity-50"
+              >
+                <option value="">{scenarios.length === 0 ? 'None saved yet' : 'Load a saved scenario…'}</option>
+                {scenarios.map(scenario => (
+                  <option key={scenario.name} value={scenario.name}>
+                    {scenario.name} ({scenario.adjustments.length})
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="border rounded-md p-3 space-y-3">
+            <h4 className="text-sm font-semibold text-black">Add an adjustment</h4>
+            <div className="grid grid-cols-3 gap-3">
+              <label className="text-xs font-medium text-black uppercase">
+                Geography
+                <select
+                  value={geography}
+                  onChange={(e) => { setGeography(e.target.value); setSegment('') }}
+                  className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+                >
+                  <option value="">Select…</option>
+                  {index.geographies.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-black uppercase">
+                Segment type
+                <select
+                  value={segmentType}
+                  onChange={(e) => { setSegmentType(e.target.value); setSegment('') }}
+                  className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+                >
+                  <option value="">Select…</option>
+                  {segmentTypes.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-black uppercase">
+                Segment
+                <select
+                  value={segment}
+                  onChange={(e) => setSegment(e.target.value)}
+                  disabled={segments.length === 0}
+                  className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal disabled:opacity-50"
+                >
+                  <option value="">Select…</option>
+                  {segments.map(path => (
+                    <option key={path} value={path} title={path}>{path}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                {(['cagr', 'shock'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setKind(option)}
+                    className={`px-3 py-1 text-xs ${kind === option ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                  >
+                    {KIND_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-black">
+                {kind === 'cagr' ? 'CAGR %' : 'Change %'}
+                <input
+                  type="number"
+                  step="any"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addAdjustment()}
+                  placeholder={kind === 'cagr' ? '12' : '-10'}
+                  className="w-24 px-2 py-1 text-xs text-black border border-gray-300 rounded"
+                />
+              </label>
+              {kind === 'shock' && (
+                <label className="flex items-center gap-2 text-xs text-black">
+                  From
+                  <select
+                    value={fromYear ?? ''}
+                    onChange={(e) => setFromYear(e.target.value ? Number(e.target.value) : null)}
+                    className="px-2 py-1 text-xs text-black border border-gray-300 rounded"
+                  >
+                    <option value="">{metadata.base_year + 1}</option>
+                    {shockYears.slice(1).map(year => (
+                      <option key={year} value={year}>{year}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button
+                onClick={addAdjustment}
+                disabled={!canAdd}
+                className="ml-auto flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-black rounded hover:bg-gray-200 disabled:opacity-40"
+              >
+                <Plus className="h-3 w-3" /> Add
+              </button>
+            </div>
+            {selectedCAGR !== null && (
+              <p className="text-xs text-gray-500">
+                Base CAGR {metadata.base_year}–{metadata.forecast_year}: {selectedCAGR.toFixed(1)}%
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-black mb-1">Adjustments (applied in order)</h4>
+            {draft.adjustments.length === 0 ? (
+              <p className="text-xs text-gray-500">No adjustments yet</p>
+            ) : (
+              <table className="w-full text-xs text-black">
+                <thead>
+                  <tr className="bg-gray-50 text-left">
+                    <th className="px-2 py-1">Geography</th>
+                    <th className="px-2 py-1">Segment</th>
+                    <th className="px-2 py-1">Change</th>
+                    <th className="px-2 py-1 text-right">Base CAGR</th>
+                    <th className="px-2 py-1"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.adjustments.map((adjustment, position) => {
+                    const cagr = baseCAGR(adjustment)
+                    return (
+                      <tr key={position} className="border-b border-gray-100">
+                        <td className="px-2 py-1">{adjustment.geography}</td>
+                        <td className="px-2 py-1" title={`${adjustment.segmentType}: ${adjustment.segment}`}>
+                          {adjustment.segment.split(' > ').pop()}
+                        </td>
+                        <td className="px-2 py-1">{describeAdjustment(adjustment, metadata)}</td>
+                        <td className="px-2 py-1 text-right">
+                          {cagr === null ? <span className="text-red-600">not in data</span> : `${cagr.toFixed(1)}%`}
+                        </td>
+                        <td className="px-2 py-1 text-right">
+                          <button
+                            onClick={() => removeAdjustment(position)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Remove adjustment"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {scenarios.some(scenario => scenario.name === draft.name.trim()) && (
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>Saving replaces the saved scenario &quot;{draft.name.trim()}&quot;</span>
+              <button
+                onClick={() => deleteScenario(draft.name.trim())}
+                className="flex items-center gap-1 text-red-600 hover:text-red-800"
+              >
+                <Trash2 className="h-3 w-3" /> Delete saved
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-6 py-3 border-t">
+          <button
+            onClick={clear}
+            disabled={!activeScenario}
+            className="px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+          >
+            Clear scenario
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!draft.name.trim() || draft.adjustments.length === 0}
+            className="px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+          >
+            Save &amp; Apply
+          </button>
+          <button
+            onClick={apply}
+            disabled={draft.adjustments.length === 0}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
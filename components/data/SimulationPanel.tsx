@@ -0,0 +1,201 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { X } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import { formatNumber } from '@/lib/number-format'
+import {
+  SIMULATION_PATH_OPTIONS,
+  getHistoricalVolatility,
+  type SimulationSettings,
+  type VolatilitySource
+} from '@/lib/monte-carlo'
+import type { DataRecord } from '@/lib/types'
+
+interface SimulationPanelProps {
+  onClose: () => void
+}
+
+const VOLATILITY_SOURCE_LABELS: Record<VolatilitySource, string> = {
+  historical: 'Historical volatility',
+  user: 'User-defined'
+}
+
+export function SimulationPanel({ onClose }: SimulationPanelProps) {
+  const { data, filters, simulation, setSimulationSettings, numberFormat } = useDashboardStore()
+  const [draft, setDraft] = useState<SimulationSettings>(simulation)
+
+  // Segments of the selected segment type, with the volatility of their history across geographies
+  const segments = useMemo(() => {
+    if (!data) return []
+    const bySegment = new Map<string, DataRecord[]>()
+    data.data.value.geography_segment_matrix
+      .filter(record => record.segment_type === filters.segmentType)
+      .forEach(record => {
+        const group = bySegment.get(record.segment)
+        if (group) group.push(record)
+        else bySegment.set(record.segment, [record])
+      })
+    return Array.from(bySegment.entries())
+      .map(([segment, records]) => ({ segment, historical: getHistoricalVolatility(records, data.metadata) }))
+      .sort((a, b) => a.segment.localeCompare(b.segment))
+  }, [data, filters.segmentType])
+
+  if (!data) return null
+
+  const update = (changes: Partial<SimulationSettings>) => setDraft(current => ({ ...current, ...changes }))
+  const formatPoints = (value: number) => formatNumber(value, numberFormat, { unit: '%', compact: false })
+
+  const setSegmentVolatility = (segment: string, input: string) => {
+    const segmentVolatility = { ...draft.segmentVolatility }
+    const value = Number(input)
+    if (input === '' || !Number.isFinite(value) || value < 0) delete segmentVolatility[segment]
+    else segmentVolatility[segment] = value
+    update({ segmentVolatility })
+  }
+
+  const apply = () => {
+    setSimulationSettings(draft)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="bg-white rounded-lg w-[40rem] max-w-[95vw] max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Uncertainty Simulation</h3>
+            <p className="text-xs text-black">
+              Monte Carlo P10/P50/P90 bands for the line chart and the market size KPI
+            </p>
+          </div>
+          <button onClick={onClose} className="text-black hover:text-black" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-black">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+            Show uncertainty bands
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-xs font-medium text-black uppercase">
+              Paths
+              <select
+                value={draft.paths}
+                onChange={(e) => update({ paths: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+              >
+                {SIMULATION_PATH_OPTIONS.map(paths => (
+                  <option key={paths} value={paths}>{paths.toLocaleString()}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-black uppercase">
+              Seed
+              <input
+                type="number"
+                value={draft.seed}
+                onChange={(e) => Number.isInteger(Number(e.target.value)) && update({ seed: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+              />
+            </label>
+          </div>
+
+          <div>
+            <label className="text-xs font-medium text-black uppercase">CAGR spread</label>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden mt-1 w-fit">
+              {(Object.keys(VOLATILITY_SOURCE_LABELS) as VolatilitySource[]).map(source => (
+                <button
+                  key={source}
+                  onClick={() => update({ volatilitySource: source })}
+                  className={`px-3 py-1 text-xs ${draft.volatilitySource === source ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+                >
+                  {VOLATILITY_SOURCE_LABELS[source]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {draft.volatilitySource === 'historical'
+                ? 'Each segment’s CAGR varies by the standard deviation of its year-on-year growth over the historical years'
+                : 'Each segment’s CAGR varies by the standard deviation set below, or the default'}
+            </p>
+          </div>
+
+          <label className="block text-xs font-medium text-black uppercase">
+            {draft.volatilitySource === 'historical' ? 'Default without enough history (pp)' : 'Default standard deviation (pp)'}
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={draft.volatility}
+              onChange={(e) => Number(e.target.value) >= 0 && update({ volatility: Number(e.target.value) })}
+              className="w-32 block px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1 normal-case font-normal"
+            />
+          </label>
+
+          <div>
+            <h4 className="text-sm font-semibold text-black mb-1">Segments ({filters.segmentType})</h4>
+            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+              <table className="w-full text-xs text-black">
+                <thead className="sticky top-0">
+                  <tr className="bg-gray-50 text-left">
+                    <th className="px-2 py-1">Segment</th>
+                    <th className="px-2 py-1 text-right">Historical σ (pp)</th>
+                    <th className="px-2 py-1 text-right">Override σ (pp)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {segments.map(({ segment, historical }) => (
+                    <tr key={segment} className="border-b border-gray-100">
+                      <td className="px-2 py-1" title={segment}>
+                        {segment.length > 50 ? '...' + segment.substring(segment.length - 50) : segment}
+                      </td>
+                      <td className="px-2 py-1 text-right">{historical === null ? '—' : formatPoints(historical)}</td>
+                      <td className="px-2 py-1 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={draft.segmentVolatility[segment] ?? ''}
+                          placeholder={formatPoints(draft.volatility)}
+                          disabled={draft.volatilitySource !== 'user'}
+                          onChange={(e) => setSegmentVolatility(segment, e.target.value)}
+                          className="w-20 px-2 py-0.5 text-xs text-black border border-gray-300 rounded disabled:opacity-50"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 border-t">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
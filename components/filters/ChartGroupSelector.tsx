@@ -1,7 +1,8 @@
 'use client'
 
-import { useDashboardStore } from '@/lib/store'
-import { CHART_GROUPS, type ChartGroupId } from '@/lib/chart-groups'
+import { useDashboardStore, selectActiveDataset } from '@/lib/store'
+import { getAvailableChartGroups, type ChartGroupId } from '@/lib/chart-groups'
+import { getUnavailableChartGroups } from '@/lib/dataset-registry'
 import { BarChart3, Target, Trophy, Users } from 'lucide-react'
 
 // Icon mapping for each chart group
@@ -14,13 +15,15 @@ const iconMap = {
 
 export function ChartGroupSelector() {
   const { selectedChartGroup, setSelectedChartGroup } = useDashboardStore()
+  const activeDataset = useDashboardStore(selectActiveDataset)
+  const chartGroups = getAvailableChartGroups(getUnavailableChartGroups(activeDataset))
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
       <h3 className="text-xs font-semibold text-black mb-2">Chart View</h3>
       
       <div className="space-y-1">
-        {CHART_GROUPS.map((group) => {
+        {chartGroups.map((group) => {
           const Icon = iconMap[group.id]
           const isSelected = selectedChartGroup === group.id
           
@@ -53,7 +56,7 @@ export function ChartGroupSelector() {
 
       <div className="mt-2 pt-2 border-t border-gray-100">
         <p className="text-[10px] text-black leading-tight">
-          {CHART_GROUPS.find(g => g.id === selectedChartGroup)?.description || 'Select a view to see related charts'}
+          {chartGroups.find(g => g.id === selectedChartGroup)?.description || 'Select a view to see related charts'}
         </p>
       </div>
     </div>
@@ -228,6 +228,17 @@ export function CompactFilterPanel() {
           >
             Volume
           </button>
+          <button
+            onClick={() => updateFilters({ dataType: 'price' })}
+            className={`flex-1 px-2 py-1 text-xs rounded ${
+              filters.dataType === 'price'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-black hover:bg-gray-200'
+            }`}
+            title="Average price: value ÷ volume"
+          >
+            Price
+          </button>
         </div>
       </div>
 
@@ -1,12 +1,14 @@
 'use client'
 
 import { useDashboardStore } from '@/lib/store'
+import { SHARE_REFERENCE_LABELS } from '@/lib/market-share'
+import type { ShareReference } from '@/lib/types'
 import { YearRangeSlider } from './YearRangeSlider'
 import { CascadingSegmentFilter } from './CascadingSegmentFilter'
 import { EnhancedGeographyFilter } from './EnhancedGeographyFilter'
 
 export function EnhancedFilterPanel() {
-  const { filters, updateFilters } = useDashboardStore()
+  const { filters, updateFilters, unmatchedGeographies } = useDashboardStore()
 
   return (
     <div className="bg-white rounded-lg shadow-sm p-2.5 space-y-4">
@@ -36,6 +38,17 @@ export function EnhancedFilterPanel() {
           >
             Volume
           </button>
+          <button
+            onClick={() => updateFilters({ dataType: 'price' })}
+            className={`flex-1 px-3 py-1.5 text-sm rounded ${
+              filters.dataType === 'price'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-black hover:bg-gray-200'
+            }`}
+            title="Average price: value ÷ volume"
+          >
+            Price
+          </button>
         </div>
       </div>
 
@@ -55,11 +68,30 @@ export function EnhancedFilterPanel() {
         </select>
       </div>
 
+      {/* Market Share Reference */}
+      <div>
+        <label className="text-xs font-medium text-black uppercase">
+          Market Share Of
+        </label>
+        <select
+          value={filters.shareReference}
+          onChange={(e) => updateFilters({ shareReference: e.target.value as ShareReference })}
+          className="w-full px-2 py-1.5 text-sm text-black border border-gray-300 rounded mt-1"
+        >
+          {(Object.keys(SHARE_REFERENCE_LABELS) as ShareReference[]).map(reference => (
+            <option key={reference} value={reference}>{SHARE_REFERENCE_LABELS[reference]}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Geography Selection - Enhanced Hierarchical View */}
       <div>
         <EnhancedGeographyFilter
           selectedGeographies={filters.geographies}
           onGeographiesChange={(geographies) => updateFilters({ geographies })}
+          includeDescendants={filters.includeDescendants}
+          onIncludeDescendantsChange={(includeDescendants) => updateFilters({ includeDescendants })}
+          unmatchedGeographies={unmatchedGeographies}
         />
       </div>
 
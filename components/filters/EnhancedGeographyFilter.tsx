@@ -1,62 +1,28 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { ChevronRight, ChevronDown, X, Check, MapPin } from 'lucide-react'
-
-interface GeographyDimension {
-  global: string[]
-  regions: string[]
-  countries: Record<string, string[]>
-  all_geographies: string[]
-}
-
-interface DimensionsData {
-  geographies: GeographyDimension
-}
+import { useState } from 'react'
+import { ChevronRight, ChevronDown, X, Check, MapPin, AlertTriangle } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
 
 interface EnhancedGeographyFilterProps {
   selectedGeographies: string[]
   onGeographiesChange: (geographies: string[]) => void
+  includeDescendants?: boolean
+  onIncludeDescendantsChange?: (includeDescendants: boolean) => void // Shows the "Include descendants" option when set
+  unmatchedGeographies?: string[] // Selected names with no geography in the dataset
 }
 
 export function EnhancedGeographyFilter({ 
   selectedGeographies, 
-  onGeographiesChange 
+  onGeographiesChange,
+  includeDescendants = false,
+  onIncludeDescendantsChange,
+  unmatchedGeographies = []
 }: EnhancedGeographyFilterProps) {
-  const [dimensionsData, setDimensionsData] = useState<DimensionsData | null>(null)
+  const { data } = useDashboardStore()
   const [expandedRegions, setExpandedRegions] = useState<Set<string>>(new Set())
   const [expandedGlobal, setExpandedGlobal] = useState<boolean>(false)
-
-  // Load dimensions data
-  useEffect(() => {
-    async function loadData() {
-      try {
-        const response = await fetch('/jsons/india-spices-dimensions.json', {
-          cache: 'no-cache',
-          headers: {
-            'Accept': 'application/json',
-          }
-        })
-        
-        if (!response.ok) {
-          console.error(`Failed to fetch: ${response.status} ${response.statusText}`)
-          return
-        }
-        
-        const text = await response.text()
-        if (text.startsWith('<!DOCTYPE') || text.startsWith('<html')) {
-          console.error('Received HTML instead of JSON. File may not exist or path is incorrect.')
-          return
-        }
-        
-        const data = JSON.parse(text)
-        setDimensionsData({ geographies: data.dimensions.geographies })
-      } catch (error) {
-        console.error('Failed to load geography data:', error)
-      }
-    }
-    loadData()
-  }, [])
+  const dimensionsData = data ? { geographies: data.dimensions.geographies } : null
 
   // Toggle region expansion
   const toggleRegion = (region: string) => {
@@ -192,8 +158,34 @@ export function EnhancedGeographyFilter({
         >
           Clear All
         </button>
+        {onIncludeDescendantsChange && (
+          <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-700" title="Selecting a region or the global geography also selects everything below it">
+            <input
+              type="checkbox"
+              checked={includeDescendants}
+              onChange={(e) => onIncludeDescendantsChange(e.target.checked)}
+            />
+            Include descendants
+          </label>
+        )}
       </div>
 
+      {/* Selected names with no geography in this dataset */}
+      {unmatchedGeographies.length > 0 && (
+        <div className="px-3 py-2 border-b border-gray-200 bg-amber-50 text-xs text-amber-800 flex items-start gap-2">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          <div className="flex-1">
+            Not found in this dataset: {unmatchedGeographies.join(', ')}
+          </div>
+          <button
+            onClick={() => onGeographiesChange(selectedGeographies.filter(g => !unmatchedGeographies.includes(g)))}
+            className="text-amber-900 underline hover:text-amber-700"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
       {/* Geography Tree */}
       <div className="p-3 max-h-[500px] overflow-y-auto">
         {/* Global Level */}
@@ -226,7 +218,9 @@ export function EnhancedGeographyFilter({
             </div>
             {expandedGlobal && (
               <div className="p-2 bg-white text-xs text-gray-600">
-                Global geography level - includes all regions and countries
+                {includeDescendants
+                  ? 'Global geography level - includes all regions and countries'
+                  : 'Global geography level - its own total only'}
               </div>
             )}
           </div>
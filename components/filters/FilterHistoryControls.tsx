@@ -0,0 +1,135 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Undo2, Redo2, History } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+import { describeViewChange, type HistoryEntry } from '@/lib/filter-history'
+
+// Undo, redo and the timeline list ignore these while typing, so text fields keep their own undo
+function isEditingText(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// "just now", "5 min ago", or the time of day
+function formatTime(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+export function FilterHistoryControls() {
+  const { history, undo, redo, goToHistory } = useDashboardStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const popoverRef = useRef<HTMLDivElement>(null)
+
+  const canUndo = history.index > 0
+  const canRedo = history.index < history.entries.length - 1
+
+  // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditingText(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.metaKey)) {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Close the timeline when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  // Each entry is described by its label, and what changed from the entry before
+  const describeEntry = (entry: HistoryEntry, index: number) => {
+    const previous = history.entries[index - 1]
+    const changes = previous ? describeViewChange(previous, entry) : []
+    return {
+      title: entry.label ?? (previous ? changes[0] ?? 'No change' : 'Starting view'),
+      details: entry.label ? changes : changes.slice(1)
+    }
+  }
+
+  const buttonClass = 'p-1.5 rounded text-black hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent'
+
+  return (
+    <div className="relative flex items-center gap-0.5" ref={popoverRef}>
+      <button onClick={undo} disabled={!canUndo} className={buttonClass} title="Undo filter change (Ctrl+Z)">
+        <Undo2 className="h-4 w-4" />
+      </button>
+      <button onClick={redo} disabled={!canRedo} className={buttonClass} title="Redo filter change (Ctrl+Shift+Z)">
+        <Redo2 className="h-4 w-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={history.entries.length < 2}
+        className={`${buttonClass} ${isOpen ? 'bg-blue-100 text-blue-600' : ''}`}
+        title="Filter history"
+      >
+        <History className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="px-3 py-2 border-b border-gray-200 text-xs font-semibold text-black uppercase tracking-wider">
+            Filter History
+          </div>
+          <ul className="py-1">
+            {history.entries
+              .map((entry, index) => ({ entry, index }))
+              .reverse()
+              .map(({ entry, index }) => {
+                const { title, details } = describeEntry(entry, index)
+                const isCurrent = index === history.index
+                return (
+                  <li key={`${index}-${entry.timestamp}`}>
+                    <button
+                      onClick={() => {
+                        goToHistory(index)
+                        setIsOpen(false)
+                      }}
+                      className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${isCurrent ? 'bg-blue-50' : ''} ${
+                        index > history.index ? 'opacity-60' : ''
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <span className={`text-xs font-medium ${isCurrent ? 'text-blue-700' : 'text-black'}`}>{title}</span>
+                        <span className="text-[10px] text-gray-500 whitespace-nowrap">
+                          {isCurrent ? 'Current' : formatTime(entry.timestamp)}
+                        </span>
+                      </div>
+                      {details.map((detail, i) => (
+                        <div key={i} className="text-[11px] text-gray-600 truncate" title={detail}>{detail}</div>
+                      ))}
+                    </button>
+                  </li>
+                )
+              })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,11 +6,12 @@ import { BusinessTypeFilter } from './BusinessTypeFilter'
 import { SegmentMultiSelect } from './SegmentMultiSelect'
 import { YearRangeSlider } from './YearRangeSlider'
 import { RotateCcw } from 'lucide-react'
+import type { DataType } from '@/lib/types'
 
 export function FilterPanel() {
   const { filters, updateFilters, resetFilters } = useDashboardStore()
 
-  const handleDataTypeChange = (dataType: 'value' | 'volume') => {
+  const handleDataTypeChange = (dataType: DataType) => {
     updateFilters({ dataType })
   }
 
@@ -38,7 +39,7 @@ export function FilterPanel() {
         <label className="block text-sm font-medium text-black mb-2">
           Data Type
         </label>
-        <div className="grid grid-cols-2 gap-2">
+        <div className="grid grid-cols-3 gap-2">
           <button
             onClick={() => handleDataTypeChange('value')}
             className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
@@ -59,6 +60,17 @@ export function FilterPanel() {
           >
             Volume
           </button>
+          <button
+            onClick={() => handleDataTypeChange('price')}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              filters.dataType === 'price'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-black hover:bg-gray-200'
+            }`}
+            title="Average price: value ÷ volume"
+          >
+            Price
+          </button>
         </div>
       </div>
 
@@ -1,7 +1,7 @@
 'use client'
 
-import { useState, useMemo } from 'react'
-import { Zap, TrendingUp, Globe, Target, BarChart3, Save, Trash2, ChevronDown, ChevronUp } from 'lucide-react'
+import { useState, useMemo, useRef } from 'react'
+import { Zap, TrendingUp, Globe, Target, BarChart3, Save, Trash2, ChevronDown, ChevronUp, Download, Upload, AlertTriangle, X } from 'lucide-react'
 import { useDashboardStore } from '@/lib/store'
 import { FilterState } from '@/lib/types'
 import { 
@@ -9,6 +9,19 @@ import {
   createGrowthLeadersFilters, 
   createEmergingMarketsFilters 
 } from '@/lib/preset-utils'
+import {
+  createPresetId,
+  describePreset,
+  findMissingPresetItems,
+  hasMissingPresetItems,
+  loadSavedPresets,
+  mergePresets,
+  parsePresetFile,
+  savePresets,
+  serializePresets,
+  type CustomPreset,
+  type MissingPresetItems
+} from '@/lib/filter-presets'
 
 interface FilterPreset {
   id: string
@@ -17,14 +30,26 @@ interface FilterPreset {
   icon: React.ReactNode
   filters: Partial<FilterState>
   isCustom?: boolean
+  missing?: MissingPresetItems // Custom presets: selections not in the loaded dataset
+}
+
+// Tooltip listing what a preset selects that the dataset doesn't have
+function describeMissing(missing: MissingPresetItems): string {
+  const lines: string[] = []
+  if (missing.segmentType) lines.push(`Segment type not in this dataset: ${missing.segmentType}`)
+  if (missing.geographies.length > 0) lines.push(`Geographies not in this dataset: ${missing.geographies.join(', ')}`)
+  if (missing.segments.length > 0) lines.push(`Segments not in this dataset: ${missing.segments.join(', ')}`)
+  return lines.join('\n')
 }
 
 // Note: defaultPresets is now computed dynamically in the component
 // This array is just for the structure, actual filters are computed based on data
 
 export function FilterPresets() {
-  const { filters, updateFilters, data, resetFilters } = useDashboardStore()
-  const [customPresets, setCustomPresets] = useState<FilterPreset[]>([])
+  const { filters, applyView, data } = useDashboardStore()
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>(loadSavedPresets)
+  const [importMessages, setImportMessages] = useState<string[]>([])
+  const importInputRef = useRef<HTMLInputElement>(null)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [presetName, setPresetName] = useState('')
   const [isExpanded, setIsExpanded] = useState(true)
@@ -76,7 +101,7 @@ export function FilterPresets() {
         ? Object.keys(currentData.dimensions.segments)[0] 
         : 'By End-Use*Product Type'
       
-      // First, completely clear all filters (empty arrays)
+      // Start from cleared filters (empty arrays) so nothing from the current selection carries over
       const clearedFilters: FilterState = {
         geographies: [],
         segments: [],
@@ -85,36 +110,36 @@ export function FilterPresets() {
         dataType: 'value',
         viewMode: 'geography-mode',
         businessType: 'B2B',
+        includeDescendants: false,
+        growthPeriod: 'selected',
+        shareReference: 'geography',
       }
-      
-      // Clear filters first
-      console.log('🧹 Clearing all filters first...')
-      useDashboardStore.setState({ filters: clearedFilters })
-      
-      // Then apply preset filters after a brief delay to ensure clear happens first
-      setTimeout(() => {
-        const newFilters: FilterState = {
-          ...clearedFilters,
-          ...preset.filters,
-          // Ensure arrays are properly set (not merged)
-          geographies: preset.filters.geographies || [],
-          segments: preset.filters.segments || [],
-        } as FilterState
-        
-        console.log('🎯 Final filters being applied (after clear):', newFilters)
-        useDashboardStore.setState({ filters: newFilters })
-        
-        // Ensure chart group is set to market-analysis so grouped bar chart is visible
-        const { setSelectedChartGroup } = useDashboardStore.getState()
-        setSelectedChartGroup('market-analysis')
-      }, 10)
-      
+
+      const newFilters: FilterState = {
+        ...clearedFilters,
+        ...preset.filters,
+        // Ensure arrays are properly set (not merged)
+        geographies: preset.filters.geographies || [],
+        segments: preset.filters.segments || [],
+      } as FilterState
+
+      console.log('🎯 Final filters being applied (after clear):', newFilters)
+      // One undo step; the chart group is set to market-analysis so the grouped bar chart is visible
+      applyView({ filters: newFilters, chartGroup: 'market-analysis' }, `Preset: ${preset.name}`)
       return
     }
 
     // For other presets, merge with current filters
     const newFilters: Partial<FilterState> = { ...preset.filters }
 
+    // Leave out what the dataset no longer has; the preset is flagged in the list
+    if (preset.missing && hasMissingPresetItems(preset.missing)) {
+      const { segmentType, geographies, segments } = preset.missing
+      if (segmentType) delete newFilters.segmentType
+      if (newFilters.geographies) newFilters.geographies = newFilters.geographies.filter(g => !geographies.includes(g))
+      if (newFilters.segments) newFilters.segments = segmentType ? undefined : newFilters.segments.filter(s => !segments.includes(s))
+    }
+
     // If preset doesn't specify certain filters, keep current ones
     if (!newFilters.geographies && filters.geographies.length > 0) {
       newFilters.geographies = filters.geographies
@@ -127,62 +152,75 @@ export function FilterPresets() {
     }
 
     console.log('🎯 Final filters being applied:', newFilters)
-    updateFilters(newFilters as FilterState)
-    
-    // Ensure chart group is set to market-analysis so grouped bar chart is visible
-    const { setSelectedChartGroup } = useDashboardStore.getState()
-    setSelectedChartGroup('market-analysis')
+    // One undo step; the chart group is set to market-analysis so the grouped bar chart is visible
+    applyView({ filters: newFilters, chartGroup: 'market-analysis' }, `Preset: ${preset.name}`)
+  }
+
+  const updateCustomPresets = (presets: CustomPreset[]) => {
+    setCustomPresets(presets)
+    savePresets(presets)
   }
 
   const saveCurrentAsPreset = () => {
     if (!presetName.trim()) return
 
-    const newPreset: FilterPreset = {
-      id: `custom-${Date.now()}`,
-      name: presetName,
-      description: `Custom preset: ${filters.geographies.length} geographies, ${filters.segments.length} segments`,
-      icon: <Save className="h-4 w-4" />,
-      filters: {
-        viewMode: filters.viewMode,
-        geographies: [...filters.geographies],
-        segments: [...filters.segments],
-        segmentType: filters.segmentType,
-        yearRange: [...filters.yearRange] as [number, number],
-        dataType: filters.dataType,
-      },
-      isCustom: true,
+    const presetFilters: Partial<FilterState> = {
+      viewMode: filters.viewMode,
+      geographies: [...filters.geographies],
+      segments: [...filters.segments],
+      segmentType: filters.segmentType,
+      yearRange: [...filters.yearRange] as [number, number],
+      dataType: filters.dataType,
+    }
+    const newPreset: CustomPreset = {
+      id: createPresetId(),
+      name: presetName.trim(),
+      description: describePreset(presetFilters),
+      filters: presetFilters,
+      createdAt: new Date().toISOString(),
     }
 
-    setCustomPresets([...customPresets, newPreset])
+    updateCustomPresets([...customPresets, newPreset])
     setPresetName('')
     setShowSaveDialog(false)
-    
-    // Save to localStorage
-    const savedPresets = [...customPresets, newPreset]
-    localStorage.setItem('marketAnalysisPresets', JSON.stringify(savedPresets))
   }
 
   const deleteCustomPreset = (id: string) => {
-    const updated = customPresets.filter(p => p.id !== id)
-    setCustomPresets(updated)
-    localStorage.setItem('marketAnalysisPresets', JSON.stringify(updated))
+    updateCustomPresets(customPresets.filter(p => p.id !== id))
   }
 
-  // Load custom presets from localStorage on mount
-  useState(() => {
-    const saved = localStorage.getItem('marketAnalysisPresets')
-    if (saved) {
-      try {
-        setCustomPresets(JSON.parse(saved))
-      } catch (e) {
-        console.error('Error loading custom presets:', e)
-      }
+  const exportPresets = () => {
+    const blob = new Blob([serializePresets(customPresets)], { type: 'application/json' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `filter-presets-${new Date().toISOString().split('T')[0]}.json`
+    a.click()
+  }
+
+  const importPresets = async (file: File) => {
+    try {
+      const { presets, errors } = parsePresetFile(JSON.parse(await file.text()))
+      if (presets.length > 0) updateCustomPresets(mergePresets(customPresets, presets))
+      console.log('📥 Imported presets:', { file: file.name, presets: presets.length, errors: errors.length })
+      setImportMessages([`Imported ${presets.length} preset${presets.length !== 1 ? 's' : ''} from ${file.name}`, ...errors])
+    } catch (error) {
+      console.error('Error importing presets:', error)
+      setImportMessages([`${file.name} is not a valid JSON preset file`])
     }
-  })
+  }
+
+  // Custom presets are checked against the loaded dataset
+  const checkedPresets = useMemo<FilterPreset[]>(() => customPresets.map(preset => ({
+    ...preset,
+    icon: <Save className="h-4 w-4" />,
+    isCustom: true,
+    missing: data ? findMissingPresetItems(preset.filters, data) : undefined,
+  })), [customPresets, data])
 
   if (!data) return null
 
-  const allPresets = [...defaultPresets, ...customPresets]
+  const allPresets = [...defaultPresets, ...checkedPresets]
 
   return (
     <div className="bg-white rounded-lg shadow-sm">
@@ -195,6 +233,48 @@ export function FilterPresets() {
           Quick Filters
         </h3>
         <div className="flex items-center gap-2">
+          {isExpanded && customPresets.length > 0 && (
+            <div
+              onClick={(e) => {
+                e.stopPropagation()
+                exportPresets()
+              }}
+              className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+              title="Export Custom Presets"
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  exportPresets()
+                }
+              }}
+            >
+              <Download className="h-3 w-3" />
+            </div>
+          )}
+          {isExpanded && (
+            <div
+              onClick={(e) => {
+                e.stopPropagation()
+                importInputRef.current?.click()
+              }}
+              className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+              title="Import Presets"
+              role="button"
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  importInputRef.current?.click()
+                }
+              }}
+            >
+              <Upload className="h-3 w-3" />
+            </div>
+          )}
           {isExpanded && (
             <div
               onClick={(e) => {
@@ -223,6 +303,17 @@ export function FilterPresets() {
           )}
         </div>
       </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) importPresets(file)
+          e.target.value = ''
+        }}
+      />
 
       {isExpanded && (
         <div className="grid grid-cols-2 gap-1 p-2 pt-0">
@@ -231,7 +322,9 @@ export function FilterPresets() {
             key={preset.id}
             className="group relative flex items-center gap-2 p-2 rounded text-left hover:bg-blue-50 transition-colors"
             onClick={() => applyPreset(preset)}
-            title={preset.description}
+            title={preset.missing && hasMissingPresetItems(preset.missing)
+              ? `${preset.description}\n${describeMissing(preset.missing)}`
+              : preset.description}
           >
             <span className="text-blue-500 text-sm">
               {preset.icon}
@@ -239,6 +332,9 @@ export function FilterPresets() {
             <span className="text-xs font-medium text-black truncate flex-1">
               {preset.name}
             </span>
+            {preset.missing && hasMissingPresetItems(preset.missing) && (
+              <AlertTriangle className="h-3 w-3 text-amber-500 flex-shrink-0" aria-label="Some selections are not in this dataset" />
+            )}
             {preset.isCustom && (
               <div
                 onClick={(e) => {
@@ -265,6 +361,19 @@ export function FilterPresets() {
         </div>
       )}
 
+      {isExpanded && importMessages.length > 0 && (
+        <div className="mx-2 mb-2 flex items-start justify-between gap-2 px-2 py-1.5 bg-gray-50 border border-gray-200 rounded text-xs text-black">
+          <ul className="space-y-0.5">
+            {importMessages.map((message, index) => (
+              <li key={index} className={index > 0 ? 'text-amber-700' : ''}>{message}</li>
+            ))}
+          </ul>
+          <button onClick={() => setImportMessages([])} className="text-black hover:text-black" title="Dismiss">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
       {/* Save Dialog */}
       {showSaveDialog && (
         <div className="fixed inset-0 flex items-center justify-center z-50" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
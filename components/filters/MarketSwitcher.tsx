@@ -0,0 +1,28 @@
+'use client'
+
+import { Globe } from 'lucide-react'
+import { useDashboardStore } from '@/lib/store'
+
+export function MarketSwitcher() {
+  const { datasets, activeDatasetId, setActiveDataset, isLoading } = useDashboardStore()
+
+  if (datasets.length === 0) return null
+
+  return (
+    <label className="flex items-center gap-1 px-2 py-1.5 text-sm text-black border border-gray-300 rounded hover:bg-gray-50" title="Switch market">
+      <Globe className="h-4 w-4 flex-shrink-0" />
+      <select
+        value={activeDatasetId ?? ''}
+        onChange={(e) => setActiveDataset(e.target.value)}
+        disabled={isLoading || datasets.length < 2}
+        className="bg-transparent text-sm text-black focus:outline-none disabled:cursor-default"
+      >
+        {datasets.map(dataset => (
+          <option key={dataset.id} value={dataset.id}>
+            {dataset.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -1,6 +1,14 @@
 'use client'
 
 import { useDashboardStore } from '@/lib/store'
+import { describeGrowthPeriod, getGrowthPeriod } from '@/lib/data-processor'
+import type { GrowthPeriodMode } from '@/lib/types'
+
+const GROWTH_PERIOD_LABELS: Record<GrowthPeriodMode, string> = {
+  selected: 'Selected range',
+  historical: 'Historical',
+  forecast: 'Forecast'
+}
 
 export function YearRangeSlider() {
   const { data, filters, updateFilters } = useDashboardStore()
@@ -117,6 +125,27 @@ export function YearRangeSlider() {
       <div className="text-xs text-black text-center">
         Base Year: <span className="font-medium text-black">{base_year}</span>
       </div>
+
+      {/* Growth Period */}
+      <div>
+        <label className="block text-xs font-medium text-black mb-1">
+          Growth &amp; CAGR Period
+        </label>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {(Object.keys(GROWTH_PERIOD_LABELS) as GrowthPeriodMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => updateFilters({ growthPeriod: mode })}
+              className={`flex-1 px-2 py-1 text-xs ${filters.growthPeriod === mode ? 'bg-blue-600 text-white' : 'bg-white text-black hover:bg-gray-50'}`}
+            >
+              {GROWTH_PERIOD_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1 text-center">
+          {describeGrowthPeriod(getGrowthPeriod(filters, data.metadata), filters)}
+        </p>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,19 @@
+'use client'
+
+import { useDashboardStore } from '@/lib/store'
+import { describeConversion } from '@/lib/currency'
+
+interface ConversionNoteProps {
+  className?: string
+}
+
+/**
+ * Chart subtitle naming the active currency conversion; renders nothing for volume or unconverted values
+ */
+export function ConversionNote({ className = '' }: ConversionNoteProps) {
+  const { data, filters } = useDashboardStore()
+  const note = data && filters.dataType === 'value' ? describeConversion(data.metadata) : null
+  if (!note) return null
+
+  return <p className={`text-xs text-gray-500 ${className}`}>{note}</p>
+}
@@ -54,3 +54,14 @@ export function LoadingOverlay({ message = "Loading..." }: { message?: string })
     </div>
   )
 }
+
+export function ChartUpdatingBadge({ isLoading }: { isLoading: boolean }) {
+  if (!isLoading) return null
+
+  return (
+    <div className="absolute top-2 right-2 z-10 flex items-center gap-2 px-2 py-1 bg-white/90 border border-gray-200 rounded shadow-sm">
+      <div className="w-3 h-3 border-2 border-blue-500 rounded-full border-t-transparent animate-spin"></div>
+      <span className="text-xs text-gray-700">Updating...</span>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, XCircle } from 'lucide-react'
+import type { ValidationIssue } from '@/lib/data-validator'
+
+interface ValidationReportProps {
+  title: string
+  issues: ValidationIssue[]
+  maxVisible?: number
+}
+
+/**
+ * Lists validation issues with the JSON path each one was found at
+ */
+export function ValidationReport({ title, issues, maxVisible = 200 }: ValidationReportProps) {
+  const [showWarnings, setShowWarnings] = useState(true)
+
+  const errors = issues.filter(issue => issue.severity === 'error')
+  const warnings = issues.filter(issue => issue.severity === 'warning')
+  const visibleIssues = (showWarnings ? [...errors, ...warnings] : errors).slice(0, maxVisible)
+  const hiddenCount = (showWarnings ? issues.length : errors.length) - visibleIssues.length
+
+  return (
+    <div className="w-full text-left bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+        <div>
+          <h3 className="text-sm font-semibold text-black">{title}</h3>
+          <p className="text-xs text-gray-600 mt-0.5">
+            {errors.length} error{errors.length === 1 ? '' : 's'}, {warnings.length} warning{warnings.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        {warnings.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showWarnings}
+              onChange={(e) => setShowWarnings(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show warnings
+          </label>
+        )}
+      </div>
+
+      <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+        {visibleIssues.map((issue, index) => (
+          <li key={`${issue.path}-${index}`} className="flex items-start gap-2 px-4 py-2">
+            {issue.severity === 'error' ? (
+              <XCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+            )}
+            <div className="min-w-0">
+              <code className="block text-xs text-gray-800 font-mono break-all">{issue.path}</code>
+              <span className="text-xs text-gray-600">{issue.message}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hiddenCount > 0 && (
+        <p className="px-4 py-2 text-xs text-gray-500 border-t border-gray-200">
+          …and {hiddenCount} more issue{hiddenCount === 1 ? '' : 's'} (see the browser console for the full list)
+        </p>
+      )}
+    </div>
+  )
+}
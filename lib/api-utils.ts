@@ -0,0 +1,155 @@
+/**
+ * API Utilities
+ * Shared request parsing and response helpers for the /api route handlers
+ */
+
+import { NextResponse } from 'next/server'
+import type { ComparisonData, FilterState } from './types'
+import { getDefaultFilters, parseFilterBody, parseFilterParams } from './filter-params'
+import { DataValidationError } from './data-validator'
+import { findDataset } from './dataset-registry'
+import { loadServerDatasets, loadServerData, getDataset } from './server-data'
+import { getRecordIndex, getGeographyHierarchy } from './record-index'
+import { resolveGeographies } from './geography-hierarchy'
+
+export const DEFAULT_PAGE_SIZE = 100
+export const MAX_PAGE_SIZE = 1000
+
+export interface Pagination {
+  page: number
+  pageSize: number
+}
+
+export interface PaginatedResponse<T> {
+  items: T[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+export interface ApiRequest {
+  filters: FilterState
+  pagination: Pagination
+  params: URLSearchParams
+}
+
+/**
+ * Error carrying the HTTP status to respond with
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly details?: unknown
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.details = details
+  }
+}
+
+/**
+ * Load the market selected with ?dataset=<id> (the first registered market when omitted)
+ */
+export async function loadRequestData(request: Request): Promise<ComparisonData> {
+  const datasetId = new URL(request.url).searchParams.get('dataset')
+  const datasets = await loadServerDatasets()
+  const dataset = datasetId ? datasets.find(d => d.id === datasetId) : findDataset(datasets, null)
+  if (!dataset) {
+    throw new ApiError(404, `Unknown dataset '${datasetId}'`, { datasets: datasets.map(d => d.id) })
+  }
+  return loadServerData(dataset)
+}
+
+function parsePositiveInt(raw: unknown, name: string, fallback: number, errors: string[]): number {
+  if (raw === null || raw === undefined || raw === '') return fallback
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < 1) {
+    errors.push(`${name} must be a positive whole number, got '${String(raw)}'`)
+    return fallback
+  }
+  return value
+}
+
+/**
+ * Read filters and pagination from a request
+ * GET uses query parameters; POST takes { filters, page, pageSize } as JSON
+ * Pagination may also be passed as ?page=&pageSize= on POST
+ */
+export async function readApiRequest(request: Request, data: ComparisonData): Promise<ApiRequest> {
+  const params = new URL(request.url).searchParams
+  const defaults = getDefaultFilters(data)
+  const errors: string[] = []
+
+  let filters: FilterState
+  let rawPage: unknown = params.get('page')
+  let rawPageSize: unknown = params.get('pageSize')
+
+  if (request.method === 'POST') {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError(400, 'Request body must be valid JSON')
+    }
+    const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>
+    const result = parseFilterBody(input.filters ?? {}, defaults)
+    filters = result.filters
+    errors.push(...result.errors)
+    rawPage = input.page ?? rawPage
+    rawPageSize = input.pageSize ?? rawPageSize
+  } else {
+    const result = parseFilterParams(params, defaults)
+    filters = result.filters
+    errors.push(...result.errors)
+  }
+
+  const page = parsePositiveInt(rawPage, 'page', 1, errors)
+  const pageSize = Math.min(parsePositiveInt(rawPageSize, 'pageSize', DEFAULT_PAGE_SIZE, errors), MAX_PAGE_SIZE)
+
+  if (!data.dimensions.segments[filters.segmentType]) {
+    errors.push(`Unknown segmentType '${filters.segmentType}'`)
+  }
+
+  // Geography names resolve through the hierarchy and its aliases to the names used in the records
+  const hierarchy = getGeographyHierarchy(getRecordIndex(getDataset(data, filters)), data.dimensions.geographies)
+  const { resolved, unmatched } = resolveGeographies(hierarchy, filters.geographies)
+  unmatched.forEach(name => errors.push(`Unknown geography '${name}'`))
+  filters = { ...filters, geographies: Array.from(new Set(filters.geographies.map(name => resolved.get(name) ?? name))) }
+
+  if (errors.length > 0) {
+    throw new ApiError(400, 'Invalid request', errors)
+  }
+
+  return { filters, pagination: { page, pageSize }, params }
+}
+
+/**
+ * Slice a list into one page
+ */
+export function paginate<T>(items: T[], { page, pageSize }: Pagination): PaginatedResponse<T> {
+  const start = (page - 1) * pageSize
+  return {
+    items: items.slice(start, start + pageSize),
+    page,
+    pageSize,
+    total: items.length,
+    totalPages: Math.ceil(items.length / pageSize)
+  }
+}
+
+/**
+ * Convert any thrown error into a JSON error response
+ */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+  }
+  if (error instanceof DataValidationError) {
+    return NextResponse.json({ error: error.message, details: error.issues }, { status: 500 })
+  }
+  console.error('❌ API error:', error)
+  const message = error instanceof Error ? error.message : 'An unknown error occurred'
+  return NextResponse.json({ error: message }, { status: 500 })
+}
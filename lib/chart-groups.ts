@@ -18,7 +18,7 @@ export const CHART_GROUPS: ChartGroup[] = [
     id: 'market-analysis',
     label: 'Market Analysis',
     description: 'Core market metrics and trends',
-    charts: ['grouped-bar', 'multi-line', 'heatmap', 'comparison-table', 'waterfall'],
+    charts: ['grouped-bar', 'multi-line', 'heatmap', 'comparison-table', 'waterfall', 'tornado'],
     icon: '📊'
   },
   {
@@ -46,6 +46,21 @@ export const CHART_GROUPS: ChartGroup[] = [
 
 export const DEFAULT_CHART_GROUP: ChartGroupId = 'market-analysis'
 
+// Dashboard tabs, and the tab that shows each chart
+export type DashboardTab = 'bar' | 'line' | 'heatmap' | 'table' | 'waterfall' | 'tornado' | 'bubble' | 'competitive-intelligence' | 'distributor-intelligence'
+
+export const CHART_TABS: Record<string, DashboardTab> = {
+  'grouped-bar': 'bar',
+  'multi-line': 'line',
+  'heatmap': 'heatmap',
+  'comparison-table': 'table',
+  'waterfall': 'waterfall',
+  'tornado': 'tornado',
+  'bubble': 'bubble',
+  'competitive-intelligence': 'competitive-intelligence',
+  'distributor-intelligence': 'distributor-intelligence'
+}
+
 /**
  * Get chart group by ID
  */
@@ -68,3 +83,10 @@ export function getChartsForGroup(groupId: ChartGroupId): string[] {
   const group = getChartGroup(groupId)
   return group ? group.charts : []
 }
+
+/**
+ * Get chart groups, leaving out the excluded ones
+ */
+export function getAvailableChartGroups(excluded: ChartGroupId[] = []): ChartGroup[] {
+  return CHART_GROUPS.filter(group => !excluded.includes(group.id))
+}
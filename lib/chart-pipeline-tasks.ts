@@ -0,0 +1,111 @@
+/**
+ * Chart Pipeline Tasks
+ * Filtering and chart preparation steps run by the chart pipeline worker
+ * Monte Carlo tasks take their settings from `simulation` in the filters and return null while it is disabled
+ * Also used directly on the main thread when Web Workers are unavailable
+ */
+
+import type { ChartDataPoint, ComparisonData, DataRecord, FilterState } from './types'
+import {
+  filterData,
+  getGrowthPeriod,
+  getMarketSizeRecords,
+  prepareGroupedBarData,
+  prepareLineChartData,
+  prepareWaterfallData
+} from './data-processor'
+import { generateInsights, findCrossovers, type Insight } from './insights-generator'
+import { getUnitLabel } from './number-format'
+import { preparePricePoints, toPriceContributions } from './price'
+import { runSimulation, type SimulationResult, type SimulationSettings } from './monte-carlo'
+
+export type PipelineFilters = FilterState & { advancedSegments?: any[]; simulation?: SimulationSettings }
+
+// Series name of the market size in 'market-simulation' results
+export const MARKET_SIZE_SERIES = 'Market size'
+
+// Prepare series points, as volume-weighted averages for prices
+function preparePoints(
+  records: DataRecord[],
+  filters: PipelineFilters,
+  prepare: (records: DataRecord[], filters: PipelineFilters) => ChartDataPoint[]
+): ChartDataPoint[] {
+  if (filters.dataType !== 'price') return prepare(records, filters)
+  return preparePricePoints(records, priceRecords => prepare(priceRecords, filters))
+}
+
+// Prepared payload returned for each task
+export interface PipelineOutputs {
+  'records': null
+  'grouped-bar': ChartDataPoint[]
+  'line': ChartDataPoint[]
+  'waterfall': ReturnType<typeof prepareWaterfallData>
+  'insights': Insight[]
+  'simulation': SimulationResult | null // Bands for the line chart's series
+  'market-simulation': SimulationResult | null // Bands for the market size on the KPI cards
+}
+
+export type PipelineTask = keyof PipelineOutputs
+
+export interface PipelineResult<T extends PipelineTask> {
+  records: DataRecord[] // Records matching the filters
+  prepared: PipelineOutputs[T]
+  filters: PipelineFilters // Filters the result was computed for
+}
+
+/**
+ * Filter the dataset and prepare the payload for one task
+ */
+export function runPipelineTask<T extends PipelineTask>(
+  data: ComparisonData,
+  task: T,
+  filters: PipelineFilters
+): PipelineResult<T> {
+  const dataset = data.data[filters.dataType]?.geography_segment_matrix ?? []
+
+  const records = filterData(dataset, filters, data.dimensions.geographies)
+
+  let prepared: PipelineOutputs[PipelineTask]
+  switch (task) {
+    case 'grouped-bar':
+      prepared = preparePoints(records, filters, prepareGroupedBarData)
+      break
+    case 'line':
+      prepared = preparePoints(records, filters, prepareLineChartData)
+      break
+    case 'waterfall':
+      prepared = prepareWaterfallData(filters.dataType === 'price' ? toPriceContributions(records) : records, filters)
+      break
+    case 'insights': {
+      // Insights total their records, which has no meaning for prices
+      if (filters.dataType === 'price') {
+        prepared = []
+        break
+      }
+      const unit = getUnitLabel(data.metadata, filters.dataType)
+      const period = getGrowthPeriod(filters, data.metadata)
+      prepared = [...generateInsights(records, filters, unit, period, data), ...findCrossovers(records, filters)]
+      break
+    }
+    case 'simulation':
+      // Bands are for amounts that add up, not averages
+      prepared = filters.simulation?.enabled && filters.dataType !== 'price'
+        ? runSimulation(records, data.metadata, filters.simulation, segmentRecords => prepareLineChartData(segmentRecords, filters))
+        : null
+      break
+    case 'market-simulation':
+      prepared = filters.simulation?.enabled
+        ? runSimulation(getMarketSizeRecords(data), data.metadata, filters.simulation, marketRecords =>
+            data.metadata.years.map(year => ({
+              year,
+              [MARKET_SIZE_SERIES]: marketRecords.reduce((sum, record) => sum + (record.time_series[year] || 0), 0)
+            }))
+          )
+        : null
+      break
+    default:
+      prepared = null
+  }
+
+  return { records, prepared: prepared as PipelineOutputs[T], filters }
+}
@@ -0,0 +1,212 @@
+/**
+ * Chart Pipeline
+ * Main-thread client for the chart pipeline worker
+ * Each chart asks for its prepared payload; a newer request for the same chart cancels the older one
+ * Requests run on the dashboard data, or on the scenario data when a chart compares against the active scenario
+ */
+
+import { useEffect, useState } from 'react'
+import type { ComparisonData } from './types'
+import { useDashboardStore } from './store'
+import {
+  runPipelineTask,
+  type PipelineFilters,
+  type PipelineResult,
+  type PipelineTask
+} from './chart-pipeline-tasks'
+
+export type { PipelineResult, PipelineTask } from './chart-pipeline-tasks'
+
+export type PipelineSource = 'base' | 'scenario'
+
+export interface PipelineRequest {
+  type: 'run'
+  requestId: number
+  chartId: string
+  task: PipelineTask
+  filters: PipelineFilters
+  source: PipelineSource
+}
+
+export type PipelineResponse =
+  | { type: 'result'; requestId: number; result: PipelineResult<PipelineTask> }
+  | { type: 'error'; requestId: number; message: string }
+  | { type: 'cancelled'; requestId: number }
+
+/**
+ * Rejection reason for requests replaced by a newer one for the same chart
+ */
+export class StaleRequestError extends Error {
+  constructor(chartId: string) {
+    super(`Request for ${chartId} was superseded`)
+    this.name = 'StaleRequestError'
+  }
+}
+
+interface PendingRequest {
+  chartId: string
+  resolve: (result: PipelineResult<PipelineTask>) => void
+  reject: (error: Error) => void
+}
+
+class ChartPipelineClient {
+  private worker: Worker | null = null
+  private workerData = new Map<PipelineSource, ComparisonData>() // Last dataset posted for each source
+  private nextRequestId = 1
+  private requests = new Map<number, PendingRequest>()
+  private latestByChart = new Map<string, number>()
+
+  constructor() {
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return
+    try {
+      this.worker = new Worker(new URL('./chart-pipeline.worker.ts', import.meta.url))
+      this.worker.onmessage = (event: MessageEvent<PipelineResponse>) => this.handleResponse(event.data)
+      this.worker.onerror = (event) => {
+        console.error('❌ Chart pipeline worker failed, falling back to the main thread:', event.message)
+        this.failAll(new Error(event.message || 'Chart pipeline worker failed'))
+        this.worker?.terminate()
+        this.worker = null
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not start chart pipeline worker, processing on the main thread:', error)
+      this.worker = null
+    }
+  }
+
+  run<T extends PipelineTask>(
+    chartId: string,
+    task: T,
+    data: ComparisonData,
+    filters: PipelineFilters,
+    source: PipelineSource = 'base'
+  ): Promise<PipelineResult<T>> {
+    const requestId = this.nextRequestId++
+
+    // Cancel the previous request for this chart
+    const previousId = this.latestByChart.get(chartId)
+    if (previousId !== undefined) {
+      this.requests.get(previousId)?.reject(new StaleRequestError(chartId))
+      this.requests.delete(previousId)
+    }
+    this.latestByChart.set(chartId, requestId)
+
+    return new Promise<PipelineResult<T>>((resolve, reject) => {
+      this.requests.set(requestId, {
+        chartId,
+        resolve: resolve as (result: PipelineResult<PipelineTask>) => void,
+        reject
+      })
+
+      if (!this.worker) {
+        // Main-thread fallback, deferred so callers always get an async result
+        setTimeout(() => {
+          if (!this.requests.has(requestId)) return
+          try {
+            this.settle(requestId, { type: 'result', requestId, result: runPipelineTask(data, task, filters) })
+          } catch (error) {
+            this.settle(requestId, { type: 'error', requestId, message: error instanceof Error ? error.message : String(error) })
+          }
+        }, 0)
+        return
+      }
+
+      if (this.workerData.get(source) !== data) {
+        this.worker.postMessage({ type: 'set-data', source, data })
+        this.workerData.set(source, data)
+      }
+      const request: PipelineRequest = { type: 'run', requestId, chartId, task, filters, source }
+      this.worker.postMessage(request)
+    })
+  }
+
+  private handleResponse(response: PipelineResponse) {
+    this.settle(response.requestId, response)
+  }
+
+  private settle(requestId: number, response: PipelineResponse) {
+    const request = this.requests.get(requestId)
+    if (!request) return // Already cancelled on this side
+    this.requests.delete(requestId)
+    if (this.latestByChart.get(request.chartId) === requestId) {
+      this.latestByChart.delete(request.chartId)
+    }
+
+    if (response.type === 'result') {
+      request.resolve(response.result)
+    } else if (response.type === 'cancelled') {
+      request.reject(new StaleRequestError(request.chartId))
+    } else {
+      request.reject(new Error(response.message))
+    }
+  }
+
+  private failAll(error: Error) {
+    this.requests.forEach(request => request.reject(error))
+    this.requests.clear()
+    this.latestByChart.clear()
+  }
+}
+
+let client: ChartPipelineClient | null = null
+
+/**
+ * Shared pipeline client (one worker for the whole dashboard)
+ */
+export function getChartPipeline(): ChartPipelineClient {
+  if (!client) {
+    client = new ChartPipelineClient()
+  }
+  return client
+}
+
+/**
+ * Run a pipeline task for a chart whenever the data or filters change
+ * Keeps showing the previous result while a new one is being prepared; with the 'scenario' source,
+ * the result is null while no scenario is active
+ */
+export function useChartPipeline<T extends PipelineTask>(
+  chartId: string,
+  task: T,
+  filters: PipelineFilters,
+  source: PipelineSource = 'base'
+): { result: PipelineResult<T> | null; isLoading: boolean; error: string | null } {
+  const data = useDashboardStore(state => source === 'scenario' ? state.scenarioData : state.data)
+  const setChartLoading = useDashboardStore(state => state.setChartLoading)
+  const isLoading = useDashboardStore(state => !!state.chartLoading[chartId])
+  const [result, setResult] = useState<PipelineResult<T> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Filters objects are rebuilt on every render, so compare them by value
+  const filtersKey = JSON.stringify(filters)
+
+  useEffect(() => {
+    if (!data) {
+      setResult(null)
+      return
+    }
+
+    let active = true
+    setChartLoading(chartId, true)
+    getChartPipeline()
+      .run(chartId, task, data, JSON.parse(filtersKey), source)
+      .then(next => {
+        if (!active) return
+        setResult(next)
+        setError(null)
+        setChartLoading(chartId, false)
+      })
+      .catch(err => {
+        if (err instanceof StaleRequestError || !active) return
+        console.error(`❌ Chart pipeline failed for ${chartId}:`, err)
+        setError(err instanceof Error ? err.message : String(err))
+        setChartLoading(chartId, false)
+      })
+
+    return () => {
+      active = false
+      setChartLoading(chartId, false)
+    }
+  }, [chartId, task, data, filtersKey, source, setChartLoading])
+
+  return { result, isLoading, error }
+}
@@ -0,0 +1,70 @@
+/**
+ * Chart Pipeline Worker
+ * Runs filtering and chart preparation off the main thread
+ * Only the latest request per chart is processed; superseded requests are dropped
+ * Keeps one dataset per source, so the base and scenario data are each copied once
+ */
+
+import type { ComparisonData } from './types'
+import { runPipelineTask } from './chart-pipeline-tasks'
+import { getRecordIndex } from './record-index'
+import type { PipelineRequest, PipelineResponse, PipelineSource } from './chart-pipeline'
+
+const datasets = new Map<PipelineSource, ComparisonData>()
+const pending = new Map<string, PipelineRequest>()
+let scheduled = false
+
+function post(response: PipelineResponse) {
+  self.postMessage(response)
+}
+
+function processNext() {
+  scheduled = false
+  const next = pending.entries().next()
+  if (next.done) return
+
+  const [chartId, request] = next.value
+  pending.delete(chartId)
+
+  try {
+    const data = datasets.get(request.source)
+    if (!data) {
+      throw new Error(`No ${request.source} dataset loaded in the chart pipeline worker`)
+    }
+    post({ type: 'result', requestId: request.requestId, result: runPipelineTask(data, request.task, request.filters) })
+  } catch (error) {
+    post({ type: 'error', requestId: request.requestId, message: error instanceof Error ? error.message : String(error) })
+  }
+
+  // Yield between tasks so newer requests can replace queued ones
+  schedule()
+}
+
+function schedule() {
+  if (!scheduled && pending.size > 0) {
+    scheduled = true
+    setTimeout(processNext, 0)
+  }
+}
+
+self.onmessage = (event: MessageEvent) => {
+  const message = event.data
+  if (message.type === 'set-data') {
+    const data: ComparisonData | null = message.data
+    if (data) {
+      datasets.set(message.source, data)
+      // Index the copied records now rather than on the first request
+      getRecordIndex(data.data.value.geography_segment_matrix)
+      getRecordIndex(data.data.volume.geography_segment_matrix)
+    } else {
+      datasets.delete(message.source)
+    }
+  } else if (message.type === 'run') {
+    const superseded = pending.get(message.chartId)
+    if (superseded) {
+      post({ type: 'cancelled', requestId: superseded.requestId })
+    }
+    pending.set(message.chartId, message)
+    schedule()
+  }
+}
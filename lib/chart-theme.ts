@@ -122,3 +122,21 @@ export const getHeatmapColor = (value: number, min: number, max: number): string
   if (percentage < 80) return CHART_COLORS.heatmap.midHigh
   return CHART_COLORS.heatmap.high
 }
+
+// Historical vs forecast treatment shared by every chart over years:
+// solid up to the base year, dashed lines and lighter hatched bars after it, and a base-year marker
+export const PERIOD_STYLE = {
+  forecastDash: '5 4',
+  forecastOpacity: 0.45, // Fill behind the hatching of forecast bars
+  hatchSize: 6,
+  baseYearStroke: '#6b7280',
+}
+
+export const isForecastYear = (year: number, baseYear: number): boolean => year > baseYear
+
+// SVG pattern id of the forecast hatching for a color
+export const getForecastPatternId = (color: string): string => `forecast-hatch-${color.replace('#', '')}`
+
+// CSS background image of the forecast hatching, for bars drawn with divs (e.g. table sparklines)
+export const getForecastHatchBackground = (color: string): string =>
+  `repeating-linear-gradient(45deg, ${color} 0 2px, transparent 2px ${PERIOD_STYLE.hatchSize}px)`
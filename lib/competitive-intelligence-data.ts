@@ -4,6 +4,12 @@
  * Last updated: 2024
  */
 
+import { validateCompetitiveIntelligenceData, assertValidData, DataValidationError, type ValidationIssue } from './data-validator'
+import type { MarketDataset } from './dataset-registry'
+import { convertAmount, type AmountSource, type CurrencySettings } from './currency'
+import { formatNumber, formatPercentage, type NumberFormatSettings } from './number-format'
+import { createSeededRandom } from './seeded-random'
+
 export interface CompanyData {
   id: string
   name: string
@@ -13,8 +19,8 @@ export interface CompanyData {
   portfolio: string
   strategies: string[]
   regionalStrength: string
-  overallRevenue: number // in USD Mn
-  segmentalRevenue: number // in USD Mn for 2024
+  overallRevenue: number // in metadata.currency and metadata.revenue_unit
+  segmentalRevenue: number // in metadata.currency and metadata.revenue_unit, for metadata.year
   marketShare: number // percentage
 }
 
@@ -36,20 +42,47 @@ export interface CompetitiveIntelligenceData {
   market_share_data: MarketShareData[]
 }
 
-let cachedData: CompetitiveIntelligenceData | null = null
+// Loaded files by URL, with the validator's issues so a cached load can report them again
+const cachedData = new Map<string, { data: CompetitiveIntelligenceData; issues: ValidationIssue[] }>()
+
+// Revenue basis of the hardcoded fallback companies
+const FALLBACK_REVENUE_SOURCE: AmountSource = { currency: 'INR', unit: 'Cr.', year: 2024 }
+
+// Seed for the fallback companies' revenue, so it is the same on every load
+const FALLBACK_REVENUE_SEED = 2024
+
+/**
+ * Currency, unit and year the revenue figures are reported in
+ */
+export function getRevenueSource(data: CompetitiveIntelligenceData | null): AmountSource {
+  if (!data) return FALLBACK_REVENUE_SOURCE
+  return { currency: data.metadata.currency, unit: data.metadata.revenue_unit, year: data.metadata.year }
+}
 
 /**
- * Load competitive intelligence data from JSON file
+ * Load competitive intelligence data from a market's JSON file
+ * onIssues receives the validator's issues for the file, also when it was loaded before
  */
-export async function loadCompetitiveIntelligenceData(): Promise<CompetitiveIntelligenceData | null> {
-  if (cachedData) {
-    return cachedData
+export async function loadCompetitiveIntelligenceData(
+  dataset: MarketDataset | null,
+  onIssues?: (issues: ValidationIssue[]) => void
+): Promise<CompetitiveIntelligenceData | null> {
+  const fileUrl = dataset?.competitiveUrl
+  if (!fileUrl) {
+    console.warn('⚠️ No competitive intelligence file registered for the selected market')
+    return null
+  }
+
+  const cached = cachedData.get(fileUrl)
+  if (cached) {
+    onIssues?.(cached.issues)
+    return cached.data
   }
 
   try {
     // Load from JSON file with cache busting
     const timestamp = new Date().getTime()
-    const url = `/jsons/competitive-intelligence.json?t=${timestamp}`
+    const url = `${fileUrl}?t=${timestamp}`
     console.log('🔍 Attempting to fetch from URL:', url)
 
     const response = await fetch(url, {
@@ -74,8 +107,13 @@ export async function loadCompetitiveIntelligenceData(): Promise<CompetitiveInte
       throw new Error('Received HTML instead of JSON - file may not exist at this path')
     }
 
-    const data: CompetitiveIntelligenceData = JSON.parse(text)
-    cachedData = data
+    const parsed: unknown = JSON.parse(text)
+    const issues = validateCompetitiveIntelligenceData(parsed)
+    onIssues?.(issues)
+    assertValidData('competitive-intelligence', issues)
+
+    const data = parsed as CompetitiveIntelligenceData
+    cachedData.set(fileUrl, { data, issues })
 
     console.log('✅ Loaded competitive intelligence data:', {
       totalCompanies: data.companies.length,
@@ -93,6 +131,9 @@ export async function loadCompetitiveIntelligenceData(): Promise<CompetitiveInte
       console.error('❌ Error message:', error.message)
       console.error('❌ Error stack:', error.stack)
     }
+    if (error instanceof DataValidationError) {
+      console.error('❌ Validation issues:', error.issues)
+    }
     return null
   }
 }
@@ -219,13 +260,13 @@ function generateStrategies(company: string): string[] {
 }
 
 // Generate revenue based on market share
-function generateRevenue(marketShare: number): { overall: number, segmental: number } {
-  // Total market size approximately 5000 USD Mn
+function generateRevenue(marketShare: number, random: () => number): { overall: number, segmental: number } {
+  // Total market size approximately 5000 Cr. INR
   const totalMarketSize = 5000
   const segmentalRevenue = (marketShare / 100) * totalMarketSize
   
   // Overall revenue is typically 3-5x the segmental revenue (company has other products)
-  const multiplier = 3 + Math.random() * 2
+  const multiplier = 3 + random() * 2
   const overallRevenue = segmentalRevenue * multiplier
   
   return {
@@ -238,16 +279,17 @@ function generateRevenue(marketShare: number): { overall: number, segmental: num
  * Generate competitive intelligence data for all companies
  * Now loads from JSON file, with fallback to hardcoded data
  */
-export async function generateCompetitiveData(): Promise<CompanyData[]> {
-  const jsonData = await loadCompetitiveIntelligenceData()
+export async function generateCompetitiveData(dataset: MarketDataset | null): Promise<CompanyData[]> {
+  const jsonData = await loadCompetitiveIntelligenceData(dataset)
   
   if (jsonData && jsonData.companies) {
     return jsonData.companies
   }
   
   // Fallback to hardcoded data
+  const random = createSeededRandom(FALLBACK_REVENUE_SEED)
   return companies.map(company => {
-    const revenue = generateRevenue(marketShares[company])
+    const revenue = generateRevenue(marketShares[company], random)
     
     return {
       id: company.toLowerCase().replace(/\s+/g, '-'),
@@ -271,8 +313,8 @@ export async function generateCompetitiveData(): Promise<CompanyData[]> {
  * Now loads from JSON file, with fallback to hardcoded data
  * Groups smaller companies into "Others" to reduce clutter
  */
-export async function generateMarketShareData(showTopN: number = 10): Promise<MarketShareData[]> {
-  const jsonData = await loadCompetitiveIntelligenceData()
+export async function generateMarketShareData(dataset: MarketDataset | null, showTopN: number = 10): Promise<MarketShareData[]> {
+  const jsonData = await loadCompetitiveIntelligenceData(dataset)
   
   let allData: MarketShareData[]
   
@@ -310,8 +352,8 @@ export async function generateMarketShareData(showTopN: number = 10): Promise<Ma
 /**
  * Get top companies by market share
  */
-export async function getTopCompanies(limit: number = 5): Promise<CompanyData[]> {
-  const allCompanies = await generateCompetitiveData()
+export async function getTopCompanies(dataset: MarketDataset | null, limit: number = 5): Promise<CompanyData[]> {
+  const allCompanies = await generateCompetitiveData(dataset)
   return allCompanies
     .filter(c => c.name !== 'Others')
     .sort((a, b) => b.marketShare - a.marketShare)
@@ -339,12 +381,21 @@ export function calculateMarketConcentration(): { hhi: number; concentration: st
 
 /**
  * Get company comparison data for competitive dashboard
+ * Revenue is converted to the reporting currency and unit of the currency settings
  */
-export async function getCompanyComparison(): Promise<{
+export async function getCompanyComparison(
+  dataset: MarketDataset | null,
+  settings: CurrencySettings,
+  numberFormat: NumberFormatSettings
+): Promise<{
   headers: string[];
   rows: { label: string; values: (string | number)[] }[];
 }> {
-  const companies = (await generateCompetitiveData()).slice(0, 10) // Top 10 companies
+  const companies = (await generateCompetitiveData(dataset)).slice(0, 10) // Top 10 companies
+  const source = getRevenueSource(await loadCompetitiveIntelligenceData(dataset))
+  const revenue = (value: number) => convertAmount(value, source, settings)
+  const { currency, unit } = revenue(0)
+  const formatRevenue = (value: number) => formatNumber(revenue(value).value, numberFormat, { unit })
   
   const headers = companies.map(c => c.name)
   
@@ -374,16 +425,16 @@ export async function getCompanyComparison(): Promise<{
       values: companies.map(c => c.regionalStrength)
     },
     {
-      label: "Overall Revenue (Cr INR)",
-      values: companies.map(c => c.overallRevenue.toLocaleString())
+      label: `Overall Revenue (${currency} ${unit})`,
+      values: companies.map(c => formatRevenue(c.overallRevenue))
     },
     {
-      label: "Segmental Revenue (Cr INR), 2024",
-      values: companies.map(c => c.segmentalRevenue.toLocaleString())
+      label: `Segmental Revenue (${currency} ${unit}), ${source.year}`,
+      values: companies.map(c => formatRevenue(c.segmentalRevenue))
     },
     {
       label: "Market Share (%)",
-      values: companies.map(c => c.marketShare.toFixed(1) + '%')
+      values: companies.map(c => formatPercentage(c.marketShare, numberFormat))
     }
   ]
   
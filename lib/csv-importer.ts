@@ -0,0 +1,425 @@
+/**
+ * CSV Importer
+ * Parses flat market sizing CSVs (geography, segment path, segment type, one column per year)
+ * and maps their columns onto DataRecord fields
+ */
+
+import type { ComparisonData, DataRecord, GeographyDimension, SegmentDimension, SegmentHierarchy } from './types'
+
+export interface CsvYearColumn {
+  column: string
+  year: number
+}
+
+export interface CsvColumnMapping {
+  geography: string
+  segment: string
+  // Column holding the segment type; when empty, `defaultSegmentType` is used for every row
+  segmentType: string
+  defaultSegmentType: string
+  // Optional column holding the parent geography, used to derive geography levels
+  parentGeography: string
+  years: CsvYearColumn[]
+  dataType: 'value' | 'volume'
+  // Separator used inside the segment column for hierarchical paths
+  segmentSeparator: string
+}
+
+export interface SavedCsvMapping {
+  name: string
+  savedAt: string
+  mapping: CsvColumnMapping
+}
+
+export interface CsvParseResult {
+  records: DataRecord[]
+  errors: string[]
+}
+
+const SAVED_MAPPINGS_KEY = 'csvColumnMappings'
+
+/**
+ * Parse CSV text into rows of cells
+ * Supports quoted fields, escaped quotes ("") and CRLF line endings
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  // Strip the BOM Excel adds when saving as "CSV UTF-8"
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Drop fully empty lines
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+/**
+ * Detect columns whose header is a 4-digit year
+ */
+export function detectYearColumns(headers: string[]): CsvYearColumn[] {
+  return headers
+    .map(header => ({ column: header, match: header.trim().match(/^(?:FY\s*)?(\d{4})$/i) }))
+    .filter(({ match }) => match !== null)
+    .map(({ column, match }) => ({ column, year: parseInt(match![1], 10) }))
+    .sort((a, b) => a.year - b.year)
+}
+
+/**
+ * Suggest a column mapping from header names
+ */
+export function suggestCsvMapping(headers: string[], defaultSegmentType: string = ''): CsvColumnMapping {
+  const find = (...candidates: string[]) =>
+    headers.find(header => candidates.some(candidate => header.trim().toLowerCase() === candidate)) ||
+    headers.find(header => candidates.some(candidate => header.trim().toLowerCase().includes(candidate))) ||
+    ''
+
+  return {
+    geography: find('geography', 'region', 'country', 'market'),
+    segment: find('segment', 'segment path', 'category'),
+    segmentType: find('segment type', 'segment_type', 'segmentation'),
+    defaultSegmentType,
+    parentGeography: find('parent geography', 'parent_geography', 'parent'),
+    years: detectYearColumns(headers),
+    dataType: 'value',
+    segmentSeparator: '>'
+  }
+}
+
+/**
+ * A saved mapping can be reused when every column it references exists in the new file
+ */
+export function isMappingApplicable(mapping: CsvColumnMapping, headers: string[]): boolean {
+  const required = [mapping.geography, mapping.segment, ...mapping.years.map(y => y.column)]
+  if (mapping.segmentType) required.push(mapping.segmentType)
+  if (mapping.parentGeography) required.push(mapping.parentGeography)
+  return required.every(column => headers.includes(column)) && mapping.years.length > 0
+}
+
+/**
+ * Validate that a mapping has everything needed to build records
+ */
+export function getMappingErrors(mapping: CsvColumnMapping): string[] {
+  const errors: string[] = []
+  if (!mapping.geography) errors.push('Select the column that holds the geography')
+  if (!mapping.segment) errors.push('Select the column that holds the segment')
+  if (!mapping.segmentType && !mapping.defaultSegmentType.trim()) {
+    errors.push('Select a segment type column or enter a segment type for all rows')
+  }
+  if (mapping.years.length === 0) errors.push('Map at least one year column')
+  return errors
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const trimmed = value.trim()
+  if (trimmed === '' || trimmed === '-') return null
+  const parsed = parseFloat(trimmed.replace(/[,\s]/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function buildSegmentHierarchy(parts: string[]): SegmentHierarchy {
+  if (parts.length === 1) {
+    return { level_1: '', level_2: '', level_3: '', level_4: parts[0] }
+  }
+  return {
+    level_1: parts[0] || '',
+    level_2: parts[1] || '',
+    level_3: parts[2] || '',
+    level_4: parts[parts.length - 1] || ''
+  }
+}
+
+/**
+ * Convert parsed CSV rows into DataRecords using a column mapping
+ * CAGR and market share are filled in by buildComparisonDataFromCsv once the full period is known
+ */
+export function buildRecordsFromCsv(
+  rows: string[][],
+  mapping: CsvColumnMapping
+): CsvParseResult {
+  const errors: string[] = []
+  const [headerRow, ...dataRows] = rows
+  if (!headerRow) {
+    return { records: [], errors: ['The file is empty'] }
+  }
+
+  const headers = headerRow.map(h => h.trim())
+  const columnIndex = (column: string) => headers.indexOf(column.trim())
+
+  const geographyCol = columnIndex(mapping.geography)
+  const segmentCol = columnIndex(mapping.segment)
+  const segmentTypeCol = mapping.segmentType ? columnIndex(mapping.segmentType) : -1
+  const parentCol = mapping.parentGeography ? columnIndex(mapping.parentGeography) : -1
+  const yearCols = mapping.years.map(({ column, year }) => ({ year, col: columnIndex(column) }))
+
+  const records: DataRecord[] = []
+  const seen = new Set<string>()
+  const separator = mapping.segmentSeparator.trim() || '>'
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2 // 1-based, after the header
+    const geography = row[geographyCol]?.trim() || ''
+    const rawSegment = row[segmentCol]?.trim() || ''
+    const segmentType = (segmentTypeCol >= 0 ? row[segmentTypeCol]?.trim() : '') || mapping.defaultSegmentType.trim()
+
+    if (!geography || !rawSegment || !segmentType) {
+      errors.push(`Row ${line}: missing geography, segment or segment type`)
+      return
+    }
+
+    const parts = rawSegment.split(separator).map(part => part.trim()).filter(Boolean)
+    const segment = parts.join(' > ')
+
+    const key = `${geography}::${segmentType}::${segment}`
+    if (seen.has(key)) {
+      errors.push(`Row ${line}: duplicate of an earlier row for ${geography} / ${segment}`)
+      return
+    }
+    seen.add(key)
+
+    const timeSeries: Record<number, number> = {}
+    yearCols.forEach(({ year, col }) => {
+      const value = parseNumber(row[col])
+      if (value === null) {
+        errors.push(`Row ${line}: no numeric value for ${year}, using 0`)
+      }
+      timeSeries[year] = value ?? 0
+    })
+
+    records.push({
+      geography,
+      geography_level: 'unknown',
+      parent_geography: parentCol >= 0 ? (row[parentCol]?.trim() || null) : null,
+      segment_type: segmentType,
+      segment,
+      segment_level: 'leaf',
+      segment_hierarchy: buildSegmentHierarchy(parts),
+      time_series: timeSeries,
+      cagr: 0,
+      market_share: 0
+    })
+  })
+
+  return { records, errors }
+}
+
+function buildGeographyDimension(
+  records: DataRecord[],
+  existing: GeographyDimension | null
+): GeographyDimension {
+  const names = Array.from(new Set(records.map(r => r.geography)))
+  const parentOf = new Map<string, string | null>()
+  records.forEach(r => {
+    if (r.parent_geography) parentOf.set(r.geography, r.parent_geography)
+  })
+
+  // Without a parent column, fall back to the current dataset's geography tree
+  if (parentOf.size === 0 && existing) {
+    const global = names.filter(name => existing.global.includes(name))
+    const regions = names.filter(name => existing.regions.includes(name))
+    const countries: Record<string, string[]> = {}
+    Object.entries(existing.countries).forEach(([region, children]) => {
+      const present = children.filter(child => names.includes(child))
+      if (present.length > 0) countries[region] = present
+    })
+    return { global, regions, countries, all_geographies: names }
+  }
+
+  const global = names.filter(name => !parentOf.get(name))
+  const regions = names.filter(name => {
+    const parent = parentOf.get(name)
+    return !!parent && global.includes(parent)
+  })
+  const countries: Record<string, string[]> = {}
+  names.forEach(name => {
+    const parent = parentOf.get(name)
+    if (parent && regions.includes(parent)) {
+      countries[parent] = countries[parent] || []
+      countries[parent].push(name)
+    }
+  })
+
+  return { global, regions, countries, all_geographies: names }
+}
+
+function buildSegmentDimensions(records: DataRecord[]): Record<string, SegmentDimension> {
+  const segments: Record<string, SegmentDimension> = {}
+
+  records.forEach(record => {
+    const dimension = segments[record.segment_type] ||= { type: 'flat', items: [], hierarchy: {} }
+    const parts = record.segment.split(' > ')
+
+    parts.forEach((part, i) => {
+      if (!dimension.items.includes(part)) dimension.items.push(part)
+      if (i > 0) {
+        const parent = parts[i - 1]
+        dimension.hierarchy[parent] = dimension.hierarchy[parent] || []
+        if (!dimension.hierarchy[parent].includes(part)) dimension.hierarchy[parent].push(part)
+      }
+    })
+
+    if (parts.length > 1) dimension.type = 'hierarchical'
+  })
+
+  return segments
+}
+
+/**
+ * Build ComparisonData from records parsed out of a CSV
+ * Metadata (currency, units, base year) is carried over from the current dataset when available
+ */
+export function buildComparisonDataFromCsv(
+  records: DataRecord[],
+  dataType: 'value' | 'volume',
+  current: ComparisonData | null
+): ComparisonData {
+  const years = Array.from(new Set(records.flatMap(r => Object.keys(r.time_series).map(Number)))).sort((a, b) => a - b)
+  const startYear = years[0]
+  const forecastYear = years[years.length - 1]
+  const currentBase = current?.metadata.base_year
+  const baseYear = currentBase && years.includes(currentBase)
+    ? currentBase
+    : years[Math.floor((years.length - 1) / 2)]
+
+  const geographies = buildGeographyDimension(records, current?.dimensions.geographies || null)
+
+  // Any path that prefixes another record's path is a parent segment
+  const parentPaths = new Set<string>()
+  records.forEach(record => {
+    const parts = record.segment.split(' > ')
+    for (let i = 1; i < parts.length; i++) {
+      parentPaths.add(`${record.segment_type}::${parts.slice(0, i).join(' > ')}`)
+    }
+  })
+
+  // Resolve geography levels against the dimension we just built
+  const resolved = records.map(record => {
+    const level: DataRecord['geography_level'] =
+      geographies.global.includes(record.geography) ? 'global' :
+      geographies.regions.includes(record.geography) ? 'region' :
+      Object.values(geographies.countries).some(children => children.includes(record.geography)) ? 'country' :
+      'unknown'
+
+    const parent = record.parent_geography ||
+      (level === 'region' ? geographies.global[0] || null :
+       level === 'country' ? Object.entries(geographies.countries).find(([, c]) => c.includes(record.geography))?.[0] || null :
+       null)
+
+    const startValue = record.time_series[baseYear] || 0
+    const endValue = record.time_series[forecastYear] || 0
+    const periods = forecastYear - baseYear
+    const cagr = startValue > 0 && periods > 0
+      ? (Math.pow(endValue / startValue, 1 / periods) - 1) * 100
+      : 0
+
+    const segmentLevel: DataRecord['segment_level'] =
+      parentPaths.has(`${record.segment_type}::${record.segment}`) ? 'parent' : 'leaf'
+
+    return { ...record, geography_level: level, parent_geography: parent, segment_level: segmentLevel, cagr }
+  })
+
+  // Market share within each segment type at the forecast year, as the generator does
+  const totals = new Map<string, number>()
+  resolved.forEach(r => totals.set(r.segment_type, (totals.get(r.segment_type) || 0) + (r.time_series[forecastYear] || 0)))
+  resolved.forEach(r => {
+    const total = totals.get(r.segment_type) || 0
+    r.market_share = total > 0 ? ((r.time_series[forecastYear] || 0) / total) * 100 : 0
+  })
+
+  return {
+    metadata: {
+      market_name: current?.metadata.market_name || 'Uploaded Market',
+      market_type: current?.metadata.market_type || '',
+      industry: current?.metadata.industry || '',
+      years,
+      start_year: startYear,
+      base_year: baseYear,
+      forecast_year: forecastYear,
+      historical_years: years.filter(year => year <= baseYear),
+      forecast_years: years.filter(year => year > baseYear),
+      currency: current?.metadata.currency || '',
+      value_unit: current?.metadata.value_unit || '',
+      volume_unit: current?.metadata.volume_unit || '',
+      has_value: dataType === 'value',
+      has_volume: dataType === 'volume'
+    },
+    dimensions: {
+      geographies,
+      segments: buildSegmentDimensions(resolved)
+    },
+    data: {
+      value: { geography_segment_matrix: dataType === 'value' ? resolved : [] },
+      volume: { geography_segment_matrix: dataType === 'volume' ? resolved : [] }
+    }
+  }
+}
+
+/**
+ * Load column mappings saved from previous uploads
+ */
+export function loadSavedCsvMappings(): SavedCsvMapping[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const saved = localStorage.getItem(SAVED_MAPPINGS_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch (error) {
+    console.error('Error loading saved CSV mappings:', error)
+    return []
+  }
+}
+
+/**
+ * Save a column mapping under a name, replacing any mapping with the same name
+ */
+export function saveCsvMapping(name: string, mapping: CsvColumnMapping): SavedCsvMapping[] {
+  const updated = [
+    ...loadSavedCsvMappings().filter(saved => saved.name !== name),
+    { name, savedAt: new Date().toISOString(), mapping }
+  ]
+  localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(updated))
+  return updated
+}
+
+export function deleteCsvMapping(name: string): SavedCsvMapping[] {
+  const updated = loadSavedCsvMappings().filter(saved => saved.name !== name)
+  localStorage.setItem(SAVED_MAPPINGS_KEY, JSON.stringify(updated))
+  return updated
+}
@@ -0,0 +1,274 @@
+/**
+ * Currency Conversion
+ * Converts value time series into a reporting currency and unit before charting:
+ * - FX rates are kept per year and quoted as "TARGET/SOURCE" (source currency per 1 target unit, e.g. USD/INR = 83.7)
+ * - 'average' mode applies each year's rate; 'fixed' mode applies one year's rate to every year (constant currency)
+ * - Units rescale through their multipliers, so Cr. -> Mn multiplies by 10 before the FX rate is applied
+ * Settings, including edited rates, are saved in localStorage
+ */
+
+import type { ComparisonData, CurrencyConversion, DataRecord, Metadata } from './types'
+
+export type FxRateMode = CurrencyConversion['mode']
+
+export type FxRateTable = Record<number, number> // Year -> rate
+
+export interface CurrencySettings {
+  currency: string | null // Reporting currency, null to keep the source currency
+  unit: string | null // Reporting value unit, null to keep the source unit
+  mode: FxRateMode
+  fixedYear: number | null // Rate year for 'fixed' mode, null for the dataset's base year
+  rates: Record<string, FxRateTable> // "TARGET/SOURCE" pair -> yearly rates
+}
+
+export interface AmountSource {
+  currency: string
+  unit: string
+  year: number
+}
+
+export interface ConvertedAmount {
+  value: number
+  currency: string
+  unit: string
+}
+
+interface ResolvedConversion {
+  currency: string
+  unit: string
+  conversion: CurrencyConversion
+  factorFor: (year: number) => number
+}
+
+const CURRENCY_SETTINGS_KEY = 'currencySettings'
+
+// Multiplier of each unit label, keyed by its normalized form
+const UNIT_SCALES: Record<string, number> = {
+  '': 1,
+  units: 1,
+  k: 1e3,
+  thousand: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  mn: 1e6,
+  million: 1e6,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  bn: 1e9,
+  billion: 1e9
+}
+
+/**
+ * Units offered by the currency settings, smallest first
+ */
+export const VALUE_UNITS = ['K', 'Lakh', 'Mn', 'Cr.', 'Bn']
+
+/**
+ * Approximate annual average rates; edit them to match the house rates for a report
+ */
+export const DEFAULT_FX_RATES: Record<string, FxRateTable> = {
+  'USD/INR': { 2019: 70.42, 2020: 74.1, 2021: 73.92, 2022: 78.6, 2023: 82.6, 2024: 83.68, 2025: 86.6 },
+  'EUR/INR': { 2019: 78.84, 2020: 84.64, 2021: 87.44, 2022: 82.69, 2023: 89.3, 2024: 90.56, 2025: 97.8 }
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: null,
+  unit: null,
+  mode: 'average',
+  fixedYear: null,
+  rates: DEFAULT_FX_RATES
+}
+
+/**
+ * Multiplier of a unit label (e.g. 'Cr.' -> 1e7), or null when the unit is not recognised
+ */
+export function getUnitScale(unit: string): number | null {
+  const scale = UNIT_SCALES[unit.replace(/\./g, '').trim().toLowerCase()]
+  return scale ?? null
+}
+
+/**
+ * Rate pair key for converting source amounts into the target currency
+ */
+export function getRatePair(source: string, target: string): string {
+  return `${target}/${source}`
+}
+
+/**
+ * Currencies the source currency can be converted to with the configured rates
+ */
+export function getAvailableCurrencies(settings: CurrencySettings, source: string): string[] {
+  const currencies = new Set<string>([source])
+  Object.keys(settings.rates).forEach(pair => {
+    const [target, quote] = pair.split('/')
+    if (quote === source) currencies.add(target)
+  })
+  return Array.from(currencies)
+}
+
+/**
+ * Rate for a year, falling back to the nearest year with a rate (the earlier one on a tie)
+ */
+export function getFxRate(table: FxRateTable, year: number): number | null {
+  let best: number | null = null
+  Object.keys(table).forEach(key => {
+    const candidate = Number(key)
+    if (!(table[candidate] > 0)) return
+    if (best === null || Math.abs(candidate - year) < Math.abs(best - year) ||
+      (Math.abs(candidate - year) === Math.abs(best - year) && candidate < best)) {
+      best = candidate
+    }
+  })
+  return best === null ? null : table[best]
+}
+
+// Multiplier taking a source amount into the target currency for a year
+function getFxFactor(settings: CurrencySettings, source: string, target: string): ((year: number) => number) | null {
+  if (source === target) return () => 1
+  const table = settings.rates[getRatePair(source, target)]
+  if (!table || getFxRate(table, 0) === null) return null
+  return year => 1 / getFxRate(table, year)!
+}
+
+// Work out the reporting currency and unit, falling back to the source for anything that cannot be converted
+function resolveConversion(
+  source: Omit<AmountSource, 'year'>,
+  settings: CurrencySettings,
+  baseYear: number
+): ResolvedConversion | null {
+  const requestedCurrency = settings.currency ?? source.currency
+  const fxFactor = getFxFactor(settings, source.currency, requestedCurrency)
+  const currency = fxFactor ? requestedCurrency : source.currency
+
+  const sourceScale = getUnitScale(source.unit)
+  const targetScale = settings.unit ? getUnitScale(settings.unit) : null
+  const unit = settings.unit && sourceScale !== null && targetScale !== null ? settings.unit : source.unit
+  const unitFactor = unit === source.unit ? 1 : sourceScale! / targetScale!
+
+  if (currency === source.currency && unit === source.unit) return null
+
+  const fixedYear = settings.mode === 'fixed' ? settings.fixedYear ?? baseYear : null
+  const factorFor = (year: number) => {
+    const fx = fxFactor ? fxFactor(fixedYear ?? year) : 1
+    return fx * unitFactor
+  }
+
+  return {
+    currency,
+    unit,
+    factorFor,
+    conversion: {
+      source_currency: source.currency,
+      source_unit: source.unit,
+      mode: settings.mode,
+      fixed_year: currency === source.currency ? null : fixedYear
+    }
+  }
+}
+
+function convertRecords(records: DataRecord[], metadata: Metadata, factorFor: (year: number) => number): DataRecord[] {
+  const periods = metadata.forecast_year - metadata.base_year
+  // FX drift between the base and forecast year changes the growth rate; a pure unit change does not
+  const drift = periods > 0 ? Math.pow(factorFor(metadata.forecast_year) / factorFor(metadata.base_year), 1 / periods) : 1
+
+  return records.map(record => {
+    const timeSeries: Record<number, number> = {}
+    Object.entries(record.time_series).forEach(([year, value]) => {
+      timeSeries[Number(year)] = value * factorFor(Number(year))
+    })
+    return {
+      ...record,
+      time_series: timeSeries,
+      cagr: drift === 1 ? record.cagr : ((1 + record.cagr / 100) * drift - 1) * 100
+    }
+  })
+}
+
+/**
+ * Convert the value records into the reporting currency and unit
+ * Volume records and market shares are unchanged; the returned metadata describes the conversion
+ */
+export function convertComparisonData(data: ComparisonData, settings: CurrencySettings): ComparisonData {
+  const { metadata } = data
+  const resolved = resolveConversion(
+    { currency: metadata.currency, unit: metadata.value_unit },
+    settings,
+    metadata.base_year
+  )
+  if (!resolved) return data
+
+  console.log('💱 Converting values:', {
+    from: `${metadata.currency} ${metadata.value_unit}`,
+    to: `${resolved.currency} ${resolved.unit}`,
+    mode: resolved.conversion.mode
+  })
+
+  return {
+    ...data,
+    metadata: {
+      ...metadata,
+      currency: resolved.currency,
+      value_unit: resolved.unit,
+      conversion: resolved.conversion
+    },
+    data: {
+      ...data.data,
+      value: {
+        ...data.data.value,
+        geography_segment_matrix: convertRecords(data.data.value.geography_segment_matrix, metadata, resolved.factorFor)
+      }
+    }
+  }
+}
+
+/**
+ * Convert a single amount, such as a company's revenue, into the reporting currency and unit
+ */
+export function convertAmount(value: number, source: AmountSource, settings: CurrencySettings): ConvertedAmount {
+  const resolved = resolveConversion(source, settings, source.year)
+  if (!resolved) return { value, currency: source.currency, unit: source.unit }
+  return { value: value * resolved.factorFor(source.year), currency: resolved.currency, unit: resolved.unit }
+}
+
+/**
+ * Subtitle describing the active conversion, or null when values are shown as sourced
+ */
+export function describeConversion(metadata: Metadata): string | null {
+  const conversion = metadata.conversion
+  if (!conversion) return null
+  const from = `${conversion.source_currency} ${conversion.source_unit}`
+  const to = `${metadata.currency} ${metadata.value_unit}`
+  if (conversion.source_currency === metadata.currency) return `Rescaled from ${from} to ${to}`
+  return conversion.mode === 'fixed'
+    ? `Converted from ${from} to ${to} at the fixed ${conversion.fixed_year} rate`
+    : `Converted from ${from} to ${to} at yearly average rates`
+}
+
+/**
+ * Load saved currency settings, falling back to the defaults
+ */
+export function loadSavedCurrencySettings(): CurrencySettings {
+  if (typeof window === 'undefined') return DEFAULT_CURRENCY_SETTINGS
+  try {
+    const saved = localStorage.getItem(CURRENCY_SETTINGS_KEY)
+    if (!saved) return DEFAULT_CURRENCY_SETTINGS
+    const parsed = JSON.parse(saved) as Partial<CurrencySettings>
+    return {
+      ...DEFAULT_CURRENCY_SETTINGS,
+      ...parsed,
+      rates: { ...DEFAULT_FX_RATES, ...parsed.rates }
+    }
+  } catch (error) {
+    console.error('Error loading saved currency settings:', error)
+    return DEFAULT_CURRENCY_SETTINGS
+  }
+}
+
+/**
+ * Save currency settings for the next visit
+ */
+export function saveCurrencySettings(settings: CurrencySettings): void {
+  localStorage.setItem(CURRENCY_SETTINGS_KEY, JSON.stringify(settings))
+}
@@ -3,6 +3,8 @@
  * Generates realistic customer data for End User segments across regions
  */
 
+import { createSeededRandom } from './seeded-random'
+
 export interface Customer {
   id: string
   name: string
@@ -78,15 +80,6 @@ function generateCustomerName(region: string, endUserSegment: string, index: num
  * Hospitals typically have more customers in developed regions
  * Research institutes are more evenly distributed
  */
-// Deterministic seed function for consistent data generation
-function seededRandom(seed: number): () => number {
-  let value = seed
-  return () => {
-    value = (value * 9301 + 49297) % 233280
-    return value / 233280
-  }
-}
-
 function generateCustomerCount(region: string, endUserSegment: string): number {
   // Base multipliers by region (reflecting market size)
   const regionMultipliers: Record<string, number> = {
@@ -119,7 +112,7 @@ function generateCustomerCount(region: string, endUserSegment: string): number {
   
   // Create deterministic seed based on region and segment
   const seed = (region.charCodeAt(0) * 1000 + endUserSegment.charCodeAt(0) * 100) % 10000
-  const random = seededRandom(seed)
+  const random = createSeededRandom(seed)
   
   // Generate consistent count
   const count = Math.floor(random() * (max - min + 1)) + min
@@ -0,0 +1,151 @@
+/**
+ * Dashboard URL
+ * Encodes the dashboard view in the page URL so a view can be shared as a link:
+ * - Filters use the query format of filter-params.ts (geography, segment, segmentType, startYear, endYear, ...)
+ * - market, group and tab add the dataset, the chart group and the active chart tab
+ * Opening a link checks it against the loaded dataset: unknown geographies and segments are dropped, years are
+ * clamped to the data, and a segment type, data type, group or tab that doesn't apply falls back to the default.
+ * Each correction is reported, so a stale link still opens the closest view
+ */
+
+import type { ComparisonData, FilterState } from './types'
+import { CHART_GROUPS, CHART_TABS, getChartsForGroup, type ChartGroupId, type DashboardTab } from './chart-groups'
+import { filtersToSearchParams, parseFilterParams } from './filter-params'
+import { getGeographyHierarchy, getRecordIndex, hasSegmentPath } from './record-index'
+import { resolveGeographies } from './geography-hierarchy'
+
+export interface DashboardView {
+  filters: FilterState
+  chartGroup: ChartGroupId
+  tab: DashboardTab
+}
+
+export interface DashboardViewParseResult {
+  view: DashboardView
+  warnings: string[] // Link parameters that were ignored or corrected
+}
+
+// Parameters besides the filters
+const MARKET_PARAM = 'market'
+const GROUP_PARAM = 'group'
+const TAB_PARAM = 'tab'
+
+// Parameters that make a URL a dashboard link
+const VIEW_PARAMS = [
+  MARKET_PARAM, GROUP_PARAM, TAB_PARAM,
+  'geography', 'segment', 'segmentType', 'startYear', 'endYear', 'dataType', 'viewMode', 'businessType',
+  'includeDescendants', 'growthPeriod', 'shareReference'
+]
+
+/**
+ * Encode a view, and the market it is of, as query parameters
+ */
+export function dashboardViewToSearchParams(view: DashboardView, datasetId: string | null): URLSearchParams {
+  const params = filtersToSearchParams(view.filters)
+  if (datasetId) params.set(MARKET_PARAM, datasetId)
+  params.set(GROUP_PARAM, view.chartGroup)
+  params.set(TAB_PARAM, view.tab)
+  return params
+}
+
+/**
+ * Whether the query parameters describe a dashboard view
+ */
+export function hasDashboardView(params: URLSearchParams): boolean {
+  return VIEW_PARAMS.some(name => params.has(name))
+}
+
+/**
+ * Dataset id of a link, or null when it names none
+ */
+export function getLinkedDatasetId(params: URLSearchParams): string | null {
+  return params.get(MARKET_PARAM) || null
+}
+
+// First tab of a chart group
+function getFirstTab(chartGroup: ChartGroupId): DashboardTab {
+  return CHART_TABS[getChartsForGroup(chartGroup)[0]] ?? 'bar'
+}
+
+// Filters checked against the dataset, with what had to change
+function validateFilters(filters: FilterState, defaults: FilterState, data: ComparisonData, warnings: string[]): FilterState {
+  const records = data.data.value.geography_segment_matrix
+  const index = getRecordIndex(records)
+  const validated = { ...filters }
+
+  if (!index.bySegmentType.has(filters.segmentType)) {
+    warnings.push(`Segment type '${filters.segmentType}' is not in this dataset`)
+    validated.segmentType = defaults.segmentType
+    validated.segments = defaults.segments
+  } else {
+    const unknown = filters.segments.filter(segment => !hasSegmentPath(index, filters.segmentType, segment))
+    if (unknown.length > 0) {
+      warnings.push(`Segments not in this dataset: ${unknown.join(', ')}`)
+      const known = filters.segments.filter(segment => !unknown.includes(segment))
+      // With none left, the default selection keeps the charts from going empty
+      validated.segments = known.length > 0 || filters.segmentType !== defaults.segmentType ? known : defaults.segments
+    }
+  }
+
+  const hierarchy = getGeographyHierarchy(index, data.dimensions.geographies)
+  const { resolved, unmatched } = resolveGeographies(hierarchy, filters.geographies)
+  if (unmatched.length > 0) {
+    warnings.push(`Geographies not in this dataset: ${unmatched.join(', ')}`)
+  }
+  validated.geographies = Array.from(new Set(
+    filters.geographies.filter(name => resolved.has(name)).map(name => resolved.get(name)!)
+  ))
+
+  const years = data.metadata.years
+  const first = Math.min(...years)
+  const last = Math.max(...years)
+  const [start, end] = filters.yearRange
+  if (start < first || end > last) {
+    const clamped: [number, number] = [Math.min(Math.max(start, first), last), Math.max(Math.min(end, last), first)]
+    warnings.push(`Years ${start}-${end} are outside the data (${first}-${last}), showing ${clamped[0]}-${clamped[1]}`)
+    validated.yearRange = clamped
+  }
+
+  if (!data.data[filters.dataType]?.geography_segment_matrix?.length) {
+    warnings.push(`This dataset has no ${filters.dataType} data`)
+    validated.dataType = defaults.dataType
+  }
+
+  return validated
+}
+
+/**
+ * Read a view from query parameters, checked against the loaded dataset
+ * Anything not given keeps the default view; unavailableGroups are chart groups the market has no data for
+ */
+export function parseDashboardView(
+  params: URLSearchParams,
+  data: ComparisonData,
+  defaults: DashboardView,
+  unavailableGroups: ChartGroupId[] = []
+): DashboardViewParseResult {
+  const { filters, errors } = parseFilterParams(params, defaults.filters)
+  const warnings = [...errors]
+
+  let chartGroup = defaults.chartGroup
+  const group = params.get(GROUP_PARAM)
+  if (group) {
+    const known = CHART_GROUPS.find(candidate => candidate.id === group)
+    if (!known) warnings.push(`Unknown chart group '${group}'`)
+    else if (unavailableGroups.includes(known.id)) warnings.push(`${known.label} is not available for this market`)
+    else chartGroup = known.id
+  }
+
+  // The tab has to show a chart of the group
+  const groupTabs = getChartsForGroup(chartGroup).map(chartId => CHART_TABS[chartId])
+  let tab = groupTabs.includes(defaults.tab) ? defaults.tab : getFirstTab(chartGroup)
+  const linkedTab = params.get(TAB_PARAM)
+  if (linkedTab) {
+    if (groupTabs.includes(linkedTab as DashboardTab)) tab = linkedTab as DashboardTab
+    else warnings.push(`Tab '${linkedTab}' is not part of this chart group`)
+  }
+
+  const view = { filters: validateFilters(filters, defaults.filters, data, warnings), chartGroup, tab }
+  if (warnings.length > 0) console.warn('⚠️ Link parameters ignored:', warnings)
+  return { view, warnings }
+}
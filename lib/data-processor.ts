@@ -1,28 +1,64 @@
-import type { DataRecord, FilterState, ChartDataPoint, HeatmapCell, ComparisonTableRow } from './types'
+import type { ComparisonData, DataRecord, FilterState, ChartDataPoint, HeatmapCell, ComparisonTableRow, GeographyDimension, GrowthPeriodMode, Metadata } from './types'
+import {
+  getRecordIndex,
+  getGeographyHierarchy,
+  collectSegmentMatches,
+  collectHierarchyLevelMatches,
+  cacheFilterResult,
+  recordKey,
+  type RecordIndex
+} from './record-index'
+import { isGeographyRollup, isSegmentRollup, withoutSegmentRollups } from './rollup'
+import { resolveGeographies, type GeographyHierarchy } from './geography-hierarchy'
 
 /**
- * Filter data records based on current filter state
+ * Key identifying the parts of the filter state that affect filterData
  */
-// Helper function to check if a segment matches any of the selected segments
-function isSegmentMatch(recordSegment: string, selectedSegments: string[]): boolean {
-  if (selectedSegments.length === 0) return true
-  
-  // Check for direct match
-  if (selectedSegments.includes(recordSegment)) {
-    return true
+function getFilterCacheKey(filters: FilterState & { advancedSegments?: any[] }, hierarchy: GeographyHierarchy): string {
+  return JSON.stringify([
+    hierarchy.id,
+    filters.geographies,
+    !!filters.includeDescendants,
+    filters.segmentType,
+    filters.businessType,
+    filters.segments,
+    filters.advancedSegments?.map(seg => [seg.type, seg.segment]) ?? null
+  ])
+}
+
+/**
+ * Whether a selected segment above this record is a roll-up in the same geography
+ * A roll-up already sums its descendants, so they are left out to avoid counting them twice
+ */
+function isCoveredBySelectedRollup(index: RecordIndex, record: DataRecord, selectedSegmentKeys: Set<string>): boolean {
+  const parts = record.segment.split(' > ')
+  for (let depth = parts.length - 1; depth >= 1; depth--) {
+    const ancestor = parts.slice(0, depth).join(' > ')
+    if (!selectedSegmentKeys.has(`${record.segment_type}::${ancestor}`)) continue
+    const position = index.byRecordKey.get(recordKey(record.geography, record.segment_type, ancestor))
+    if (position !== undefined && isSegmentRollup(index.records[position])) return true
   }
-  
-  // Check if any selected segment is a parent of the record's segment
-  return selectedSegments.some(selected => {
-    // If the selected segment is a parent in the hierarchy
-    return recordSegment.startsWith(selected + ' > ')
-  })
+  return false
 }
 
+/**
+ * Filter data records based on current filter state
+ * Queries the record index for the array; results are memoized per filter
+ * @param geographyDimension - The dataset's geography dimension, for parents and name aliases not visible in the records
+ */
 export function filterData(
   data: DataRecord[],
-  filters: FilterState & { advancedSegments?: any[] }
+  filters: FilterState & { advancedSegments?: any[] },
+  geographyDimension?: GeographyDimension
 ): DataRecord[] {
+  const index = getRecordIndex(data)
+  const hierarchy = getGeographyHierarchy(index, geographyDimension)
+  const cacheKey = getFilterCacheKey(filters, hierarchy)
+  const cached = index.filterResults.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
   console.log('🔍 Filtering data with:', {
     totalRecords: data.length,
     filters: {
@@ -33,107 +69,56 @@ export function filterData(
     }
   })
 
-  // Helper function for flexible geography matching
-  const isGeographyMatch = (recordGeography: string, selectedGeographies: string[]): boolean => {
-    if (selectedGeographies.length === 0) return true
-    
-    return selectedGeographies.some(geo => {
-      // Exact match
-      if (recordGeography === geo) return true
-      // Record geography starts with selected (e.g., "West India (5 states)" matches "West India")
-      if (recordGeography.startsWith(geo)) return true
-      // Selected starts with record (e.g., "West India" matches "West India (5 states)")
-      if (geo.startsWith(recordGeography)) return true
-      // Contains check (bidirectional)
-      if (recordGeography.includes(geo) || geo.includes(recordGeography)) return true
-      return false
-    })
+  // Geography filter - if no geographies selected, show all
+  // Names resolve through the geography hierarchy and its aliases; descendants only when asked for
+  let geographies: Set<string> | null = null
+  if (filters.geographies.length > 0) {
+    const resolution = resolveGeographies(hierarchy, filters.geographies, filters.includeDescendants)
+    if (resolution.unmatched.length > 0) {
+      console.warn('⚠️ Geographies not found in this dataset:', resolution.unmatched)
+    }
+    geographies = new Set(resolution.geographies)
   }
 
-  const filtered = data.filter((record) => {
-    // Geography filter - if no geographies selected, show all
-    // Use flexible matching to handle geography name variations
-    const geoMatch = isGeographyMatch(record.geography, filters.geographies)
-    
-    if (!geoMatch) {
-      return false
-    }
-    
-    // Segment type filter - must match
-    const segTypeMatch = record.segment_type === filters.segmentType
-    if (!segTypeMatch) {
-      return false
-    }
-    
-    // Business type filter - apply to all segment types
-    let businessTypeMatch = true
-    // Check if record's level_1 matches the selected business type
-    const recordBusinessType = record.segment_hierarchy?.level_1
-    if (recordBusinessType === 'B2B' || recordBusinessType === 'B2C') {
-      businessTypeMatch = recordBusinessType === filters.businessType
-    } else if (filters.segmentType === 'By End-Use*Product Type') {
-      // For "By End-Use*Product Type", check if the segment path starts with B2B or B2C
-      const segmentParts = record.segment.split(' > ')
-      if (segmentParts.length > 0 && (segmentParts[0] === 'B2B' || segmentParts[0] === 'B2C')) {
-        businessTypeMatch = segmentParts[0] === filters.businessType
-      }
-    }
-    
-    if (!businessTypeMatch) {
-      return false
-    }
-    
-    // For multi-type segment selection, check if we have advancedSegments
-    if (filters.advancedSegments && filters.advancedSegments.length > 0) {
-      // Check if this record matches any of the selected segment+type combinations
-      const segmentMatch = filters.advancedSegments.some(seg => {
-        // Match segment type first
-        if (seg.type !== record.segment_type) return false
-        
-        // Direct match - exact segment name
-        if (seg.segment === record.segment) return true
-        
-        // Check if selected segment is a parent of this record's segment
-        if (record.segment.startsWith(seg.segment + ' > ')) return true
-        
-        // Check if this record's segment is a parent of the selected segment
-        if (seg.segment.startsWith(record.segment + ' > ')) return true
-        
-        return false
-      })
-      
-      return geoMatch && segmentMatch
+  // Segment filter - a selected segment matches itself, its descendants and its ancestors
+  let segmentMatches: Set<number> | null = null
+  if (filters.advancedSegments && filters.advancedSegments.length > 0) {
+    // Multi-type segment selection: match segment+type combinations
+    segmentMatches = new Set()
+    for (const seg of filters.advancedSegments) {
+      collectSegmentMatches(index, seg.type, seg.segment, segmentMatches)
     }
-    
-    // Segment filter - check for matches (exact or partial)
-    // If no segments selected, show all segments of the selected type
-    let segMatch = filters.segments.length === 0
-    
-    if (filters.segments.length > 0) {
-      // Check for direct match or hierarchical match
-      segMatch = filters.segments.some(selectedSegment => {
-        // Exact match
-        if (selectedSegment === record.segment) return true
-        
-        // Check if selected segment is a parent of this record's segment
-        if (record.segment.startsWith(selectedSegment + ' > ')) return true
-        
-        // Check if this record's segment is a parent of the selected segment
-        if (selectedSegment.startsWith(record.segment + ' > ')) return true
-        
-        // Check hierarchy levels
-        const recordHierarchy = record.segment_hierarchy || {}
-        const selectedParts = selectedSegment.split(' > ')
-        
-        // Check if any level in the hierarchy matches the selected segment
-        return Object.values(recordHierarchy).some(level => 
-          level && selectedParts.includes(level)
-        )
-      })
+  } else if (filters.segments.length > 0) {
+    segmentMatches = new Set()
+    for (const selectedSegment of filters.segments) {
+      collectSegmentMatches(index, filters.segmentType, selectedSegment, segmentMatches)
+      // Also match records sharing any hierarchy level with the selected path
+      collectHierarchyLevelMatches(index, selectedSegment, segmentMatches)
     }
-    
-    return segMatch
-  })
+  }
+
+  // Roll-up records only appear when their own geography / segment is selected,
+  // so they never double count alongside the records they were summed from
+  const selectedSegmentKeys = new Set(
+    filters.advancedSegments && filters.advancedSegments.length > 0
+      ? filters.advancedSegments.map(seg => `${seg.type}::${seg.segment}`)
+      : filters.segments.map(segment => `${filters.segmentType}::${segment}`)
+  )
+
+  // Segment type filter - must match; business type applies to records that have one
+  const candidates = index.bySegmentType.get(filters.segmentType) ?? []
+  const filtered = candidates
+    .filter(position => {
+      const record = data[position]
+      const businessType = index.businessTypes[position]
+      if (businessType && businessType !== filters.businessType) return false
+      if (geographies && !geographies.has(record.geography)) return false
+      if (!geographies && isGeographyRollup(record)) return false
+      if (isSegmentRollup(record) && !selectedSegmentKeys.has(`${record.segment_type}::${record.segment}`)) return false
+      if (segmentMatches && isCoveredBySelectedRollup(index, record, selectedSegmentKeys)) return false
+      return !segmentMatches || segmentMatches.has(position)
+    })
+    .map(position => data[position])
   
   // Debug logging
   if (typeof window !== 'undefined') {
@@ -210,9 +195,21 @@ export function filterData(
     }
   }
   
+  cacheFilterResult(index, cacheKey, filtered)
   return filtered
 }
 
+/**
+ * Selected geographies under their record names, plus their descendants when included
+ * Selections with no records in this array are kept, so they still get an (empty) series
+ */
+function getSelectedGeographies(records: DataRecord[], filters: FilterState): string[] {
+  if (filters.geographies.length === 0) return []
+  const hierarchy = getGeographyHierarchy(getRecordIndex(records))
+  const { geographies, unmatched } = resolveGeographies(hierarchy, filters.geographies, filters.includeDescendants)
+  return [...geographies, ...unmatched]
+}
+
 /**
  * Prepare data for grouped bar chart (Recharts format) with stacking support
  */
@@ -220,7 +217,8 @@ export function prepareGroupedBarData(
   records: DataRecord[],
   filters: FilterState & { advancedSegments?: any[] }
 ): ChartDataPoint[] {
-  const { yearRange, viewMode, geographies, segments } = filters
+  const { yearRange, viewMode, segments } = filters
+  const geographies = getSelectedGeographies(records, filters)
   const [startYear, endYear] = yearRange
   
   // Check if India is selected and aggregate child geographies
@@ -481,21 +479,8 @@ export function prepareGroupedBarData(
             return
           }
           
-          // Normalize geography name to match selected geographies
-          let normalizedGeography = record.geography
-          if (geographies.length > 0) {
-            const matchingGeo = geographies.find(geo => {
-              const recordGeo = record.geography
-              if (recordGeo === geo) return true
-              if (recordGeo.startsWith(geo)) return true
-              if (geo.startsWith(recordGeo)) return true
-              if (recordGeo.includes(geo) || geo.includes(recordGeo)) return true
-              return false
-            })
-            if (matchingGeo) {
-              normalizedGeography = matchingGeo
-            }
-          }
+          // Selected geographies are already resolved to record names
+          const normalizedGeography = record.geography
           
           // Only process if this geography is in our map (matches selected geographies)
           if (!geoMap.has(normalizedGeography)) {
@@ -632,22 +617,7 @@ export function prepareGroupedBarData(
           }
         } else if (viewMode === 'geography-mode') {
           // In geography-mode, aggregate by geography name
-          // Normalize geography name to match selected geographies (handle name variations)
-          if (geographies.length > 0) {
-            // Find which selected geography this record matches
-            const matchingGeo = geographies.find(geo => {
-              const recordGeo = record.geography
-              if (recordGeo === geo) return true
-              if (recordGeo.startsWith(geo)) return true
-              if (geo.startsWith(recordGeo)) return true
-              if (recordGeo.includes(geo) || geo.includes(recordGeo)) return true
-              return false
-            })
-            // Use the selected geography name as key (normalized) to match with series
-            key = matchingGeo || record.geography
-          } else {
-            key = record.geography
-          }
+          key = record.geography
         } else if (viewMode === 'matrix') {
          key = `${record.geography}::${record.segment}`
        } else {
@@ -803,25 +773,105 @@ export function prepareHeatmapData(
   return cells
 }
 
+export interface GrowthPeriod {
+  mode: GrowthPeriodMode
+  startYear: number
+  endYear: number
+  label: string // e.g. "2020–2032" or "Forecast 2024–2032"
+}
+
+export interface GrowthMetrics {
+  startValue: number
+  endValue: number
+  absoluteGrowth: number
+  growthPercent: number // Total change over the period, 0 when the start value is not positive
+  cagr: number // Compound annual growth rate in %, 0 when it cannot be computed
+}
+
+const GROWTH_PERIOD_NAMES: Record<GrowthPeriodMode, string> = {
+  selected: '',
+  historical: 'Historical ',
+  forecast: 'Forecast '
+}
+
+/**
+ * Years CAGR and growth are measured over for the current filters
+ * 'historical' keeps the selected years up to the base year; 'forecast' keeps those from the base year on,
+ * so growth into the first forecast year counts. Without metadata the selected range is used.
+ * Returns null when the period is shorter than a year (e.g. a forecast-only range with 'historical')
+ */
+export function getGrowthPeriod(
+  filters: Pick<FilterState, 'yearRange' | 'growthPeriod'>,
+  metadata?: Pick<Metadata, 'historical_years' | 'forecast_years'>
+): GrowthPeriod | null {
+  let [startYear, endYear] = filters.yearRange
+  const mode = metadata ? filters.growthPeriod : 'selected'
+
+  if (metadata && mode !== 'selected') {
+    const historical = metadata.historical_years
+    const lastHistorical = historical.length > 0 ? Math.max(...historical) : null
+    if (mode === 'historical') {
+      if (historical.length === 0) return null
+      startYear = Math.max(startYear, Math.min(...historical))
+      endYear = Math.min(endYear, lastHistorical!)
+    } else {
+      const forecast = metadata.forecast_years
+      if (forecast.length === 0) return null
+      startYear = Math.max(startYear, lastHistorical ?? Math.min(...forecast))
+      endYear = Math.min(endYear, Math.max(...forecast))
+    }
+  }
+
+  if (endYear <= startYear) return null
+  return { mode, startYear, endYear, label: `${GROWTH_PERIOD_NAMES[mode]}${startYear}–${endYear}` }
+}
+
+/**
+ * Label for growth figures, e.g. "Forecast 2024–2032", or why there are none
+ */
+export function describeGrowthPeriod(period: GrowthPeriod | null, filters: Pick<FilterState, 'growthPeriod'>): string {
+  if (period) return period.label
+  return filters.growthPeriod === 'selected' ? 'select at least two years' : `no ${filters.growthPeriod} years selected`
+}
+
+/**
+ * CAGR, absolute growth and growth % between two amounts over a number of years
+ */
+export function calculateGrowthMetrics(startValue: number, endValue: number, years: number): GrowthMetrics {
+  const absoluteGrowth = endValue - startValue
+  const growthPercent = startValue > 0 ? (absoluteGrowth / startValue) * 100 : 0
+  const cagr = startValue > 0 && endValue >= 0 && years > 0
+    ? (Math.pow(endValue / startValue, 1 / years) - 1) * 100
+    : 0
+  return { startValue, endValue, absoluteGrowth, growthPercent, cagr }
+}
+
+/**
+ * Growth of one record over a period, from its time series (the stored `cagr` is fixed to the base and forecast year)
+ */
+export function getRecordGrowth(record: DataRecord, period: GrowthPeriod): GrowthMetrics {
+  return calculateGrowthMetrics(
+    record.time_series[period.startYear] || 0,
+    record.time_series[period.endYear] || 0,
+    period.endYear - period.startYear
+  )
+}
+
 /**
  * Prepare data for comparison table
  */
 export function prepareTableData(
   records: DataRecord[],
-  filters: FilterState
+  filters: FilterState,
+  period: GrowthPeriod | null = getGrowthPeriod(filters)
 ): ComparisonTableRow[] {
   const { yearRange } = filters
   const [startYear, endYear] = yearRange
   
   return records.map(record => {
-    // JSON keys are strings
-    const startYearStr = filters.yearRange[0].toString()
-    const endYearStr = filters.yearRange[1].toString()
     const baseValue = record.time_series[filters.yearRange[0]] || 0
     const forecastValue = record.time_series[filters.yearRange[1]] || 0
-    const growth = baseValue > 0 
-      ? ((forecastValue - baseValue) / baseValue) * 100
-      : 0
+    const growthMetrics = period ? getRecordGrowth(record, period) : null
     
     // Extract time series for sparkline
     const timeSeries: number[] = []
@@ -835,8 +885,8 @@ export function prepareTableData(
       segment: record.segment,
       baseYear: baseValue,
       forecastYear: forecastValue,
-      cagr: record.cagr,
-      growth,
+      cagr: growthMetrics?.cagr ?? 0,
+      growth: growthMetrics?.growthPercent ?? 0,
       timeSeries
     }
   })
@@ -846,9 +896,7 @@ export function prepareTableData(
  * Get unique geographies from filtered data
  */
 export function getUniqueGeographies(records: DataRecord[]): string[] {
-  const geos = new Set<string>()
-  records.forEach(record => geos.add(record.geography))
-  return Array.from(geos)
+  return [...getRecordIndex(records).geographies]
 }
 
 /**
@@ -856,41 +904,7 @@ export function getUniqueGeographies(records: DataRecord[]): string[] {
  * Returns only parent segments if they exist, otherwise returns leaf segments
  */
 export function getUniqueSegments(records: DataRecord[]): string[] {
-  const segments = new Set<string>()
-  const parentSegments = new Set<string>()
-  const childSegments = new Map<string, string[]>() // parent -> children mapping
-  
-  // First pass: identify all parent and leaf segments
-  records.forEach(record => {
-    if (record.segment_level === 'parent') {
-      parentSegments.add(record.segment)
-    } else {
-      // Check if this leaf has a parent in the hierarchy
-      const parentInHierarchy = record.segment_hierarchy.level_2
-      if (parentInHierarchy && parentInHierarchy !== record.segment) {
-        if (!childSegments.has(parentInHierarchy)) {
-          childSegments.set(parentInHierarchy, [])
-        }
-        childSegments.get(parentInHierarchy)!.push(record.segment)
-      }
-    }
-  })
-  
-  // Second pass: add segments to the result
-  records.forEach(record => {
-    // If this is a parent segment, always include it
-    if (record.segment_level === 'parent') {
-      segments.add(record.segment)
-    } else {
-      // For leaf segments, only add if their parent is NOT in the parent segments set
-      const parentInHierarchy = record.segment_hierarchy.level_2
-      if (!parentSegments.has(parentInHierarchy)) {
-        segments.add(record.segment)
-      }
-    }
-  })
-  
-  return Array.from(segments)
+  return [...getRecordIndex(records).topSegments]
 }
 
 /**
@@ -1001,6 +1015,16 @@ export function calculateTotals(
   }
 }
 
+/**
+ * Value records behind the market size KPIs: the global geography's, without segment roll-ups
+ */
+export function getMarketSizeRecords(data: ComparisonData): DataRecord[] {
+  const globalGeo = data.dimensions.geographies.global?.[0] || 'Global'
+  return withoutSegmentRollups(data.data.value.geography_segment_matrix).filter(
+    record => record.geography === globalGeo
+  )
+}
+
 /**
  * Find top performers
  */
@@ -1025,11 +1049,13 @@ export function findTopPerformers(
  */
 export function findFastestGrowing(
   records: DataRecord[],
-  limit: number = 5
+  limit: number = 5,
+  period: GrowthPeriod | null = null
 ): Array<{ name: string; cagr: number }> {
+  // Stored CAGR (base to forecast year) unless a period is given
   const growing = records.map(record => ({
     name: `${record.geography} - ${record.segment}`,
-    cagr: record.cagr
+    cagr: period ? getRecordGrowth(record, period).cagr : record.cagr
   }))
   
   return growing
@@ -0,0 +1,436 @@
+/**
+ * Data Validator
+ * Schema checks for loaded ComparisonData, CompetitiveIntelligenceData and
+ * DistributorsIntelligenceData. Every problem is reported with its JSON path.
+ */
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export interface ValidationIssue {
+  path: string
+  message: string
+  severity: ValidationSeverity
+}
+
+export type DataSourceId = 'comparison' | 'competitive-intelligence' | 'distributors-intelligence'
+
+export const DATA_SOURCE_LABELS: Record<DataSourceId, string> = {
+  'comparison': 'Market data',
+  'competitive-intelligence': 'Competitive intelligence data',
+  'distributors-intelligence': 'Distributors intelligence data'
+}
+
+/**
+ * Thrown by loaders when a file fails validation
+ */
+export class DataValidationError extends Error {
+  readonly source: DataSourceId
+  readonly issues: ValidationIssue[]
+
+  constructor(source: DataSourceId, issues: ValidationIssue[]) {
+    const errorCount = issues.filter(i => i.severity === 'error').length
+    super(`${DATA_SOURCE_LABELS[source]} failed validation with ${errorCount} error${errorCount === 1 ? '' : 's'}`)
+    this.name = 'DataValidationError'
+    this.source = source
+    this.issues = issues
+  }
+}
+
+const GEOGRAPHY_LEVELS = ['global', 'region', 'country', 'unknown']
+const SEGMENT_LEVELS = ['parent', 'leaf']
+const SEGMENT_DIMENSION_TYPES = ['flat', 'hierarchical']
+
+type Json = Record<string, unknown>
+
+/**
+ * Small helper that accumulates issues while walking a JSON document
+ */
+class IssueCollector {
+  readonly issues: ValidationIssue[] = []
+
+  error(path: string, message: string) {
+    this.issues.push({ path, message, severity: 'error' })
+  }
+
+  warn(path: string, message: string) {
+    this.issues.push({ path, message, severity: 'warning' })
+  }
+
+  object(value: unknown, path: string): value is Json {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.error(path, `expected an object, got ${describe(value)}`)
+      return false
+    }
+    return true
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.error(path, `expected an array, got ${describe(value)}`)
+      return false
+    }
+    return true
+  }
+
+  string(value: unknown, path: string, { allowEmpty = false, nullable = false } = {}): value is string {
+    if (nullable && value === null) return true
+    if (typeof value !== 'string') {
+      this.error(path, `expected a string${nullable ? ' or null' : ''}, got ${describe(value)}`)
+      return false
+    }
+    if (!allowEmpty && value.trim() === '') {
+      this.error(path, 'must not be empty')
+      return false
+    }
+    return true
+  }
+
+  number(value: unknown, path: string): value is number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.error(path, `expected a finite number, got ${describe(value)}`)
+      return false
+    }
+    return true
+  }
+
+  boolean(value: unknown, path: string): value is boolean {
+    if (typeof value !== 'boolean') {
+      this.error(path, `expected true or false, got ${describe(value)}`)
+      return false
+    }
+    return true
+  }
+
+  stringArray(value: unknown, path: string): value is string[] {
+    if (!this.array(value, path)) return false
+    let valid = true
+    value.forEach((item, i) => {
+      if (!this.string(item, `${path}[${i}]`)) valid = false
+    })
+    return valid
+  }
+
+  oneOf(value: unknown, allowed: string[], path: string): boolean {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.error(path, `unknown value ${describe(value)}, expected one of ${allowed.map(a => `'${a}'`).join(', ')}`)
+      return false
+    }
+    return true
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (value === undefined) return 'nothing'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'string') return `'${value.length > 40 ? value.slice(0, 40) + '…' : value}'`
+  if (typeof value === 'number') return String(value)
+  return typeof value
+}
+
+function key(path: string, name: string): string {
+  // Use bracket notation for keys that are not plain identifiers
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}["${name}"]`
+}
+
+/**
+ * Validate a ComparisonData document
+ */
+export function validateComparisonData(data: unknown): ValidationIssue[] {
+  const c = new IssueCollector()
+  if (!c.object(data, '$')) return c.issues
+
+  // Metadata
+  let years: number[] = []
+  if (c.object(data.metadata, '$.metadata')) {
+    const metadata = data.metadata
+    const path = '$.metadata'
+    c.string(metadata.market_name, `${path}.market_name`)
+    c.string(metadata.currency, `${path}.currency`, { allowEmpty: true })
+    c.string(metadata.value_unit, `${path}.value_unit`, { allowEmpty: true })
+    c.string(metadata.volume_unit, `${path}.volume_unit`, { allowEmpty: true })
+    c.boolean(metadata.has_value, `${path}.has_value`)
+    c.boolean(metadata.has_volume, `${path}.has_volume`)
+
+    if (c.array(metadata.years, `${path}.years`)) {
+      metadata.years.forEach((year, i) => {
+        if (c.number(year, `${path}.years[${i}]`)) years.push(year)
+      })
+      if (years.length === 0) c.error(`${path}.years`, 'must list at least one year')
+    }
+
+    ;(['start_year', 'base_year', 'forecast_year'] as const).forEach(field => {
+      const value = metadata[field]
+      if (c.number(value, `${path}.${field}`) && years.length > 0 && !years.includes(value)) {
+        c.error(`${path}.${field}`, `${value} is not in metadata.years`)
+      }
+    })
+
+    ;(['historical_years', 'forecast_years'] as const).forEach(field => {
+      const list = metadata[field]
+      if (c.array(list, `${path}.${field}`)) {
+        list.forEach((year, i) => {
+          if (c.number(year, `${path}.${field}[${i}]`) && years.length > 0 && !years.includes(year)) {
+            c.error(`${path}.${field}[${i}]`, `${year} is not in metadata.years`)
+          }
+        })
+      }
+    })
+  }
+
+  // Dimensions
+  let allGeographies: Set<string> | null = null
+  let segmentTypes: Set<string> | null = null
+  if (c.object(data.dimensions, '$.dimensions')) {
+    const dimensions = data.dimensions
+    const geoPath = '$.dimensions.geographies'
+    if (c.object(dimensions.geographies, geoPath)) {
+      const geographies = dimensions.geographies
+      c.stringArray(geographies.global, `${geoPath}.global`)
+      const regionsValid = c.stringArray(geographies.regions, `${geoPath}.regions`)
+      if (c.stringArray(geographies.all_geographies, `${geoPath}.all_geographies`)) {
+        allGeographies = new Set(geographies.all_geographies)
+      }
+      if (c.object(geographies.countries, `${geoPath}.countries`)) {
+        Object.entries(geographies.countries).forEach(([parent, children]) => {
+          const childPath = key(`${geoPath}.countries`, parent)
+          c.stringArray(children, childPath)
+          if (regionsValid && !(geographies.regions as string[]).includes(parent)) {
+            c.warn(childPath, `'${parent}' is not listed in dimensions.geographies.regions`)
+          }
+        })
+      }
+      // Optional: other names a geography appears under; records may use either
+      if (geographies.aliases !== undefined && c.object(geographies.aliases, `${geoPath}.aliases`)) {
+        Object.entries(geographies.aliases).forEach(([name, aliases]) => {
+          const aliasPath = key(`${geoPath}.aliases`, name)
+          if (allGeographies && !allGeographies.has(name)) {
+            c.warn(aliasPath, `'${name}' is not listed in dimensions.geographies.all_geographies`)
+          }
+          if (c.stringArray(aliases, aliasPath)) {
+            aliases.forEach(alias => allGeographies?.add(alias))
+          }
+        })
+      }
+    }
+
+    const segPath = '$.dimensions.segments'
+    if (c.object(dimensions.segments, segPath)) {
+      segmentTypes = new Set(Object.keys(dimensions.segments))
+      Object.entries(dimensions.segments).forEach(([segmentType, definition]) => {
+        const path = key(segPath, segmentType)
+        if (!c.object(definition, path)) return
+        c.oneOf(definition.type, SEGMENT_DIMENSION_TYPES, `${path}.type`)
+        c.stringArray(definition.items, `${path}.items`)
+        if (c.object(definition.hierarchy, `${path}.hierarchy`)) {
+          Object.entries(definition.hierarchy).forEach(([parent, children]) => {
+            c.stringArray(children, key(`${path}.hierarchy`, parent))
+          })
+        }
+      })
+    }
+  }
+
+  // Records
+  if (c.object(data.data, '$.data')) {
+    ;(['value', 'volume'] as const).forEach(dataType => {
+      const typePath = `$.data.${dataType}`
+      const section = (data.data as Json)[dataType]
+      if (!c.object(section, typePath)) return
+      const matrixPath = `${typePath}.geography_segment_matrix`
+      if (!c.array(section.geography_segment_matrix, matrixPath)) return
+
+      section.geography_segment_matrix.forEach((record, i) => {
+        validateDataRecord(c, record, `${matrixPath}[${i}]`, years, allGeographies, segmentTypes)
+      })
+    })
+  }
+
+  return c.issues
+}
+
+function validateDataRecord(
+  c: IssueCollector,
+  record: unknown,
+  path: string,
+  years: number[],
+  allGeographies: Set<string> | null,
+  segmentTypes: Set<string> | null
+) {
+  if (!c.object(record, path)) return
+
+  if (c.string(record.geography, `${path}.geography`) && allGeographies && !allGeographies.has(record.geography)) {
+    c.warn(`${path}.geography`, `'${record.geography}' is not listed in dimensions.geographies.all_geographies`)
+  }
+  c.oneOf(record.geography_level, GEOGRAPHY_LEVELS, `${path}.geography_level`)
+  c.string(record.parent_geography, `${path}.parent_geography`, { nullable: true })
+
+  if (c.string(record.segment_type, `${path}.segment_type`) && segmentTypes && !segmentTypes.has(record.segment_type)) {
+    c.error(`${path}.segment_type`, `'${record.segment_type}' is not a key of dimensions.segments`)
+  }
+  c.string(record.segment, `${path}.segment`)
+  c.oneOf(record.segment_level, SEGMENT_LEVELS, `${path}.segment_level`)
+
+  if (c.object(record.segment_hierarchy, `${path}.segment_hierarchy`)) {
+    const hierarchy = record.segment_hierarchy
+    ;(['level_1', 'level_2', 'level_3', 'level_4'] as const).forEach(level => {
+      c.string(hierarchy[level], `${path}.segment_hierarchy.${level}`, { allowEmpty: true })
+    })
+  }
+
+  if (c.object(record.time_series, `${path}.time_series`)) {
+    const timeSeries = record.time_series
+    years.forEach(year => {
+      const value = timeSeries[year]
+      if (value === undefined) {
+        c.error(`${path}.time_series`, `missing year ${year}`)
+      } else if (c.number(value, `${path}.time_series["${year}"]`) && value < 0) {
+        c.warn(`${path}.time_series["${year}"]`, `negative value ${value}`)
+      }
+    })
+    Object.keys(timeSeries).forEach(year => {
+      if (years.length > 0 && !years.includes(Number(year))) {
+        c.warn(`${path}.time_series["${year}"]`, `year ${year} is not in metadata.years`)
+      }
+    })
+  }
+
+  c.number(record.cagr, `${path}.cagr`)
+  c.number(record.market_share, `${path}.market_share`)
+}
+
+/**
+ * Validate a CompetitiveIntelligenceData document
+ */
+export function validateCompetitiveIntelligenceData(data: unknown): ValidationIssue[] {
+  const c = new IssueCollector()
+  if (!c.object(data, '$')) return c.issues
+
+  let declaredCompanies: number | null = null
+  if (c.object(data.metadata, '$.metadata')) {
+    const metadata = data.metadata
+    c.string(metadata.market, '$.metadata.market')
+    c.number(metadata.year, '$.metadata.year')
+    c.string(metadata.currency, '$.metadata.currency')
+    c.string(metadata.revenue_unit, '$.metadata.revenue_unit')
+    if (c.number(metadata.total_companies, '$.metadata.total_companies')) {
+      declaredCompanies = metadata.total_companies
+    }
+  }
+
+  if (c.array(data.companies, '$.companies')) {
+    const ids = new Set<string>()
+    data.companies.forEach((company, i) => {
+      const path = `$.companies[${i}]`
+      if (!c.object(company, path)) return
+      if (c.string(company.id, `${path}.id`)) {
+        if (ids.has(company.id)) c.error(`${path}.id`, `duplicate id '${company.id}'`)
+        ids.add(company.id)
+      }
+      c.string(company.name, `${path}.name`)
+      ;(['headquarters', 'ceo', 'portfolio', 'regionalStrength'] as const).forEach(field => {
+        c.string(company[field], `${path}.${field}`, { allowEmpty: true })
+      })
+      c.number(company.yearEstablished, `${path}.yearEstablished`)
+      c.stringArray(company.strategies, `${path}.strategies`)
+      c.number(company.overallRevenue, `${path}.overallRevenue`)
+      c.number(company.segmentalRevenue, `${path}.segmentalRevenue`)
+      if (c.number(company.marketShare, `${path}.marketShare`) && (company.marketShare < 0 || company.marketShare > 100)) {
+        c.error(`${path}.marketShare`, `${company.marketShare} is outside 0-100`)
+      }
+    })
+    if (declaredCompanies !== null && declaredCompanies !== data.companies.length) {
+      c.warn('$.metadata.total_companies', `declares ${declaredCompanies} companies but $.companies has ${data.companies.length}`)
+    }
+  }
+
+  if (c.array(data.market_share_data, '$.market_share_data')) {
+    let total = 0
+    data.market_share_data.forEach((entry, i) => {
+      const path = `$.market_share_data[${i}]`
+      if (!c.object(entry, path)) return
+      c.string(entry.company, `${path}.company`)
+      if (c.number(entry.marketShare, `${path}.marketShare`)) total += entry.marketShare
+      c.string(entry.color, `${path}.color`)
+    })
+    if (data.market_share_data.length > 0 && Math.abs(total - 100) > 1) {
+      c.warn('$.market_share_data', `market shares sum to ${total.toFixed(1)}%, expected 100%`)
+    }
+  }
+
+  return c.issues
+}
+
+/**
+ * Validate a DistributorsIntelligenceData document
+ */
+export function validateDistributorsIntelligenceData(data: unknown): ValidationIssue[] {
+  const c = new IssueCollector()
+  if (!c.object(data, '$')) return c.issues
+
+  let modules: string[] = []
+  if (c.object(data.metadata, '$.metadata')) {
+    const metadata = data.metadata
+    if (c.stringArray(metadata.modules, '$.metadata.modules')) {
+      modules = metadata.modules
+    }
+    if (c.object(metadata.module_info, '$.metadata.module_info')) {
+      const moduleInfo = metadata.module_info
+      modules.forEach(module => {
+        const path = key('$.metadata.module_info', module)
+        const info = moduleInfo[module]
+        if (info === undefined) {
+          c.error(path, `missing info for module '${module}'`)
+          return
+        }
+        if (!c.object(info, path)) return
+        c.stringArray(info.sections, `${path}.sections`)
+        c.number(info.total_fields, `${path}.total_fields`)
+      })
+    }
+  }
+
+  if (c.object(data.data, '$.data')) {
+    const records = data.data
+    modules.forEach(module => {
+      const path = key('$.data', module)
+      if (!c.array(records[module], path)) return
+      records[module].forEach((distributor, i) => {
+        const itemPath = `${path}[${i}]`
+        if (!c.object(distributor, itemPath)) return
+        c.string(distributor.id, `${itemPath}.id`)
+        if (c.string(distributor.module, `${itemPath}.module`) && distributor.module !== module) {
+          c.warn(`${itemPath}.module`, `'${distributor.module}' does not match its section '${module}'`)
+        }
+        c.string(distributor.company_name, `${itemPath}.company_name`, { nullable: true })
+      })
+    })
+    Object.keys(records).forEach(module => {
+      if (!modules.includes(module)) {
+        c.warn(key('$.data', module), `module '${module}' is not listed in metadata.modules`)
+      }
+    })
+  }
+
+  if (c.object(data.sections, '$.sections')) {
+    const sections = data.sections
+    modules.forEach(module => {
+      const path = key('$.sections', module)
+      if (!c.object(sections[module], path)) return
+      Object.entries(sections[module] as Json).forEach(([section, fields]) => {
+        c.stringArray(fields, key(path, section))
+      })
+    })
+  }
+
+  return c.issues
+}
+
+/**
+ * Throw a DataValidationError when the issues contain at least one error
+ */
+export function assertValidData(source: DataSourceId, issues: ValidationIssue[]): void {
+  if (issues.some(issue => issue.severity === 'error')) {
+    throw new DataValidationError(source, issues)
+  }
+}
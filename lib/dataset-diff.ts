@@ -0,0 +1,205 @@
+/**
+ * Dataset Diff
+ * Compares two ComparisonData releases record by record
+ * Records are matched on geography + segment_type + segment
+ */
+
+import type { ComparisonData, DataRecord } from './types'
+import { parseMarketWorkbook } from './excel-importer'
+import { validateComparisonData, assertValidData } from './data-validator'
+import { withoutRollups } from './rollup'
+
+export type RecordDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface YearDelta {
+  year: number
+  before: number | null
+  after: number | null
+  delta: number
+  deltaPercent: number | null // null when the base value is 0 or missing
+}
+
+export interface RecordDiff {
+  key: string
+  geography: string
+  segment_type: string
+  segment: string
+  status: RecordDiffStatus
+  years: YearDelta[]
+  cagr: { before: number | null; after: number | null; delta: number }
+  marketShare: { before: number | null; after: number | null; delta: number }
+  largestRevision: YearDelta | null // Year with the biggest relative (or absolute, if no base) change
+}
+
+export interface DatasetDiff {
+  dataType: 'value' | 'volume'
+  years: number[]
+  records: RecordDiff[]
+  summary: Record<RecordDiffStatus, number>
+}
+
+export interface DiffOptions {
+  tolerance?: number // Absolute differences at or below this are treated as unchanged
+}
+
+/**
+ * Key used to match the same record across releases
+ */
+export function getRecordKey(record: Pick<DataRecord, 'geography' | 'segment_type' | 'segment'>): string {
+  return `${record.geography}::${record.segment_type}::${record.segment}`
+}
+
+function indexRecords(records: DataRecord[]): Map<string, DataRecord> {
+  const index = new Map<string, DataRecord>()
+  records.forEach(record => {
+    const key = getRecordKey(record)
+    if (!index.has(key)) index.set(key, record)
+  })
+  return index
+}
+
+function valueDelta(before: number | null, after: number | null): number {
+  return (after ?? 0) - (before ?? 0)
+}
+
+function isRevision(delta: YearDelta, current: YearDelta | null): boolean {
+  if (!current) return true
+  if (delta.deltaPercent !== null && current.deltaPercent !== null) {
+    return Math.abs(delta.deltaPercent) > Math.abs(current.deltaPercent)
+  }
+  if (delta.deltaPercent === null && current.deltaPercent === null) {
+    return Math.abs(delta.delta) > Math.abs(current.delta)
+  }
+  // A value appearing from zero outranks any relative change
+  return delta.deltaPercent === null
+}
+
+function diffRecord(
+  key: string,
+  before: DataRecord | undefined,
+  after: DataRecord | undefined,
+  years: number[],
+  tolerance: number
+): RecordDiff {
+  const reference = (after ?? before)!
+
+  let largestRevision: YearDelta | null = null
+  const yearDeltas = years.map(year => {
+    const beforeValue = before ? before.time_series[year] ?? null : null
+    const afterValue = after ? after.time_series[year] ?? null : null
+    const delta = valueDelta(beforeValue, afterValue)
+    const yearDelta: YearDelta = {
+      year,
+      before: beforeValue,
+      after: afterValue,
+      delta,
+      deltaPercent: beforeValue ? (delta / beforeValue) * 100 : null
+    }
+    if (Math.abs(delta) > tolerance && isRevision(yearDelta, largestRevision)) {
+      largestRevision = yearDelta
+    }
+    return yearDelta
+  })
+
+  const cagr = {
+    before: before?.cagr ?? null,
+    after: after?.cagr ?? null,
+    delta: valueDelta(before?.cagr ?? null, after?.cagr ?? null)
+  }
+  const marketShare = {
+    before: before?.market_share ?? null,
+    after: after?.market_share ?? null,
+    delta: valueDelta(before?.market_share ?? null, after?.market_share ?? null)
+  }
+
+  let status: RecordDiffStatus
+  if (!before) {
+    status = 'added'
+  } else if (!after) {
+    status = 'removed'
+  } else if (
+    largestRevision ||
+    Math.abs(cagr.delta) > tolerance ||
+    Math.abs(marketShare.delta) > tolerance
+  ) {
+    status = 'changed'
+  } else {
+    status = 'unchanged'
+  }
+
+  return {
+    key,
+    geography: reference.geography,
+    segment_type: reference.segment_type,
+    segment: reference.segment,
+    status,
+    years: yearDeltas,
+    cagr,
+    marketShare,
+    largestRevision
+  }
+}
+
+/**
+ * Diff two releases of the same market for one data type
+ * @param base - The previously published release
+ * @param revised - The new release
+ */
+export function diffComparisonData(
+  base: ComparisonData,
+  revised: ComparisonData,
+  dataType: 'value' | 'volume' = 'value',
+  options: DiffOptions = {}
+): DatasetDiff {
+  const tolerance = options.tolerance ?? 1e-9
+  // Roll-up records are derived, so only published records are compared
+  const beforeIndex = indexRecords(withoutRollups(base.data[dataType].geography_segment_matrix))
+  const afterIndex = indexRecords(withoutRollups(revised.data[dataType].geography_segment_matrix))
+  const years = [...new Set([...base.metadata.years, ...revised.metadata.years])].sort((a, b) => a - b)
+
+  const keys = [...new Set([...beforeIndex.keys(), ...afterIndex.keys()])]
+  const records = keys.map(key => diffRecord(key, beforeIndex.get(key), afterIndex.get(key), years, tolerance))
+
+  const summary: Record<RecordDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  records.forEach(record => {
+    summary[record.status]++
+  })
+
+  console.log('🔍 Dataset diff:', { dataType, ...summary })
+
+  return { dataType, years, records, summary }
+}
+
+/**
+ * Changed records ordered by the size of their largest relative revision
+ */
+export function getLargestRevisions(diff: DatasetDiff, limit: number = 20): RecordDiff[] {
+  return diff.records
+    .filter(record => record.status === 'changed' && record.largestRevision)
+    .sort((a, b) => {
+      // Revisions from a zero base have no percentage and sort first
+      const aPercent = Math.abs(a.largestRevision!.deltaPercent ?? Number.MAX_VALUE)
+      const bPercent = Math.abs(b.largestRevision!.deltaPercent ?? Number.MAX_VALUE)
+      return bPercent - aPercent
+    })
+    .slice(0, limit)
+}
+
+/**
+ * Percentage change of one record in one year, for the revision heatmap
+ */
+export function getYearDeltaPercent(record: RecordDiff, year: number): number | null {
+  return record.years.find(y => y.year === year)?.deltaPercent ?? null
+}
+
+/**
+ * Read a release snapshot from a ComparisonData JSON file or a market workbook
+ * Throws DataValidationError when the snapshot is malformed
+ */
+export async function readSnapshotFile(file: File): Promise<ComparisonData> {
+  const data: unknown = /\.xlsx?$/i.test(file.name)
+    ? parseMarketWorkbook(await file.arrayBuffer())
+    : JSON.parse(await file.text())
+  assertValidData('comparison', validateComparisonData(data))
+  return data as ComparisonData
+}
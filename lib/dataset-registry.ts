@@ -0,0 +1,95 @@
+/**
+ * Dataset Registry
+ * Lists the markets the dashboard can switch between and where each market's files live
+ * The registry is read from DATASET_REGISTRY_URL; DEFAULT_DATASETS is used when that file is missing
+ */
+
+import type { ChartGroupId } from './chart-groups'
+import type { SyntheticDataOptions } from './synthetic-data'
+
+export interface MarketDataset {
+  id: string
+  name: string // Market name shown in the switcher and used as metadata.market_name
+  workbookUrl?: string // Market workbook (see excel-importer.ts); replaces generated data when present
+  dimensionsUrl?: string // Dimensions JSON merged into the generated data
+  competitiveUrl?: string // Competitive intelligence JSON
+  distributorsUrl?: string // Distributors intelligence JSON
+  synthetic?: Partial<SyntheticDataOptions> // Seeded generator settings (see synthetic-data.ts), used when there is no workbook
+}
+
+export const DATASET_REGISTRY_URL = '/jsons/datasets.json'
+
+export const DEFAULT_DATASETS: MarketDataset[] = [
+  {
+    id: 'india-spices',
+    name: 'India Spices Market',
+    workbookUrl: '/jsons/market-data.xlsx',
+    dimensionsUrl: '/jsons/india-spices-dimensions.json',
+    competitiveUrl: '/jsons/competitive-intelligence.json',
+    distributorsUrl: '/jsons/distributors-intelligence.json'
+  }
+]
+
+function isMarketDataset(value: unknown): value is MarketDataset {
+  if (typeof value !== 'object' || value === null) return false
+  const entry = value as Record<string, unknown>
+  const optionalUrls = ['workbookUrl', 'dimensionsUrl', 'competitiveUrl', 'distributorsUrl']
+  return typeof entry.id === 'string' && entry.id !== '' &&
+    typeof entry.name === 'string' && entry.name !== '' &&
+    optionalUrls.every(key => entry[key] === undefined || typeof entry[key] === 'string') &&
+    (entry.synthetic === undefined || (typeof entry.synthetic === 'object' && entry.synthetic !== null))
+}
+
+/**
+ * Load the dataset registry, falling back to DEFAULT_DATASETS
+ */
+export async function loadDatasetRegistry(url: string = DATASET_REGISTRY_URL): Promise<MarketDataset[]> {
+  try {
+    const response = await fetch(url, {
+      cache: 'no-cache',
+      headers: {
+        'Accept': 'application/json',
+      }
+    })
+    if (!response.ok) {
+      return DEFAULT_DATASETS
+    }
+
+    const text = await response.text()
+    if (text.startsWith('<!DOCTYPE') || text.startsWith('<html')) {
+      return DEFAULT_DATASETS
+    }
+
+    const parsed = JSON.parse(text)
+    const entries: unknown[] = Array.isArray(parsed?.datasets) ? parsed.datasets : []
+    const datasets = entries.filter(isMarketDataset)
+    if (datasets.length < entries.length) {
+      console.warn(`⚠️ Ignored ${entries.length - datasets.length} malformed dataset registry entries`)
+    }
+
+    console.log('✅ Loaded dataset registry:', datasets.map(d => d.id))
+    return datasets.length > 0 ? datasets : DEFAULT_DATASETS
+  } catch (error) {
+    console.warn('Could not load dataset registry, using default dataset:', error)
+    return DEFAULT_DATASETS
+  }
+}
+
+/**
+ * Find a dataset by id, defaulting to the first registered dataset
+ */
+export function findDataset(datasets: MarketDataset[], id: string | null): MarketDataset | null {
+  return datasets.find(dataset => dataset.id === id) ?? datasets[0] ?? null
+}
+
+/**
+ * Chart groups with no data for a dataset
+ * Competitive and distributor views are hidden for markets without those files
+ */
+export function getUnavailableChartGroups(dataset: MarketDataset | null): ChartGroupId[] {
+  if (!dataset) return []
+  const unavailable: ChartGroupId[] = []
+  if (!dataset.competitiveUrl) unavailable.push('competitive-intelligence')
+  if (!dataset.distributorsUrl) unavailable.push('distributor-intelligence')
+  return unavailable
+}
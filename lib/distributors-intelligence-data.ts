@@ -3,6 +3,9 @@
  * Handles data loading and processing for Distributors Intelligence Database
  */
 
+import { validateDistributorsIntelligenceData, assertValidData, DataValidationError, type ValidationIssue } from './data-validator'
+import type { MarketDataset } from './dataset-registry'
+
 // Base distributor interface (Module 1 - Standard)
 export interface BaseDistributor {
   id: string
@@ -88,20 +91,33 @@ export interface DistributorsIntelligenceData {
   }
 }
 
-let cachedData: DistributorsIntelligenceData | null = null
+// Loaded files by URL, with the validator's issues so a cached load can report them again
+const cachedData = new Map<string, { data: DistributorsIntelligenceData; issues: ValidationIssue[] }>()
 
 /**
- * Load distributors intelligence data from JSON file
+ * Load distributors intelligence data from a market's JSON file
+ * onIssues receives the validator's issues for the file, also when it was loaded before
  */
-export async function loadDistributorsIntelligenceData(): Promise<DistributorsIntelligenceData | null> {
-  if (cachedData) {
-    return cachedData
+export async function loadDistributorsIntelligenceData(
+  dataset: MarketDataset | null,
+  onIssues?: (issues: ValidationIssue[]) => void
+): Promise<DistributorsIntelligenceData | null> {
+  const fileUrl = dataset?.distributorsUrl
+  if (!fileUrl) {
+    console.warn('⚠️ No distributors intelligence file registered for the selected market')
+    return null
+  }
+
+  const cached = cachedData.get(fileUrl)
+  if (cached) {
+    onIssues?.(cached.issues)
+    return cached.data
   }
 
   try {
     // Load from JSON file with cache busting
     const timestamp = new Date().getTime()
-    const url = `/jsons/distributors-intelligence.json?t=${timestamp}`
+    const url = `${fileUrl}?t=${timestamp}`
     console.log('🔍 Attempting to fetch distributors data from URL:', url)
 
     const response = await fetch(url, {
@@ -126,8 +142,13 @@ export async function loadDistributorsIntelligenceData(): Promise<DistributorsIn
       throw new Error('Received HTML instead of JSON - file may not exist at this path')
     }
 
-    const data: DistributorsIntelligenceData = JSON.parse(text)
-    cachedData = data
+    const parsed: unknown = JSON.parse(text)
+    const issues = validateDistributorsIntelligenceData(parsed)
+    onIssues?.(issues)
+    assertValidData('distributors-intelligence', issues)
+
+    const data = parsed as DistributorsIntelligenceData
+    cachedData.set(fileUrl, { data, issues })
 
     console.log('✅ Loaded distributors intelligence data:', {
       modules: data.metadata.modules,
@@ -143,6 +164,9 @@ export async function loadDistributorsIntelligenceData(): Promise<DistributorsIn
       console.error('❌ Error message:', error.message)
       console.error('❌ Error stack:', error.stack)
     }
+    if (error instanceof DataValidationError) {
+      console.error('❌ Validation issues:', error.issues)
+    }
     return null
   }
 }
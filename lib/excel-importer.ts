@@ -0,0 +1,418 @@
+/**
+ * Excel Workbook Importer
+ * Parses the market sizing workbook layout (Parameters, Region, Segmentation,
+ * Master Sheet-Value, Master Sheet-Volume) into ComparisonData
+ */
+
+import * as XLSX from 'xlsx'
+import type {
+  ComparisonData,
+  DataRecord,
+  GeographyDimension,
+  Metadata,
+  SegmentDimension,
+  SegmentHierarchy
+} from './types'
+
+export const WORKBOOK_SHEETS = {
+  parameters: 'Parameters',
+  region: 'Region',
+  segmentation: 'Segmentation',
+  value: 'Master Sheet-Value',
+  volume: 'Master Sheet-Volume'
+} as const
+
+type Cell = string | number | boolean | null
+type SheetRow = Cell[]
+
+interface SegmentationResult {
+  segments: Record<string, SegmentDimension>
+  // segment type -> segment name -> full path from the root of the hierarchy
+  paths: Record<string, Map<string, string[]>>
+  // segment type -> full paths (joined with ' > ') that have children
+  parentPaths: Record<string, Set<string>>
+}
+
+function getSheet(workbook: XLSX.WorkBook, sheetName: string): XLSX.WorkSheet {
+  const sheet = workbook.Sheets[sheetName]
+  if (!sheet) {
+    throw new Error(`Workbook is missing the "${sheetName}" sheet`)
+  }
+  return sheet
+}
+
+// With blankrows, row i of the result is row i of the sheet's range, so cells can be looked up by position
+function readSheetRows(workbook: XLSX.WorkBook, sheetName: string, blankrows: boolean = false): SheetRow[] {
+  return XLSX.utils.sheet_to_json<SheetRow>(getSheet(workbook, sheetName), { header: 1, defval: null, blankrows })
+}
+
+// Whether a cell's number format shows it as a percentage, so 0.004 means 0.4%
+function isPercentCell(sheet: XLSX.WorkSheet, row: number, col: number): boolean {
+  const range = XLSX.utils.decode_range(sheet['!ref'] || 'A1')
+  const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r: range.s.r + row, c: range.s.c + col })]
+  return cell?.t === 'n' && typeof cell.z === 'string' && cell.z.includes('%')
+}
+
+function cellText(cell: Cell | undefined): string {
+  if (cell === null || cell === undefined) return ''
+  return String(cell).trim()
+}
+
+function cellNumber(cell: Cell | undefined): number | null {
+  if (cell === null || cell === undefined || cell === '') return null
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null
+  const parsed = parseFloat(String(cell).replace(/[,%]/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function isYes(cell: Cell | undefined): boolean {
+  return cellText(cell).toLowerCase() === 'yes'
+}
+
+/**
+ * Parse the "Parameters" sheet (label / value pairs) into Metadata
+ */
+function parseParameters(rows: SheetRow[]): Metadata {
+  const params = new Map<string, Cell>()
+  rows.forEach(row => {
+    const label = cellText(row[0]).toLowerCase()
+    if (label) params.set(label, row[1] ?? null)
+  })
+
+  const startYear = cellNumber(params.get('start year') ?? null)
+  const baseYear = cellNumber(params.get('base year') ?? null)
+  const forecastYear = cellNumber(params.get('forecast year') ?? null)
+
+  if (startYear === null || baseYear === null || forecastYear === null) {
+    throw new Error('Parameters sheet must define Start Year, Base Year and Forecast Year')
+  }
+
+  const years = Array.from({ length: forecastYear - startYear + 1 }, (_, i) => startYear + i)
+
+  return {
+    market_name: cellText(params.get('report title')) || 'Market',
+    market_type: cellText(params.get('market type')),
+    industry: cellText(params.get('industry type/domain')),
+    years,
+    start_year: startYear,
+    base_year: baseYear,
+    forecast_year: forecastYear,
+    historical_years: years.filter(year => year <= baseYear),
+    forecast_years: years.filter(year => year > baseYear),
+    currency: cellText(params.get('value currency')),
+    value_unit: cellText(params.get('value unit')),
+    volume_unit: cellText(params.get('volume unit')),
+    has_value: isYes(params.get('value')),
+    has_volume: isYes(params.get('volume'))
+  }
+}
+
+/**
+ * Parse the "Region" sheet into a GeographyDimension
+ * Each column header is a parent geography and the cells below it are its children.
+ * Headers that are nobody's child (e.g. "India") are treated as the global level.
+ */
+function parseRegions(rows: SheetRow[]): GeographyDimension {
+  const headers = (rows[0] || []).map(cellText)
+  const childrenByParent = new Map<string, string[]>()
+
+  headers.forEach((header, col) => {
+    if (!header) return
+    const children: string[] = []
+    rows.forEach((row, rowIndex) => {
+    if (rowIndex === 0) return
+      const child = cellText(row[col])
+      if (child) children.push(child)
+    })
+    childrenByParent.set(header, children)
+  })
+
+  const allChildren = new Set(Array.from(childrenByParent.values()).flat())
+  const global = headers.filter(header => header && !allChildren.has(header))
+  const regions = global.flatMap(name => childrenByParent.get(name) || [])
+
+  const countries: Record<string, string[]> = {}
+  regions.forEach(region => {
+    const children = childrenByParent.get(region)
+    if (children && children.length > 0) {
+      countries[region] = children
+    }
+  })
+
+  // Keep the sheet's row-major order for the lowest level, matching the dimensions JSON
+  const lowestLevel: string[] = []
+  rows.forEach((row, rowIndex) => {
+    if (rowIndex === 0) return
+    headers.forEach((header, col) => {
+      const name = cellText(row[col])
+      if (header && !global.includes(header) && name && !lowestLevel.includes(name)) {
+        lowestLevel.push(name)
+      }
+    })
+  })
+
+  return {
+    global,
+    regions,
+    countries,
+    all_geographies: Array.from(new Set([...global, ...regions, ...lowestLevel]))
+  }
+}
+
+/**
+ * Parse the "Segmentation" sheet
+ * Row 0 holds the segment types; each column lists its items with ">" depth markers
+ * (">B2B", ">>Food & Beverage", ">>>Foodservice / HoReCa", ...)
+ */
+function parseSegmentation(rows: SheetRow[]): SegmentationResult {
+  const result: SegmentationResult = { segments: {}, paths: {}, parentPaths: {} }
+  const headers = (rows[0] || []).map(cellText)
+
+  headers.forEach((segmentType, col) => {
+    // Column 0 only repeats the list of segment types
+    if (col === 0 || !segmentType) return
+
+    const items: string[] = []
+    const hierarchy: Record<string, string[]> = {}
+    const paths = new Map<string, string[]>()
+    const parentPaths = new Set<string>()
+    const stack: string[] = []
+    let maxDepth = 0
+
+    rows.forEach((row, rowIndex) => {
+    if (rowIndex === 0) return
+      const raw = cellText(row[col])
+      if (!raw) return
+
+      const depth = Math.max(1, (raw.match(/^>+/)?.[0].length) || 1)
+      const name = raw.replace(/^>+/, '').trim()
+      if (!name) return
+
+      stack.length = depth - 1
+      const parent = stack[stack.length - 1]
+      stack.push(name)
+      maxDepth = Math.max(maxDepth, depth)
+
+      if (!items.includes(name)) items.push(name)
+      if (!paths.has(name)) paths.set(name, [...stack])
+
+      if (parent) {
+        parentPaths.add(stack.slice(0, -1).join(' > '))
+        hierarchy[parent] = hierarchy[parent] || []
+        if (!hierarchy[parent].includes(name)) hierarchy[parent].push(name)
+      }
+    })
+
+    const dimension: SegmentDimension = {
+      type: maxDepth > 1 ? 'hierarchical' : 'flat',
+      items,
+      hierarchy
+    }
+
+    // Split B2B / B2C subtrees the same way the dimensions JSON does
+    ;(['B2B', 'B2C'] as const).forEach(businessType => {
+      if (!hierarchy[businessType]) return
+      const subtree: Record<string, string[]> = {}
+      const queue = [businessType as string]
+      while (queue.length > 0) {
+        const node = queue.shift()!
+        const children = hierarchy[node]
+        if (children && !subtree[node]) {
+          subtree[node] = children
+          queue.push(...children)
+        }
+      }
+      if (businessType === 'B2B') dimension.b2b_hierarchy = subtree
+      else dimension.b2c_hierarchy = subtree
+    })
+
+    result.segments[segmentType] = dimension
+    result.paths[segmentType] = paths
+    result.parentPaths[segmentType] = parentPaths
+  })
+
+  return result
+}
+
+function buildSegmentHierarchy(path: string[]): SegmentHierarchy {
+  if (path.length === 1) {
+    return { level_1: '', level_2: '', level_3: '', level_4: path[0] }
+  }
+  return {
+    level_1: path[0] || '',
+    level_2: path[1] || '',
+    level_3: path[2] || '',
+    level_4: path[path.length - 1] || ''
+  }
+}
+
+function calculateCAGR(startValue: number, endValue: number, periods: number): number {
+  if (startValue <= 0 || periods <= 0) return 0
+  return (Math.pow(endValue / startValue, 1 / periods) - 1) * 100
+}
+
+/**
+ * Parse a "Master Sheet" (value or volume) into DataRecords
+ * Columns: Geography | 1st level Segment | 2nd level Segment | <years...> | ... | CAGR | Market Share %
+ */
+function parseMasterSheet(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  metadata: Metadata,
+  geographies: GeographyDimension,
+  segmentation: SegmentationResult
+): DataRecord[] {
+  const sheet = getSheet(workbook, sheetName)
+  const rows = readSheetRows(workbook, sheetName, true)
+  const headers = (rows[0] || []).map(cellText)
+  const yearColumns = headers
+    .map((header, col) => ({ year: /^\d{4}$/.test(header) ? parseInt(header, 10) : NaN, col }))
+    .filter(({ year }) => !Number.isNaN(year))
+  const cagrCol = headers.findIndex(header => header.toLowerCase().startsWith('cagr'))
+  const shareCol = headers.findIndex(header => header.toLowerCase().includes('market share'))
+
+  // "CAGR (2025-2032)" - fall back to the period in the header when a row has no CAGR value
+  const cagrPeriod = cagrCol >= 0 ? headers[cagrCol].match(/(\d{4})\s*-\s*(\d{4})/) : null
+  const cagrStart = cagrPeriod ? parseInt(cagrPeriod[1], 10) : metadata.base_year
+  const cagrEnd = cagrPeriod ? parseInt(cagrPeriod[2], 10) : metadata.forecast_year
+
+  const seen = new Set<string>()
+  const records: DataRecord[] = []
+
+  rows.forEach((row, rowIndex) => {
+    if (rowIndex === 0) return
+    const geography = cellText(row[0])
+    const segmentType = cellText(row[1])
+    const segmentName = cellText(row[2])
+    if (!geography || !segmentType || !segmentName) return
+
+    // Geography total rows ("India" | "North India" | "North India") are derivable, skip them
+    if (segmentType === segmentName && !segmentation.segments[segmentType]) {
+      return
+    }
+
+    const path = segmentation.paths[segmentType]?.get(segmentName) || [segmentName]
+    const segment = path.join(' > ')
+
+    // The template repeats some rows verbatim - keep the first occurrence
+    const key = `${geography}::${segmentType}::${segment}`
+    if (seen.has(key)) return
+    seen.add(key)
+
+    const timeSeries: Record<number, number> = {}
+    yearColumns.forEach(({ year, col }) => {
+      timeSeries[year] = cellNumber(row[col]) ?? 0
+    })
+
+    const cagr = (cagrCol >= 0 ? cellNumber(row[cagrCol]) : null)
+      ?? calculateCAGR(timeSeries[cagrStart] || 0, timeSeries[cagrEnd] || 0, cagrEnd - cagrStart)
+
+    let marketShare = (shareCol >= 0 ? cellNumber(row[shareCol]) : null) ?? 0
+    // Percent-formatted cells come through as fractions
+    if (shareCol >= 0 && isPercentCell(sheet, rowIndex, shareCol)) {
+      marketShare *= 100
+    }
+
+    const geographyLevel: DataRecord['geography_level'] =
+      geographies.global.includes(geography) ? 'global' :
+      geographies.regions.includes(geography) ? 'region' :
+      Object.values(geographies.countries).some(children => children.includes(geography)) ? 'country' :
+      'unknown'
+
+    const parentGeography =
+      geographyLevel === 'region' ? geographies.global[0] || null :
+      geographyLevel === 'country'
+        ? Object.entries(geographies.countries).find(([, children]) => children.includes(geography))?.[0] || null
+        : null
+
+    records.push({
+      geography,
+      geography_level: geographyLevel,
+      parent_geography: parentGeography,
+      segment_type: segmentType,
+      segment,
+      segment_level: segmentation.parentPaths[segmentType]?.has(segment) ? 'parent' : 'leaf',
+      segment_hierarchy: buildSegmentHierarchy(path),
+      time_series: timeSeries,
+      cagr,
+      market_share: marketShare
+    })
+  })
+
+  return records
+}
+
+/**
+ * Parse a market workbook into ComparisonData
+ * @param input - Raw workbook contents (e.g. from fetch().arrayBuffer() or a File)
+ */
+export function parseMarketWorkbook(input: ArrayBuffer): ComparisonData {
+  const workbook = XLSX.read(input, { type: 'array', cellNF: true }) // Number formats mark percentage cells
+
+  const metadata = parseParameters(readSheetRows(workbook, WORKBOOK_SHEETS.parameters))
+  const geographies = parseRegions(readSheetRows(workbook, WORKBOOK_SHEETS.region))
+  const segmentation = parseSegmentation(readSheetRows(workbook, WORKBOOK_SHEETS.segmentation))
+
+  const valueRecords = metadata.has_value && workbook.Sheets[WORKBOOK_SHEETS.value]
+    ? parseMasterSheet(workbook, WORKBOOK_SHEETS.value, metadata, geographies, segmentation)
+    : []
+  const volumeRecords = metadata.has_volume && workbook.Sheets[WORKBOOK_SHEETS.volume]
+    ? parseMasterSheet(workbook, WORKBOOK_SHEETS.volume, metadata, geographies, segmentation)
+    : []
+
+  // Segment types used in the master sheets but missing from the Segmentation sheet become flat dimensions
+  const segments = { ...segmentation.segments }
+  ;[...valueRecords, ...volumeRecords].forEach(record => {
+    if (!segments[record.segment_type]) {
+      segments[record.segment_type] = { type: 'flat', items: [], hierarchy: {} }
+    }
+    const dimension = segments[record.segment_type]
+    if (!segmentation.segments[record.segment_type] && !dimension.items.includes(record.segment)) {
+      dimension.items.push(record.segment)
+    }
+  })
+
+  // Geographies that only appear in the master sheets are kept so they can still be filtered
+  const allGeographies = new Set(geographies.all_geographies)
+  ;[...valueRecords, ...volumeRecords].forEach(record => allGeographies.add(record.geography))
+
+  return {
+    metadata,
+    dimensions: {
+      geographies: { ...geographies, all_geographies: Array.from(allGeographies) },
+      segments
+    },
+    data: {
+      value: { geography_segment_matrix: valueRecords },
+      volume: { geography_segment_matrix: volumeRecords }
+    }
+  }
+}
+
+/**
+ * Fetch and parse a market workbook
+ * Returns null when the workbook does not exist at the given URL
+ */
+export async function loadMarketWorkbook(url: string): Promise<ComparisonData | null> {
+  const response = await fetch(url, { cache: 'no-cache' })
+  if (!response.ok) {
+    return null
+  }
+
+  const contentType = response.headers.get('content-type') || ''
+  if (contentType.includes('text/html')) {
+    return null
+  }
+
+  const data = parseMarketWorkbook(await response.arrayBuffer())
+
+  console.log('✅ Imported market workbook:', {
+    url,
+    market: data.metadata.market_name,
+    valueRecords: data.data.value.geography_segment_matrix.length,
+    volumeRecords: data.data.volume.geography_segment_matrix.length,
+    segmentTypes: Object.keys(data.dimensions.segments)
+  })
+
+  return data
+}
@@ -40,6 +40,14 @@ export async function exportChartAsPNG(
   }
 }
 
+/**
+ * CSV row naming the active currency conversion (see describeConversion), placed above the headers;
+ * none when values are shown as sourced
+ */
+export function getConversionNoteRows(note: string | null): string[][] {
+  return note ? [[`"${note.replace(/"/g, '""')}"`]] : []
+}
+
 /**
  * Generate PDF report with all charts
  */
@@ -97,7 +105,7 @@ export async function generatePDFReport(
     }
     
     // Capture charts if they exist
-    const chartIds = ['grouped-bar-chart', 'line-chart', 'heatmap-chart', 'comparison-table']
+    const chartIds = ['grouped-bar-chart', 'line-chart', 'heatmap-chart', 'comparison-table', 'tornado-chart']
     let currentPage = 1
     
     for (const chartId of chartIds) {
@@ -186,6 +194,7 @@ function getChartTitle(chartId: string): string {
     'line-chart': 'Trend Analysis Over Time',
     'heatmap-chart': 'Matrix Heatmap Comparison',
     'comparison-table': 'Detailed Data Table',
+    'tornado-chart': 'Forecast Sensitivity (Tornado)',
   }
   return titles[chartId] || 'Chart'
 }
@@ -202,6 +211,7 @@ export async function exportCurrentView(): Promise<void> {
     'line': 'line-chart',
     'heatmap': 'heatmap-chart',
     'table': 'comparison-table',
+    'tornado': 'tornado-chart',
   }
   
   const chartId = activeTab ? chartMap[activeTab] : null
@@ -0,0 +1,139 @@
+/**
+ * Filter History
+ * Undo/redo stack of the dashboard view: the filters and the chart group
+ * - Filter changes, applied presets and chart group changes add an entry; changes that leave the view as it was don't
+ * - A change after undoing drops the entries that could have been redone
+ * - Quick repeated changes of the same filters (e.g. dragging the year slider) update one entry instead of adding many
+ * - The stack keeps the last MAX_HISTORY_ENTRIES entries and starts over when a dataset is loaded
+ * describeViewChange lists what differs between two entries in words, for the timeline
+ */
+
+import type { FilterState } from './types'
+import { getChartGroup, type ChartGroupId } from './chart-groups'
+import { SHARE_REFERENCE_LABELS } from './market-share'
+
+export interface HistoryEntry {
+  filters: FilterState
+  chartGroup: ChartGroupId
+  label: string | null // Names the action, e.g. "Preset: Top Markets"; null for plain filter changes
+  timestamp: number
+}
+
+export interface FilterHistory {
+  entries: HistoryEntry[] // Oldest first
+  index: number // Entry shown
+}
+
+export const MAX_HISTORY_ENTRIES = 50
+
+// Changes of the same filters within this many milliseconds share an entry
+const MERGE_WINDOW_MS = 1000
+
+const SEGMENT_SEPARATOR = ' > '
+
+// Items listed in a change before the rest are counted
+const MAX_LISTED_ITEMS = 3
+
+const VIEW_MODE_LABELS: Record<FilterState['viewMode'], string> = {
+  'segment-mode': 'Segment mode',
+  'geography-mode': 'Geography mode',
+  matrix: 'Matrix'
+}
+
+const GROWTH_PERIOD_LABELS: Record<FilterState['growthPeriod'], string> = {
+  selected: 'Selected years',
+  historical: 'Historical',
+  forecast: 'Forecast'
+}
+
+/**
+ * History holding only the current view, e.g. after loading a dataset
+ */
+export function createFilterHistory(filters: FilterState, chartGroup: ChartGroupId): FilterHistory {
+  return { entries: [{ filters, chartGroup, label: null, timestamp: Date.now() }], index: 0 }
+}
+
+// Same filters and chart group
+function isSameView(a: Pick<HistoryEntry, 'filters' | 'chartGroup'>, b: Pick<HistoryEntry, 'filters' | 'chartGroup'>): boolean {
+  return a.chartGroup === b.chartGroup && JSON.stringify(a.filters) === JSON.stringify(b.filters)
+}
+
+// Filters (and the chart group) that differ between two views
+function getChangedFields(a: Pick<HistoryEntry, 'filters' | 'chartGroup'>, b: Pick<HistoryEntry, 'filters' | 'chartGroup'>): string[] {
+  const fields = (Object.keys(b.filters) as Array<keyof FilterState>)
+    .filter(key => JSON.stringify(a.filters[key]) !== JSON.stringify(b.filters[key]))
+  return a.chartGroup === b.chartGroup ? fields : [...fields, 'chartGroup']
+}
+
+/**
+ * Add the view after a change, dropping any redo entries; unchanged views leave the history as it is
+ */
+export function pushHistory(
+  history: FilterHistory,
+  filters: FilterState,
+  chartGroup: ChartGroupId,
+  label: string | null = null
+): FilterHistory {
+  const current = history.entries[history.index]
+  if (current && isSameView(current, { filters, chartGroup })) return history
+
+  // A quick follow-up to an unlabelled change of the same filters replaces it
+  const previous = history.entries[history.index - 1]
+  if (current && previous && !label && !current.label && Date.now() - current.timestamp < MERGE_WINDOW_MS &&
+    getChangedFields(previous, current).join() === getChangedFields(current, { filters, chartGroup }).join()) {
+    const entries = [...history.entries.slice(0, history.index), { filters, chartGroup, label, timestamp: Date.now() }]
+    return isSameView(previous, { filters, chartGroup })
+      ? { entries: entries.slice(0, -1), index: history.index - 1 } // Back where it started
+      : { entries, index: history.index }
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), { filters, chartGroup, label, timestamp: Date.now() }]
+    .slice(-MAX_HISTORY_ENTRIES)
+  return { entries, index: entries.length - 1 }
+}
+
+// Last part of a segment path, which names it
+function shortSegment(segment: string): string {
+  return segment.split(SEGMENT_SEPARATOR).pop() ?? segment
+}
+
+// "+A, +B, −C and 2 more"
+function describeListChange(before: string[], after: string[], format: (item: string) => string = item => item): string | null {
+  const added = after.filter(item => !before.includes(item)).map(item => `+${format(item)}`)
+  const removed = before.filter(item => !after.includes(item)).map(item => `−${format(item)}`)
+  const changes = [...added, ...removed]
+  if (changes.length === 0) return null
+  const listed = changes.slice(0, MAX_LISTED_ITEMS).join(', ')
+  return changes.length > MAX_LISTED_ITEMS ? `${listed} and ${changes.length - MAX_LISTED_ITEMS} more` : listed
+}
+
+/**
+ * What changed from one view to the next, one line per filter, e.g. "Years: 2020–2032 → 2024–2030"
+ */
+export function describeViewChange(
+  before: Pick<HistoryEntry, 'filters' | 'chartGroup'>,
+  after: Pick<HistoryEntry, 'filters' | 'chartGroup'>
+): string[] {
+  const a = before.filters
+  const b = after.filters
+  const changes: string[] = []
+  const changed = <T>(from: T, to: T, name: string, label: (value: T) => string = String) => {
+    if (from !== to) changes.push(`${name}: ${label(from)} → ${label(to)}`)
+  }
+
+  changed(before.chartGroup, after.chartGroup, 'Chart group', id => getChartGroup(id)?.label ?? id)
+  changed(a.viewMode, b.viewMode, 'View', mode => VIEW_MODE_LABELS[mode])
+  changed(a.segmentType, b.segmentType, 'Segment type')
+  const geographies = describeListChange(a.geographies, b.geographies)
+  if (geographies) changes.push(`Geographies: ${geographies}`)
+  const segments = describeListChange(a.segments, b.segments, shortSegment)
+  if (segments) changes.push(`Segments: ${segments}`)
+  changed(a.yearRange.join('–'), b.yearRange.join('–'), 'Years')
+  changed(a.dataType, b.dataType, 'Data type')
+  changed(a.businessType, b.businessType, 'Business type')
+  changed(a.includeDescendants, b.includeDescendants, 'Sub-geographies', on => (on ? 'included' : 'not included'))
+  changed(a.growthPeriod, b.growthPeriod, 'Growth period', period => GROWTH_PERIOD_LABELS[period])
+  changed(a.shareReference, b.shareReference, 'Share of', reference => SHARE_REFERENCE_LABELS[reference])
+
+  return changes
+}
@@ -0,0 +1,241 @@
+/**
+ * Filter Params
+ * Default filters for a dataset, and reading a FilterState from URL query parameters or a JSON body
+ *
+ * Query format:
+ *   ?geography=India&geography=North%20India&segment=B2B%20%3E%20Food%20%26%20Beverage
+ *   &segmentType=By%20End-Use*Product%20Type&startYear=2020&endYear=2032
+ *   &dataType=value&viewMode=segment-mode&businessType=B2B&includeDescendants=true&growthPeriod=forecast
+ *   &shareReference=parent-segment
+ */
+
+import type { ComparisonData, FilterState } from './types'
+
+export interface FilterParseResult {
+  filters: FilterState
+  errors: string[]
+}
+
+const DATA_TYPES: FilterState['dataType'][] = ['value', 'volume', 'price']
+const VIEW_MODES: FilterState['viewMode'][] = ['segment-mode', 'geography-mode', 'matrix']
+const BUSINESS_TYPES: FilterState['businessType'][] = ['B2B', 'B2C']
+const GROWTH_PERIODS: FilterState['growthPeriod'][] = ['selected', 'historical', 'forecast']
+const SHARE_REFERENCES: FilterState['shareReference'][] = ['geography', 'parent-segment', 'business-type', 'market']
+
+// Helper function to get default filters based on data
+export function getDefaultFilters(data: ComparisonData | null): FilterState {
+  // Get first segment type from dimensions that has records (a workbook's Segmentation sheet
+  // may list types its master sheets don't fill), or use fallback
+  const segmentTypes = Object.keys(data?.dimensions?.segments ?? {})
+  const recordedTypes = new Set(data?.data.value.geography_segment_matrix.map(record => record.segment_type))
+  const firstSegmentType = data?.dimensions?.segments
+    ? segmentTypes.find(segmentType => recordedTypes.has(segmentType)) ?? segmentTypes[0]
+    : 'By Drug Class'
+  
+  // Get year range from metadata, or use defaults
+  const startYear = data?.metadata?.start_year || 2020
+  const baseYear = data?.metadata?.base_year || 2024
+  const forecastYear = data?.metadata?.forecast_year || 2032
+  
+  // Set default geographies - empty for segment-mode, Delhi and Haryana for geography-mode
+  let defaultGeographies: string[] = []
+  // For segment-mode, we want to focus on segments across time, not specific geographies
+  // So we keep geographies empty by default
+  
+  // Set default segments based on segment type
+  let defaultSegments: string[] = []
+  if (data?.dimensions?.segments && firstSegmentType) {
+    const segmentDef = data.dimensions.segments[firstSegmentType]
+    
+    if (segmentDef) {
+      if (segmentDef.type === 'flat' && segmentDef.items && segmentDef.items.length > 0) {
+        // For flat structures, select only the first item (lowest level)
+        defaultSegments = [segmentDef.items[0]]
+      } else if (segmentDef.type === 'hierarchical' && firstSegmentType === 'By End-Use*Product Type') {
+        // Set default to just B2B > Food & Beverage to ensure we match data
+        defaultSegments = [
+          'B2B > Food & Beverage'
+        ]
+      } else if (segmentDef.type === 'hierarchical' && segmentDef.hierarchy) {
+        // For other hierarchical structures, get first few leaf items
+        const hierarchy = segmentDef.hierarchy
+        const allItems: string[] = []
+        
+        // Get all leaf items from hierarchy
+        Object.entries(hierarchy).forEach(([key, values]) => {
+          values.forEach(value => {
+            if (!hierarchy[value]) {
+              // This is a leaf item
+              allItems.push(`${key} > ${value}`)
+            }
+          })
+        })
+        
+        // Select only the first leaf item (lowest level)
+        defaultSegments = allItems.length > 0 ? [allItems[0]] : []
+      }
+    }
+  }
+  
+  return {
+    geographies: [], // Show all geographies by default
+    segments: ['B2B > Food & Beverage'], // Start with a broader segment
+    segmentType: firstSegmentType,
+    yearRange: [startYear, forecastYear], // Show all years
+    dataType: 'value',
+    viewMode: 'segment-mode',
+    businessType: 'B2B',
+    includeDescendants: false,
+    growthPeriod: 'selected',
+    shareReference: 'geography',
+  }
+}
+
+function parseYear(raw: string | null, name: string, errors: string[]): number | null {
+  if (raw === null || raw === '') return null
+  const year = Number(raw)
+  if (!Number.isInteger(year)) {
+    errors.push(`${name} must be a whole year, got '${raw}'`)
+    return null
+  }
+  return year
+}
+
+function parseEnum<T extends string>(raw: unknown, allowed: T[], name: string, errors: string[]): T | null {
+  if (raw === null || raw === undefined || raw === '') return null
+  if (typeof raw === 'string' && (allowed as string[]).includes(raw)) return raw as T
+  errors.push(`${name} must be one of ${allowed.join(', ')}, got '${String(raw)}'`)
+  return null
+}
+
+function parseBoolean(raw: unknown, name: string, errors: string[]): boolean | null {
+  if (raw === null || raw === undefined || raw === '') return null
+  if (typeof raw === 'boolean') return raw
+  if (raw === 'true' || raw === 'false') return raw === 'true'
+  errors.push(`${name} must be true or false, got '${String(raw)}'`)
+  return null
+}
+
+function finalizeYearRange(
+  start: number | null,
+  end: number | null,
+  defaults: FilterState,
+  errors: string[]
+): [number, number] {
+  const yearRange: [number, number] = [start ?? defaults.yearRange[0], end ?? defaults.yearRange[1]]
+  if (yearRange[0] > yearRange[1]) {
+    errors.push(`startYear ${yearRange[0]} is after endYear ${yearRange[1]}`)
+    return defaults.yearRange
+  }
+  return yearRange
+}
+
+/**
+ * Build a FilterState from query parameters, falling back to defaults for anything not given
+ */
+export function parseFilterParams(params: URLSearchParams, defaults: FilterState): FilterParseResult {
+  const errors: string[] = []
+
+  const geographies = params.getAll('geography').filter(Boolean)
+  const segments = params.getAll('segment').filter(Boolean)
+  const start = parseYear(params.get('startYear'), 'startYear', errors)
+  const end = parseYear(params.get('endYear'), 'endYear', errors)
+
+  const filters: FilterState = {
+    geographies: params.has('geography') ? geographies : defaults.geographies,
+    segments: params.has('segment') ? segments : defaults.segments,
+    segmentType: params.get('segmentType') || defaults.segmentType,
+    yearRange: finalizeYearRange(start, end, defaults, errors),
+    dataType: parseEnum(params.get('dataType'), DATA_TYPES, 'dataType', errors) ?? defaults.dataType,
+    viewMode: parseEnum(params.get('viewMode'), VIEW_MODES, 'viewMode', errors) ?? defaults.viewMode,
+    businessType: parseEnum(params.get('businessType'), BUSINESS_TYPES, 'businessType', errors) ?? defaults.businessType,
+    includeDescendants: parseBoolean(params.get('includeDescendants'), 'includeDescendants', errors) ?? defaults.includeDescendants,
+    growthPeriod: parseEnum(params.get('growthPeriod'), GROWTH_PERIODS, 'growthPeriod', errors) ?? defaults.growthPeriod,
+    shareReference: parseEnum(params.get('shareReference'), SHARE_REFERENCES, 'shareReference', errors) ?? defaults.shareReference,
+  }
+
+  return { filters, errors }
+}
+
+/**
+ * Read the valid fields of a JSON object as a partial FilterState; invalid fields are left out and reported
+ */
+export function parsePartialFilterBody(body: unknown): { filters: Partial<FilterState>; errors: string[] } {
+  const errors: string[] = []
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { filters: {}, errors: ['filters must be a JSON object'] }
+  }
+  const input = body as Record<string, unknown>
+  const filters: Partial<FilterState> = {}
+
+  for (const key of ['geographies', 'segments'] as const) {
+    const value = input[key]
+    if (value === undefined) continue
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      errors.push(`${key} must be an array of strings`)
+    } else {
+      filters[key] = value as string[]
+    }
+  }
+
+  if (input.yearRange !== undefined) {
+    const range = input.yearRange
+    if (Array.isArray(range) && range.length === 2 && range.every(year => Number.isInteger(year))) {
+      const [start, end] = range as [number, number]
+      if (start > end) errors.push(`startYear ${start} is after endYear ${end}`)
+      else filters.yearRange = [start, end]
+    } else {
+      errors.push('yearRange must be a pair of whole years')
+    }
+  }
+
+  if (input.segmentType !== undefined) {
+    if (typeof input.segmentType === 'string' && input.segmentType !== '') {
+      filters.segmentType = input.segmentType
+    } else {
+      errors.push('segmentType must be a non-empty string')
+    }
+  }
+
+  const dataType = parseEnum(input.dataType, DATA_TYPES, 'dataType', errors)
+  if (dataType) filters.dataType = dataType
+  const viewMode = parseEnum(input.viewMode, VIEW_MODES, 'viewMode', errors)
+  if (viewMode) filters.viewMode = viewMode
+  const businessType = parseEnum(input.businessType, BUSINESS_TYPES, 'businessType', errors)
+  if (businessType) filters.businessType = businessType
+  const includeDescendants = parseBoolean(input.includeDescendants, 'includeDescendants', errors)
+  if (includeDescendants !== null) filters.includeDescendants = includeDescendants
+  const growthPeriod = parseEnum(input.growthPeriod, GROWTH_PERIODS, 'growthPeriod', errors)
+  if (growthPeriod) filters.growthPeriod = growthPeriod
+  const shareReference = parseEnum(input.shareReference, SHARE_REFERENCES, 'shareReference', errors)
+  if (shareReference) filters.shareReference = shareReference
+
+  return { filters, errors }
+}
+
+/**
+ * Build a FilterState from a (partial) JSON object, falling back to defaults for missing fields
+ */
+export function parseFilterBody(body: unknown, defaults: FilterState): FilterParseResult {
+  const { filters, errors } = parsePartialFilterBody(body)
+  return { filters: { ...defaults, ...filters }, errors }
+}
+
+/**
+ * Encode a FilterState as query parameters (inverse of parseFilterParams)
+ */
+export function filtersToSearchParams(filters: FilterState): URLSearchParams {
+  const params = new URLSearchParams()
+  filters.geographies.forEach(geography => params.append('geography', geography))
+  filters.segments.forEach(segment => params.append('segment', segment))
+  params.set('segmentType', filters.segmentType)
+  params.set('startYear', String(filters.yearRange[0]))
+  params.set('endYear', String(filters.yearRange[1]))
+  params.set('dataType', filters.dataType)
+  params.set('viewMode', filters.viewMode)
+  params.set('businessType', filters.businessType)
+  if (filters.includeDescendants) params.set('includeDescendants', 'true')
+  if (filters.growthPeriod !== 'selected') params.set('growthPeriod', filters.growthPeriod)
+  if (filters.shareReference !== 'geography') params.set('shareReference', filters.shareReference)
+  return params
+}
@@ -0,0 +1,176 @@
+/**
+ * Filter Presets
+ * Custom Quick Filter presets, saved in localStorage and shared as JSON files:
+ * - Storage and files hold a versioned envelope { version, presets }; older formats are migrated when read
+ *   (version 0 is the bare array saved before presets were versioned)
+ * - Preset filters are read with parsePartialFilterBody, so malformed fields are dropped and reported
+ * - findMissingPresetItems flags geographies, segments and segment types no longer in the loaded dataset
+ */
+
+import type { ComparisonData, FilterState } from './types'
+import { parsePartialFilterBody } from './filter-params'
+import { getGeographyHierarchy, getRecordIndex, hasSegmentPath } from './record-index'
+import { resolveGeographies } from './geography-hierarchy'
+
+export const PRESET_FORMAT_VERSION = 1
+
+export interface CustomPreset {
+  id: string
+  name: string
+  description: string
+  filters: Partial<FilterState>
+  createdAt: string // ISO date
+}
+
+export interface PresetFile {
+  version: number
+  exportedAt?: string
+  presets: CustomPreset[]
+}
+
+export interface PresetParseResult {
+  presets: CustomPreset[]
+  errors: string[] // Presets or fields that were skipped
+}
+
+export interface MissingPresetItems {
+  segmentType: string | null // Segment type not in the dataset
+  geographies: string[]
+  segments: string[]
+}
+
+const PRESETS_STORAGE_KEY = 'marketAnalysisPresets'
+
+/**
+ * Id for a new preset
+ */
+export function createPresetId(): string {
+  return `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Description of a preset's selection, e.g. "Custom preset: 2 geographies, 3 segments"
+ */
+export function describePreset(filters: Partial<FilterState>): string {
+  return `Custom preset: ${filters.geographies?.length ?? 0} geographies, ${filters.segments?.length ?? 0} segments`
+}
+
+// One preset from a file or storage, or null when it has no name
+function parsePreset(input: unknown, errors: string[]): CustomPreset | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors.push('Skipped a preset that is not an object')
+    return null
+  }
+  const entry = input as Record<string, unknown>
+  const name = typeof entry.name === 'string' ? entry.name.trim() : ''
+  if (!name) {
+    errors.push('Skipped a preset without a name')
+    return null
+  }
+
+  const { filters, errors: filterErrors } = parsePartialFilterBody(entry.filters ?? {})
+  filterErrors.forEach(error => errors.push(`${name}: ${error}`))
+
+  return {
+    id: typeof entry.id === 'string' && entry.id !== '' ? entry.id : createPresetId(),
+    name,
+    description: typeof entry.description === 'string' ? entry.description : describePreset(filters),
+    filters,
+    createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date().toISOString()
+  }
+}
+
+/**
+ * Read presets from parsed JSON: a versioned file, or the unversioned array of version 0
+ */
+export function parsePresetFile(input: unknown): PresetParseResult {
+  const errors: string[] = []
+  let entries: unknown[]
+
+  if (Array.isArray(input)) {
+    entries = input
+  } else if (typeof input === 'object' && input !== null && Array.isArray((input as PresetFile).presets)) {
+    const { version } = input as PresetFile
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+      return { presets: [], errors: ['The preset file has no valid version'] }
+    }
+    if (version > PRESET_FORMAT_VERSION) {
+      return { presets: [], errors: [`The preset file is version ${version}; this dashboard reads up to version ${PRESET_FORMAT_VERSION}`] }
+    }
+    entries = (input as PresetFile).presets
+  } else {
+    return { presets: [], errors: ['The file is not a preset library'] }
+  }
+
+  const presets = entries
+    .map(entry => parsePreset(entry, errors))
+    .filter((preset): preset is CustomPreset => preset !== null)
+  return { presets, errors }
+}
+
+/**
+ * JSON file content for a preset library
+ */
+export function serializePresets(presets: CustomPreset[]): string {
+  const file: PresetFile = { version: PRESET_FORMAT_VERSION, exportedAt: new Date().toISOString(), presets }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Add imported presets to a library; an imported preset replaces a saved one with the same id
+ */
+export function mergePresets(saved: CustomPreset[], imported: CustomPreset[]): CustomPreset[] {
+  const importedIds = new Set(imported.map(preset => preset.id))
+  return [...saved.filter(preset => !importedIds.has(preset.id)), ...imported]
+}
+
+/**
+ * Geographies, segments and segment type of a preset that the dataset doesn't have
+ */
+export function findMissingPresetItems(filters: Partial<FilterState>, data: ComparisonData): MissingPresetItems {
+  const index = getRecordIndex(data.data.value.geography_segment_matrix)
+  const segmentType = filters.segmentType ?? Object.keys(data.dimensions.segments)[0]
+  const hasSegmentType = index.bySegmentType.has(segmentType)
+
+  const hierarchy = getGeographyHierarchy(index, data.dimensions.geographies)
+  const { unmatched } = resolveGeographies(hierarchy, filters.geographies ?? [])
+
+  return {
+    segmentType: hasSegmentType ? null : segmentType,
+    geographies: unmatched,
+    // Without its segment type, none of the segments can be found
+    segments: (filters.segments ?? []).filter(segment => !hasSegmentType || !hasSegmentPath(index, segmentType, segment))
+  }
+}
+
+/**
+ * Whether a preset has anything missing from the dataset
+ */
+export function hasMissingPresetItems(missing: MissingPresetItems): boolean {
+  return missing.segmentType !== null || missing.geographies.length > 0 || missing.segments.length > 0
+}
+
+/**
+ * Load saved presets, migrating older formats
+ */
+export function loadSavedPresets(): CustomPreset[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY)
+    if (!saved) return []
+    const { presets, errors } = parsePresetFile(JSON.parse(saved))
+    if (errors.length > 0) console.warn('⚠️ Saved presets had problems:', errors)
+    return presets
+  } catch (error) {
+    console.error('Error loading saved presets:', error)
+    return []
+  }
+}
+
+/**
+ * Save presets for the next visit
+ */
+export function savePresets(presets: CustomPreset[]): void {
+  const file: PresetFile = { version: PRESET_FORMAT_VERSION, presets }
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(file))
+}
@@ -0,0 +1,281 @@
+/**
+ * Forecast Models
+ * Re-derives forecast years from historical years so published forecasts can be checked:
+ * - 'linear': least-squares straight line through the historical values
+ * - 'log-linear': least-squares line through the log values, i.e. constant growth (CAGR); needs positive values
+ * - 'holt': Holt's linear exponential smoothing, with α and β picked by grid search on one-step-ahead errors
+ * Each model returns fitted values, forecasts with prediction intervals and fit statistics (RMSE, MAPE, R²)
+ * Regression intervals use Student's t with n - 2 degrees of freedom; Holt's use the normal approximation
+ */
+
+export type ForecastModelId = 'linear' | 'log-linear' | 'holt'
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModelId, string> = {
+  linear: 'Linear trend',
+  'log-linear': 'Log-linear (CAGR)',
+  holt: "Holt's smoothing"
+}
+
+export const CONFIDENCE_LEVELS = [0.8, 0.9, 0.95] as const
+
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number]
+
+export interface SeriesPoint {
+  year: number
+  value: number
+}
+
+export interface ForecastPoint {
+  year: number
+  value: number
+  lower: number
+  upper: number
+}
+
+export interface FitStatistics {
+  observations: number
+  rmse: number
+  mape: number | null // Mean absolute % error, null when every actual value is 0
+  rSquared: number
+  parameters: Record<string, number> // e.g. slope, cagr, alpha, beta
+}
+
+export interface ModelForecast {
+  model: ForecastModelId
+  confidence: ConfidenceLevel
+  fitted: SeriesPoint[] // In-sample fit for the historical years (one-step-ahead for Holt's)
+  forecast: ForecastPoint[]
+  statistics: FitStatistics
+}
+
+export interface PublishedComparison {
+  compared: number // Forecast years with both a published and a modelled value
+  outside: number // Published values outside the prediction interval
+  year: number // Last compared year
+  published: number
+  modelled: number
+  deviation: number // Published vs modelled in the last compared year, in %
+}
+
+// Models need at least this many historical values
+const MIN_OBSERVATIONS = 3
+
+// Two-sided standard normal quantiles for each confidence level
+const Z_SCORES: Record<ConfidenceLevel, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96
+}
+
+const HOLT_GRID = Array.from({ length: 19 }, (_, i) => (i + 1) / 20)
+
+// Student's t quantile from the normal one (Cornish-Fisher expansion)
+function tQuantile(confidence: ConfidenceLevel, degreesOfFreedom: number): number {
+  const z = Z_SCORES[confidence]
+  const df = Math.max(1, degreesOfFreedom)
+  return z +
+    (Math.pow(z, 3) + z) / (4 * df) +
+    (5 * Math.pow(z, 5) + 16 * Math.pow(z, 3) + 3 * z) / (96 * df * df) +
+    (3 * Math.pow(z, 7) + 19 * Math.pow(z, 5) + 17 * Math.pow(z, 3) - 15 * z) / (384 * Math.pow(df, 3))
+}
+
+function getFitStatistics(actual: SeriesPoint[], fitted: number[], parameters: Record<string, number>): FitStatistics {
+  const mean = actual.reduce((sum, point) => sum + point.value, 0) / actual.length
+  let squaredError = 0
+  let totalSquares = 0
+  let percentError = 0
+  let percentCount = 0
+  actual.forEach((point, i) => {
+    const error = point.value - fitted[i]
+    squaredError += error * error
+    totalSquares += (point.value - mean) ** 2
+    if (point.value !== 0) {
+      percentError += Math.abs(error / point.value)
+      percentCount++
+    }
+  })
+  return {
+    observations: actual.length,
+    rmse: Math.sqrt(squaredError / actual.length),
+    mape: percentCount > 0 ? (percentError / percentCount) * 100 : null,
+    rSquared: totalSquares > 0 ? 1 - squaredError / totalSquares : 1,
+    parameters
+  }
+}
+
+interface LineFit {
+  intercept: number // At the mean year
+  slope: number
+  meanYear: number
+  sumSquaresYear: number
+  residualError: number // Residual standard error
+  predict: (year: number) => number
+  predictionError: (year: number) => number // Standard error of a new observation
+}
+
+function fitLine(points: SeriesPoint[]): LineFit {
+  const n = points.length
+  const meanYear = points.reduce((sum, point) => sum + point.year, 0) / n
+  const intercept = points.reduce((sum, point) => sum + point.value, 0) / n
+  let sumSquaresYear = 0
+  let sumProducts = 0
+  points.forEach(point => {
+    sumSquaresYear += (point.year - meanYear) ** 2
+    sumProducts += (point.year - meanYear) * (point.value - intercept)
+  })
+  const slope = sumSquaresYear > 0 ? sumProducts / sumSquaresYear : 0
+  const predict = (year: number) => intercept + slope * (year - meanYear)
+  const residualSquares = points.reduce((sum, point) => sum + (point.value - predict(point.year)) ** 2, 0)
+  const residualError = Math.sqrt(residualSquares / Math.max(1, n - 2))
+
+  return {
+    intercept,
+    slope,
+    meanYear,
+    sumSquaresYear,
+    residualError,
+    predict,
+    predictionError: year =>
+      residualError * Math.sqrt(1 + 1 / n + (sumSquaresYear > 0 ? (year - meanYear) ** 2 / sumSquaresYear : 0))
+  }
+}
+
+function fitLinear(history: SeriesPoint[], years: number[], confidence: ConfidenceLevel): ModelForecast {
+  const line = fitLine(history)
+  const t = tQuantile(confidence, history.length - 2)
+  const fitted = history.map(point => line.predict(point.year))
+  return {
+    model: 'linear',
+    confidence,
+    fitted: history.map((point, i) => ({ year: point.year, value: fitted[i] })),
+    forecast: years.map(year => {
+      const value = line.predict(year)
+      const margin = t * line.predictionError(year)
+      return { year, value, lower: value - margin, upper: value + margin }
+    }),
+    statistics: getFitStatistics(history, fitted, { slope: line.slope })
+  }
+}
+
+function fitLogLinear(history: SeriesPoint[], years: number[], confidence: ConfidenceLevel): ModelForecast | null {
+  if (history.some(point => point.value <= 0)) return null
+  const line = fitLine(history.map(point => ({ year: point.year, value: Math.log(point.value) })))
+  const t = tQuantile(confidence, history.length - 2)
+  const fitted = history.map(point => Math.exp(line.predict(point.year)))
+  return {
+    model: 'log-linear',
+    confidence,
+    fitted: history.map((point, i) => ({ year: point.year, value: fitted[i] })),
+    forecast: years.map(year => {
+      const logValue = line.predict(year)
+      const margin = t * line.predictionError(year)
+      return {
+        year,
+        value: Math.exp(logValue),
+        lower: Math.exp(logValue - margin),
+        upper: Math.exp(logValue + margin)
+      }
+    }),
+    statistics: getFitStatistics(history, fitted, { cagr: (Math.exp(line.slope) - 1) * 100 })
+  }
+}
+
+// One pass of Holt's method: one-step-ahead fitted values, the final level and trend
+function runHolt(values: number[], alpha: number, beta: number) {
+  let level = values[0]
+  let trend = values[1] - values[0]
+  const fitted = [values[0]]
+  let squaredError = 0
+  for (let i = 1; i < values.length; i++) {
+    const prediction = level + trend
+    fitted.push(prediction)
+    squaredError += (values[i] - prediction) ** 2
+    const nextLevel = alpha * values[i] + (1 - alpha) * (level + trend)
+    trend = beta * (nextLevel - level) + (1 - beta) * trend
+    level = nextLevel
+  }
+  return { fitted, level, trend, squaredError }
+}
+
+function fitHolt(history: SeriesPoint[], years: number[], confidence: ConfidenceLevel): ModelForecast {
+  const values = history.map(point => point.value)
+  let best = { alpha: HOLT_GRID[0], beta: HOLT_GRID[0], run: runHolt(values, HOLT_GRID[0], HOLT_GRID[0]) }
+  HOLT_GRID.forEach(alpha => {
+    HOLT_GRID.forEach(beta => {
+      const run = runHolt(values, alpha, beta)
+      if (run.squaredError < best.run.squaredError) best = { alpha, beta, run }
+    })
+  })
+
+  const { alpha, beta, run } = best
+  // The first one-step-ahead error is always 0, and two parameters were fitted
+  const sigma = Math.sqrt(run.squaredError / Math.max(1, values.length - 3))
+  const z = Z_SCORES[confidence]
+  const lastYear = history[history.length - 1].year
+
+  return {
+    model: 'holt',
+    confidence,
+    fitted: history.map((point, i) => ({ year: point.year, value: run.fitted[i] })),
+    forecast: years.map(year => {
+      const steps = year - lastYear
+      const value = run.level + steps * run.trend
+      let variance = 1
+      for (let j = 1; j < steps; j++) variance += alpha * alpha * (1 + j * beta) ** 2
+      const margin = z * sigma * Math.sqrt(variance)
+      return { year, value, lower: value - margin, upper: value + margin }
+    }),
+    statistics: getFitStatistics(history, run.fitted, { alpha, beta })
+  }
+}
+
+/**
+ * Fit a model to the historical points and forecast the given years
+ * Returns null with fewer than three historical points, or for log-linear when a value is not positive
+ */
+export function fitForecastModel(
+  history: SeriesPoint[],
+  forecastYears: number[],
+  model: ForecastModelId,
+  confidence: ConfidenceLevel = 0.95
+): ModelForecast | null {
+  const points = history
+    .filter(point => Number.isFinite(point.value))
+    .sort((a, b) => a.year - b.year)
+  if (points.length < MIN_OBSERVATIONS) return null
+
+  const years = forecastYears.filter(year => year > points[points.length - 1].year)
+  switch (model) {
+    case 'log-linear':
+      return fitLogLinear(points, years, confidence)
+    case 'holt':
+      return fitHolt(points, years, confidence)
+    default:
+      return fitLinear(points, years, confidence)
+  }
+}
+
+/**
+ * How the published forecast compares with a model's: years outside the interval and the final-year gap
+ */
+export function compareWithPublished(
+  model: ModelForecast,
+  published: Record<number, number | undefined>
+): PublishedComparison | null {
+  const compared = model.forecast.filter(point => typeof published[point.year] === 'number')
+  if (compared.length === 0) return null
+
+  const last = compared[compared.length - 1]
+  const publishedValue = published[last.year]!
+  return {
+    compared: compared.length,
+    outside: compared.filter(point => {
+      const value = published[point.year]!
+      return value < point.lower || value > point.upper
+    }).length,
+    year: last.year,
+    published: publishedValue,
+    modelled: last.value,
+    deviation: last.value !== 0 ? ((publishedValue - last.value) / Math.abs(last.value)) * 100 : 0
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Geography Hierarchy
+ * Resolves selected geography names against the dataset's geography tree:
+ * - Parents and children come from GeographyDimension (global -> regions -> countries) and each record's parent_geography
+ * - Names compare ignoring case and spacing only; other variants such as "West India (5 states)" resolve through
+ *   GeographyDimension.aliases
+ * - Distinct names that still compare equal are listed in collisions and only resolve when given exactly
+ * Names are never matched by substring or by dropping a note, so "India" does not select "West India" and
+ * "Other (South)" does not select "Other (North)"
+ */
+
+import type { DataRecord, GeographyDimension } from './types'
+import { getGeographyChildren } from './reconciliation'
+
+export interface GeographyHierarchy {
+  id: number // Distinguishes hierarchies in filter cache keys
+  names: string[] // Canonical names, record names first
+  canonical: Map<string, string> // Normalized name or alias -> canonical name; colliding names are left out
+  collisions: string[][] // Geography names, and aliases, that compare equal to another geography
+  childrenOf: Map<string, string[]>
+  parentOf: Map<string, string>
+}
+
+export interface GeographyResolution {
+  geographies: string[] // Canonical names of the selection, then their descendants when included
+  resolved: Map<string, string> // Selected name -> canonical name
+  unmatched: string[] // Selected names with no geography in the dataset
+}
+
+let nextHierarchyId = 1
+
+/**
+ * Comparison form of a geography name: case and spacing are ignored, everything else counts
+ */
+export function normalizeGeographyName(name: string): string {
+  return name
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+/**
+ * Build the geography tree for a record array, using the dimension when available
+ * Record names win over dimension names, so resolved names always match records
+ * Two record names, or two names from the dimension, that compare equal stay separate geographies and are reported
+ */
+export function buildGeographyHierarchy(records: DataRecord[], dimension?: GeographyDimension): GeographyHierarchy {
+  const hierarchy: GeographyHierarchy = {
+    id: nextHierarchyId++,
+    names: [],
+    canonical: new Map(),
+    collisions: [],
+    childrenOf: new Map(),
+    parentOf: new Map()
+  }
+  const known = new Set<string>()
+  const recordNames = new Set(records.map(record => record.geography))
+  const collisions = new Map<string, string[]>() // Normalized name -> the names that compare equal to it
+
+  const report = (normalized: string, names: string[]) => {
+    const group = collisions.get(normalized) ?? []
+    names.forEach(name => { if (!group.includes(name)) group.push(name) })
+    collisions.set(normalized, group)
+  }
+
+  // Neither name resolves unless given exactly
+  const collide = (normalized: string, names: string[]) => {
+    report(normalized, names)
+    hierarchy.canonical.delete(normalized)
+  }
+
+  const register = (name: string): string => {
+    if (known.has(name)) return name
+    const normalized = normalizeGeographyName(name)
+    const existing = hierarchy.canonical.get(normalized)
+    // A dimension name spelled differently from a record name is that record's geography
+    if (existing && recordNames.has(existing) && !recordNames.has(name)) return existing
+    known.add(name)
+    hierarchy.names.push(name)
+    if (existing) collide(normalized, [existing, name])
+    else if (collisions.has(normalized)) collide(normalized, [name])
+    else hierarchy.canonical.set(normalized, name)
+    return name
+  }
+
+  const link = (parent: string, child: string) => {
+    const parentName = register(parent)
+    const childName = register(child)
+    if (parentName === childName || hierarchy.parentOf.has(childName)) return
+    hierarchy.parentOf.set(childName, parentName)
+    const siblings = hierarchy.childrenOf.get(parentName)
+    if (siblings) siblings.push(childName)
+    else hierarchy.childrenOf.set(parentName, [childName])
+  }
+
+  records.forEach(record => register(record.geography))
+  if (dimension) {
+    dimension.all_geographies.forEach(register)
+    getGeographyChildren(dimension, records).forEach((children, parent) => {
+      children.forEach(child => link(parent, child))
+    })
+  }
+  records.forEach(record => {
+    if (record.parent_geography) link(record.parent_geography, record.geography)
+  })
+
+  // Aliases never replace a geography's own name
+  Object.entries(dimension?.aliases ?? {}).forEach(([name, aliases]) => {
+    const target = findGeography(hierarchy, name)
+    if (!target) return
+    aliases.forEach(alias => {
+      const normalized = normalizeGeographyName(alias)
+      const existing = hierarchy.canonical.get(normalized)
+      if (!existing && !collisions.has(normalized)) hierarchy.canonical.set(normalized, target)
+      else if (existing !== target) report(normalized, existing ? [existing, alias] : [alias])
+    })
+  })
+
+  hierarchy.collisions = Array.from(collisions.values())
+  if (hierarchy.collisions.length > 0) {
+    console.warn('⚠️ Geography names that differ only in case or spacing:', hierarchy.collisions.map(group => group.join(' / ')))
+  }
+
+  return hierarchy
+}
+
+/**
+ * Canonical name of a geography, or undefined when the hierarchy has none by that name
+ * Names that collide with another geography only resolve when given exactly
+ */
+export function findGeography(hierarchy: GeographyHierarchy, name: string): string | undefined {
+  return hierarchy.canonical.get(normalizeGeographyName(name)) ?? (hierarchy.names.includes(name) ? name : undefined)
+}
+
+function collectDescendants(hierarchy: GeographyHierarchy, geography: string, out: Set<string>) {
+  hierarchy.childrenOf.get(geography)?.forEach(child => {
+    if (out.has(child)) return
+    out.add(child)
+    collectDescendants(hierarchy, child, out)
+  })
+}
+
+/**
+ * Resolve selected names to canonical geographies, optionally adding everything below them
+ */
+export function resolveGeographies(
+  hierarchy: GeographyHierarchy,
+  selected: string[],
+  includeDescendants: boolean = false
+): GeographyResolution {
+  const resolved = new Map<string, string>()
+  const unmatched: string[] = []
+  const geographies = new Set<string>()
+
+  selected.forEach(name => {
+    const canonical = findGeography(hierarchy, name)
+    if (!canonical) {
+      unmatched.push(name)
+      return
+    }
+    resolved.set(name, canonical)
+    geographies.add(canonical)
+  })
+
+  if (includeDescendants) {
+    resolved.forEach(canonical => collectDescendants(hierarchy, canonical, geographies))
+  }
+
+  return { geographies: Array.from(geographies), resolved, unmatched }
+}
+
+/**
+ * A geography followed by its ancestors, nearest first
+ */
+export function getGeographyLineage(hierarchy: GeographyHierarchy, geography: string): string[] {
+  const lineage = [geography]
+  let parent = hierarchy.parentOf.get(geography)
+  while (parent && !lineage.includes(parent)) {
+    lineage.push(parent)
+    parent = hierarchy.parentOf.get(parent)
+  }
+  return lineage
+}
@@ -3,7 +3,9 @@
  * Automatically generates insights from filtered data
  */
 
-import { DataRecord, FilterState } from './types'
+import { ComparisonData, DataRecord, FilterState } from './types'
+import { getGrowthPeriod, calculateGrowthMetrics, type GrowthPeriod } from './data-processor'
+import { calculateMarketShare } from './market-share'
 
 export interface Insight {
   id: string
@@ -18,21 +20,26 @@ export interface Insight {
 
 /**
  * Generate insights from filtered data
+ * Amounts are described in the given unit label (e.g. "INR Cr."); growth is measured over the given period
+ * With the full data, the leader's market share against filters.shareReference is described too
  */
 export function generateInsights(
   records: DataRecord[],
-  filters: FilterState
+  filters: FilterState,
+  unit: string = '',
+  period: GrowthPeriod | null = getGrowthPeriod(filters),
+  data?: ComparisonData
 ): Insight[] {
   const insights: Insight[] = []
   
   if (records.length === 0) return insights
 
   // 1. Top Performer Analysis
-  const topPerformer = findTopPerformer(records, filters)
+  const topPerformer = findTopPerformer(records, filters, unit, data)
   if (topPerformer) insights.push(topPerformer)
 
   // 2. Growth Leader
-  const growthLeader = findGrowthLeader(records, filters)
+  const growthLeader = period ? findGrowthLeader(records, filters, period) : null
   if (growthLeader) insights.push(growthLeader)
 
   // 3. Trend Analysis
@@ -57,7 +64,7 @@ export function generateInsights(
 /**
  * Find the top performing geography or segment
  */
-function findTopPerformer(records: DataRecord[], filters: FilterState): Insight | null {
+function findTopPerformer(records: DataRecord[], filters: FilterState, unit: string, data?: ComparisonData): Insight | null {
   const [startYear, endYear] = filters.yearRange
   const currentYear = endYear
   
@@ -82,12 +89,18 @@ function findTopPerformer(records: DataRecord[], filters: FilterState): Insight
   })
   
   if (!topKey) return null
+
+  // Same share as the comparison table and bubble charts
+  const share = data
+    ? calculateMarketShare(records.filter(record => record[groupKey] === topKey), data, filters, currentYear)
+    : null
+  const shareText = share && share.denominator > 0 ? `, ${share.share.toFixed(1)}% of ${share.label}` : ''
   
   return {
     id: 'top-performer',
     type: 'leader',
     title: `${groupKey === 'geography' ? 'Leading Market' : 'Top Segment'}`,
-    description: `${topKey} leads with ${topValue.toFixed(1)} ${filters.dataType === 'value' ? 'USD Mn' : 'KT'} in ${currentYear}`,
+    description: `${topKey} leads with ${topValue.toFixed(1)}${unit ? ` ${unit}` : ''} in ${currentYear}${shareText}`,
     value: topValue,
     trend: 'up',
     priority: 'high',
@@ -98,12 +111,12 @@ function findTopPerformer(records: DataRecord[], filters: FilterState): Insight
 /**
  * Find the fastest growing market
  */
-function findGrowthLeader(records: DataRecord[], filters: FilterState): Insight | null {
-  const [startYear, endYear] = filters.yearRange
+function findGrowthLeader(records: DataRecord[], filters: FilterState, period: GrowthPeriod): Insight | null {
+  const { startYear, endYear } = period
   
   // Calculate growth rates
   const groupKey = filters.viewMode === 'segment-mode' ? 'segment' : 'geography'
-  const growthRates = new Map<string, number>()
+  const growthRates = new Map<string, ReturnType<typeof calculateGrowthMetrics>>()
   
   // Group records by key
   const grouped = new Map<string, DataRecord[]>()
@@ -124,31 +137,29 @@ function findGrowthLeader(records: DataRecord[], filters: FilterState): Insight
     })
     
     if (startValue > 0) {
-      const growth = ((endValue - startValue) / startValue) * 100
-      growthRates.set(key, growth)
+      growthRates.set(key, calculateGrowthMetrics(startValue, endValue, endYear - startYear))
     }
   })
   
   // Find highest growth
   let maxGrowthKey = ''
   let maxGrowth = -Infinity
+  let maxCagr = 0
   growthRates.forEach((growth, key) => {
-    if (growth > maxGrowth) {
-      maxGrowth = growth
+    if (growth.growthPercent > maxGrowth) {
+      maxGrowth = growth.growthPercent
+      maxCagr = growth.cagr
       maxGrowthKey = key
     }
   })
   
   if (!maxGrowthKey || maxGrowth === -Infinity) return null
   
-  const years = endYear - startYear
-  const cagr = Math.pow((1 + maxGrowth / 100), 1 / years) - 1
-  
   return {
     id: 'growth-leader',
     type: 'growth',
     title: 'Fastest Growing',
-    description: `${maxGrowthKey} shows ${maxGrowth.toFixed(1)}% growth (${(cagr * 100).toFixed(1)}% CAGR)`,
+    description: `${maxGrowthKey} shows ${maxGrowth.toFixed(1)}% growth (${maxCagr.toFixed(1)}% CAGR, ${period.label})`,
     value: `${maxGrowth.toFixed(1)}%`,
     trend: maxGrowth > 0 ? 'up' : 'down',
     priority: 'high',
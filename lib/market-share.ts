@@ -0,0 +1,229 @@
+/**
+ * Market Share
+ * Computes shares on the fly against a chosen reference instead of the fixed `market_share` field:
+ * - 'geography': the geography's total for the segment type (the sum of its top-level segments)
+ * - 'parent-segment': the record one level up the segment path, or the geography total for top-level segments
+ * - 'business-type': the geography's B2B or B2C total, or the geography total for records of neither
+ * - 'market': the total of the global geography, or of the top geographies (no parent in the data) when there is none
+ * Denominators always come from the full dataset, so filtering never changes a share; price shares are in value terms
+ * Records nested in another record of the same group (a child segment or geography) are not counted twice
+ */
+
+import type { ComparisonData, DataRecord, DataType, FilterState, ShareReference } from './types'
+import {
+  getGeographyHierarchy,
+  getRecordBusinessType,
+  getRecordIndex,
+  recordKey,
+  type RecordIndex
+} from './record-index'
+import { findGeography, getGeographyLineage, type GeographyHierarchy } from './geography-hierarchy'
+import { shareBasis } from './price'
+
+export interface MarketShare {
+  share: number // % of the denominator, 0 when the denominator is not positive
+  amount: number // Numerator, in value terms for prices
+  denominator: number
+  label: string // What the share is of, e.g. "West India total" or "B2B in India"
+}
+
+interface ShareDenominator {
+  key: string
+  label: string
+  records: DataRecord[]
+}
+
+interface ShareContext {
+  index: RecordIndex
+  hierarchy: GeographyHierarchy
+  topLevel: Map<string, DataRecord[]> // geography::segment type -> top-level segment records
+  marketGeographies: string[]
+}
+
+const SEGMENT_SEPARATOR = ' > '
+
+export const SHARE_REFERENCE_LABELS: Record<ShareReference, string> = {
+  geography: 'Geography total',
+  'parent-segment': 'Parent segment',
+  'business-type': 'Business type',
+  market: 'Whole market'
+}
+
+// How several distinct denominators of a reference are described, e.g. "3 geography totals"
+const SHARE_REFERENCE_PLURALS: Record<ShareReference, string> = {
+  geography: 'geography totals',
+  'parent-segment': 'parent segments',
+  'business-type': 'business type totals',
+  market: 'markets'
+}
+
+const contextCache = new WeakMap<DataRecord[], ShareContext>()
+
+/**
+ * Records shares are taken from: the data type's own, or the value records for prices
+ */
+export function getShareRecords(data: ComparisonData, dataType: DataType): DataRecord[] {
+  return data.data[dataType === 'price' ? 'value' : dataType].geography_segment_matrix
+}
+
+function geographyKey(geography: string, segmentType: string): string {
+  return `${geography}::${segmentType}`
+}
+
+function getShareContext(data: ComparisonData, dataType: DataType): ShareContext {
+  const records = getShareRecords(data, dataType)
+  let context = contextCache.get(records)
+  if (context) return context
+
+  const index = getRecordIndex(records)
+  const topLevel = new Map<string, DataRecord[]>()
+  records.forEach(record => {
+    if (record.segment.includes(SEGMENT_SEPARATOR)) return
+    const key = geographyKey(record.geography, record.segment_type)
+    const list = topLevel.get(key)
+    if (list) list.push(record)
+    else topLevel.set(key, [record])
+  })
+
+  // The global geography, or else every geography whose parent has no records of its own
+  const hierarchy = getGeographyHierarchy(index, data.dimensions.geographies)
+  const globalGeographies = data.dimensions.geographies.global
+    .map(geography => findGeography(hierarchy, geography))
+    .filter((geography): geography is string => !!geography && index.byGeography.has(geography))
+  const marketGeographies = globalGeographies.length > 0
+    ? globalGeographies
+    : index.geographies.filter(geography => {
+        const parent = hierarchy.parentOf.get(geography)
+        return !parent || !index.byGeography.has(parent)
+      })
+
+  context = { index, hierarchy, topLevel, marketGeographies }
+  contextCache.set(records, context)
+  return context
+}
+
+function geographyDenominator(record: DataRecord, context: ShareContext): ShareDenominator {
+  const key = geographyKey(record.geography, record.segment_type)
+  return { key, label: `${record.geography} total`, records: context.topLevel.get(key) ?? [] }
+}
+
+function parentSegmentDenominator(record: DataRecord, context: ShareContext): ShareDenominator {
+  const parts = record.segment.split(SEGMENT_SEPARATOR)
+  if (parts.length === 1) return geographyDenominator(record, context)
+
+  const parentPath = parts.slice(0, -1).join(SEGMENT_SEPARATOR)
+  const key = recordKey(record.geography, record.segment_type, parentPath)
+  const label = `${parts[parts.length - 2]} in ${record.geography}`
+  const position = context.index.byRecordKey.get(key)
+  if (position !== undefined) return { key, label, records: [context.index.records[position]] }
+
+  // No record for the parent: its children add up to it
+  const prefix = parentPath + SEGMENT_SEPARATOR
+  const siblings = (context.index.byGeography.get(record.geography) ?? [])
+    .map(siblingPosition => context.index.records[siblingPosition])
+    .filter(sibling =>
+      sibling.segment_type === record.segment_type &&
+      sibling.segment.startsWith(prefix) &&
+      !sibling.segment.slice(prefix.length).includes(SEGMENT_SEPARATOR)
+    )
+  return { key, label, records: siblings }
+}
+
+function businessTypeDenominator(record: DataRecord, context: ShareContext): ShareDenominator {
+  const businessType = getRecordBusinessType(record)
+  if (!businessType) return geographyDenominator(record, context)
+
+  const key = geographyKey(record.geography, record.segment_type)
+  const records = (context.topLevel.get(key) ?? []).filter(top => getRecordBusinessType(top) === businessType)
+  if (records.length === 0) return geographyDenominator(record, context)
+  return { key: `${key}::${businessType}`, label: `${businessType} in ${record.geography}`, records }
+}
+
+function marketDenominator(record: DataRecord, context: ShareContext): ShareDenominator {
+  const { marketGeographies } = context
+  return {
+    key: `market::${record.segment_type}`,
+    label: marketGeographies.length === 1 ? `${marketGeographies[0]} market` : 'whole market',
+    records: marketGeographies.flatMap(geography =>
+      context.topLevel.get(geographyKey(geography, record.segment_type)) ?? []
+    )
+  }
+}
+
+function getDenominator(record: DataRecord, reference: ShareReference, context: ShareContext): ShareDenominator {
+  switch (reference) {
+    case 'parent-segment':
+      return parentSegmentDenominator(record, context)
+    case 'business-type':
+      return businessTypeDenominator(record, context)
+    case 'market':
+      return marketDenominator(record, context)
+    default:
+      return geographyDenominator(record, context)
+  }
+}
+
+// Drop records covered by another record of the group: same or ancestor geography, same or ancestor segment
+function withoutNestedRecords(records: DataRecord[], context: ShareContext): DataRecord[] {
+  if (records.length < 2) return records
+  const keys = new Set(records.map(record => recordKey(record.geography, record.segment_type, record.segment)))
+  return records.filter(record => {
+    const parts = record.segment.split(SEGMENT_SEPARATOR)
+    const geographies = getGeographyLineage(context.hierarchy, record.geography)
+    return !geographies.some((geography, geographyDepth) =>
+      parts.some((_, length) => {
+        if (geographyDepth === 0 && length === parts.length - 1) return false // The record itself
+        const segment = parts.slice(0, length + 1).join(SEGMENT_SEPARATOR)
+        return keys.has(recordKey(geography, record.segment_type, segment))
+      })
+    )
+  })
+}
+
+// A record's amount in the share records, e.g. the value behind a price record
+function getShareAmount(record: DataRecord, year: number, context: ShareContext): number {
+  const position = context.index.byRecordKey.get(recordKey(record.geography, record.segment_type, record.segment))
+  if (position === undefined) return shareBasis([record], year)
+  return context.index.records[position].time_series[year] || 0
+}
+
+/**
+ * Share of one or more records in a year against the chosen reference
+ * A group's share is its total over the sum of its members' distinct denominators,
+ * so a segment across several geographies is measured against those geographies combined
+ */
+export function calculateMarketShare(
+  records: DataRecord[],
+  data: ComparisonData,
+  filters: Pick<FilterState, 'dataType' | 'shareReference'>,
+  year: number
+): MarketShare {
+  const context = getShareContext(data, filters.dataType)
+  const denominators = new Map<string, ShareDenominator>()
+  let amount = 0
+
+  withoutNestedRecords(records, context).forEach(record => {
+    amount += getShareAmount(record, year, context)
+    const denominator = getDenominator(record, filters.shareReference, context)
+    if (!denominators.has(denominator.key)) denominators.set(denominator.key, denominator)
+  })
+
+  let denominator = 0
+  denominators.forEach(({ records: denominatorRecords }) => {
+    denominatorRecords.forEach(record => {
+      denominator += record.time_series[year] || 0
+    })
+  })
+
+  const [first] = denominators.values()
+  const label = denominators.size > 1
+    ? `${denominators.size} ${SHARE_REFERENCE_PLURALS[filters.shareReference]}`
+    : first?.label ?? ''
+
+  return {
+    share: denominator > 0 ? (amount / denominator) * 100 : 0,
+    amount,
+    denominator,
+    label
+  }
+}
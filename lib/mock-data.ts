@@ -1,11 +1,25 @@
 import type { ComparisonData, DataRecord } from './types'
-import { generateRealisticData } from './generate-realistic-data'
+import { generateSyntheticData } from './synthetic-data'
+import { createSeededRandom } from './seeded-random'
+import { loadMarketWorkbook } from './excel-importer'
+import type { MarketDataset } from './dataset-registry'
+import { DEFAULT_DATASETS } from './dataset-registry'
+
+/**
+ * Location of an analyst-supplied market workbook for the default market
+ * When a workbook is dropped here it replaces the generated demo data
+ */
+export const MARKET_WORKBOOK_URL = DEFAULT_DATASETS[0].workbookUrl!
+
+// Seed for the demo data, so the browser and the API routes show the same numbers
+const GUARANTEED_DATA_SEED = 2024
 
 /**
  * Generate guaranteed working data for Top Markets preset
  * Creates simple data that definitely works with preset filters
  */
-function generateGuaranteedWorkingData(): ComparisonData {
+export function generateGuaranteedWorkingData(seed: number = GUARANTEED_DATA_SEED): ComparisonData {
+  const random = createSeededRandom(seed)
   const startYear = 2020
   const baseYear = 2024
   const forecastYear = 2032
@@ -77,7 +91,7 @@ function generateGuaranteedWorkingData(): ComparisonData {
       const segmentMultiplier = segment.includes('Non-Food Industrial') ? 0.5 : 1
       const baseValue = 100 * geoMultiplier * segmentMultiplier
       const baseVolume = 200 * geoMultiplier * segmentMultiplier
-      const cagr = 5 + Math.random() * 3 // 5-8% CAGR
+      const cagr = 5 + random() * 3 // 5-8% CAGR
       
       // Value record
       valueRecords.push({
@@ -95,7 +109,7 @@ function generateGuaranteedWorkingData(): ComparisonData {
         },
         time_series: generateTimeSeries(baseValue, cagr),
         cagr: cagr,
-        market_share: Math.random() * 20 + 5
+        market_share: random() * 20 + 5
       })
       
       // Volume record
@@ -114,7 +128,7 @@ function generateGuaranteedWorkingData(): ComparisonData {
         },
         time_series: generateTimeSeries(baseVolume, cagr * 0.8),
         cagr: cagr * 0.8,
-        market_share: Math.random() * 20 + 5
+        market_share: random() * 20 + 5
       })
     })
   })
@@ -167,53 +181,79 @@ function generateGuaranteedWorkingData(): ComparisonData {
 }
 
 /**
- * Creates realistic mock data for the India Spices Market
+ * Creates realistic mock data for the selected market
  * Loads dimensions and generates comprehensive data for all charts
  * Uses guaranteed working data to ensure preset filters work correctly
+ * A market workbook at dataset.workbookUrl takes precedence over the generated data
  */
-export async function createMockData(): Promise<ComparisonData> {
+export async function createMockData(dataset: MarketDataset = DEFAULT_DATASETS[0]): Promise<ComparisonData> {
+  if (dataset.workbookUrl) {
+    try {
+      const workbookData = await loadMarketWorkbook(dataset.workbookUrl)
+      if (workbookData) {
+        return workbookData
+      }
+      console.error(`❌ Market workbook ${dataset.workbookUrl} for ${dataset.name} was not found, showing generated data instead`)
+    } catch (error) {
+      console.error(`❌ Could not import market workbook ${dataset.workbookUrl} for ${dataset.name}, showing generated data instead:`, error)
+    }
+  }
+
+  // Markets configured for the seeded generator get a full synthetic dataset
+  if (dataset.synthetic) {
+    const syntheticData = generateSyntheticData({ ...dataset.synthetic, marketName: dataset.name })
+    console.log('✅ Synthetic data generated:', {
+      seed: dataset.synthetic.seed,
+      totalRecords: syntheticData.data.value.geography_segment_matrix.length
+    })
+    return syntheticData
+  }
+  
   // Always use guaranteed working data to ensure preset filters work
   console.log('🔄 Using guaranteed working data for reliable preset filter functionality')
   const guaranteedData = generateGuaranteedWorkingData()
+  guaranteedData.metadata.market_name = dataset.name
   
-  try {
-    // Try to load and merge with dimensions data for richer structure
-    const response = await fetch('/jsons/india-spices-dimensions.json', {
-      cache: 'no-cache',
-      headers: {
-        'Accept': 'application/json',
-      }
-    })
-    
-    if (response.ok) {
-      const text = await response.text()
-      if (!text.startsWith('<!DOCTYPE') && !text.startsWith('<html')) {
-        const dimensionsData = JSON.parse(text)
-        // Update metadata from dimensions if available
-        if (dimensionsData.metadata) {
-          guaranteedData.metadata = {
-            ...guaranteedData.metadata,
-            ...dimensionsData.metadata,
-            market_name: 'India Spices Market',
-            start_year: 2020,
-            base_year: 2024,
-            forecast_year: 2032,
-          }
+  if (dataset.dimensionsUrl) {
+    try {
+      // Try to load and merge with dimensions data for richer structure
+      const response = await fetch(dataset.dimensionsUrl, {
+        cache: 'no-cache',
+        headers: {
+          'Accept': 'application/json',
         }
-        // Update geography dimensions if available
-        if (dimensionsData.dimensions?.geographies) {
-          guaranteedData.dimensions.geographies = {
-            ...guaranteedData.dimensions.geographies,
-            ...dimensionsData.dimensions.geographies,
-            // Ensure our guaranteed regions are included
-            regions: [...new Set([...guaranteedData.dimensions.geographies.regions, ...(dimensionsData.dimensions.geographies.regions || [])])],
-            all_geographies: [...new Set([...guaranteedData.dimensions.geographies.all_geographies, ...(dimensionsData.dimensions.geographies.all_geographies || [])])]
+      })
+      
+      if (response.ok) {
+        const text = await response.text()
+        if (!text.startsWith('<!DOCTYPE') && !text.startsWith('<html')) {
+          const dimensionsData = JSON.parse(text)
+          // Update metadata from dimensions if available
+          if (dimensionsData.metadata) {
+            guaranteedData.metadata = {
+              ...guaranteedData.metadata,
+              ...dimensionsData.metadata,
+              market_name: dataset.name,
+              start_year: 2020,
+              base_year: 2024,
+              forecast_year: 2032,
+            }
+          }
+          // Update geography dimensions if available
+          if (dimensionsData.dimensions?.geographies) {
+            guaranteedData.dimensions.geographies = {
+              ...guaranteedData.dimensions.geographies,
+              ...dimensionsData.dimensions.geographies,
+              // Ensure our guaranteed regions are included
+              regions: [...new Set([...guaranteedData.dimensions.geographies.regions, ...(dimensionsData.dimensions.geographies.regions || [])])],
+              all_geographies: [...new Set([...guaranteedData.dimensions.geographies.all_geographies, ...(dimensionsData.dimensions.geographies.all_geographies || [])])]
+            }
           }
         }
       }
+    } catch (error) {
+      console.warn('Could not load dimensions data, using guaranteed data only:', error)
     }
-  } catch (error) {
-    console.warn('Could not load dimensions data, using guaranteed data only:', error)
   }
   
   console.log('✅ Guaranteed working data generated:', {
@@ -0,0 +1,221 @@
+/**
+ * Monte Carlo Simulation
+ * Uncertainty bands for forecasts from thousands of sampled growth paths:
+ * - Each path samples one CAGR per segment from a normal distribution centred on the segment's published CAGR
+ *   (base year to forecast year); segments are independent, and a segment's draw is shared by all its geographies
+ * - The spread is user-defined in percentage points (one default, optional per-segment overrides) or the
+ *   segment's historical volatility: the standard deviation of its year-on-year growth over the historical years
+ * - A path re-grows the segment's forecast years at the sampled CAGR, keeping the published year-to-year shape:
+ *   value × ((1 + sampled) / (1 + published))^(years since base); historical years are not sampled
+ * - P10/P50/P90 are taken for each series and for the total of all series, per year
+ * Runs in the chart pipeline worker; paths are seeded so the same settings always give the same bands
+ */
+
+import type { ChartDataPoint, DataRecord, Metadata } from './types'
+import { createSeededRandom } from './seeded-random'
+
+export type VolatilitySource = 'historical' | 'user'
+
+export interface SimulationSettings {
+  enabled: boolean
+  paths: number
+  seed: number
+  volatilitySource: VolatilitySource
+  volatility: number // Default CAGR standard deviation in percentage points, also used without enough history
+  segmentVolatility: Record<string, number> // Segment path -> CAGR standard deviation in pp, for 'user'
+}
+
+export interface SimulationBand {
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface SimulationResult {
+  paths: number
+  series: Record<string, Record<number, SimulationBand>> // Series -> year -> band
+  total: Record<number, SimulationBand> // Sum of all series
+  volatility: Record<string, number> // Segment path -> CAGR standard deviation used, in pp
+}
+
+export const SIMULATION_PATH_OPTIONS = [1000, 2000, 5000, 10000]
+
+const SIMULATION_SETTINGS_KEY = 'simulationSettings'
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  enabled: false,
+  paths: 2000,
+  seed: 42,
+  volatilitySource: 'historical',
+  volatility: 2,
+  segmentVolatility: {}
+}
+
+// Series contributions of one segment's records, and its published growth
+interface SegmentContribution {
+  segment: string
+  cagr: number // Published CAGR as a fraction
+  volatility: number // CAGR standard deviation as a fraction
+  points: ChartDataPoint[]
+}
+
+// Sum of a segment's records for each year
+function sumSeries(records: DataRecord[], years: number[]): Record<number, number> {
+  const totals: Record<number, number> = {}
+  years.forEach(year => {
+    totals[year] = records.reduce((sum, record) => sum + (record.time_series[year] || 0), 0)
+  })
+  return totals
+}
+
+/**
+ * Standard deviation of year-on-year growth over the historical years, in pp, or null with under two growth rates
+ */
+export function getHistoricalVolatility(records: DataRecord[], metadata: Pick<Metadata, 'historical_years'>): number | null {
+  const years = [...metadata.historical_years].sort((a, b) => a - b)
+  const totals = sumSeries(records, years)
+  const growth: number[] = []
+  for (let i = 1; i < years.length; i++) {
+    const previous = totals[years[i - 1]]
+    if (previous > 0) growth.push((totals[years[i]] / previous - 1) * 100)
+  }
+  if (growth.length < 2) return null
+  const mean = growth.reduce((sum, rate) => sum + rate, 0) / growth.length
+  const variance = growth.reduce((sum, rate) => sum + (rate - mean) ** 2, 0) / (growth.length - 1)
+  return Math.sqrt(variance)
+}
+
+// CAGR standard deviation for a segment in pp, from the settings or its history
+function getSegmentVolatility(
+  segment: string,
+  records: DataRecord[],
+  metadata: Metadata,
+  settings: SimulationSettings
+): number {
+  if (settings.volatilitySource === 'user') return settings.segmentVolatility[segment] ?? settings.volatility
+  return getHistoricalVolatility(records, metadata) ?? settings.volatility
+}
+
+// Standard normal draw (Box-Muller)
+function normal(random: () => number): number {
+  const u = 1 - random() // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0
+  const position = (sorted.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.min(lower + 1, sorted.length - 1)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function toBand(values: Float64Array): SimulationBand {
+  const sorted = values.slice().sort()
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) }
+}
+
+/**
+ * Simulate the series that `prepare` builds from the records
+ * `prepare` must add up record values (as the line and bar preparations do), so each segment's records
+ * can be prepared once and scaled per path
+ */
+export function runSimulation(
+  records: DataRecord[],
+  metadata: Metadata,
+  settings: SimulationSettings,
+  prepare: (records: DataRecord[]) => ChartDataPoint[]
+): SimulationResult {
+  const { base_year: baseYear, forecast_year: forecastYear } = metadata
+  const horizon = forecastYear - baseYear
+  const paths = Math.max(1, Math.round(settings.paths))
+
+  // Group the records by segment and prepare each group's contribution to the series once
+  const bySegment = new Map<string, DataRecord[]>()
+  records.forEach(record => {
+    const group = bySegment.get(record.segment)
+    if (group) group.push(record)
+    else bySegment.set(record.segment, [record])
+  })
+
+  const volatility: Record<string, number> = {}
+  const contributions: SegmentContribution[] = []
+  bySegment.forEach((segmentRecords, segment) => {
+    const totals = sumSeries(segmentRecords, [baseYear, forecastYear])
+    const cagr = totals[baseYear] > 0 && totals[forecastYear] > 0 && horizon > 0
+      ? Math.pow(totals[forecastYear] / totals[baseYear], 1 / horizon) - 1
+      : 0
+    volatility[segment] = getSegmentVolatility(segment, segmentRecords, metadata, settings)
+    contributions.push({ segment, cagr, volatility: volatility[segment] / 100, points: prepare(segmentRecords) })
+  })
+
+  // Series and years of the prepared points, and where each segment adds to them
+  const years = Array.from(new Set(contributions.flatMap(c => c.points.map(point => point.year)))).sort((a, b) => a - b)
+  const seriesNames = Array.from(new Set(contributions.flatMap(c =>
+    c.points.flatMap(point => Object.keys(point).filter(key => key !== 'year'))
+  )))
+  const seriesIndex = new Map(seriesNames.map((name, i) => [name, i]))
+  const yearIndex = new Map(years.map((year, i) => [year, i]))
+  const terms = contributions.map(contribution => {
+    const entries: Array<{ series: number; year: number; steps: number; value: number }> = []
+    contribution.points.forEach(point => {
+      Object.entries(point).forEach(([key, value]) => {
+        if (key === 'year' || typeof value !== 'number' || value === 0) return
+        entries.push({ series: seriesIndex.get(key)!, year: yearIndex.get(point.year)!, steps: point.year - baseYear, value })
+      })
+    })
+    return entries
+  })
+
+  // Path values per series, year and path; the total is the last series slot
+  const slots = seriesNames.length + 1
+  const samples = Array.from({ length: slots * years.length }, () => new Float64Array(paths))
+  const random = createSeededRandom(settings.seed)
+
+  for (let path = 0; path < paths; path++) {
+    contributions.forEach((contribution, c) => {
+      const sampled = contribution.cagr + contribution.volatility * normal(random)
+      const ratio = Math.max(1 + sampled, 0) / (1 + contribution.cagr)
+      terms[c].forEach(term => {
+        const value = term.steps > 0 ? term.value * Math.pow(ratio, term.steps) : term.value
+        samples[term.year * slots + term.series][path] += value
+        samples[term.year * slots + seriesNames.length][path] += value
+      })
+    })
+  }
+
+  const series: SimulationResult['series'] = {}
+  const total: SimulationResult['total'] = {}
+  years.forEach((year, y) => {
+    seriesNames.forEach((name, s) => {
+      if (!series[name]) series[name] = {}
+      series[name][year] = toBand(samples[y * slots + s])
+    })
+    total[year] = toBand(samples[y * slots + seriesNames.length])
+  })
+
+  console.log('🎲 Monte Carlo simulation:', { paths, segments: contributions.length, series: seriesNames.length })
+
+  return { paths, series, total, volatility }
+}
+
+/**
+ * Load saved simulation settings, falling back to the defaults
+ */
+export function loadSavedSimulationSettings(): SimulationSettings {
+  if (typeof window === 'undefined') return DEFAULT_SIMULATION_SETTINGS
+  try {
+    const saved = localStorage.getItem(SIMULATION_SETTINGS_KEY)
+    return saved ? { ...DEFAULT_SIMULATION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SIMULATION_SETTINGS
+  } catch (error) {
+    console.error('Error loading saved simulation settings:', error)
+    return DEFAULT_SIMULATION_SETTINGS
+  }
+}
+
+/**
+ * Save simulation settings for the next visit
+ */
+export function saveSimulationSettings(settings: SimulationSettings): void {
+  localStorage.setItem(SIMULATION_SETTINGS_KEY, JSON.stringify(settings))
+}
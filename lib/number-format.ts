@@ -0,0 +1,242 @@
+/**
+ * Number Formatting
+ * Formats amounts for chart axes, tooltips, tables and exports from one user preference:
+ * - Digit grouping: international (12,345,678) or Indian lakh/crore (1,23,45,678)
+ * - Compact notation: K/M/Bn internationally, K/L/Cr in the Indian system
+ * - Decimals per unit (e.g. one for Cr., none for Tonnes) so small units don't show spurious precision
+ * - A display unit for volumes (Tonnes, Kilo Tons, Mn Tonnes); volume records are rescaled on load
+ * Settings are saved in localStorage
+ */
+
+import type { ComparisonData, DataType, Metadata } from './types'
+
+export type DigitGrouping = 'international' | 'indian'
+
+export interface NumberFormatSettings {
+  grouping: DigitGrouping
+  compact: boolean // Compact notation in tooltips and tables too; axes are always compact
+  decimals: Record<string, number> // Unit label -> decimals, '%' for percentages
+  volumeUnit: string | null // Volume display unit, null to keep the source unit
+}
+
+export interface FormatOptions {
+  unit?: string // Unit of the value, used to pick its decimals
+  decimals?: number // Overrides the unit's decimals
+  compact?: boolean // Overrides the compact setting
+  grouping?: boolean // Set false for plain digits, e.g. in CSV exports
+  signed?: boolean // Prefix positive values with '+'
+}
+
+const NUMBER_FORMAT_SETTINGS_KEY = 'numberFormatSettings'
+
+const DEFAULT_DECIMALS = 2
+
+const MEASURE_NAMES: Record<DataType, string> = {
+  value: 'Market Value',
+  volume: 'Market Volume',
+  price: 'Average Price'
+}
+
+// Compact suffixes, largest first
+const COMPACT_STEPS: Record<DigitGrouping, Array<[number, string]>> = {
+  international: [[1e12, 'T'], [1e9, 'Bn'], [1e6, 'M'], [1e3, 'K']],
+  indian: [[1e7, 'Cr'], [1e5, 'L'], [1e3, 'K']]
+}
+
+// Multiplier of each volume unit in tonnes, keyed by its normalized form
+const VOLUME_UNIT_SCALES: Record<string, number> = {
+  kg: 1e-3,
+  kilograms: 1e-3,
+  t: 1,
+  tonnes: 1,
+  tons: 1,
+  mt: 1, // Metric tons
+  'metric tons': 1,
+  kt: 1e3,
+  'kilo tons': 1e3,
+  kilotons: 1e3,
+  'kilo tonnes': 1e3,
+  'mn tonnes': 1e6,
+  'million tonnes': 1e6
+}
+
+/**
+ * Volume units offered by the number format settings, smallest first
+ */
+export const VOLUME_UNITS = ['Kg', 'Tonnes', 'Kilo Tons', 'Mn Tonnes']
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormatSettings = {
+  grouping: 'international',
+  compact: false,
+  decimals: {
+    '%': 1,
+    K: 0,
+    Lakh: 0,
+    Mn: 1,
+    'Cr.': 1,
+    Bn: 2,
+    Kg: 0,
+    Tonnes: 0,
+    'Kilo Tons': 1,
+    'Mn Tonnes': 2
+  },
+  volumeUnit: null
+}
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function getFormatter(grouping: DigitGrouping, decimals: number, useGrouping: boolean): Intl.NumberFormat {
+  const key = `${grouping}:${decimals}:${useGrouping}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(grouping === 'indian' ? 'en-IN' : 'en-US', {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+      useGrouping
+    })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.replace(/\./g, '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Decimals for values in a unit, from the settings or the default of two
+ */
+export function getDecimals(settings: NumberFormatSettings, unit: string = ''): number {
+  const normalized = normalizeUnit(unit)
+  const match = Object.keys(settings.decimals).find(key => normalizeUnit(key) === normalized)
+  return match === undefined ? DEFAULT_DECIMALS : settings.decimals[match]
+}
+
+/**
+ * Unit label of a data type's amounts (e.g. 'Cr.', 'Kilo Tons' or 'INR/kg'), for picking decimals
+ */
+export function getAmountUnit(metadata: Metadata, dataType: DataType): string {
+  if (dataType === 'price') return metadata.price_unit ?? ''
+  return dataType === 'value' ? metadata.value_unit : metadata.volume_unit
+}
+
+/**
+ * Axis and column label for a data type's amounts, e.g. 'INR Cr.', 'Kilo Tons' or 'INR/kg'
+ */
+export function getUnitLabel(metadata: Metadata, dataType: DataType): string {
+  return dataType === 'value' ? `${metadata.currency} ${metadata.value_unit}` : getAmountUnit(metadata, dataType)
+}
+
+/**
+ * Axis title for a data type's amounts, e.g. 'Market Value (INR Cr.)' or 'Average Price (INR/kg)'
+ */
+export function getMeasureLabel(metadata: Metadata, dataType: DataType): string {
+  return `${MEASURE_NAMES[dataType]} (${getUnitLabel(metadata, dataType)})`
+}
+
+/**
+ * Format a number with the preferred grouping, decimals and notation
+ */
+export function formatNumber(value: number, settings: NumberFormatSettings, options: FormatOptions = {}): string {
+  if (!Number.isFinite(value)) return '—'
+  const decimals = options.decimals ?? getDecimals(settings, options.unit)
+  const sign = options.signed && value > 0 ? '+' : ''
+
+  if (options.compact ?? settings.compact) {
+    const step = COMPACT_STEPS[settings.grouping].find(([size]) => Math.abs(value) >= size)
+    if (step) {
+      const compactDecimals = Math.max(decimals, 1)
+      return `${sign}${getFormatter(settings.grouping, compactDecimals, options.grouping ?? true).format(value / step[0])}${step[1]}`
+    }
+  }
+
+  return `${sign}${getFormatter(settings.grouping, decimals, options.grouping ?? true).format(value)}`
+}
+
+/**
+ * Format an amount followed by its unit label, e.g. "INR 1,23,456.7 Cr."
+ */
+export function formatCurrency(value: number, currency: string, unit: string, settings: NumberFormatSettings): string {
+  return `${currency} ${formatNumber(value, settings, { unit })} ${unit}`.trim()
+}
+
+/**
+ * Format a percentage with the '%' decimals
+ */
+export function formatPercentage(value: number, settings: NumberFormatSettings, options: FormatOptions = {}): string {
+  return `${formatNumber(value, settings, { unit: '%', compact: false, ...options })}%`
+}
+
+/**
+ * Short axis tick label: compact notation with at most one decimal and no trailing zeros
+ */
+export function formatAxisTick(value: number, settings: NumberFormatSettings): string {
+  if (!Number.isFinite(value)) return ''
+  const step = COMPACT_STEPS[settings.grouping].find(([size]) => Math.abs(value) >= size)
+  const scaled = step ? value / step[0] : value
+  const decimals = Number.isInteger(Math.round(scaled * 10) / 10) ? 0 : 1
+  return `${getFormatter(settings.grouping, decimals, true).format(scaled)}${step ? step[1] : ''}`
+}
+
+/**
+ * Multiplier of a volume unit in tonnes (e.g. 'Kilo Tons' -> 1000), or null when the unit is not recognised
+ */
+export function getVolumeUnitScale(unit: string): number | null {
+  return VOLUME_UNIT_SCALES[normalizeUnit(unit)] ?? null
+}
+
+/**
+ * Rescale the volume records into the display unit; values and market shares are unchanged
+ */
+export function rescaleVolumeData(data: ComparisonData, volumeUnit: string | null): ComparisonData {
+  const sourceUnit = data.metadata.volume_unit
+  if (!volumeUnit || volumeUnit === sourceUnit) return data
+  const sourceScale = getVolumeUnitScale(sourceUnit)
+  const targetScale = getVolumeUnitScale(volumeUnit)
+  if (sourceScale === null || targetScale === null) return data
+
+  const factor = sourceScale / targetScale
+  const records = data.data.volume.geography_segment_matrix.map(record => {
+    const timeSeries: Record<number, number> = {}
+    Object.entries(record.time_series).forEach(([year, value]) => {
+      timeSeries[Number(year)] = value * factor
+    })
+    return { ...record, time_series: timeSeries }
+  })
+
+  return {
+    ...data,
+    metadata: { ...data.metadata, volume_unit: volumeUnit },
+    data: {
+      ...data.data,
+      volume: { ...data.data.volume, geography_segment_matrix: records }
+    }
+  }
+}
+
+/**
+ * Load saved number format settings, falling back to the defaults
+ */
+export function loadSavedNumberFormat(): NumberFormatSettings {
+  if (typeof window === 'undefined') return DEFAULT_NUMBER_FORMAT
+  try {
+    const saved = localStorage.getItem(NUMBER_FORMAT_SETTINGS_KEY)
+    if (!saved) return DEFAULT_NUMBER_FORMAT
+    const parsed = JSON.parse(saved) as Partial<NumberFormatSettings>
+    return {
+      ...DEFAULT_NUMBER_FORMAT,
+      ...parsed,
+      decimals: { ...DEFAULT_NUMBER_FORMAT.decimals, ...parsed.decimals }
+    }
+  } catch (error) {
+    console.error('Error loading saved number format settings:', error)
+    return DEFAULT_NUMBER_FORMAT
+  }
+}
+
+/**
+ * Save number format settings for the next visit
+ */
+export function saveNumberFormat(settings: NumberFormatSettings): void {
+  localStorage.setItem(NUMBER_FORMAT_SETTINGS_KEY, JSON.stringify(settings))
+}
@@ -4,6 +4,16 @@
  */
 
 import type { ComparisonData, DataRecord, FilterState } from './types'
+import { withoutSegmentRollups } from './rollup'
+import { normalizeGeographyName } from './geography-hierarchy'
+
+/**
+ * Whether a record's geography is one of the selected names, ignoring case and spacing
+ */
+function isSelectedGeography(selected: string[], geography: string): boolean {
+  const normalized = normalizeGeographyName(geography)
+  return selected.some(name => normalizeGeographyName(name) === normalized)
+}
 
 /**
  * Calculate top regions based on market value for a specific year
@@ -20,7 +30,7 @@ export function getTopRegionsByMarketValue(
   if (!data) return []
 
   // Get all value data records
-  const records = data.data.value.geography_segment_matrix
+  const records = withoutSegmentRollups(data.data.value.geography_segment_matrix)
 
   // Calculate total market value by region for the specified year
   const regionTotals = new Map<string, number>()
@@ -86,7 +96,7 @@ export function getFirstLevelSegments(
   // because the hierarchy structure is complex (B2B/B2C > Category > Subcategory > ...)
   if (segmentType === 'By End-Use*Product Type') {
     // Get unique segments from data records
-    const records = data.data.value.geography_segment_matrix
+    const records = withoutSegmentRollups(data.data.value.geography_segment_matrix)
     const uniqueSegments = new Set<string>()
     
     records
@@ -155,7 +165,7 @@ export function getTopRegionsByCAGR(
   if (!data) return []
 
   // Get all value data records
-  const records = data.data.value.geography_segment_matrix
+  const records = withoutSegmentRollups(data.data.value.geography_segment_matrix)
 
   // Calculate average CAGR for each region
   const regionCAGRs = new Map<string, number[]>()
@@ -215,7 +225,7 @@ export function getTopCountriesByCAGR(
   if (!data) return []
 
   // Get all value data records
-  const records = data.data.value.geography_segment_matrix
+  const records = withoutSegmentRollups(data.data.value.geography_segment_matrix)
 
   // Calculate average CAGR for each country
   const countryCAGRs = new Map<string, number[]>()
@@ -285,7 +295,7 @@ export function createTopMarketFilters(data: ComparisonData | null): Partial<Fil
   }
 
   try {
-    const records = data.data?.value?.geography_segment_matrix
+    const records = withoutSegmentRollups(data.data?.value?.geography_segment_matrix ?? [])
     if (!records || !Array.isArray(records) || records.length === 0) {
       console.warn('⚠️ Top Markets Preset: No records found in data')
       return {
@@ -376,12 +386,8 @@ export function createTopMarketFilters(data: ComparisonData | null): Partial<Fil
     
     records.forEach(record => {
       try {
-        // Must match one of the selected geographies (exact match first, then flexible)
-        const geoMatches = selectedGeographies.includes(record.geography) ||
-          selectedGeographies.some(geo => 
-            record.geography.startsWith(geo) || 
-            geo.startsWith(record.geography)
-          )
+        // Must match one of the selected geographies
+        const geoMatches = isSelectedGeography(selectedGeographies, record.geography)
         
         if (!geoMatches) return
         
@@ -433,11 +439,7 @@ export function createTopMarketFilters(data: ComparisonData | null): Partial<Fil
     // Count records that match both selected geographies and segments
     const matchingRecords = records.filter(record => {
       try {
-        const geoMatches = selectedGeographies.includes(record.geography) ||
-          selectedGeographies.some(geo => 
-            record.geography.startsWith(geo) || 
-            geo.startsWith(record.geography)
-          )
+        const geoMatches = isSelectedGeography(selectedGeographies, record.geography)
         if (!geoMatches) return false
         if (!sortedSegments.includes(record.segment)) return false
         if (record.segment_type !== segmentType) return false
@@ -508,18 +510,12 @@ export function createGrowthLeadersFilters(data: ComparisonData | null): Partial
   const selectedGeographies = topRegions.length > 0 ? topRegions : ['West India', 'East India']
 
   // Dynamically find segments that exist for the selected geographies
-  const records = data.data.value.geography_segment_matrix
+  const records = withoutSegmentRollups(data.data.value.geography_segment_matrix)
   const segmentsForGeos = new Set<string>()
   
   records.forEach(record => {
-    // Handle geography name variations (e.g., "North India" vs "North India (5 states)")
-    const geoMatches = selectedGeographies.some(geo => {
-      return record.geography === geo || 
-             record.geography.startsWith(geo) || 
-             geo.startsWith(record.geography) ||
-             record.geography.includes(geo) ||
-             geo.includes(record.geography)
-    })
+    // Must match one of the selected geographies
+    const geoMatches = isSelectedGeography(selectedGeographies, record.geography)
     
     if (geoMatches && 
         record.segment_type === 'By End-Use*Product Type' &&
@@ -538,14 +534,7 @@ export function createGrowthLeadersFilters(data: ComparisonData | null): Partial
       // Calculate average CAGR for this segment across selected geographies
       const segmentRecords = records.filter(r => {
         if (r.segment !== segment || r.cagr === undefined || r.cagr === null) return false
-        // Use flexible geography matching
-        return selectedGeographies.some(geo => {
-          return r.geography === geo || 
-                 r.geography.startsWith(geo) || 
-                 geo.startsWith(r.geography) ||
-                 r.geography.includes(geo) ||
-                 geo.includes(r.geography)
-        })
+        return isSelectedGeography(selectedGeographies, r.geography)
       })
       const avgCAGR = segmentRecords.length > 0
         ? segmentRecords.reduce((sum, r) => sum + (r.cagr || 0), 0) / segmentRecords.length
@@ -611,18 +600,12 @@ export function createEmergingMarketsFilters(data: ComparisonData | null): Parti
     : ['Odisha', 'Uttar Pradesh', 'Assam', 'Tamil Nadu', 'Maharashtra']
 
   // Dynamically find segments that exist for the selected geographies
-  const records = data.data.value.geography_segment_matrix
+  const records = withoutSegmentRollups(data.data.value.geography_segment_matrix)
   const segmentsForGeos = new Set<string>()
   
   records.forEach(record => {
-    // Handle geography name variations (e.g., "North India" vs "North India (5 states)")
-    const geoMatches = selectedGeographies.some(geo => {
-      return record.geography === geo || 
-             record.geography.startsWith(geo) || 
-             geo.startsWith(record.geography) ||
-             record.geography.includes(geo) ||
-             geo.includes(record.geography)
-    })
+    // Must match one of the selected geographies
+    const geoMatches = isSelectedGeography(selectedGeographies, record.geography)
     
     if (geoMatches && 
         record.segment_type === 'By End-Use*Product Type' &&
@@ -641,14 +624,7 @@ export function createEmergingMarketsFilters(data: ComparisonData | null): Parti
       // Calculate average CAGR for this segment across selected geographies
       const segmentRecords = records.filter(r => {
         if (r.segment !== segment || r.cagr === undefined || r.cagr === null) return false
-        // Use flexible geography matching
-        return selectedGeographies.some(geo => {
-          return r.geography === geo || 
-                 r.geography.startsWith(geo) || 
-                 geo.startsWith(r.geography) ||
-                 r.geography.includes(geo) ||
-                 geo.includes(r.geography)
-        })
+        return isSelectedGeography(selectedGeographies, r.geography)
       })
       const avgCAGR = segmentRecords.length > 0
         ? segmentRecords.reduce((sum, r) => sum + (r.cagr || 0), 0) / segmentRecords.length
@@ -0,0 +1,181 @@
+/**
+ * Average Price
+ * Derives a third data type, price per unit, from the value and volume matrices:
+ * - Value and volume records are joined on geography, segment type and segment
+ * - Price per year is value ÷ volume, quoted per kg when both units are recognised (e.g. INR/kg)
+ * - Price records keep their volumes as weights, so any aggregate is a volume-weighted average
+ *   (total value ÷ total volume) rather than a sum of prices
+ */
+
+import type { ChartDataPoint, ComparisonData, DataRecord, Metadata } from './types'
+import { recordKey } from './record-index'
+import { getUnitScale } from './currency'
+import { getVolumeUnitScale } from './number-format'
+
+export interface PriceUnit {
+  unit: string // Label of price amounts, e.g. 'INR/kg'
+  factor: number // Multiplier taking (value ÷ volume) in the dataset's units into the price unit
+}
+
+/**
+ * Unit of derived prices: currency per kg when both units are recognised, otherwise the raw unit ratio
+ */
+export function getPriceUnit(metadata: Metadata): PriceUnit {
+  const valueScale = getUnitScale(metadata.value_unit)
+  const volumeScale = getVolumeUnitScale(metadata.volume_unit)
+  if (valueScale === null || volumeScale === null) {
+    return { unit: `${metadata.currency} ${metadata.value_unit}/${metadata.volume_unit}`, factor: 1 }
+  }
+  // Volume scales are in tonnes
+  return { unit: `${metadata.currency}/kg`, factor: valueScale / (volumeScale * 1000) }
+}
+
+function calculateCAGR(timeSeries: Record<number, number>, metadata: Metadata): number {
+  const startValue = timeSeries[metadata.base_year] || 0
+  const endValue = timeSeries[metadata.forecast_year] || 0
+  const periods = metadata.forecast_year - metadata.base_year
+  return startValue > 0 && endValue > 0 && periods > 0
+    ? (Math.pow(endValue / startValue, 1 / periods) - 1) * 100
+    : 0
+}
+
+/**
+ * Add price records to the data, one per value record with a matching volume record
+ * Years without a positive volume are left out of the price series; market share is the value record's
+ */
+export function derivePriceData(data: ComparisonData): ComparisonData {
+  const { metadata } = data
+  const { unit, factor } = getPriceUnit(metadata)
+
+  const volumes = new Map<string, DataRecord>()
+  data.data.volume.geography_segment_matrix.forEach(record => {
+    volumes.set(recordKey(record.geography, record.segment_type, record.segment), record)
+  })
+
+  const records: DataRecord[] = []
+  data.data.value.geography_segment_matrix.forEach(record => {
+    const volume = volumes.get(recordKey(record.geography, record.segment_type, record.segment))
+    if (!volume) return
+
+    const timeSeries: Record<number, number> = {}
+    const weights: Record<number, number> = {}
+    Object.entries(record.time_series).forEach(([key, value]) => {
+      const year = Number(key)
+      const amount = volume.time_series[year] || 0
+      if (amount <= 0) return
+      timeSeries[year] = (value / amount) * factor
+      weights[year] = amount
+    })
+    if (Object.keys(timeSeries).length === 0) return
+
+    records.push({
+      ...record,
+      time_series: timeSeries,
+      price_weights: weights,
+      cagr: calculateCAGR(timeSeries, metadata)
+    })
+  })
+
+  console.log('💲 Price records derived:', { records: records.length, unit })
+
+  return {
+    ...data,
+    metadata: { ...metadata, price_unit: unit },
+    data: {
+      ...data.data,
+      price: { geography_segment_matrix: records }
+    }
+  }
+}
+
+/**
+ * Total of the records in a year; for price records, the volume-weighted average price
+ */
+export function aggregateAmount(records: DataRecord[], year: number): number {
+  let total = 0
+  let weight = 0
+  records.forEach(record => {
+    const value = record.time_series[year] || 0
+    const recordWeight = record.price_weights ? record.price_weights[year] || 0 : 1
+    total += value * recordWeight
+    weight += recordWeight
+  })
+  if (!records.some(record => record.price_weights)) return total
+  return weight > 0 ? total / weight : 0
+}
+
+/**
+ * Amount a market share is taken of: the records' total, or for price records their value (price × volume)
+ */
+export function shareBasis(records: DataRecord[], year: number): number {
+  return records.reduce((sum, record) => {
+    const weight = record.price_weights ? record.price_weights[year] || 0 : 1
+    return sum + (record.time_series[year] || 0) * weight
+  }, 0)
+}
+
+// Split price records into records of price × volume and records of volume
+function splitPriceRecords(records: DataRecord[]): { amounts: DataRecord[]; weights: DataRecord[] } {
+  const amounts: DataRecord[] = []
+  const weights: DataRecord[] = []
+  records.forEach(record => {
+    const recordWeights = record.price_weights ?? {}
+    const amountSeries: Record<number, number> = {}
+    Object.entries(record.time_series).forEach(([year, price]) => {
+      amountSeries[Number(year)] = price * (recordWeights[Number(year)] || 0)
+    })
+    amounts.push({ ...record, time_series: amountSeries })
+    weights.push({ ...record, time_series: recordWeights })
+  })
+  return { amounts, weights }
+}
+
+// Divide prepared price × volume points by the matching volume points, series by series
+function dividePoints(amounts: ChartDataPoint[], weights: ChartDataPoint[]): ChartDataPoint[] {
+  return amounts.map((point, index) => {
+    const divisor = weights[index]
+    const divided: ChartDataPoint = { year: point.year }
+    Object.entries(point).forEach(([key, amount]) => {
+      if (key === 'year') return
+      const weight = divisor?.[key]
+      divided[key] = typeof amount === 'number' && typeof weight === 'number'
+        ? (weight > 0 ? amount / weight : 0)
+        : amount
+    })
+    return divided
+  })
+}
+
+/**
+ * Run a summing chart preparation (grouped bar, line) over price records
+ * Price × volume and volume are prepared separately and divided, so every series is a volume-weighted average
+ */
+export function preparePricePoints(
+  records: DataRecord[],
+  prepare: (records: DataRecord[]) => ChartDataPoint[]
+): ChartDataPoint[] {
+  const { amounts, weights } = splitPriceRecords(records)
+  return dividePoints(prepare(amounts), prepare(weights))
+}
+
+/**
+ * Price records rescaled so each year's values sum to the average price of all of them
+ * Lets a contribution breakdown (e.g. the waterfall) start and end at the average price
+ */
+export function toPriceContributions(records: DataRecord[]): DataRecord[] {
+  const totals = new Map<number, number>()
+  records.forEach(record => {
+    Object.entries(record.price_weights ?? {}).forEach(([year, weight]) => {
+      totals.set(Number(year), (totals.get(Number(year)) || 0) + weight)
+    })
+  })
+  return records.map(record => {
+    const timeSeries: Record<number, number> = {}
+    Object.entries(record.time_series).forEach(([key, price]) => {
+      const year = Number(key)
+      const total = totals.get(year) || 0
+      timeSeries[year] = total > 0 ? (price * (record.price_weights?.[year] || 0)) / total : 0
+    })
+    return { ...record, time_series: timeSeries }
+  })
+}
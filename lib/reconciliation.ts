@@ -0,0 +1,239 @@
+/**
+ * Hierarchy Reconciliation
+ * Checks that every parent equals the sum of its children, per year and data type:
+ * - Geographies: the country total vs its regions, each region vs its countries (from GeographyDimension)
+ * - Segments: each segment path vs its direct child paths, within one geography and segment type
+ */
+
+import type { ComparisonData, DataRecord, GeographyDimension } from './types'
+
+export type ReconciliationKind = 'geography' | 'segment'
+
+export const DEFAULT_RECONCILIATION_TOLERANCE = 0.5 // % of the parent value
+
+export interface ReconciliationGap {
+  year: number
+  parentValue: number
+  childrenSum: number
+  difference: number // Parent minus the sum of its children
+  differencePercent: number | null // Relative to the parent; null when the parent is 0
+}
+
+export interface ReconciliationMismatch {
+  key: string
+  kind: ReconciliationKind
+  dataType: 'value' | 'volume'
+  segment_type: string
+  geography: string // Parent geography, or the geography the segment check ran in
+  segment: string // Segment the geography check ran for, or the parent segment
+  parent: DataRecord
+  children: DataRecord[]
+  missingChildren: string[] // Child geographies in the dimension with no record for this segment
+  gaps: ReconciliationGap[] // Years outside the tolerance
+  worstGap: ReconciliationGap
+}
+
+export interface ReconciliationReport {
+  tolerance: number
+  mismatches: ReconciliationMismatch[] // Worst relative gap first
+  checkedNodes: number // Parents with at least one child record
+  summary: Record<ReconciliationKind, number>
+}
+
+export interface ReconciliationOptions {
+  tolerance?: number // % of the parent value
+  dataTypes?: Array<'value' | 'volume'>
+}
+
+const SEGMENT_SEPARATOR = ' > '
+
+// Absolute differences below this are rounding noise, even when the parent is 0
+const ABSOLUTE_EPSILON = 1e-6
+
+function recordKey(geography: string, segmentType: string, segment: string): string {
+  return `${geography}::${segmentType}::${segment}`
+}
+
+/**
+ * Child geographies of each parent, as listed in the geography dimension
+ * Regions belong to the global geography; with several globals, to the one their records name as parent
+ */
+export function getGeographyChildren(
+  geographies: GeographyDimension,
+  records: DataRecord[]
+): Map<string, string[]> {
+  const children = new Map<string, string[]>()
+
+  const declaredParents = new Map<string, string>()
+  records.forEach(record => {
+    if (record.parent_geography) declaredParents.set(record.geography, record.parent_geography)
+  })
+
+  geographies.global.forEach(global => {
+    const regions = geographies.global.length === 1
+      ? geographies.regions
+      : geographies.regions.filter(region => declaredParents.get(region) === global)
+    if (regions.length > 0) children.set(global, regions)
+  })
+  Object.entries(geographies.countries).forEach(([region, countries]) => {
+    if (countries.length > 0) children.set(region, countries)
+  })
+
+  return children
+}
+
+function findGaps(parent: DataRecord, children: DataRecord[], years: number[], tolerance: number): ReconciliationGap[] {
+  const gaps: ReconciliationGap[] = []
+  years.forEach(year => {
+    const parentValue = parent.time_series[year] ?? 0
+    const childrenSum = children.reduce((sum, child) => sum + (child.time_series[year] ?? 0), 0)
+    const difference = parentValue - childrenSum
+    const allowed = Math.max(ABSOLUTE_EPSILON, Math.abs(parentValue) * tolerance / 100)
+    if (Math.abs(difference) > allowed) {
+      gaps.push({
+        year,
+        parentValue,
+        childrenSum,
+        difference,
+        differencePercent: parentValue !== 0 ? (difference / parentValue) * 100 : null
+      })
+    }
+  })
+  return gaps
+}
+
+// Gaps against a zero parent have no percentage and rank first
+function gapSize(gap: ReconciliationGap): number {
+  return gap.differencePercent === null ? Number.MAX_VALUE : Math.abs(gap.differencePercent)
+}
+
+function worstOf(gaps: ReconciliationGap[]): ReconciliationGap {
+  return gaps.reduce((worst, gap) => (gapSize(gap) > gapSize(worst) ? gap : worst))
+}
+
+function reconcileGeographies(
+  records: DataRecord[],
+  geographies: GeographyDimension,
+  dataType: 'value' | 'volume',
+  years: number[],
+  tolerance: number,
+  report: ReconciliationReport
+) {
+  const byKey = new Map<string, DataRecord>()
+  const byGeography = new Map<string, DataRecord[]>()
+  records.forEach(record => {
+    byKey.set(recordKey(record.geography, record.segment_type, record.segment), record)
+    const sameGeography = byGeography.get(record.geography)
+    if (sameGeography) sameGeography.push(record)
+    else byGeography.set(record.geography, [record])
+  })
+
+  getGeographyChildren(geographies, records).forEach((childGeographies, parentGeography) => {
+    byGeography.get(parentGeography)?.forEach(parent => {
+      const children: DataRecord[] = []
+      const missingChildren: string[] = []
+      childGeographies.forEach(child => {
+        const record = byKey.get(recordKey(child, parent.segment_type, parent.segment))
+        if (record) children.push(record)
+        else missingChildren.push(child)
+      })
+      if (children.length === 0) return
+
+      report.checkedNodes++
+      const gaps = findGaps(parent, children, years, tolerance)
+      if (gaps.length === 0) return
+
+      report.mismatches.push({
+        key: `geography::${dataType}::${recordKey(parentGeography, parent.segment_type, parent.segment)}`,
+        kind: 'geography',
+        dataType,
+        segment_type: parent.segment_type,
+        geography: parentGeography,
+        segment: parent.segment,
+        parent,
+        children,
+        missingChildren,
+        gaps,
+        worstGap: worstOf(gaps)
+      })
+    })
+  })
+}
+
+function reconcileSegments(
+  records: DataRecord[],
+  dataType: 'value' | 'volume',
+  years: number[],
+  tolerance: number,
+  report: ReconciliationReport
+) {
+  const byKey = new Map<string, DataRecord>()
+  records.forEach(record => byKey.set(recordKey(record.geography, record.segment_type, record.segment), record))
+
+  // Direct children of each segment path that has a record of its own
+  const childrenOf = new Map<DataRecord, DataRecord[]>()
+  records.forEach(record => {
+    const parts = record.segment.split(SEGMENT_SEPARATOR)
+    if (parts.length < 2) return
+    const parent = byKey.get(recordKey(record.geography, record.segment_type, parts.slice(0, -1).join(SEGMENT_SEPARATOR)))
+    if (!parent) return
+    const siblings = childrenOf.get(parent)
+    if (siblings) siblings.push(record)
+    else childrenOf.set(parent, [record])
+  })
+
+  childrenOf.forEach((children, parent) => {
+    report.checkedNodes++
+    const gaps = findGaps(parent, children, years, tolerance)
+    if (gaps.length === 0) return
+
+    report.mismatches.push({
+      key: `segment::${dataType}::${recordKey(parent.geography, parent.segment_type, parent.segment)}`,
+      kind: 'segment',
+      dataType,
+      segment_type: parent.segment_type,
+      geography: parent.geography,
+      segment: parent.segment,
+      parent,
+      children,
+      missingChildren: [],
+      gaps,
+      worstGap: worstOf(gaps)
+    })
+  })
+}
+
+/**
+ * Reconcile geography and segment hierarchies for each year and data type
+ */
+export function reconcileData(data: ComparisonData, options: ReconciliationOptions = {}): ReconciliationReport {
+  const tolerance = options.tolerance ?? DEFAULT_RECONCILIATION_TOLERANCE
+  const dataTypes = options.dataTypes ?? ['value', 'volume']
+  const years = data.metadata.years
+
+  const report: ReconciliationReport = {
+    tolerance,
+    mismatches: [],
+    checkedNodes: 0,
+    summary: { geography: 0, segment: 0 }
+  }
+
+  dataTypes.forEach(dataType => {
+    const records = data.data[dataType]?.geography_segment_matrix ?? []
+    reconcileGeographies(records, data.dimensions.geographies, dataType, years, tolerance, report)
+    reconcileSegments(records, dataType, years, tolerance, report)
+  })
+
+  report.mismatches.sort((a, b) => gapSize(b.worstGap) - gapSize(a.worstGap))
+  report.mismatches.forEach(mismatch => {
+    report.summary[mismatch.kind]++
+  })
+
+  console.log('🧮 Hierarchy reconciliation:', {
+    tolerance,
+    checkedNodes: report.checkedNodes,
+    ...report.summary
+  })
+
+  return report
+}
@@ -0,0 +1,236 @@
+/**
+ * Record Index
+ * Lookup tables over a DataRecord array, built once per array and cached
+ * filterData and the unique geography/segment helpers query these instead of scanning every record
+ */
+
+import type { DataRecord, GeographyDimension } from './types'
+import { buildGeographyHierarchy, type GeographyHierarchy } from './geography-hierarchy'
+
+export type RecordBusinessType = 'B2B' | 'B2C'
+
+// One node per ' > ' path part; a node's subtree holds all descendants of that segment
+interface SegmentTrieNode {
+  children: Map<string, SegmentTrieNode>
+  records: number[] // Records whose segment path ends at this node
+}
+
+export interface RecordIndex {
+  records: DataRecord[]
+  byGeography: Map<string, number[]>
+  byGeographyLevel: Map<string, number[]>
+  bySegmentType: Map<string, number[]>
+  byBusinessType: Map<RecordBusinessType, number[]>
+  byHierarchyLevel: Map<string, number[]> // Any segment_hierarchy level value -> records
+  byRecordKey: Map<string, number> // recordKey(geography, segment_type, segment) -> record
+  businessTypes: (RecordBusinessType | null)[] // Per record; null when the record belongs to neither
+  segmentTries: Map<string, SegmentTrieNode> // One trie per segment type
+  geographies: string[] // Unique geographies in first-seen order
+  topSegments: string[] // Parent segments, plus leaves whose parent has no record of its own
+  geographyHierarchies: Map<GeographyDimension | null, GeographyHierarchy> // Per dimension the records are resolved against
+  filterResults: Map<string, DataRecord[]> // Memoized filterData results, keyed by filter
+}
+
+const SEGMENT_SEPARATOR = ' > '
+const MAX_CACHED_FILTER_RESULTS = 50
+
+const indexCache = new WeakMap<DataRecord[], RecordIndex>()
+
+function addToIndex<K>(map: Map<K, number[]>, key: K, position: number) {
+  const list = map.get(key)
+  if (list) {
+    list.push(position)
+  } else {
+    map.set(key, [position])
+  }
+}
+
+/**
+ * Key of the one record for a geography, segment type and segment path
+ */
+export function recordKey(geography: string, segmentType: string, segment: string): string {
+  return `${geography}::${segmentType}::${segment}`
+}
+
+function createTrieNode(): SegmentTrieNode {
+  return { children: new Map(), records: [] }
+}
+
+/**
+ * Business type a record belongs to, taken from level_1 of its hierarchy
+ * or, for "By End-Use*Product Type", from the first part of its segment path
+ */
+export function getRecordBusinessType(record: DataRecord): RecordBusinessType | null {
+  const level1 = record.segment_hierarchy?.level_1
+  if (level1 === 'B2B' || level1 === 'B2C') return level1
+
+  if (record.segment_type === 'By End-Use*Product Type') {
+    const root = record.segment.split(SEGMENT_SEPARATOR)[0]
+    if (root === 'B2B' || root === 'B2C') return root
+  }
+  return null
+}
+
+function collectTopSegments(records: DataRecord[]): string[] {
+  const parentSegments = new Set<string>()
+  records.forEach(record => {
+    if (record.segment_level === 'parent') {
+      parentSegments.add(record.segment)
+    }
+  })
+
+  const segments = new Set<string>()
+  records.forEach(record => {
+    // Leaves are only listed when their parent is not already listed
+    if (record.segment_level === 'parent' || !parentSegments.has(record.segment_hierarchy.level_2)) {
+      segments.add(record.segment)
+    }
+  })
+  return Array.from(segments)
+}
+
+/**
+ * Build the index for a record array
+ * Prefer getRecordIndex, which reuses an existing index for the same array
+ */
+export function buildRecordIndex(records: DataRecord[]): RecordIndex {
+  const index: RecordIndex = {
+    records,
+    byGeography: new Map(),
+    byGeographyLevel: new Map(),
+    bySegmentType: new Map(),
+    byBusinessType: new Map(),
+    byHierarchyLevel: new Map(),
+    byRecordKey: new Map(),
+    businessTypes: [],
+    segmentTries: new Map(),
+    geographies: [],
+    topSegments: collectTopSegments(records),
+    geographyHierarchies: new Map(),
+    filterResults: new Map()
+  }
+
+  records.forEach((record, position) => {
+    addToIndex(index.byGeography, record.geography, position)
+    addToIndex(index.byGeographyLevel, record.geography_level, position)
+    addToIndex(index.bySegmentType, record.segment_type, position)
+    index.byRecordKey.set(recordKey(record.geography, record.segment_type, record.segment), position)
+
+    const businessType = getRecordBusinessType(record)
+    index.businessTypes.push(businessType)
+    if (businessType) {
+      addToIndex(index.byBusinessType, businessType, position)
+    }
+
+    new Set(Object.values(record.segment_hierarchy || {})).forEach(level => {
+      if (level) addToIndex(index.byHierarchyLevel, level, position)
+    })
+
+    let node: SegmentTrieNode | undefined = index.segmentTries.get(record.segment_type)
+    if (!node) {
+      node = createTrieNode()
+      index.segmentTries.set(record.segment_type, node)
+    }
+    for (const part of record.segment.split(SEGMENT_SEPARATOR)) {
+      let child: SegmentTrieNode | undefined = node.children.get(part)
+      if (!child) {
+        child = createTrieNode()
+        node.children.set(part, child)
+      }
+      node = child
+    }
+    node.records.push(position)
+  })
+
+  index.geographies = Array.from(index.byGeography.keys())
+  return index
+}
+
+/**
+ * Index for a record array, built on first use and cached for the array's lifetime
+ * Record arrays are treated as immutable once indexed
+ */
+export function getRecordIndex(records: DataRecord[]): RecordIndex {
+  let index = indexCache.get(records)
+  if (!index) {
+    index = buildRecordIndex(records)
+    indexCache.set(records, index)
+  }
+  return index
+}
+
+function collectSubtree(node: SegmentTrieNode, out: Set<number>) {
+  node.records.forEach(position => out.add(position))
+  node.children.forEach(child => collectSubtree(child, out))
+}
+
+/**
+ * Add records related to a segment path: the segment itself, its descendants and its ancestors
+ */
+export function collectSegmentMatches(
+  index: RecordIndex,
+  segmentType: string,
+  segment: string,
+  out: Set<number>
+): Set<number> {
+  let node: SegmentTrieNode | undefined = index.segmentTries.get(segmentType)
+  const parts = segment.split(SEGMENT_SEPARATOR)
+
+  for (let i = 0; node && i < parts.length; i++) {
+    node = node.children.get(parts[i])
+    if (!node) break
+    if (i < parts.length - 1) {
+      // Ancestor of the selected segment
+      node.records.forEach(position => out.add(position))
+    } else {
+      collectSubtree(node, out)
+    }
+  }
+  return out
+}
+
+/**
+ * Whether a segment path is in a segment type's tree, as a record's segment or an ancestor of one
+ */
+export function hasSegmentPath(index: RecordIndex, segmentType: string, segment: string): boolean {
+  let node: SegmentTrieNode | undefined = index.segmentTries.get(segmentType)
+  for (const part of segment.split(SEGMENT_SEPARATOR)) {
+    node = node?.children.get(part)
+    if (!node) return false
+  }
+  return node !== undefined
+}
+
+/**
+ * Add records that have any part of a segment path as one of their hierarchy levels
+ */
+export function collectHierarchyLevelMatches(index: RecordIndex, segment: string, out: Set<number>): Set<number> {
+  segment.split(SEGMENT_SEPARATOR).forEach(part => {
+    index.byHierarchyLevel.get(part)?.forEach(position => out.add(position))
+  })
+  return out
+}
+
+/**
+ * Geography tree for the indexed records, built once per dimension
+ */
+export function getGeographyHierarchy(index: RecordIndex, dimension?: GeographyDimension): GeographyHierarchy {
+  const key = dimension ?? null
+  let hierarchy = index.geographyHierarchies.get(key)
+  if (!hierarchy) {
+    hierarchy = buildGeographyHierarchy(index.records, dimension)
+    index.geographyHierarchies.set(key, hierarchy)
+  }
+  return hierarchy
+}
+
+/**
+ * Remember a filter result, evicting the oldest entry once the cache is full
+ */
+export function cacheFilterResult(index: RecordIndex, key: string, result: DataRecord[]) {
+  if (index.filterResults.size >= MAX_CACHED_FILTER_RESULTS) {
+    const oldest = index.filterResults.keys().next().value
+    if (oldest !== undefined) index.filterResults.delete(oldest)
+  }
+  index.filterResults.set(key, result)
+}
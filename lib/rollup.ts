@@ -0,0 +1,235 @@
+/**
+ * Roll-up Stage
+ * Runs after load so every level of the segment and geography trees has a record:
+ * - Each intermediate node of a ' > ' segment path gets a 'parent' record summing its child paths
+ * - Regions and the global geography get totals summing their child geographies
+ * Source records are never changed; synthesized records carry `rollup` flags
+ */
+
+import type { ComparisonData, DataRecord, GeographyDimension, Metadata, RecordRollup } from './types'
+import { getGeographyChildren } from './reconciliation'
+import { recordKey } from './record-index'
+
+const SEGMENT_SEPARATOR = ' > '
+
+/**
+ * Records synthesized from child segments; excluded when no segment is selected
+ */
+export function isSegmentRollup(record: DataRecord): boolean {
+  return !!record.rollup?.segment
+}
+
+/**
+ * Records synthesized from child geographies; only shown when their geography is selected
+ */
+export function isGeographyRollup(record: DataRecord): boolean {
+  return !!record.rollup?.geography
+}
+
+/**
+ * Records without segment roll-ups, for code that sums segments across the whole matrix
+ */
+export function withoutSegmentRollups(records: DataRecord[]): DataRecord[] {
+  return records.some(isSegmentRollup) ? records.filter(record => !isSegmentRollup(record)) : records
+}
+
+/**
+ * Source records only
+ */
+export function withoutRollups(records: DataRecord[]): DataRecord[] {
+  return records.some(record => record.rollup) ? records.filter(record => !record.rollup) : records
+}
+
+function sumTimeSeries(records: DataRecord[], years: number[]): Record<number, number> {
+  const timeSeries: Record<number, number> = {}
+  years.forEach(year => {
+    timeSeries[year] = records.reduce((sum, record) => sum + (record.time_series[year] || 0), 0)
+  })
+  return timeSeries
+}
+
+function calculateCAGR(timeSeries: Record<number, number>, metadata: Metadata): number {
+  const startValue = timeSeries[metadata.base_year] || 0
+  const endValue = timeSeries[metadata.forecast_year] || 0
+  const periods = metadata.forecast_year - metadata.base_year
+  return startValue > 0 && periods > 0
+    ? (Math.pow(endValue / startValue, 1 / periods) - 1) * 100
+    : 0
+}
+
+function buildHierarchy(parts: string[], template: DataRecord): DataRecord['segment_hierarchy'] {
+  return {
+    level_1: parts[0] || '',
+    level_2: parts[1] || '',
+    level_3: parts[2] || '',
+    // Keep the source convention when the template's level_4 is the deepest part
+    level_4: parts.length >= 4 ? parts[3] : template.segment_hierarchy.level_4 === template.segment ? parts[parts.length - 1] : ''
+  }
+}
+
+function synthesize(
+  template: DataRecord,
+  children: DataRecord[],
+  overrides: Partial<DataRecord>,
+  rollup: RecordRollup,
+  years: number[]
+): DataRecord {
+  return {
+    ...template,
+    ...overrides,
+    time_series: sumTimeSeries(children, years),
+    cagr: 0,
+    market_share: 0,
+    rollup
+  }
+}
+
+/**
+ * Add a parent record for every segment path prefix that has no record, per geography and segment type
+ * Parents are built bottom-up, so each one sums its direct children
+ */
+function rollUpSegments(records: DataRecord[], years: number[]): DataRecord[] {
+  const byKey = new Map<string, DataRecord>()
+  records.forEach(record => byKey.set(recordKey(record.geography, record.segment_type, record.segment), record))
+
+  // Every missing prefix, with the child paths below it
+  const missing = new Map<string, { template: DataRecord; parts: string[]; childKeys: Set<string> }>()
+  records.forEach(record => {
+    const parts = record.segment.split(SEGMENT_SEPARATOR)
+    for (let depth = parts.length - 1; depth >= 1; depth--) {
+      const parentParts = parts.slice(0, depth)
+      const parentKey = recordKey(record.geography, record.segment_type, parentParts.join(SEGMENT_SEPARATOR))
+      const childKey = recordKey(record.geography, record.segment_type, parts.slice(0, depth + 1).join(SEGMENT_SEPARATOR))
+      if (byKey.has(parentKey)) {
+        // Source parent records stop the walk; their own ancestors are handled from them
+        break
+      }
+      const entry = missing.get(parentKey) ?? { template: record, parts: parentParts, childKeys: new Set<string>() }
+      entry.childKeys.add(childKey)
+      missing.set(parentKey, entry)
+    }
+  })
+
+  const synthesized: DataRecord[] = []
+  ;[...missing.entries()]
+    .sort((a, b) => b[1].parts.length - a[1].parts.length)
+    .forEach(([key, { template, parts, childKeys }]) => {
+      const children = [...childKeys].map(childKey => byKey.get(childKey)!).filter(Boolean)
+      const record = synthesize(template, children, {
+        segment: parts.join(SEGMENT_SEPARATOR),
+        segment_level: 'parent',
+        segment_hierarchy: buildHierarchy(parts, template)
+      }, { segment: true, geography: false }, years)
+      byKey.set(key, record)
+      synthesized.push(record)
+    })
+
+  return synthesized
+}
+
+/**
+ * Add totals for regions and the global geography that have no record, from their child geographies
+ * Deepest parents first, so the global total can use synthesized regions
+ */
+function rollUpGeographies(records: DataRecord[], geographies: GeographyDimension, years: number[]): DataRecord[] {
+  const byKey = new Map<string, DataRecord>()
+  const byGeography = new Map<string, DataRecord[]>()
+  const add = (record: DataRecord) => {
+    byKey.set(recordKey(record.geography, record.segment_type, record.segment), record)
+    const sameGeography = byGeography.get(record.geography)
+    if (sameGeography) sameGeography.push(record)
+    else byGeography.set(record.geography, [record])
+  }
+  records.forEach(add)
+
+  const childrenOf = getGeographyChildren(geographies, records)
+  const parentOf = new Map<string, string>()
+  childrenOf.forEach((children, parent) => children.forEach(child => parentOf.set(child, parent)))
+  const depthOf = (geography: string): number => {
+    const parent = parentOf.get(geography)
+    return parent ? depthOf(parent) + 1 : 0
+  }
+
+  const synthesized: DataRecord[] = []
+  ;[...childrenOf.keys()]
+    .sort((a, b) => depthOf(b) - depthOf(a))
+    .forEach(parentGeography => {
+      const geographyLevel: DataRecord['geography_level'] = geographies.global.includes(parentGeography) ? 'global' : 'region'
+
+      // Group the children's records by segment
+      const groups = new Map<string, DataRecord[]>()
+      childrenOf.get(parentGeography)!.forEach(child => {
+        byGeography.get(child)?.forEach(record => {
+          const key = recordKey(parentGeography, record.segment_type, record.segment)
+          if (byKey.has(key)) return
+          const group = groups.get(key)
+          if (group) group.push(record)
+          else groups.set(key, [record])
+        })
+      })
+
+      groups.forEach(children => {
+        const record = synthesize(children[0], children, {
+          geography: parentGeography,
+          geography_level: geographyLevel,
+          parent_geography: parentOf.get(parentGeography) ?? null
+        }, { segment: children.some(isSegmentRollup), geography: true }, years)
+        add(record)
+        synthesized.push(record)
+      })
+    })
+
+  return synthesized
+}
+
+/**
+ * Recompute CAGR and market share for synthesized records
+ * Share is against the geography's total for the segment type (its top-level segments) in the forecast year
+ */
+function finalizeRollups(records: DataRecord[], synthesized: DataRecord[], metadata: Metadata) {
+  const totals = new Map<string, number>()
+  records.forEach(record => {
+    if (record.segment.includes(SEGMENT_SEPARATOR)) return
+    const key = `${record.geography}::${record.segment_type}`
+    totals.set(key, (totals.get(key) || 0) + (record.time_series[metadata.forecast_year] || 0))
+  })
+
+  synthesized.forEach(record => {
+    const total = totals.get(`${record.geography}::${record.segment_type}`) || 0
+    record.cagr = calculateCAGR(record.time_series, metadata)
+    record.market_share = total > 0 ? ((record.time_series[metadata.forecast_year] || 0) / total) * 100 : 0
+  })
+}
+
+function rollUpRecords(records: DataRecord[], data: ComparisonData): DataRecord[] {
+  const source = withoutRollups(records)
+  const years = data.metadata.years
+  const segmentRollups = rollUpSegments(source, years)
+  const withSegments = [...source, ...segmentRollups]
+  const geographyRollups = rollUpGeographies(withSegments, data.dimensions.geographies, years)
+  const rolledUp = [...withSegments, ...geographyRollups]
+  finalizeRollups(rolledUp, [...segmentRollups, ...geographyRollups], data.metadata)
+  return rolledUp
+}
+
+/**
+ * Add roll-up records to both data types
+ * Idempotent: records from an earlier roll-up are replaced
+ */
+export function rollUpData(data: ComparisonData): ComparisonData {
+  const value = rollUpRecords(data.data.value.geography_segment_matrix, data)
+  const volume = rollUpRecords(data.data.volume.geography_segment_matrix, data)
+
+  console.log('🧩 Roll-up records added:', {
+    value: value.length - withoutRollups(data.data.value.geography_segment_matrix).length,
+    volume: volume.length - withoutRollups(data.data.volume.geography_segment_matrix).length
+  })
+
+  return {
+    ...data,
+    data: {
+      value: { ...data.data.value, geography_segment_matrix: value },
+      volume: { ...data.data.volume, geography_segment_matrix: volume }
+    }
+  }
+}
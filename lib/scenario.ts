@@ -0,0 +1,196 @@
+/**
+ * Scenarios
+ * What-if overrides of the forecast for any geography/segment node, re-projected after the base year:
+ * - 'cagr' replaces the node's growth: each forecast year becomes base-year value × (1 + CAGR)^(years since base)
+ * - 'shock' scales the node's values by a percentage from a chosen forecast year on (e.g. -10% from 2027)
+ * - The node's descendants are scaled by the same yearly ratio, and every record that contains part of the node
+ *   (parent segments, parent geographies) moves by the same amount, so roll-ups stay consistent
+ * - Volumes are scaled with values, so prices are held
+ * Adjustments apply in order to the rolled-up source data; saved scenarios are kept in localStorage
+ */
+
+import type { ComparisonData, DataRecord, Metadata } from './types'
+import { getGeographyHierarchy, getRecordIndex, recordKey } from './record-index'
+import { getGeographyLineage, type GeographyHierarchy } from './geography-hierarchy'
+import { calculateGrowthMetrics } from './data-processor'
+
+export type ScenarioAdjustmentKind = 'cagr' | 'shock'
+
+export interface ScenarioAdjustment {
+  geography: string
+  segmentType: string
+  segment: string
+  kind: ScenarioAdjustmentKind
+  value: number // CAGR in % a year for 'cagr', change in % for 'shock'
+  fromYear: number | null // First shocked year, null for the first year after the base year
+}
+
+export interface Scenario {
+  name: string
+  adjustments: ScenarioAdjustment[]
+}
+
+const SCENARIOS_STORAGE_KEY = 'savedScenarios'
+
+const SEGMENT_SEPARATOR = ' > '
+
+// Segment path is the same as, or below, another path
+function isSegmentWithin(segment: string, ancestor: string): boolean {
+  return segment === ancestor || segment.startsWith(ancestor + SEGMENT_SEPARATOR)
+}
+
+/**
+ * Short description of an adjustment, e.g. "CAGR 12%" or "Shock -10% from 2027"
+ */
+export function describeAdjustment(adjustment: ScenarioAdjustment, metadata: Pick<Metadata, 'base_year'>): string {
+  if (adjustment.kind === 'cagr') return `CAGR ${adjustment.value}% from ${metadata.base_year}`
+  const sign = adjustment.value > 0 ? '+' : ''
+  return `Shock ${sign}${adjustment.value}% from ${adjustment.fromYear ?? metadata.base_year + 1}`
+}
+
+// Ratio of the scenario to the base value for each year after the base year; years left out are unchanged
+function getAdjustmentRatios(record: DataRecord, adjustment: ScenarioAdjustment, metadata: Metadata): Record<number, number> {
+  const ratios: Record<number, number> = {}
+  const baseValue = record.time_series[metadata.base_year] || 0
+  const fromYear = Math.max(adjustment.fromYear ?? metadata.base_year + 1, metadata.base_year + 1)
+
+  metadata.years.forEach(year => {
+    if (year <= metadata.base_year) return
+    if (adjustment.kind === 'shock') {
+      if (year >= fromYear) ratios[year] = 1 + adjustment.value / 100
+      return
+    }
+    const current = record.time_series[year] || 0
+    if (current <= 0) return // Nothing to scale
+    ratios[year] = (baseValue * Math.pow(1 + adjustment.value / 100, year - metadata.base_year)) / current
+  })
+  return ratios
+}
+
+// Key of the part a record shares with the adjusted node, or null when they do not overlap
+function getOverlapKey(
+  record: DataRecord,
+  adjustment: ScenarioAdjustment,
+  hierarchy: GeographyHierarchy,
+  nodeLineage: string[]
+): string | null {
+  if (record.segment_type !== adjustment.segmentType) return null
+
+  let geography: string
+  if (nodeLineage.includes(record.geography)) geography = adjustment.geography
+  else if (getGeographyLineage(hierarchy, record.geography).includes(adjustment.geography)) geography = record.geography
+  else return null
+
+  let segment: string
+  if (isSegmentWithin(adjustment.segment, record.segment)) segment = adjustment.segment
+  else if (isSegmentWithin(record.segment, adjustment.segment)) segment = record.segment
+  else return null
+
+  return recordKey(geography, record.segment_type, segment)
+}
+
+function withCAGR(record: DataRecord, timeSeries: Record<number, number>, metadata: Metadata): DataRecord {
+  const cagr = calculateGrowthMetrics(
+    timeSeries[metadata.base_year] || 0,
+    timeSeries[metadata.forecast_year] || 0,
+    metadata.forecast_year - metadata.base_year
+  ).cagr
+  return { ...record, time_series: timeSeries, cagr }
+}
+
+// Scale the node and its descendants, then move every record containing part of them by the same amount
+function adjustRecords(
+  records: DataRecord[],
+  adjustment: ScenarioAdjustment,
+  ratios: Record<number, number>,
+  hierarchy: GeographyHierarchy,
+  metadata: Metadata
+): DataRecord[] {
+  const nodeLineage = getGeographyLineage(hierarchy, adjustment.geography)
+  const overlaps = records.map(record => getOverlapKey(record, adjustment, hierarchy, nodeLineage))
+  const deltas = new Map<string, Record<number, number>>()
+  const adjusted = [...records]
+
+  records.forEach((record, position) => {
+    const key = overlaps[position]
+    if (key !== recordKey(record.geography, record.segment_type, record.segment)) return
+    const timeSeries = { ...record.time_series }
+    const delta: Record<number, number> = {}
+    Object.entries(ratios).forEach(([year, ratio]) => {
+      const old = timeSeries[Number(year)] || 0
+      timeSeries[Number(year)] = old * ratio
+      delta[Number(year)] = old * ratio - old
+    })
+    deltas.set(key, delta)
+    adjusted[position] = withCAGR(record, timeSeries, metadata)
+  })
+
+  records.forEach((record, position) => {
+    const key = overlaps[position]
+    if (!key || adjusted[position] !== record) return
+    const delta = deltas.get(key)
+    if (!delta) return // The overlapping part has no record of its own
+    const timeSeries = { ...record.time_series }
+    Object.entries(delta).forEach(([year, change]) => {
+      timeSeries[Number(year)] = (timeSeries[Number(year)] || 0) + change
+    })
+    adjusted[position] = withCAGR(record, timeSeries, metadata)
+  })
+
+  return adjusted
+}
+
+/**
+ * Apply a scenario's adjustments to the value and volume records
+ * Adjustments whose node has no value record are skipped
+ */
+export function applyScenario(data: ComparisonData, scenario: Scenario): ComparisonData {
+  const { metadata } = data
+  let value = data.data.value.geography_segment_matrix
+  let volume = data.data.volume.geography_segment_matrix
+  const hierarchy = getGeographyHierarchy(getRecordIndex(value), data.dimensions.geographies)
+  let applied = 0
+
+  scenario.adjustments.forEach(adjustment => {
+    const position = getRecordIndex(value).byRecordKey.get(
+      recordKey(adjustment.geography, adjustment.segmentType, adjustment.segment)
+    )
+    if (position === undefined) return
+    const ratios = getAdjustmentRatios(value[position], adjustment, metadata)
+    value = adjustRecords(value, adjustment, ratios, hierarchy, metadata)
+    volume = adjustRecords(volume, adjustment, ratios, hierarchy, metadata)
+    applied++
+  })
+
+  console.log('🧪 Scenario applied:', { name: scenario.name, adjustments: applied, skipped: scenario.adjustments.length - applied })
+
+  return {
+    ...data,
+    data: {
+      ...data.data,
+      value: { ...data.data.value, geography_segment_matrix: value },
+      volume: { ...data.data.volume, geography_segment_matrix: volume }
+    }
+  }
+}
+
+/**
+ * Load saved scenarios
+ */
+export function loadSavedScenarios(): Scenario[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const saved = localStorage.getItem(SCENARIOS_STORAGE_KEY)
+    return saved ? (JSON.parse(saved) as Scenario[]) : []
+  } catch (error) {
+    console.error('Error loading saved scenarios:', error)
+    return []
+  }
+}
+
+/**
+ * Save scenarios for the next visit
+ */
+export function saveScenarios(scenarios: Scenario[]): void {
+  localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios))
+}
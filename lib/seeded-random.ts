@@ -0,0 +1,20 @@
+/**
+ * Seeded Random
+ * The one pseudo-random generator for generated data, so the same seed always gives the same numbers
+ * - Used by the synthetic and demo datasets, the Monte Carlo paths and the fallback customer and company data
+ */
+
+/**
+ * Seeded pseudo-random generator (mulberry32), returning values in [0, 1)
+ * Long period, so large load-testing fixtures do not repeat
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
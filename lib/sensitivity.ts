@@ -0,0 +1,157 @@
+/**
+ * Sensitivity Analysis
+ * Which nodes drive the uncertainty in the forecast-year market size shown by the KPI cards:
+ * - Each node's CAGR from the base year is moved down and up by the same number of percentage points,
+ *   re-projecting its forecast-year value the way a scenario CAGR override does
+ * - Nodes are the global geography's segments at a chosen level of the segment tree, or its child
+ *   geographies, whose top-level segments all move by the same points
+ * - Scenario overrides keep roll-ups consistent, so the market size moves by exactly the node's own change;
+ *   no scenario needs to be applied per node
+ * Results are sorted by swing (high minus low), largest first, for a tornado chart
+ */
+
+import type { ComparisonData, DataRecord } from './types'
+import { getGeographyHierarchy, getRecordIndex } from './record-index'
+import { findGeography } from './geography-hierarchy'
+import { getMarketSizeRecords } from './data-processor'
+
+export type SensitivityDimension = 'segment' | 'geography'
+
+export const SENSITIVITY_DIMENSION_LABELS: Record<SensitivityDimension, string> = {
+  segment: 'Segments',
+  geography: 'Geographies'
+}
+
+export interface SensitivityResult {
+  node: string // Segment or geography name
+  detail: string // Segment type, or the number of segments moved for a geography
+  baseCagr: number // % a year, from the base to the forecast year
+  baseValue: number // Node's forecast-year value
+  lowImpact: number // Change in the market size with the CAGR lowered, usually negative
+  highImpact: number // Change in the market size with the CAGR raised
+  swing: number // highImpact - lowImpact
+}
+
+export interface SensitivityAnalysis {
+  geography: string // Geography whose market size is measured
+  baseYear: number
+  forecastYear: number
+  change: number // Percentage points the CAGRs were moved by
+  marketSize: number // Forecast-year market size, as on the KPI cards
+  results: SensitivityResult[]
+}
+
+const SEGMENT_SEPARATOR = ' > '
+
+interface NodeChange {
+  low: number
+  high: number
+  cagr: number
+}
+
+// Forecast-year change of one record with its CAGR moved by ± change points, or null without a positive base
+function getRecordChange(record: DataRecord, change: number, baseYear: number, forecastYear: number): NodeChange | null {
+  const base = record.time_series[baseYear] || 0
+  const forecast = record.time_series[forecastYear] || 0
+  const years = forecastYear - baseYear
+  if (base <= 0 || years <= 0) return null
+
+  const growth = Math.pow(Math.max(forecast, 0) / base, 1 / years) - 1
+  const project = (rate: number) => base * Math.pow(Math.max(1 + rate, 0), years)
+  return {
+    low: project(growth - change / 100) - forecast,
+    high: project(growth + change / 100) - forecast,
+    cagr: growth * 100
+  }
+}
+
+// Level of a segment in its tree, 1 for top-level segments
+function getSegmentLevel(record: DataRecord): number {
+  return record.segment.split(SEGMENT_SEPARATOR).length
+}
+
+/**
+ * Deepest segment level of the global geography's records, for picking the level to analyse
+ */
+export function getMaxSegmentLevel(data: ComparisonData): number {
+  return getMarketSizeRecords(data).reduce((max, record) => Math.max(max, getSegmentLevel(record)), 1)
+}
+
+/**
+ * Move each node's CAGR by ± change percentage points and measure the forecast-year market size
+ * Segment nodes are taken at segmentLevel (1 for top-level segments); geography nodes ignore it
+ * Returns null when the data has no global geography records, as the KPI cards then show nothing
+ */
+export function runSensitivityAnalysis(
+  data: ComparisonData,
+  dimension: SensitivityDimension,
+  change: number,
+  segmentLevel: number = 1
+): SensitivityAnalysis | null {
+  const marketRecords = getMarketSizeRecords(data)
+  if (marketRecords.length === 0) return null
+
+  const { base_year: baseYear, forecast_year: forecastYear } = data.metadata
+  const geography = marketRecords[0].geography
+  const marketSize = marketRecords.reduce((sum, record) => sum + (record.time_series[forecastYear] || 0), 0)
+  const records = data.data.value.geography_segment_matrix
+  const results: SensitivityResult[] = []
+
+  if (dimension === 'segment') {
+    records
+      .filter(record => record.geography === geography && getSegmentLevel(record) === segmentLevel)
+      .forEach(record => {
+        const nodeChange = getRecordChange(record, change, baseYear, forecastYear)
+        if (!nodeChange) return
+        results.push({
+          node: record.segment,
+          detail: record.segment_type,
+          baseCagr: nodeChange.cagr,
+          baseValue: record.time_series[forecastYear] || 0,
+          lowImpact: nodeChange.low,
+          highImpact: nodeChange.high,
+          swing: nodeChange.high - nodeChange.low
+        })
+      })
+  } else {
+    const index = getRecordIndex(records)
+    const hierarchy = getGeographyHierarchy(index, data.dimensions.geographies)
+    const canonical = findGeography(hierarchy, geography) ?? geography
+    const children = (hierarchy.childrenOf.get(canonical) ?? []).filter(child => index.byGeography.has(child))
+
+    children.forEach(child => {
+      const segments = (index.byGeography.get(child) ?? [])
+        .map(position => index.records[position])
+        .filter(record => getSegmentLevel(record) === 1)
+      let low = 0
+      let high = 0
+      let base = 0
+      let forecast = 0
+      let moved = 0
+      segments.forEach(record => {
+        const nodeChange = getRecordChange(record, change, baseYear, forecastYear)
+        if (!nodeChange) return
+        low += nodeChange.low
+        high += nodeChange.high
+        base += record.time_series[baseYear] || 0
+        forecast += record.time_series[forecastYear] || 0
+        moved++
+      })
+      if (moved === 0) return
+      results.push({
+        node: child,
+        detail: `${moved} segment${moved !== 1 ? 's' : ''}`,
+        baseCagr: (Math.pow(Math.max(forecast, 0) / base, 1 / (forecastYear - baseYear)) - 1) * 100,
+        baseValue: forecast,
+        lowImpact: low,
+        highImpact: high,
+        swing: high - low
+      })
+    })
+  }
+
+  results.sort((a, b) => b.swing - a.swing)
+  console.log('🌪️ Sensitivity analysis:', { dimension, change, segmentLevel, nodes: results.length, marketSize })
+
+  return { geography, baseYear, forecastYear, change, marketSize, results }
+}
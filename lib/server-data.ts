@@ -0,0 +1,93 @@
+/**
+ * Server Data
+ * Loads the dashboard dataset inside API route handlers
+ * Mirrors createMockData(): a market's workbook in /public wins, otherwise generated data is used
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ComparisonData, DataRecord, FilterState } from './types'
+import { parseMarketWorkbook } from './excel-importer'
+import { generateGuaranteedWorkingData } from './mock-data'
+import { generateSyntheticData } from './synthetic-data'
+import { validateComparisonData, assertValidData } from './data-validator'
+import { rollUpData } from './rollup'
+import { derivePriceData } from './price'
+import { DATASET_REGISTRY_URL, DEFAULT_DATASETS, type MarketDataset } from './dataset-registry'
+
+const cachedData = new Map<string, Promise<ComparisonData>>()
+
+function publicPath(url: string): string {
+  return path.join(process.cwd(), 'public', url)
+}
+
+/**
+ * Read the dataset registry from /public, falling back to DEFAULT_DATASETS
+ */
+export async function loadServerDatasets(): Promise<MarketDataset[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(publicPath(DATASET_REGISTRY_URL), 'utf8'))
+    const datasets: MarketDataset[] = Array.isArray(parsed?.datasets)
+      ? parsed.datasets.filter((entry: MarketDataset) => typeof entry?.id === 'string' && typeof entry?.name === 'string')
+      : []
+    return datasets.length > 0 ? datasets : DEFAULT_DATASETS
+  } catch {
+    return DEFAULT_DATASETS
+  }
+}
+
+async function readWorkbook(url: string): Promise<ComparisonData | null> {
+  const filePath = publicPath(url)
+  let buffer: Buffer
+  try {
+    buffer = await fs.readFile(filePath)
+  } catch (error) {
+    console.error(`❌ Market workbook ${filePath} could not be read, serving generated data instead:`, error)
+    return null
+  }
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+  return parseMarketWorkbook(arrayBuffer)
+}
+
+async function loadData(dataset: MarketDataset): Promise<ComparisonData> {
+  let data = dataset.workbookUrl ? await readWorkbook(dataset.workbookUrl) : null
+  if (!data && dataset.synthetic) {
+    data = generateSyntheticData({ ...dataset.synthetic, marketName: dataset.name })
+  }
+  if (!data) {
+    data = generateGuaranteedWorkingData()
+    data.metadata.market_name = dataset.name
+  }
+  assertValidData('comparison', validateComparisonData(data))
+  data = derivePriceData(rollUpData(data))
+  console.log('✅ Server dataset loaded:', {
+    market: data.metadata.market_name,
+    valueRecords: data.data.value.geography_segment_matrix.length,
+    volumeRecords: data.data.volume.geography_segment_matrix.length,
+    priceRecords: data.data.price?.geography_segment_matrix.length ?? 0
+  })
+  return data
+}
+
+/**
+ * Load a market's data once per server process
+ */
+export function loadServerData(dataset: MarketDataset): Promise<ComparisonData> {
+  let pending = cachedData.get(dataset.id)
+  if (!pending) {
+    pending = loadData(dataset).catch(error => {
+      // Allow the next request to retry
+      cachedData.delete(dataset.id)
+      throw error
+    })
+    cachedData.set(dataset.id, pending)
+  }
+  return pending
+}
+
+/**
+ * Records for the data type selected in the filters
+ */
+export function getDataset(data: ComparisonData, filters: FilterState): DataRecord[] {
+  return data.data[filters.dataType]?.geography_segment_matrix ?? []
+}
@@ -2,14 +2,44 @@ import { create } from 'zustand'
 import type { FilterState, ComparisonData } from './types'
 import type { ChartGroupId } from './chart-groups'
 import { DEFAULT_CHART_GROUP } from './chart-groups'
+import type { DataSourceId, ValidationIssue } from './data-validator'
+import type { MarketDataset } from './dataset-registry'
+import { findDataset, getUnavailableChartGroups } from './dataset-registry'
+import { getRecordIndex, getGeographyHierarchy } from './record-index'
+import { resolveGeographies } from './geography-hierarchy'
+import { rollUpData, isSegmentRollup } from './rollup'
+import type { CurrencySettings } from './currency'
+import { convertComparisonData, loadSavedCurrencySettings, saveCurrencySettings } from './currency'
+import type { NumberFormatSettings } from './number-format'
+import { rescaleVolumeData, loadSavedNumberFormat, saveNumberFormat } from './number-format'
+import { derivePriceData } from './price'
+import type { Scenario } from './scenario'
+import { applyScenario, loadSavedScenarios, saveScenarios } from './scenario'
+import type { SimulationSettings } from './monte-carlo'
+import { loadSavedSimulationSettings, saveSimulationSettings } from './monte-carlo'
+import type { FilterHistory } from './filter-history'
+import { createFilterHistory, pushHistory } from './filter-history'
+import { getDefaultFilters } from './filter-params'
 
 interface DashboardStore {
-  data: ComparisonData | null
-  filteredData: any[] // Will hold filtered records
+  data: ComparisonData | null // Loaded data in the reporting currency and display volume unit
+  sourceData: ComparisonData | null // Loaded data with values as sourced
+  scenarioData: ComparisonData | null // Display data with the active scenario applied, null without one
+  activeScenario: Scenario | null
+  scenarios: Scenario[] // Saved scenarios
+  currency: CurrencySettings
+  numberFormat: NumberFormatSettings
+  simulation: SimulationSettings // Monte Carlo uncertainty bands for the line chart and KPI cards
+  unmatchedGeographies: string[] // Selected geography names not found in the loaded data
   filters: FilterState
   isLoading: boolean
   error: string | null
   selectedChartGroup: ChartGroupId
+  validationIssues: Partial<Record<DataSourceId, ValidationIssue[]>> // Issues found by the data validator, per source
+  datasets: MarketDataset[] // Markets from the dataset registry
+  activeDatasetId: string | null
+  chartLoading: Record<string, boolean> // Charts waiting on the chart pipeline, keyed by chart id
+  history: FilterHistory // Undo/redo stack of filters and chart group
   
   // Actions
   setData: (data: ComparisonData) => void
@@ -18,80 +48,94 @@ interface DashboardStore {
   setError: (error: string | null) => void
   resetFilters: () => void
   setSelectedChartGroup: (groupId: ChartGroupId) => void
+  applyView: (view: { filters?: Partial<FilterState>; chartGroup?: ChartGroupId }, label: string) => void // One history entry
+  undo: () => void
+  redo: () => void
+  goToHistory: (index: number) => void
+  setValidationIssues: (source: DataSourceId, issues: ValidationIssue[]) => void
+  setDatasets: (datasets: MarketDataset[]) => void
+  setActiveDataset: (datasetId: string) => void
+  setChartLoading: (chartId: string, loading: boolean) => void
+  setCurrencySettings: (settings: Partial<CurrencySettings>) => void
+  setNumberFormat: (settings: Partial<NumberFormatSettings>) => void
+  setSimulationSettings: (settings: Partial<SimulationSettings>) => void
+  setActiveScenario: (scenario: Scenario | null) => void
+  saveScenario: (scenario: Scenario) => void
+  deleteScenario: (name: string) => void
 }
 
-// Helper function to get default filters based on data
-function getDefaultFilters(data: ComparisonData | null): FilterState {
-  // Get first segment type from dimensions, or use fallback
-  const firstSegmentType = data?.dimensions?.segments 
-    ? Object.keys(data.dimensions.segments)[0] 
-    : 'By Drug Class'
-  
-  // Get year range from metadata, or use defaults
-  const startYear = data?.metadata?.start_year || 2020
-  const baseYear = data?.metadata?.base_year || 2024
-  const forecastYear = data?.metadata?.forecast_year || 2032
-  
-  // Set default geographies - empty for segment-mode, Delhi and Haryana for geography-mode
-  let defaultGeographies: string[] = []
-  // For segment-mode, we want to focus on segments across time, not specific geographies
-  // So we keep geographies empty by default
-  
-  // Set default segments based on segment type
-  let defaultSegments: string[] = []
-  if (data?.dimensions?.segments && firstSegmentType) {
-    const segmentDef = data.dimensions.segments[firstSegmentType]
-    
-    if (segmentDef) {
-      if (segmentDef.type === 'flat' && segmentDef.items && segmentDef.items.length > 0) {
-        // For flat structures, select only the first item (lowest level)
-        defaultSegments = [segmentDef.items[0]]
-      } else if (segmentDef.type === 'hierarchical' && firstSegmentType === 'By End-Use*Product Type') {
-        // Set default to just B2B > Food & Beverage to ensure we match data
-        defaultSegments = [
-          'B2B > Food & Beverage'
-        ]
-      } else if (segmentDef.type === 'hierarchical' && segmentDef.hierarchy) {
-        // For other hierarchical structures, get first few leaf items
-        const hierarchy = segmentDef.hierarchy
-        const allItems: string[] = []
-        
-        // Get all leaf items from hierarchy
-        Object.entries(hierarchy).forEach(([key, values]) => {
-          values.forEach(value => {
-            if (!hierarchy[value]) {
-              // This is a leaf item
-              allItems.push(`${key} > ${value}`)
-            }
-          })
-        })
-        
-        // Select only the first leaf item (lowest level)
-        defaultSegments = allItems.length > 0 ? [allItems[0]] : []
-      }
-    }
-  }
-  
+// Source data as shown: values in the reporting currency, volumes in the display unit,
+// and prices derived from both
+function toDisplayData(sourceData: ComparisonData, currency: CurrencySettings, numberFormat: NumberFormatSettings) {
+  return derivePriceData(rescaleVolumeData(convertComparisonData(sourceData, currency), numberFormat.volumeUnit))
+}
+
+// Display data with a scenario's adjustments applied to the source data, or null without a scenario
+function toScenarioData(
+  sourceData: ComparisonData | null,
+  scenario: Scenario | null,
+  currency: CurrencySettings,
+  numberFormat: NumberFormatSettings
+) {
+  if (!sourceData || !scenario) return null
+  return toDisplayData(applyScenario(sourceData, scenario), currency, numberFormat)
+}
+
+// Filters and chart group of a history entry, re-applied without adding an entry
+function restoreHistory(data: ComparisonData | null, history: FilterHistory, index: number) {
+  const entry = history.entries[index]
   return {
-    geographies: [], // Show all geographies by default
-    segments: ['B2B > Food & Beverage'], // Start with a broader segment
-    segmentType: firstSegmentType,
-    yearRange: [startYear, forecastYear], // Show all years
-    dataType: 'value',
-    viewMode: 'segment-mode',
-    businessType: 'B2B',
+    ...applyFilters(data, entry.filters),
+    selectedChartGroup: entry.chartGroup,
+    history: { ...history, index }
   }
 }
 
+// Resolve the selected geographies to the names used in the data; charts filter the records
+// themselves through the chart pipeline
+function applyFilters(data: ComparisonData | null, selected: FilterState) {
+  const records = data?.data[selected.dataType]?.geography_segment_matrix
+  if (!data || !records) {
+    return { filters: selected, unmatchedGeographies: [] as string[] }
+  }
+
+  const hierarchy = getGeographyHierarchy(getRecordIndex(records), data.dimensions.geographies)
+  const { resolved, unmatched } = resolveGeographies(hierarchy, selected.geographies)
+  const geographies = Array.from(new Set(selected.geographies.map(name => resolved.get(name) ?? name)))
+  const changed = geographies.length !== selected.geographies.length ||
+    geographies.some((name, i) => name !== selected.geographies[i])
+  const filters = changed
+    ? { ...selected, geographies }
+    : selected
+
+  return { filters, unmatchedGeographies: unmatched }
+}
+
 export const useDashboardStore = create<DashboardStore>((set, get) => ({
   data: null,
-  filteredData: [],
+  sourceData: null,
+  scenarioData: null,
+  activeScenario: null,
+  scenarios: loadSavedScenarios(),
+  currency: loadSavedCurrencySettings(),
+  numberFormat: loadSavedNumberFormat(),
+  simulation: loadSavedSimulationSettings(),
+  unmatchedGeographies: [],
   filters: getDefaultFilters(null),
   isLoading: false,
   error: null,
   selectedChartGroup: DEFAULT_CHART_GROUP,
+  validationIssues: {},
+  datasets: [],
+  activeDatasetId: null,
+  chartLoading: {},
+  history: createFilterHistory(getDefaultFilters(null), DEFAULT_CHART_GROUP),
   
-  setData: (data) => {
+  setData: (loaded) => {
+    // Fill in parent segment and region/global records missing from the source
+    const sourceData = rollUpData(loaded)
+    const data = toDisplayData(sourceData, get().currency, get().numberFormat)
+
     // Update filters when data is set with default selections
     const defaultFilters = getDefaultFilters(data)
     
@@ -102,25 +146,20 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
       const segmentType = defaultFilters.segmentType
       const businessType = defaultFilters.businessType
       
-      // Filter records by segment type and business type
-      const matchingRecords = records.filter(record => {
-        if (record.segment_type !== segmentType) return false
-        
-        // Check business type
-        if (segmentType === 'By End-Use*Product Type') {
-          const segmentParts = record.segment.split(' > ')
-          if (segmentParts.length > 0 && (segmentParts[0] === 'B2B' || segmentParts[0] === 'B2C')) {
-            return segmentParts[0] === businessType
-          }
-        } else {
-          const recordBusinessType = record.segment_hierarchy?.level_1
-          if (recordBusinessType === 'B2B' || recordBusinessType === 'B2C') {
-            return recordBusinessType === businessType
-          }
-        }
-        
-        return true
-      })
+      // Build the record indexes up front so the first filter is fast
+      const index = getRecordIndex(records)
+      if (data.data.volume?.geography_segment_matrix) {
+        getRecordIndex(data.data.volume.geography_segment_matrix)
+      }
+      
+      // Records of the segment type that are in (or have no) business type
+      const matchingRecords = (index.bySegmentType.get(segmentType) ?? [])
+        .filter(position => {
+          const recordBusinessType = index.businessTypes[position]
+          if (isSegmentRollup(records[position])) return false
+          return !recordBusinessType || recordBusinessType === businessType
+        })
+        .map(position => records[position])
       
       // Get unique segments, select TWO at the lowest (leaf) level for segment-mode
       const uniqueSegments = Array.from(new Set(matchingRecords.map(r => r.segment)))
@@ -150,24 +189,32 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
       }
     }
     
+    const filters: FilterState = {
+      ...get().filters,
+      segmentType: defaultFilters.segmentType,
+      yearRange: defaultFilters.yearRange,
+      geographies: defaultFilters.geographies,
+      segments: finalSegments,
+      businessType: defaultFilters.businessType,
+    }
+    
+    // A new dataset starts a new history
+    const applied = applyFilters(data, filters)
     set({ 
       data, 
+      sourceData,
+      scenarioData: toScenarioData(sourceData, get().activeScenario, get().currency, get().numberFormat),
       error: null,
-      filters: {
-        ...get().filters,
-        segmentType: defaultFilters.segmentType,
-        yearRange: defaultFilters.yearRange,
-        geographies: defaultFilters.geographies,
-        segments: finalSegments,
-        businessType: defaultFilters.businessType,
-      }
+      history: createFilterHistory(applied.filters, get().selectedChartGroup),
+      ...applied
     })
   },
   
   updateFilters: (newFilters) => 
-    set((state) => ({
-      filters: { ...state.filters, ...newFilters }
-    })),
+    set((state) => {
+      const applied = applyFilters(state.data, { ...state.filters, ...newFilters })
+      return { ...applied, history: pushHistory(state.history, applied.filters, state.selectedChartGroup) }
+    }),
   
   setLoading: (loading) => set({ isLoading: loading }),
   
@@ -175,9 +222,118 @@ export const useDashboardStore = create<DashboardStore>((set, get) => ({
   
   resetFilters: () => {
     const currentData = get().data
-    set({ filters: getDefaultFilters(currentData) })
+    const applied = applyFilters(currentData, getDefaultFilters(currentData))
+    set({ ...applied, history: pushHistory(get().history, applied.filters, get().selectedChartGroup, 'Reset filters') })
   },
   
-  setSelectedChartGroup: (groupId) => set({ selectedChartGroup: groupId }),
+  setSelectedChartGroup: (groupId) =>
+    set((state) => ({
+      selectedChartGroup: groupId,
+      history: pushHistory(state.history, state.filters, groupId)
+    })),
+
+  applyView: (view, label) =>
+    set((state) => {
+      const applied = applyFilters(state.data, { ...state.filters, ...view.filters })
+      const selectedChartGroup = view.chartGroup ?? state.selectedChartGroup
+      return { ...applied, selectedChartGroup, history: pushHistory(state.history, applied.filters, selectedChartGroup, label) }
+    }),
+
+  undo: () => {
+    const { data, history } = get()
+    if (history.index > 0) set(restoreHistory(data, history, history.index - 1))
+  },
+
+  redo: () => {
+    const { data, history } = get()
+    if (history.index < history.entries.length - 1) set(restoreHistory(data, history, history.index + 1))
+  },
+
+  goToHistory: (index) => {
+    const { data, history } = get()
+    if (index >= 0 && index < history.entries.length && index !== history.index) set(restoreHistory(data, history, index))
+  },
+  
+  setValidationIssues: (source, issues) =>
+    set((state) => ({
+      validationIssues: { ...state.validationIssues, [source]: issues }
+    })),
+  
+  setDatasets: (datasets) => {
+    const active = findDataset(datasets, get().activeDatasetId)
+    set({ datasets, activeDatasetId: active?.id ?? null })
+  },
+  
+  setActiveDataset: (datasetId) => {
+    const dataset = findDataset(get().datasets, datasetId)
+    if (!dataset) return
+    // Fall back to the default group when the new market has no data for the current one
+    const selectedChartGroup = getUnavailableChartGroups(dataset).includes(get().selectedChartGroup)
+      ? DEFAULT_CHART_GROUP
+      : get().selectedChartGroup
+    set({ activeDatasetId: dataset.id, selectedChartGroup, validationIssues: {} })
+  },
+  
+  setChartLoading: (chartId, loading) => {
+    if (!!get().chartLoading[chartId] === loading) return
+    set((state) => ({
+      chartLoading: { ...state.chartLoading, [chartId]: loading }
+    }))
+  },
+  
+  setCurrencySettings: (settings) => {
+    const currency = { ...get().currency, ...settings }
+    saveCurrencySettings(currency)
+    const sourceData = get().sourceData
+    const data = sourceData ? toDisplayData(sourceData, currency, get().numberFormat) : null
+    const scenarioData = toScenarioData(sourceData, get().activeScenario, currency, get().numberFormat)
+    set({ currency, data, scenarioData, ...applyFilters(data, get().filters) })
+  },
+  
+  setNumberFormat: (settings) => {
+    const numberFormat = { ...get().numberFormat, ...settings }
+    saveNumberFormat(numberFormat)
+    if (numberFormat.volumeUnit === get().numberFormat.volumeUnit) {
+      set({ numberFormat })
+      return
+    }
+    const sourceData = get().sourceData
+    const data = sourceData ? toDisplayData(sourceData, get().currency, numberFormat) : null
+    const scenarioData = toScenarioData(sourceData, get().activeScenario, get().currency, numberFormat)
+    set({ numberFormat, data, scenarioData, ...applyFilters(data, get().filters) })
+  },
+
+  setSimulationSettings: (settings) => {
+    const simulation = { ...get().simulation, ...settings }
+    saveSimulationSettings(simulation)
+    set({ simulation })
+  },
+
+  setActiveScenario: (scenario) => {
+    const active = scenario && scenario.adjustments.length > 0 ? scenario : null
+    set({
+      activeScenario: active,
+      scenarioData: toScenarioData(get().sourceData, active, get().currency, get().numberFormat)
+    })
+  },
+
+  saveScenario: (scenario) => {
+    const scenarios = [...get().scenarios.filter(saved => saved.name !== scenario.name), scenario]
+    saveScenarios(scenarios)
+    set({ scenarios })
+  },
+
+  deleteScenario: (name) => {
+    const scenarios = get().scenarios.filter(saved => saved.name !== name)
+    saveScenarios(scenarios)
+    set({ scenarios })
+  },
 }))
 
+/**
+ * Currently selected market from the dataset registry
+ */
+export function selectActiveDataset(state: Pick<DashboardStore, 'datasets' | 'activeDatasetId'>): MarketDataset | null {
+  return findDataset(state.datasets, state.activeDatasetId)
+}
+
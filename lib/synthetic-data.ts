@@ -0,0 +1,353 @@
+/**
+ * Synthetic Data Generator
+ * Builds a complete ComparisonData set from a seed, so demo numbers are identical on every run
+ * Runs in the browser (datasets with `synthetic` settings) and in Node (scripts/generate-data.ts)
+ */
+
+import type {
+  ComparisonData,
+  DataRecord,
+  GeographyDimension,
+  SegmentDimension,
+  SegmentHierarchy
+} from './types'
+import { createSeededRandom } from './seeded-random'
+
+export interface SyntheticDataOptions {
+  seed: number
+  geographyCount: number // Total geographies, including the country total
+  hierarchyDepth: number // Segment path depth, counting the B2B / B2C level
+  branching: number // Children per segment below the B2B / B2C level
+  startYear: number
+  baseYear: number // Last historical year
+  forecastYear: number
+  marketName: string
+  segmentType: string
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticDataOptions = {
+  seed: 42,
+  geographyCount: 10,
+  hierarchyDepth: 4,
+  branching: 3,
+  startYear: 2020,
+  baseYear: 2024,
+  forecastYear: 2032,
+  marketName: 'India Spices Market',
+  segmentType: 'By End-Use*Product Type'
+}
+
+export const MAX_HIERARCHY_DEPTH = 6
+
+const BUSINESS_TYPES = ['B2B', 'B2C']
+
+// Names used at each segment level below B2B / B2C; deeper levels reuse the last pool
+const SEGMENT_NAME_POOLS: string[][] = [
+  [
+    'Food & Beverage', 'Food & Beverage Processing', 'Non-Food Industrial',
+    'Household / Retail Consumption', 'Home-Based / Micro Food Businesses', 'Institutional Catering'
+  ],
+  [
+    'Foodservice / HoReCa', 'Packaged Foods', 'Meat & Poultry Processing', 'Ready-to-Eat / Ready-to-Cook Meals',
+    'Pharmaceuticals & Ayurveda', 'Nutraceuticals & Dietary Supplements', 'Modern Trade', 'General Trade'
+  ],
+  ['Single / Individual Spices', 'Blended / Mixed Spices', 'Seasonings & Flavour Mixes', 'Spice Derivatives & Extracts'],
+  [
+    'Chilli', 'Turmeric', 'Coriander', 'Cumin', 'Black Pepper', 'Green Cardamom', 'Clove', 'Cinnamon',
+    'Fennel', 'Fenugreek Seed', 'Mustard Seed', 'Dry Ginger', 'Garam Masala Blends', 'Biryani Masala Blends',
+    'Chaat Masala Blends', 'Sambar Masala Blends', 'Tandoori Masala Blends', 'Pickle Masala Blends'
+  ]
+]
+
+const COUNTRY_NAME = 'India'
+
+// Regions in the order they are added, with their states
+const REGION_STATES: Array<[string, string[]]> = [
+  ['North India', ['Delhi', 'Uttar Pradesh', 'Punjab', 'Haryana', 'Rajasthan', 'Uttarakhand', 'Himachal Pradesh', 'Jammu & Kashmir']],
+  ['South India', ['Tamil Nadu', 'Karnataka', 'Kerala', 'Andhra Pradesh', 'Telangana']],
+  ['West India', ['Maharashtra', 'Gujarat', 'Goa']],
+  ['East India', ['West Bengal', 'Odisha', 'Bihar', 'Jharkhand']],
+  ['Central India', ['Madhya Pradesh', 'Chhattisgarh']],
+  ['North-East India', ['Assam', 'Meghalaya', 'Tripura', 'Manipur', 'Nagaland']]
+]
+
+function clampInteger(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value)))
+}
+
+/**
+ * Fill in defaults and clamp options to values the generator supports
+ */
+export function normalizeSyntheticOptions(options: Partial<SyntheticDataOptions> = {}): SyntheticDataOptions {
+  const merged = { ...DEFAULT_SYNTHETIC_OPTIONS, ...options }
+  const startYear = Math.round(merged.startYear)
+  const forecastYear = Math.max(startYear + 1, Math.round(merged.forecastYear))
+  return {
+    ...merged,
+    seed: Math.round(merged.seed),
+    geographyCount: clampInteger(merged.geographyCount, 1, 10000),
+    hierarchyDepth: clampInteger(merged.hierarchyDepth, 1, MAX_HIERARCHY_DEPTH),
+    branching: clampInteger(merged.branching, 1, 50),
+    startYear,
+    baseYear: clampInteger(merged.baseYear, startYear, forecastYear),
+    forecastYear
+  }
+}
+
+/**
+ * Number of value (or volume) records the options will produce
+ */
+export function estimateRecordCount(options: Partial<SyntheticDataOptions> = {}): number {
+  const { geographyCount, hierarchyDepth, branching } = normalizeSyntheticOptions(options)
+  return geographyCount * BUSINESS_TYPES.length * Math.pow(branching, hierarchyDepth - 1)
+}
+
+function pickNames(pool: string[], count: number, random: () => number): string[] {
+  // Seeded shuffle, then number the names once the pool runs out
+  const shuffled = [...pool]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const name = shuffled[i % shuffled.length]
+    return i < shuffled.length ? name : `${name} ${Math.floor(i / shuffled.length) + 1}`
+  })
+}
+
+function buildSegmentPaths(depth: number, branching: number, random: () => number): string[][] {
+  let paths = BUSINESS_TYPES.map(type => [type])
+  for (let level = 1; level < depth; level++) {
+    const pool = SEGMENT_NAME_POOLS[Math.min(level - 1, SEGMENT_NAME_POOLS.length - 1)]
+    paths = paths.flatMap(path => pickNames(pool, branching, random).map(name => [...path, name]))
+  }
+  return paths
+}
+
+function buildSegmentDimension(paths: string[][]): SegmentDimension {
+  const items = new Set<string>()
+  const hierarchy: Record<string, string[]> = {}
+  const subtrees: Record<string, Record<string, string[]>> = { B2B: {}, B2C: {} }
+
+  paths.forEach(path => {
+    path.forEach((name, i) => {
+      items.add(name)
+      if (i === 0) return
+      const parent = path[i - 1]
+      ;[hierarchy, subtrees[path[0]]].forEach(map => {
+        map[parent] = map[parent] || []
+        if (!map[parent].includes(name)) map[parent].push(name)
+      })
+    })
+  })
+
+  return {
+    type: paths.some(path => path.length > 1) ? 'hierarchical' : 'flat',
+    items: Array.from(items),
+    hierarchy,
+    b2b_hierarchy: subtrees.B2B,
+    b2c_hierarchy: subtrees.B2C,
+    b2b_items: paths.filter(path => path[0] === 'B2B').map(path => path.join(' > ')),
+    b2c_items: paths.filter(path => path[0] === 'B2C').map(path => path.join(' > '))
+  }
+}
+
+function buildGeographies(count: number): GeographyDimension {
+  const regionCount = Math.min(REGION_STATES.length, Math.ceil((count - 1) / 4))
+  const regions = REGION_STATES.slice(0, regionCount)
+  const countries: Record<string, string[]> = {}
+  regions.forEach(([region]) => { countries[region] = [] })
+
+  // Deal real states out to regions in turn, then number extra ones
+  let remaining = count - 1 - regionCount
+  const unused = regions.map(([, states]) => [...states])
+  while (remaining > 0 && unused.some(states => states.length > 0)) {
+    regions.forEach(([region], i) => {
+      if (remaining > 0 && unused[i].length > 0) {
+        countries[region].push(unused[i].shift()!)
+        remaining--
+      }
+    })
+  }
+  for (let i = 0; remaining > 0; i++, remaining--) {
+    const [region] = regions[i % regions.length]
+    countries[region].push(`${region} State ${countries[region].length + 1}`)
+  }
+
+  const regionNames = regions.map(([region]) => region)
+  return {
+    global: [COUNTRY_NAME],
+    regions: regionNames,
+    countries,
+    all_geographies: [COUNTRY_NAME, ...regionNames.flatMap(region => [region, ...countries[region]])]
+  }
+}
+
+function buildHierarchy(path: string[]): SegmentHierarchy {
+  return {
+    level_1: path[0] || '',
+    level_2: path[1] || '',
+    level_3: path[2] || '',
+    level_4: path[3] || path[path.length - 1] || ''
+  }
+}
+
+function calculateCAGR(startValue: number, endValue: number, periods: number): number {
+  if (startValue <= 0 || periods <= 0) return 0
+  return (Math.pow(endValue / startValue, 1 / periods) - 1) * 100
+}
+
+function sumSeries(series: Record<number, number>[], years: number[]): Record<number, number> {
+  const total: Record<number, number> = {}
+  years.forEach(year => {
+    total[year] = series.reduce((sum, s) => sum + (s[year] || 0), 0)
+  })
+  return total
+}
+
+/**
+ * Generate a full dataset from options; the same options always give the same data
+ */
+export function generateSyntheticData(options: Partial<SyntheticDataOptions> = {}): ComparisonData {
+  const settings = normalizeSyntheticOptions(options)
+  const { startYear, baseYear, forecastYear, segmentType } = settings
+  const random = createSeededRandom(settings.seed)
+  const between = (min: number, max: number) => min + random() * (max - min)
+
+  const years = Array.from({ length: forecastYear - startYear + 1 }, (_, i) => startYear + i)
+  const paths = buildSegmentPaths(settings.hierarchyDepth, settings.branching, random)
+  const geographies = buildGeographies(settings.geographyCount)
+
+  // Per-segment traits shared by every geography
+  const segmentTraits = paths.map(() => ({
+    weight: between(0.3, 1.7),
+    growth: between(3, 10), // % per year
+    price: between(0.5, 3), // Value per unit of volume in the base year
+    priceGrowth: between(1, 4) // % per year
+  }))
+
+  // Leaf geographies get their own series; their parents are the sums
+  const parentOf = new Map<string, string | null>([[COUNTRY_NAME, null]])
+  geographies.regions.forEach(region => {
+    parentOf.set(region, COUNTRY_NAME)
+    geographies.countries[region].forEach(state => parentOf.set(state, region))
+  })
+  const childrenOf = new Map<string, string[]>()
+  parentOf.forEach((parent, geography) => {
+    if (parent) childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), geography])
+  })
+
+  const valueSeries = new Map<string, Record<number, number>[]>()
+  const leafGeographies = geographies.all_geographies.filter(geography => !childrenOf.has(geography))
+  leafGeographies.forEach(geography => {
+    const geographyWeight = between(0.4, 1.6)
+    const geographyGrowth = between(-1.5, 1.5)
+    valueSeries.set(geography, paths.map((_, s) => {
+      const traits = segmentTraits[s]
+      const growth = Math.max(0.5, traits.growth + geographyGrowth + between(-1, 1)) / 100
+      const startValue = 40 * geographyWeight * traits.weight * between(0.7, 1.3)
+      const series: Record<number, number> = {}
+      years.forEach(year => {
+        if (year <= baseYear) {
+          // Historical years wobble around the trend
+          series[year] = startValue * Math.pow(1 + growth, year - startYear) * between(0.96, 1.04)
+        } else {
+          series[year] = series[baseYear] * Math.pow(1 + growth, year - baseYear)
+        }
+      })
+      return series
+    }))
+  })
+
+  // Roll states up to regions and regions up to the country, deepest level first
+  const depthOf = (geography: string): number => {
+    const parent = parentOf.get(geography)
+    return parent ? depthOf(parent) + 1 : 0
+  }
+  ;[...childrenOf.keys()]
+    .sort((a, b) => depthOf(b) - depthOf(a))
+    .forEach(parent => {
+      const children = childrenOf.get(parent)!.map(child => valueSeries.get(child)!)
+      valueSeries.set(parent, paths.map((_, s) => sumSeries(children.map(child => child[s]), years)))
+    })
+
+  const valueRecords: DataRecord[] = []
+  const volumeRecords: DataRecord[] = []
+  const cagrPeriods = forecastYear - baseYear
+
+  geographies.all_geographies.forEach(geography => {
+    const geographyLevel = geography === COUNTRY_NAME ? 'global'
+      : geographies.regions.includes(geography) ? 'region' : 'country'
+    const seriesList = valueSeries.get(geography)!
+    const volumeList = seriesList.map((series, s) => {
+      const { price, priceGrowth } = segmentTraits[s]
+      const volume: Record<number, number> = {}
+      years.forEach(year => {
+        volume[year] = series[year] / (price * Math.pow(1 + priceGrowth / 100, year - startYear))
+      })
+      return volume
+    })
+    const valueTotal = seriesList.reduce((sum, series) => sum + series[baseYear], 0)
+    const volumeTotal = volumeList.reduce((sum, series) => sum + series[baseYear], 0)
+
+    paths.forEach((path, s) => {
+      const base = {
+        geography,
+        geography_level: geographyLevel as DataRecord['geography_level'],
+        parent_geography: parentOf.get(geography) ?? null,
+        segment_type: segmentType,
+        segment: path.join(' > '),
+        segment_level: 'leaf' as const,
+        segment_hierarchy: buildHierarchy(path)
+      }
+      const value = seriesList[s]
+      const volume = volumeList[s]
+      valueRecords.push({
+        ...base,
+        time_series: value,
+        cagr: calculateCAGR(value[baseYear], value[forecastYear], cagrPeriods),
+        market_share: valueTotal > 0 ? (value[baseYear] / valueTotal) * 100 : 0
+      })
+      volumeRecords.push({
+        ...base,
+        segment_hierarchy: { ...base.segment_hierarchy },
+        time_series: volume,
+        cagr: calculateCAGR(volume[baseYear], volume[forecastYear], cagrPeriods),
+        market_share: volumeTotal > 0 ? (volume[baseYear] / volumeTotal) * 100 : 0
+      })
+    })
+  })
+
+  return {
+    metadata: {
+      market_name: settings.marketName,
+      market_type: 'Country',
+      industry: 'CMFE',
+      years,
+      start_year: startYear,
+      base_year: baseYear,
+      forecast_year: forecastYear,
+      historical_years: years.filter(year => year <= baseYear),
+      forecast_years: years.filter(year => year > baseYear),
+      currency: 'INR',
+      value_unit: 'Cr.',
+      volume_unit: 'Kilo Tons',
+      has_value: true,
+      has_volume: true
+    },
+    dimensions: {
+      geographies,
+      segments: {
+        [segmentType]: buildSegmentDimension(paths)
+      }
+    },
+    data: {
+      value: {
+        geography_segment_matrix: valueRecords
+      },
+      volume: {
+        geography_segment_matrix: volumeRecords
+      }
+    }
+  }
+}
@@ -15,6 +15,15 @@ export interface Metadata {
   volume_unit: string;
   has_value: boolean;
   has_volume: boolean;
+  conversion?: CurrencyConversion; // Set when values were converted from the source currency or unit
+  price_unit?: string; // Unit of the derived price records, e.g. "INR/kg"
+}
+
+export interface CurrencyConversion {
+  source_currency: string;
+  source_unit: string;
+  mode: 'average' | 'fixed'; // Each year's own rate, or one base year's rate for every year
+  fixed_year: number | null; // Year of the rate applied to every year in 'fixed' mode
 }
 
 export interface GeographyDimension {
@@ -22,6 +31,7 @@ export interface GeographyDimension {
   regions: string[];
   countries: Record<string, string[]>;
   all_geographies: string[];
+  aliases?: Record<string, string[]>; // Geography name -> other names it appears under (e.g. "West India (5 states)")
 }
 
 export interface SegmentDimension {
@@ -52,6 +62,13 @@ export interface DataRecord {
   time_series: Record<number, number>;
   cagr: number;
   market_share: number;
+  rollup?: RecordRollup; // Set on records synthesized by the roll-up stage
+  price_weights?: Record<number, number>; // Volume per year behind a derived price, for volume-weighted averages
+}
+
+export interface RecordRollup {
+  segment: boolean; // Sum of child segment paths (no source record for this segment)
+  geography: boolean; // Sum of child geographies (no source record for this geography)
 }
 
 export interface ComparisonData {
@@ -67,17 +84,29 @@ export interface ComparisonData {
     volume: {
       geography_segment_matrix: DataRecord[];
     };
+    price?: {
+      geography_segment_matrix: DataRecord[]; // Value ÷ volume, derived after load
+    };
   };
 }
 
+export type DataType = 'value' | 'volume' | 'price'; // 'price' is derived from value ÷ volume
+
+export type GrowthPeriodMode = 'selected' | 'historical' | 'forecast'; // Years CAGR and growth are measured over
+
+export type ShareReference = 'geography' | 'parent-segment' | 'business-type' | 'market'; // What market shares are taken of
+
 export interface FilterState {
   geographies: string[];
   segments: string[];
   segmentType: string;
   yearRange: [number, number];
-  dataType: 'value' | 'volume';
+  dataType: DataType;
   viewMode: 'segment-mode' | 'geography-mode' | 'matrix';
   businessType: 'B2B' | 'B2C';
+  includeDescendants: boolean; // Selecting a region or the global geography also selects everything below it
+  growthPeriod: GrowthPeriodMode; // The selected range, or only its historical or forecast years
+  shareReference: ShareReference; // Denominator of market shares in the table, bubble charts and insights
 }
 
 export interface ChartDataPoint {
@@ -0,0 +1,100 @@
+/**
+ * Script to generate seeded synthetic market data fixtures
+ * Run with: npm run generate:data -- --seed 42 --geographies 25 --depth 5 --out fixtures/demo.json
+ * The same options always produce the same file (see lib/synthetic-data.ts)
+ */
+
+import fs from 'fs'
+import path from 'path'
+import {
+  DEFAULT_SYNTHETIC_OPTIONS,
+  estimateRecordCount,
+  generateSyntheticData,
+  normalizeSyntheticOptions,
+  type SyntheticDataOptions
+} from '../lib/synthetic-data'
+
+// CLI flag -> generator option
+const NUMERIC_FLAGS: Record<string, keyof SyntheticDataOptions> = {
+  '--seed': 'seed',
+  '--geographies': 'geographyCount',
+  '--depth': 'hierarchyDepth',
+  '--branching': 'branching',
+  '--start-year': 'startYear',
+  '--base-year': 'baseYear',
+  '--end-year': 'forecastYear'
+}
+
+const USAGE = `Usage: npm run generate:data -- [options]
+
+  --seed <n>          Random seed (default ${DEFAULT_SYNTHETIC_OPTIONS.seed})
+  --geographies <n>   Number of geographies, including the country total (default ${DEFAULT_SYNTHETIC_OPTIONS.geographyCount})
+  --depth <n>         Segment hierarchy depth, counting B2B / B2C (default ${DEFAULT_SYNTHETIC_OPTIONS.hierarchyDepth})
+  --branching <n>     Children per segment below B2B / B2C (default ${DEFAULT_SYNTHETIC_OPTIONS.branching})
+  --start-year <n>    First year (default ${DEFAULT_SYNTHETIC_OPTIONS.startYear})
+  --base-year <n>     Last historical year (default ${DEFAULT_SYNTHETIC_OPTIONS.baseYear})
+  --end-year <n>      Forecast year (default ${DEFAULT_SYNTHETIC_OPTIONS.forecastYear})
+  --market <name>     Market name (default "${DEFAULT_SYNTHETIC_OPTIONS.marketName}")
+  --out <file>        Output file (default fixtures/synthetic-seed-<seed>.json)
+  --pretty            Indent the JSON output
+`
+
+function parseArgs(argv: string[]) {
+  const options: Partial<SyntheticDataOptions> = {}
+  let out: string | null = null
+  let pretty = false
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    if (flag === '--help' || flag === '-h') {
+      console.log(USAGE)
+      process.exit(0)
+    } else if (flag === '--pretty') {
+      pretty = true
+    } else if (flag === '--out') {
+      out = argv[++i]
+    } else if (flag === '--market') {
+      options.marketName = argv[++i]
+    } else if (NUMERIC_FLAGS[flag]) {
+      const value = Number(argv[++i])
+      if (!Number.isFinite(value)) {
+        throw new Error(`${flag} expects a number`)
+      }
+      ;(options as Record<string, number>)[NUMERIC_FLAGS[flag]] = value
+    } else {
+      throw new Error(`Unknown option: ${flag}`)
+    }
+  }
+
+  return { options, out, pretty }
+}
+
+function main() {
+  let args: ReturnType<typeof parseArgs>
+  try {
+    args = parseArgs(process.argv.slice(2))
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}\n`)
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const settings = normalizeSyntheticOptions(args.options)
+  const outPath = path.resolve(args.out ?? path.join('fixtures', `synthetic-seed-${settings.seed}.json`))
+
+  console.log('🚀 Generating synthetic data:', settings)
+  console.log(`📊 Expecting ${estimateRecordCount(settings)} value records and as many volume records`)
+
+  const data = generateSyntheticData(settings)
+  const json = JSON.stringify(data, null, args.pretty ? 2 : undefined)
+
+  fs.mkdirSync(path.dirname(outPath), { recursive: true })
+  fs.writeFileSync(outPath, json)
+
+  console.log('\n✅ Data generation complete!')
+  console.log(`📊 Total value records: ${data.data.value.geography_segment_matrix.length}`)
+  console.log(`📊 Total volume records: ${data.data.volume.geography_segment_matrix.length}`)
+  console.log(`📁 Data saved to: ${outPath} (${(json.length / 1024 / 1024).toFixed(2)} MB)`)
+}
+
+main()